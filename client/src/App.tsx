@@ -1,16 +1,124 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { trpc } from '@/utils/trpc';
-import type { User, Note, Folder, Tag, CreateNoteInput, LoginUserInput } from '../../server/src/schema';
+import { getSessionToken, setSessionToken, clearSessionToken } from '@/utils/session';
+import { getActiveWorkspaceId, setActiveWorkspaceId } from '@/utils/workspace';
+import { EMPTY_TAG_FILTER, isTagFilterActive, matchesTagFilter, type TagFilter } from '@/utils/tag_filter';
+import { fromSavedSearchQuery, toSavedSearchQuery, type NoteView } from '@/utils/saved_search';
+import { DEFAULT_NOTE_SORT, compareNotes, type NoteSort } from '@/utils/note_sort';
+import { getSearchQueryError } from '@/utils/search_syntax';
+import {
+  loadOfflineSnapshot,
+  saveNoteLocally,
+  enqueueMutation,
+  cacheUser,
+  getCachedUser,
+  clearOfflineStore,
+  hasSyncChanges,
+  mergeSyncedRecords,
+  mergeSyncedNoteTags,
+  type OfflineSnapshot,
+  type NoteTagSet
+} from '@/utils/offline_store';
+import {
+  syncWithServer,
+  countPendingMutations,
+  isNetworkError,
+  type SyncStatus,
+  type NoteMutation,
+  type NoteConflict,
+  type NoteText
+} from '@/utils/sync';
+import type {
+  PublicUser,
+  Note,
+  Folder,
+  Tag,
+  CreateNoteInput,
+  LoginUserInput,
+  SearchNoteResult,
+  SharedWithMe,
+  SharedNote,
+  UserWorkspace,
+  SavedSearch,
+  SavedSearchWithCount,
+  SyncResult,
+  NotesPage
+} from '../../server/src/schema';
 import { AuthForm } from '@/components/AuthForm';
 import { Sidebar } from '@/components/Sidebar';
 import { NoteEditor } from '@/components/NoteEditor';
 import { NoteList } from '@/components/NoteList';
+import { TrashView } from '@/components/TrashView';
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator';
 import { Button } from '@/components/ui/button';
 import { Moon, Sun, Menu, X } from 'lucide-react';
 
+// Pull changes made on other devices while the app stays open
+const SYNC_INTERVAL_MS = 30000;
+
+// Saved search counts refresh once note edits settle
+const SAVED_SEARCH_REFRESH_MS = 1000;
+
+const NOTE_PAGE_SIZE = 50;
+
+// The note list as loaded from the server, page by page
+interface NotePages {
+  notes: Note[];
+  nextCursor: string | null;
+}
+
+// Trashed items only appear in the trash view
+const activeNotes = (notes: Note[]): Note[] => notes
+  .filter((note: Note) => !note.deleted_at)
+  .sort((a: Note, b: Note) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+
+const activeFolders = (folders: Folder[]): Folder[] => folders
+  .filter((folder: Folder) => !folder.deleted_at)
+  .sort((a: Folder, b: Folder) => a.name.localeCompare(b.name));
+
+const sortTags = (tags: Tag[]): Tag[] => [...tags].sort((a: Tag, b: Tag) => a.name.localeCompare(b.name));
+
+// Synced changes to listed notes are shown where they are; trashed and
+// deleted notes leave the list
+const patchNotePages = (pages: NotePages | null, change: SyncResult): NotePages | null => {
+  if (!pages) return pages;
+
+  const changed = new Map(change.notes.map((note: Note) => [note.id, note]));
+  const removed = new Set(change.deleted.notes);
+  return {
+    ...pages,
+    notes: pages.notes
+      .filter((note: Note) => !removed.has(note.id) && !changed.get(note.id)?.deleted_at)
+      .map((note: Note) => changed.get(note.id) ?? note)
+  };
+};
+
+// Only a synced note the list doesn't show yet, or a listed one whose sort
+// value changed, can reorder the list
+const mayReorderNotePages = (pages: NotePages, synced: Note[], sort: NoteSort): boolean => {
+  const listed = new Set(pages.notes.map((note: Note) => note.id));
+  const compare = compareNotes(sort);
+  return synced.some((note: Note) => !note.deleted_at && !listed.has(note.id)) ||
+    pages.notes.some((note: Note, index: number) => index > 0 && compare(pages.notes[index - 1], note) > 0);
+};
+
+// A reloaded first page replaces the notes it now covers; the ones listed
+// after it stay, so the list keeps its place
+const mergeFirstPage = (pages: NotePages, page: NotesPage, sort: NoteSort): NotePages => {
+  if (!page.next_cursor) return { notes: page.notes, nextCursor: null };
+
+  const compare = compareNotes(sort);
+  const last = page.notes[page.notes.length - 1];
+  const reloaded = new Set(page.notes.map((note: Note) => note.id));
+  const rest = pages.notes
+    .filter((note: Note) => !reloaded.has(note.id) && compare(last, note) < 0)
+    .sort(compare);
+  return { notes: [...page.notes, ...rest], nextCursor: rest.length > 0 ? pages.nextCursor : page.next_cursor };
+};
+
 function App() {
   // Authentication state
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<PublicUser | null>(null);
   const [isAuthLoading, setIsAuthLoading] = useState(false);
 
   // UI state
@@ -21,43 +129,249 @@ function App() {
   const [notes, setNotes] = useState<Note[]>([]);
   const [folders, setFolders] = useState<Folder[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
+  const [noteTags, setNoteTags] = useState<NoteTagSet[]>([]);
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
+  const [sharedWithMe, setSharedWithMe] = useState<SharedWithMe>({ notes: [], folders: [] });
+  const [selectedSharedNote, setSelectedSharedNote] = useState<SharedNote | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  // Workspace state; null is the user's personal space
+  const [workspaces, setWorkspaces] = useState<UserWorkspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspace] = useState<string | null>(getActiveWorkspaceId);
+
   // Filter state
   const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
-  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<TagFilter>(EMPTY_TAG_FILTER);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchNoteResult[] | null>(null);
   const [showFavorites, setShowFavorites] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearchWithCount[]>([]);
+  const [noteSort, setNoteSort] = useState<NoteSort>(DEFAULT_NOTE_SORT);
+  // Null while the server can't be reached; the local copy is listed instead
+  const [notePages, setNotePages] = useState<NotePages | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Notes the last sync brought, which may call for the first page again
+  const [syncedNotes, setSyncedNotes] = useState<Note[]>([]);
+  const notePagesKey = useRef('');
+  const listedPages = useRef<NotePages | null>(null);
+
+  // Sync state
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('synced');
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [conflicts, setConflicts] = useState<NoteConflict[]>([]);
+
+  // Show the whole local copy, as read from the device
+  const showSnapshot = useCallback((snapshot: OfflineSnapshot) => {
+    const shownNotes = activeNotes(snapshot.notes);
+
+    setNotes(shownNotes);
+    setFolders(activeFolders(snapshot.folders));
+    setTags(sortTags(snapshot.tags));
+    setNoteTags(snapshot.noteTags);
+    setSelectedNote((prev: Note | null) =>
+      prev ? shownNotes.find((note: Note) => note.id === prev.id) ?? null : null
+    );
+  }, []);
+
+  // Apply what incremental syncs changed to the records already shown, which
+  // also keeps local edits made while the sync ran
+  const showSyncChanges = useCallback((changes: SyncResult[]) => {
+    changes.filter(hasSyncChanges).forEach((change: SyncResult) => {
+      setNotes((prev: Note[]) => activeNotes(mergeSyncedRecords(prev, change.notes, change.deleted.notes)));
+      setFolders((prev: Folder[]) => activeFolders(mergeSyncedRecords(prev, change.folders, change.deleted.folders)));
+      setTags((prev: Tag[]) => sortTags(mergeSyncedRecords(prev, change.tags, change.deleted.tags)));
+      setNoteTags((prev: NoteTagSet[]) => mergeSyncedNoteTags(prev, change));
+      setNotePages((prev: NotePages | null) => patchNotePages(prev, change));
+      setSelectedNote((prev: Note | null) => {
+        if (!prev || change.deleted.notes.includes(prev.id)) return null;
+        const changed = change.notes.find((note: Note) => note.id === prev.id);
+        return !changed ? prev : changed.deleted_at ? null : changed;
+      });
+    });
+  }, []);
+
+  // Push queued changes and pull the server's; failures leave the local copy in place
+  const syncNow = useCallback(async (userId: string) => {
+    setSyncStatus('syncing');
+    try {
+      const { snapshot, changes, conflicts: newConflicts } = await syncWithServer(userId);
+      if (snapshot) {
+        showSnapshot(snapshot);
+      } else {
+        showSyncChanges(changes);
+      }
+      setSyncStatus('synced');
+      // Listed notes are updated in place; the first page reloads only when
+      // the synced notes may change the order
+      if (snapshot || changes.some(hasSyncChanges)) {
+        setSyncedNotes(snapshot ? snapshot.notes : changes.flatMap((change: SyncResult) => change.notes));
+      }
+
+      // Shared notes aren't kept offline, so they're only fetched here
+      const shared = await trpc.getSharedWithMe.query({});
+      setSharedWithMe(shared);
+      setSelectedSharedNote((prev: SharedNote | null) =>
+        prev ? shared.notes.find((note: SharedNote) => note.id === prev.id) ?? null : null
+      );
+
+      // The latest conflict per note wins; each is shown when its note is open
+      if (newConflicts.length > 0) {
+        setConflicts((prev: NoteConflict[]) => [
+          ...prev.filter((c: NoteConflict) => !newConflicts.some((n: NoteConflict) => n.server.id === c.server.id)),
+          ...newConflicts
+        ]);
+      }
+    } catch (error) {
+      console.error('Sync failed:', error);
+      setSyncStatus(isNetworkError(error) ? 'offline' : 'error');
+    } finally {
+      setPendingChanges(await countPendingMutations());
+    }
+  }, [showSnapshot, showSyncChanges]);
+
+  // A workspace the user was removed from falls back to the personal space
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      const result = await trpc.getUserWorkspaces.query({});
+      setWorkspaces(result);
+
+      const activeId = getActiveWorkspaceId();
+      if (activeId && !result.some((workspace: UserWorkspace) => workspace.id === activeId)) {
+        setActiveWorkspaceId(null);
+        setActiveWorkspace(null);
+      }
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+    }
+  }, []);
+
+  // Saved searches need the server for their counts, so offline they keep the last list
+  const loadSavedSearches = useCallback(async (): Promise<SavedSearchWithCount[]> => {
+    try {
+      const result = await trpc.getSavedSearches.query({});
+      setSavedSearches(result);
+      return result;
+    } catch (error) {
+      console.error('Failed to load saved searches:', error);
+      return [];
+    }
+  }, []);
 
-  // Load user data
+  const showNoteView = useCallback((view: NoteView) => {
+    setSelectedFolder(view.folderId);
+    setTagFilter(view.tagFilter);
+    setSearchQuery(view.search);
+    setShowFavorites(view.favoritesOnly);
+    setShowTrash(false);
+  }, []);
+
+  // Load user data for the signed-in session, from the device first, then
+  // open the space's pinned saved search if there is one. The device copy is
+  // read once here; from then on syncs only download and apply what changed,
+  // so only the first sign-in on a device downloads every note.
   const loadUserData = useCallback(async (userId: string) => {
-    if (!userId) return;
-    
     setIsLoading(true);
     try {
-      const [userNotes, userFolders, userTags] = await Promise.all([
-        trpc.getUserNotes.query({ user_id: userId }),
-        trpc.getUserFolders.query({ user_id: userId }),
-        trpc.getUserTags.query({ user_id: userId })
-      ]);
-
-      setNotes(userNotes);
-      setFolders(userFolders);
-      setTags(userTags);
+      await loadWorkspaces();
+
+      const cached = await loadOfflineSnapshot(userId);
+      if (cached) {
+        showSnapshot(cached);
+        setIsLoading(false);
+      }
+
+      await syncNow(userId);
+
+      const pinned = (await loadSavedSearches()).find((search: SavedSearch) => search.is_default);
+      if (pinned) {
+        showNoteView(fromSavedSearchQuery(pinned.query));
+      }
     } catch (error) {
       console.error('Failed to load user data:', error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [showSnapshot, syncNow, loadWorkspaces, loadSavedSearches, showNoteView]);
+
+  // Queued changes go to the workspace they were made in, so they have to
+  // reach the server before another workspace is opened
+  const switchWorkspace = useCallback(async (userId: string, workspaceId: string | null) => {
+    if (workspaceId === getActiveWorkspaceId()) return;
+
+    await syncNow(userId);
+    if (await countPendingMutations() > 0) {
+      console.error('Cannot switch workspaces while changes are waiting to sync');
+      return;
+    }
+
+    setActiveWorkspaceId(workspaceId);
+    setActiveWorkspace(workspaceId);
+    setSelectedNote(null);
+    setSelectedSharedNote(null);
+    setSelectedFolder(null);
+    setTagFilter(EMPTY_TAG_FILTER);
+    setSavedSearches([]);
+    setConflicts([]);
+    await loadUserData(userId);
+  }, [syncNow, loadUserData]);
+
+  // Restore a previous session on page load
+  useEffect(() => {
+    if (!getSessionToken()) return;
+
+    const restoreSession = async () => {
+      setIsAuthLoading(true);
+      try {
+        const currentUser = await trpc.getCurrentUser.query();
+        setUser(currentUser);
+        await cacheUser(currentUser);
+        await loadUserData(currentUser.id);
+      } catch (error) {
+        // Without a connection the session can't be checked, so open the local copy
+        const cachedUser = isNetworkError(error) ? await getCachedUser() : null;
+        if (cachedUser) {
+          setUser(cachedUser);
+          await loadUserData(cachedUser.id);
+        } else {
+          console.error('Failed to restore session:', error);
+          clearSessionToken();
+        }
+      } finally {
+        setIsAuthLoading(false);
+      }
+    };
+
+    restoreSession();
+  }, [loadUserData]);
+
+  // Accept an invitation link (/?invite=...) once the user is signed in
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('invite');
+    if (!user || !token) return;
+
+    window.history.replaceState(null, '', window.location.pathname);
+    const acceptInvitation = async () => {
+      try {
+        const workspace = await trpc.acceptWorkspaceInvitation.mutate({ token });
+        await loadWorkspaces();
+        await switchWorkspace(user.id, workspace.id);
+      } catch (error) {
+        console.error('Failed to accept invitation:', error);
+      }
+    };
+
+    acceptInvitation();
+  }, [user, loadWorkspaces, switchWorkspace]);
 
   // Handle login
   const handleLogin = async (loginData: LoginUserInput) => {
     setIsAuthLoading(true);
     try {
-      const loggedInUser = await trpc.loginUser.mutate(loginData);
+      const { user: loggedInUser, token } = await trpc.loginUser.mutate(loginData);
+      setSessionToken(token);
       setUser(loggedInUser);
+      await cacheUser(loggedInUser);
       await loadUserData(loggedInUser.id);
     } catch (error) {
       console.error('Login failed:', error);
@@ -67,71 +381,396 @@ function App() {
     }
   };
 
-  // Handle note creation
-  const handleCreateNote = async (noteData: CreateNoteInput) => {
+  // Handle logout
+  const handleLogout = async () => {
+    try {
+      await trpc.logoutUser.mutate();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    } finally {
+      clearSessionToken();
+      setActiveWorkspaceId(null);
+      setActiveWorkspace(null);
+      setWorkspaces([]);
+      setUser(null);
+      setNotes([]);
+      setFolders([]);
+      setTags([]);
+      setNoteTags([]);
+      setSelectedNote(null);
+      setSharedWithMe({ notes: [], folders: [] });
+      setSelectedSharedNote(null);
+      setSavedSearches([]);
+      await clearOfflineStore().catch((error: unknown) => console.error('Failed to clear offline data:', error));
+    }
+  };
+
+  // Only one of the user's notes or a shared note is open at a time
+  const selectNote = (note: Note | null) => {
+    setSelectedSharedNote(null);
+    setSelectedNote(note);
+  };
+
+  const selectSharedNote = (note: SharedNote) => {
+    setSelectedNote(null);
+    setSelectedSharedNote(note);
+  };
+
+  // Apply a note change on the device right away and queue it for the server
+  const queueNoteChange = async (mutation: NoteMutation, localNote: Note, tagIds?: string[]) => {
     if (!user) return;
 
     try {
-      const newNote = await trpc.createNote.mutate(noteData);
-      setNotes((prev: Note[]) => [newNote, ...prev]);
-      setSelectedNote(newNote);
+      await saveNoteLocally(localNote, tagIds);
+      await enqueueMutation(mutation);
+      setPendingChanges(await countPendingMutations());
     } catch (error) {
-      console.error('Failed to create note:', error);
+      console.error(`Failed to queue ${mutation.type}:`, error);
+      return;
     }
+
+    await syncNow(user.id);
+  };
+
+  // Handle note creation
+  const handleCreateNote = async (noteData: Omit<CreateNoteInput, 'user_id'>) => {
+    if (!user) return;
+
+    // The id is picked here so the note can be opened before the server has it
+    const now = new Date();
+    const newNote: Note = {
+      id: crypto.randomUUID(),
+      title: noteData.title,
+      content: noteData.content,
+      markdown_content: noteData.markdown_content ?? null,
+      user_id: user.id,
+      workspace_id: activeWorkspaceId,
+      folder_id: noteData.folder_id ?? null,
+      is_favorite: false,
+      // The server puts new notes last; the sync brings the actual position
+      position: notes.reduce((highest: number, existing: Note) => Math.max(highest, existing.position), 0) + 1,
+      deleted_at: null,
+      created_at: now,
+      updated_at: now
+    };
+
+    setNotes((prev: Note[]) => [newNote, ...prev]);
+    setNotePages((prev: NotePages | null) => prev && { ...prev, notes: [newNote, ...prev.notes] });
+    selectNote(newNote);
+    await queueNoteChange(
+      { type: 'createNote', input: { ...noteData, id: newNote.id }, local_updated_at: now },
+      newNote,
+      noteData.tag_ids ?? []
+    );
   };
 
   // Handle note update
   const handleUpdateNote = async (noteId: string, updates: Partial<Note>) => {
+    const existing = notes.find((note: Note) => note.id === noteId);
+    if (!existing) return;
+
+    // updated_at stays the server's until the sync brings the new copy, since
+    // text edits send it along to detect changes made in another tab
+    const updatedNote: Note = { ...existing, ...updates };
+
+    setNotes((prev: Note[]) =>
+      prev.map((note: Note) => note.id === noteId ? updatedNote : note)
+    );
+
+    if (selectedNote?.id === noteId) {
+      setSelectedNote(updatedNote);
+    }
+
+    const editsText = updates.title !== undefined || updates.content !== undefined;
+    const mutation: NoteMutation = editsText
+      ? {
+        type: 'updateNote',
+        input: { id: noteId, ...updates, expected_updated_at: existing.updated_at },
+        base: { title: existing.title, content: existing.content }
+      }
+      : { type: 'updateNote', input: { id: noteId, ...updates } };
+
+    // Renaming rewrites [[links]] in other notes; the sync after the update picks those up
+    await queueNoteChange(mutation, updatedNote);
+  };
+
+  // Move a note one place up or down the manually sorted list. The server
+  // shifts the notes in between, including ones the current filters hide, and
+  // the sync brings the new positions
+  const handleMoveNote = async (noteId: string, offset: -1 | 1) => {
     if (!user) return;
 
+    const from = filteredNotes.findIndex((note: Note) => note.id === noteId);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= filteredNotes.length) return;
+
+    const other = filteredNotes[to].id;
+    setNotePages((prev: NotePages | null) => prev && {
+      ...prev,
+      notes: prev.notes.map((note: Note) => note.id === noteId ? filteredNotes[to] : note.id === other ? filteredNotes[from] : note)
+    });
+
     try {
-      const updatedNote = await trpc.updateNote.mutate({
+      await trpc.moveNote.mutate({ id: noteId, target_id: other });
+    } catch (error) {
+      console.error('Failed to move note:', error);
+    }
+    await syncNow(user.id);
+  };
+
+  // Edits to someone else's note go straight to the server, since shared
+  // notes have no offline copy to queue them against
+  const handleUpdateSharedNote = async (noteId: string, updates: Partial<Note>) => {
+    const existing = sharedWithMe.notes.find((note: SharedNote) => note.id === noteId);
+    if (!existing) return;
+
+    try {
+      const saved = await trpc.updateNote.mutate({
         id: noteId,
-        ...updates
+        title: updates.title,
+        content: updates.content,
+        expected_updated_at: existing.updated_at
       });
-      
-      setNotes((prev: Note[]) => 
-        prev.map((note: Note) => note.id === noteId ? updatedNote : note)
-      );
-      
-      if (selectedNote?.id === noteId) {
-        setSelectedNote(updatedNote);
-      }
+      replaceSharedNote({ ...existing, ...saved });
+    } catch (error) {
+      console.error('Failed to update shared note:', error);
+      throw error;
+    }
+  };
+
+  const replaceSharedNote = (updated: SharedNote) => {
+    setSharedWithMe((prev: SharedWithMe) => ({
+      ...prev,
+      notes: prev.notes.map((note: SharedNote) => note.id === updated.id ? updated : note)
+    }));
+    setSelectedSharedNote((prev: SharedNote | null) => prev?.id === updated.id ? updated : prev);
+  };
+
+  // Settle a rejected edit: null keeps the server copy, otherwise the chosen
+  // text is written on top of the version shown in the merge dialog
+  const handleResolveConflict = async (conflict: NoteConflict, resolution: NoteText | null) => {
+    setConflicts((prev: NoteConflict[]) => prev.filter((c: NoteConflict) => c !== conflict));
+    if (!resolution) return;
+
+    const existing = notes.find((note: Note) => note.id === conflict.server.id) ?? conflict.server;
+    await queueNoteChange(
+      {
+        type: 'updateNote',
+        input: { id: existing.id, ...resolution, expected_updated_at: conflict.server.updated_at },
+        base: { title: conflict.server.title, content: conflict.server.content }
+      },
+      { ...existing, ...resolution }
+    );
+  };
+
+  // A live editing session was saved by the server; keep the list and the
+  // offline copy current so a later autosave starts from that version
+  const handleCollabSaved = async (noteId: string, saved: Pick<Note, 'content' | 'updated_at'>) => {
+    const shared = sharedWithMe.notes.find((note: SharedNote) => note.id === noteId);
+    if (shared) {
+      replaceSharedNote({ ...shared, ...saved });
+      return;
+    }
+
+    const existing = notes.find((note: Note) => note.id === noteId);
+    if (!existing) return;
+
+    const savedNote: Note = { ...existing, ...saved };
+    setNotes((prev: Note[]) =>
+      prev.map((note: Note) => note.id === noteId ? { ...note, ...saved } : note)
+    );
+    setSelectedNote((prev: Note | null) => prev?.id === noteId ? { ...prev, ...saved } : prev);
+
+    try {
+      await saveNoteLocally(savedNote);
     } catch (error) {
-      console.error('Failed to update note:', error);
+      console.error('Failed to cache saved note:', error);
+    }
+  };
+
+  // Replace a note after a server-side change such as restoring a revision
+  const handleNoteRestored = (restoredNote: Note) => {
+    const shared = sharedWithMe.notes.find((note: SharedNote) => note.id === restoredNote.id);
+    if (shared) {
+      replaceSharedNote({ ...shared, ...restoredNote });
+      return;
+    }
+
+    setNotes((prev: Note[]) =>
+      prev.map((note: Note) => note.id === restoredNote.id ? restoredNote : note)
+    );
+
+    if (selectedNote?.id === restoredNote.id) {
+      setSelectedNote(restoredNote);
+    }
+  };
+
+  // Open a note from a [[link]] or the backlinks panel
+  const handleOpenNote = (noteId: string) => {
+    const target = notes.find((note: Note) => note.id === noteId);
+    if (target) {
+      selectNote(target);
+      return;
+    }
+
+    const sharedTarget = sharedWithMe.notes.find((note: SharedNote) => note.id === noteId);
+    if (sharedTarget) {
+      selectSharedNote(sharedTarget);
     }
   };
 
   // Handle note deletion
   const handleDeleteNote = async (noteId: string) => {
+    const existing = notes.find((note: Note) => note.id === noteId);
+    if (!existing) return;
+
+    const now = new Date();
+    setNotes((prev: Note[]) => prev.filter((note: Note) => note.id !== noteId));
+    setNotePages((prev: NotePages | null) => prev && { ...prev, notes: prev.notes.filter((note: Note) => note.id !== noteId) });
+
+    if (selectedNote?.id === noteId) {
+      setSelectedNote(null);
+    }
+
+    await queueNoteChange({ type: 'deleteNote', input: { id: noteId } }, { ...existing, deleted_at: now, updated_at: now });
+  };
+
+  // Run full-text search on the server once typing settles
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!user || !query) {
+      setSearchResults(null);
+      return;
+    }
+
+    // The Sidebar shows the syntax error; keep the last results meanwhile
+    if (getSearchQueryError(query)) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await trpc.searchNotes.query({ query });
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error('Search failed:', error);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, user, notes]);
+
+  // Keep saved search counts in step with note changes
+  useEffect(() => {
     if (!user) return;
 
+    const timer = setTimeout(loadSavedSearches, SAVED_SEARCH_REFRESH_MS);
+    return () => clearTimeout(timer);
+  }, [user, notes, noteTags, loadSavedSearches]);
+
+  // The list filters as getNotesPage understands them; search goes through searchNotes instead
+  const notesPageQuery = useMemo(() => ({
+    ...toSavedSearchQuery({ folderId: selectedFolder, tagFilter, search: '', favoritesOnly: showFavorites }),
+    sort: noteSort.key,
+    direction: noteSort.direction
+  }), [selectedFolder, tagFilter, showFavorites, noteSort]);
+
+  useEffect(() => {
+    listedPages.current = notePages;
+  }, [notePages]);
+
+  // Load the first page when the filters change, and again after a sync that
+  // may have reordered the list
+  useEffect(() => {
+    if (!user || searchQuery.trim()) return;
+
+    const key = JSON.stringify([activeWorkspaceId, notesPageQuery]);
+    const isReload = key === notePagesKey.current;
+    notePagesKey.current = key;
+    if (isReload && listedPages.current && !mayReorderNotePages(listedPages.current, syncedNotes, noteSort)) return;
+
+    let cancelled = false;
+    const loadFirstPage = async () => {
+      try {
+        const page = await trpc.getNotesPage.query({ ...notesPageQuery, limit: NOTE_PAGE_SIZE });
+        if (cancelled) return;
+        setNotePages((prev: NotePages | null) => isReload && prev
+          ? mergeFirstPage(prev, page, noteSort)
+          : { notes: page.notes, nextCursor: page.next_cursor });
+      } catch (error) {
+        console.error('Failed to load notes:', error);
+        if (!cancelled) setNotePages(null);
+      }
+    };
+
+    loadFirstPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, activeWorkspaceId, notesPageQuery, noteSort, searchQuery, syncedNotes]);
+
+  const loadMoreNotes = useCallback(async () => {
+    if (!notePages?.nextCursor || isLoadingMore) return;
+
+    const key = notePagesKey.current;
+    setIsLoadingMore(true);
     try {
-      await trpc.deleteNote.mutate({
-        id: noteId,
-        user_id: user.id
-      });
-      
-      setNotes((prev: Note[]) => prev.filter((note: Note) => note.id !== noteId));
-      
-      if (selectedNote?.id === noteId) {
-        setSelectedNote(null);
+      const page = await trpc.getNotesPage.query({ ...notesPageQuery, cursor: notePages.nextCursor, limit: NOTE_PAGE_SIZE });
+      // Drop the page if the filters changed while it loaded
+      if (key === notePagesKey.current) {
+        // A reloaded first page may already hold some of these
+        setNotePages((prev: NotePages | null) => {
+          if (!prev) return prev;
+          const listed = new Set(prev.notes.map((note: Note) => note.id));
+          return { notes: [...prev.notes, ...page.notes.filter((note: Note) => !listed.has(note.id))], nextCursor: page.next_cursor };
+        });
       }
     } catch (error) {
-      console.error('Failed to delete note:', error);
+      console.error('Failed to load more notes:', error);
+    } finally {
+      setIsLoadingMore(false);
     }
-  };
+  }, [notePages, isLoadingMore, notesPageQuery]);
+
+  // Listed notes show their local copy, which may hold edits not synced yet
+  const localNotes = useMemo(() => new Map(notes.map((note: Note) => [note.id, note])), [notes]);
+  const listedNotes = searchResults
+    ?? notePages?.notes.map((note: Note) => localNotes.get(note.id) ?? note)
+    ?? [...notes].sort(compareNotes(noteSort));
 
-  // Filter notes based on current filters
-  const filteredNotes = notes.filter((note: Note) => {
+  // Filter notes based on current filters; search results keep their ranking
+  const filteredNotes = listedNotes.filter((note: Note) => {
     if (selectedFolder && note.folder_id !== selectedFolder) return false;
     if (showFavorites && !note.is_favorite) return false;
-    if (searchQuery && !note.title.toLowerCase().includes(searchQuery.toLowerCase()) && 
-        !note.content.toLowerCase().includes(searchQuery.toLowerCase())) return false;
-    // Note: Tag filtering would require note-tag relationships from backend
+    if (isTagFilterActive(tagFilter)) {
+      const tagIds = noteTags.find((set: NoteTagSet) => set.note_id === note.id)?.tag_ids ?? [];
+      if (!matchesTagFilter(tagIds, tagFilter, tags)) return false;
+    }
     return true;
   });
 
+  const activeWorkspace = workspaces.find((workspace: UserWorkspace) => workspace.id === activeWorkspaceId) ?? null;
+  const isViewer = activeWorkspace?.role === 'viewer';
+
+  // Replay queued changes as soon as the connection comes back
+  useEffect(() => {
+    if (!user) return;
+
+    const handleOnline = () => syncNow(user.id);
+    const handleOffline = () => setSyncStatus('offline');
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const timer = setInterval(() => syncNow(user.id), SYNC_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(timer);
+    };
+  }, [user, syncNow]);
+
   // Dark mode effect
   useEffect(() => {
     if (darkMode) {
@@ -187,14 +826,27 @@ function App() {
             folders={folders}
             tags={tags}
             selectedFolder={selectedFolder}
-            selectedTag={selectedTag}
+            tagFilter={tagFilter}
             searchQuery={searchQuery}
             showFavorites={showFavorites}
+            showTrash={showTrash}
             onFolderSelect={setSelectedFolder}
-            onTagSelect={setSelectedTag}
+            onTagFilterChange={setTagFilter}
             onSearchChange={setSearchQuery}
             onToggleFavorites={() => setShowFavorites(!showFavorites)}
-            onLogout={() => setUser(null)}
+            onToggleTrash={() => setShowTrash(!showTrash)}
+            onLogout={handleLogout}
+            onDataChanged={() => syncNow(user.id)}
+            sharedWithMe={sharedWithMe}
+            selectedNoteId={selectedSharedNote?.id ?? null}
+            onSharedNoteSelect={selectSharedNote}
+            workspaces={workspaces}
+            activeWorkspace={activeWorkspace}
+            onWorkspaceSwitch={(workspaceId: string | null) => switchWorkspace(user.id, workspaceId)}
+            onWorkspacesChanged={loadWorkspaces}
+            savedSearches={savedSearches}
+            onSavedSearchSelect={(search: SavedSearch) => showNoteView(fromSavedSearchQuery(search.query))}
+            onSavedSearchesChanged={loadSavedSearches}
           />
         </div>
 
@@ -218,6 +870,12 @@ function App() {
             </div>
 
             <div className="flex items-center gap-2">
+              <SyncStatusIndicator
+                status={syncStatus}
+                pendingChanges={pendingChanges}
+                onSync={() => syncNow(user.id)}
+              />
+
               <Button
                 variant="ghost"
                 size="sm"
@@ -234,47 +892,81 @@ function App() {
           </div>
 
           {/* Content area */}
-          <div className="flex-1 flex">
-            {/* Note list */}
-            <div className="w-80 border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
-              <NoteList
-                notes={filteredNotes}
-                selectedNote={selectedNote}
-                onNoteSelect={setSelectedNote}
-                onCreateNote={() => {
-                  if (user) {
-                    handleCreateNote({
-                      title: 'New Note',
-                      content: '',
-                      user_id: user.id,
-                      folder_id: selectedFolder
-                    });
-                  }
-                }}
-                onDeleteNote={handleDeleteNote}
-                isLoading={isLoading}
-              />
-            </div>
-
-            {/* Note editor */}
+          {showTrash ? (
             <div className="flex-1">
-              {selectedNote ? (
-                <NoteEditor
-                  note={selectedNote}
-                  onUpdateNote={handleUpdateNote}
-                  tags={tags}
+              <TrashView onRestored={() => syncNow(user.id)} />
+            </div>
+          ) : (
+            <div className="flex-1 flex">
+              {/* Note list */}
+              <div className="w-80 border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+                <NoteList
+                  notes={filteredNotes}
+                  selectedNote={selectedNote}
+                  onNoteSelect={selectNote}
+                  onCreateNote={() => {
+                    if (user) {
+                      handleCreateNote({
+                        title: 'New Note',
+                        content: '',
+                        folder_id: selectedFolder
+                      });
+                    }
+                  }}
+                  onDeleteNote={handleDeleteNote}
+                  onMoveNote={handleMoveNote}
+                  isLoading={isLoading}
+                  readOnly={isViewer}
+                  sort={searchResults ? undefined : noteSort}
+                  onSortChange={setNoteSort}
+                  hasMore={!searchResults && !!notePages?.nextCursor}
+                  isLoadingMore={isLoadingMore}
+                  onLoadMore={loadMoreNotes}
                 />
-              ) : (
-                <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
-                  <div className="text-center">
-                    <div className="text-6xl mb-4">📝</div>
-                    <div className="text-xl mb-2">Select a note to get started</div>
-                    <div className="text-sm">Or create a new one from the sidebar</div>
+              </div>
+
+              {/* Note editor */}
+              <div className="flex-1">
+                {selectedSharedNote ? (
+                  <NoteEditor
+                    note={selectedSharedNote}
+                    user={user}
+                    onUpdateNote={handleUpdateSharedNote}
+                    onCollabSaved={handleCollabSaved}
+                    onNoteRestored={handleNoteRestored}
+                    onOpenNote={handleOpenNote}
+                    notes={sharedWithMe.notes}
+                    tags={[]}
+                    conflict={null}
+                    onResolveConflict={handleResolveConflict}
+                    share={selectedSharedNote}
+                  />
+                ) : selectedNote ? (
+                  <NoteEditor
+                    note={selectedNote}
+                    user={user}
+                    onUpdateNote={handleUpdateNote}
+                    onCollabSaved={handleCollabSaved}
+                    onNoteRestored={handleNoteRestored}
+                    onOpenNote={handleOpenNote}
+                    notes={notes}
+                    tags={tags}
+                    conflict={conflicts.find((c: NoteConflict) => c.server.id === selectedNote.id) ?? null}
+                    onResolveConflict={handleResolveConflict}
+                    readOnly={isViewer}
+                  />
+                ) : (
+                  <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
+                    <div className="text-center">
+                      <div className="text-6xl mb-4">📝</div>
+                      <div className="text-xl mb-2">Select a note to get started</div>
+                      <div className="text-sm">Or create a new one from the sidebar</div>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Link2, FileText } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { Note } from '../../../server/src/schema';
+
+interface BacklinksPanelProps {
+  note: Note;
+  onOpenNote: (noteId: string) => void;
+}
+
+export function BacklinksPanel({ note, onOpenNote }: BacklinksPanelProps) {
+  const [backlinks, setBacklinks] = useState<Note[]>([]);
+
+  // Reload when switching notes or after this note is saved
+  useEffect(() => {
+    let cancelled = false;
+    const loadBacklinks = async () => {
+      try {
+        const result = await trpc.getBacklinks.query({ note_id: note.id });
+        if (!cancelled) setBacklinks(result);
+      } catch (error) {
+        console.error('Failed to load backlinks:', error);
+      }
+    };
+
+    loadBacklinks();
+    return () => {
+      cancelled = true;
+    };
+  }, [note.id, note.updated_at]);
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 px-4 py-3">
+      <div className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2 mb-2">
+        <Link2 className="h-4 w-4" />
+        Linked from
+        <span className="text-xs font-normal text-gray-500 dark:text-gray-400">({backlinks.length})</span>
+      </div>
+
+      {backlinks.length === 0 ? (
+        <div className="text-xs text-gray-400 dark:text-gray-500">
+          No notes link here yet - mention [[{note.title}]] in another note
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {backlinks.map((backlink: Note) => (
+            <Button
+              key={backlink.id}
+              variant="ghost"
+              size="sm"
+              onClick={() => onOpenNote(backlink.id)}
+              className="h-7 text-purple-600 dark:text-purple-400 hover:text-purple-700"
+            >
+              <FileText className="h-3 w-3 mr-1" />
+              <span className="truncate max-w-48">{backlink.title}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Upload, CheckCircle2, MinusCircle, XCircle } from 'lucide-react';
+import { uploadMarkdownImport, uploadEnexImport, getEnexNotebookName } from '@/utils/import';
+import type { ImportResult, ImportFileResult } from '../../../server/src/schema';
+
+export type ImportFormat = 'markdown' | 'enex';
+
+interface ImportDialogProps {
+  format: ImportFormat;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const FORMATS: Record<ImportFormat, {
+  title: string;
+  description: string;
+  accept: string;
+  multiple: boolean;
+  upload: (file: File) => Promise<ImportResult>;
+}> = {
+  markdown: {
+    title: 'Import Markdown',
+    description: 'Upload a ZIP of markdown files, such as an Obsidian vault. Directories become folders and ' +
+      'front matter tags become tags. Files imported before are skipped.',
+    accept: '.zip,application/zip',
+    multiple: false,
+    upload: uploadMarkdownImport
+  },
+  enex: {
+    title: 'Import from Evernote',
+    description: 'Upload one or more .enex notebook exports. Each notebook becomes a folder, and tags, dates ' +
+      'and attached files are kept. Notes imported before are skipped.',
+    accept: '.enex',
+    multiple: true,
+    upload: uploadEnexImport
+  }
+};
+
+const STATUS_ICONS: Record<ImportFileResult['status'], { icon: typeof CheckCircle2; className: string }> = {
+  created: { icon: CheckCircle2, className: 'text-green-500' },
+  skipped: { icon: MinusCircle, className: 'text-gray-400' },
+  failed: { icon: XCircle, className: 'text-red-500' }
+};
+
+// Files are uploaded one at a time so progress can be shown between them
+interface ImportProgress {
+  done: number;
+  total: number;
+  current: string;
+}
+
+export function ImportDialog({ format, open, onOpenChange, onImported }: ImportDialogProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [results, setResults] = useState<ImportFileResult[] | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { title, description, accept, multiple, upload } = FORMATS[format];
+
+  useEffect(() => {
+    if (open) {
+      setFiles([]);
+      setResults(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0) return;
+
+    const imported: ImportFileResult[] = [];
+    setResults(null);
+    setError(null);
+    try {
+      for (const [index, file] of files.entries()) {
+        setProgress({
+          done: index,
+          total: files.length,
+          current: format === 'enex' ? getEnexNotebookName(file) : file.name
+        });
+        try {
+          imported.push(...(await upload(file)).files);
+        } catch (err) {
+          console.error('Failed to import notes:', err);
+          if (files.length === 1) throw err;
+          // One bad notebook shouldn't stop the others
+          imported.push({
+            path: file.name,
+            status: 'failed',
+            note_id: null,
+            message: err instanceof Error ? err.message : 'Import failed'
+          });
+        }
+        setResults([...imported]);
+      }
+
+      if (imported.some((result: ImportFileResult) => result.status === 'created')) {
+        onImported();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const count = (status: ImportFileResult['status']) =>
+    (results ?? []).filter((result: ImportFileResult) => result.status === status).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5 text-purple-500" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleImport} className="flex gap-2">
+          <Input
+            type="file"
+            accept={accept}
+            multiple={multiple}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFiles(Array.from(e.target.files ?? []))}
+            className="flex-1"
+            required
+          />
+          <Button
+            type="submit"
+            disabled={files.length === 0 || progress !== null}
+            className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          >
+            {progress ? 'Importing...' : 'Import'}
+          </Button>
+        </form>
+
+        {progress && (
+          <div className="space-y-1">
+            <Progress value={(progress.done / progress.total) * 100} />
+            <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              {progress.total > 1 && `${progress.done + 1} of ${progress.total}: `}
+              Importing {progress.current}...
+            </div>
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        {results && (
+          <div className="space-y-2">
+            <div className="text-sm text-gray-700 dark:text-gray-300">
+              {count('created')} imported · {count('skipped')} skipped · {count('failed')} failed
+            </div>
+            <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+              {results.map((result: ImportFileResult, index: number) => {
+                const { icon: StatusIcon, className } = STATUS_ICONS[result.status];
+                return (
+                  <div key={index} className="flex items-start gap-2 text-xs">
+                    <StatusIcon className={`h-3.5 w-3.5 mt-0.5 shrink-0 ${className}`} />
+                    <div className="min-w-0">
+                      <div className="truncate text-gray-900 dark:text-gray-100">{result.path}</div>
+                      {result.message && (
+                        <div className="text-gray-500 dark:text-gray-400">{result.message}</div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { 
   Heart, 
   HeartOff, 
@@ -18,36 +19,194 @@ import {
   Heading,
   Code,
   Quote,
-  Hash
+  Hash,
+  History,
+  Radio,
+  Share2,
+  Users,
+  Globe,
+  FileDown,
+  FileText,
+  FileType
 } from 'lucide-react';
-import type { Note, Tag } from '../../../server/src/schema';
+import { NoteHistoryPanel } from '@/components/NoteHistoryPanel';
+import { BacklinksPanel } from '@/components/BacklinksPanel';
+import { NoteMergeDialog } from '@/components/NoteMergeDialog';
+import { ShareDialog } from '@/components/ShareDialog';
+import { PublicLinkDialog } from '@/components/PublicLinkDialog';
+import { uploadAttachment, attachmentMarkdown, findAttachmentIds, signAttachmentLinks } from '@/utils/attachments';
+import { trpc } from '@/utils/trpc';
+import { downloadNoteExport } from '@/utils/export';
+import type { NoteConflict, NoteText } from '@/utils/sync';
+import { joinNoteSession, type CollabPeer, type CollabSession, type CollabStatus, type TextSelection } from '@/utils/collab';
+import { getCaretCoordinates } from '@/utils/textarea_caret';
+import { renderMarkdown } from '../../../server/src/helpers/markdown';
+import type { Note, Tag, PublicUser, SharedNote, NoteExportFormat, SignedAttachmentUrl } from '../../../server/src/schema';
 
 interface NoteEditorProps {
   note: Note;
+  user: PublicUser;
   onUpdateNote: (noteId: string, updates: Partial<Note>) => void;
+  // The server saved the live editing session's text
+  onCollabSaved: (noteId: string, saved: Pick<Note, 'content' | 'updated_at'>) => void;
+  onNoteRestored: (note: Note) => void;
+  onOpenNote: (noteId: string) => void;
+  notes: Note[];
   tags: Tag[];
+  conflict: NoteConflict | null;
+  onResolveConflict: (conflict: NoteConflict, resolution: NoteText | null) => void;
+  // Set when the note belongs to someone else and is shared with the user
+  share?: Pick<SharedNote, 'permission' | 'owner_username'>;
+  // Set for workspace viewers
+  readOnly?: boolean;
 }
 
-export function NoteEditor({ note, onUpdateNote, tags }: NoteEditorProps) {
+export function NoteEditor({
+  note,
+  user,
+  onUpdateNote,
+  onCollabSaved,
+  onNoteRestored,
+  onOpenNote,
+  notes,
+  tags,
+  conflict,
+  onResolveConflict,
+  share,
+  readOnly = false
+}: NoteEditorProps) {
   const [title, setTitle] = useState(note.title);
   const [content, setContent] = useState(note.content);
   const [activeTab, setActiveTab] = useState('edit');
   const [hasChanges, setHasChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [linkQuery, setLinkQuery] = useState<string | null>(null);
+  const [linkSuggestionIndex, setLinkSuggestionIndex] = useState(0);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>('disconnected');
+  const [collabSaveError, setCollabSaveError] = useState<string | null>(null);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const [editorScrollTop, setEditorScrollTop] = useState(0);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isPublicLinkOpen, setIsPublicLinkOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [attachmentUrls, setAttachmentUrls] = useState<Map<string, SignedAttachmentUrl>>(new Map());
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const sessionRef = useRef<CollabSession | null>(null);
+  const liveRef = useRef(false);
+  const contentRef = useRef(content);
+  const savedContentRef = useRef(note.content);
+  const onCollabSavedRef = useRef(onCollabSaved);
+  const attachmentUrlsRef = useRef(attachmentUrls);
+
+  contentRef.current = content;
+  savedContentRef.current = note.content;
+  onCollabSavedRef.current = onCollabSaved;
+  attachmentUrlsRef.current = attachmentUrls;
+
+  // While the live session is connected the server saves the content, so
+  // autosave only handles the title and saved copies of the note don't
+  // overwrite what is being typed
+  const isLive = collabStatus === 'connected';
+
+  // Read and comment access show the note without letting it change
+  const canEdit = !readOnly && (!share || share.permission === 'edit');
+
+  // Favorites, sharing and public links are for the note's own user or team
+  const canManage = !share && !readOnly;
 
   // Update local state when note changes
   useEffect(() => {
     setTitle(note.title);
-    setContent(note.content);
-    setHasChanges(false);
-  }, [note.id, note.title, note.content]);
+  }, [note.id, note.title]);
+
+  useEffect(() => {
+    if (!liveRef.current) setContent(note.content);
+  }, [note.id, note.content]);
 
   // Track changes
   useEffect(() => {
-    const changed = title !== note.title || content !== note.content;
+    const changed = title !== note.title || (!isLive && content !== note.content);
     setHasChanges(changed);
-  }, [title, content, note.title, note.content]);
+  }, [title, content, note.title, note.content, isLive]);
+
+  // Edit together with everyone who has this note open. Without a connection
+  // the editor keeps working on its own and autosaves as before.
+  useEffect(() => {
+    const restoreSelection = (selection: TextSelection | null) => {
+      const textarea = textareaRef.current;
+      if (!selection || !textarea || document.activeElement !== textarea) return;
+      setTimeout(() => textarea.setSelectionRange(selection.start, selection.end), 0);
+    };
+
+    const session = joinNoteSession(note.id, user, {
+      onStatus: (status: CollabStatus) => {
+        liveRef.current = status === 'connected';
+        setCollabStatus(status);
+      },
+      onRemoteText: (text: string, selection: TextSelection | null) => {
+        // Joining with unsaved edits: keep them, they are pushed once live
+        if (!liveRef.current && contentRef.current !== savedContentRef.current) return;
+        setContent(text);
+        restoreSelection(selection);
+      },
+      onPeers: setPeers,
+      onSaved: (saved: Pick<Note, 'content' | 'updated_at'>) => {
+        setCollabSaveError(null);
+        onCollabSavedRef.current(note.id, saved);
+      },
+      onSaveFailed: (message: string) => setCollabSaveError(`Not saved: ${message}`)
+    });
+    sessionRef.current = session;
+
+    return () => {
+      session.close();
+      sessionRef.current = null;
+      liveRef.current = false;
+      setCollabStatus('disconnected');
+      setCollabSaveError(null);
+      setPeers([]);
+    };
+  }, [note.id, user]);
+
+  // Every local edit, however it was made, goes into the shared document
+  useEffect(() => {
+    if (isLive) sessionRef.current?.setText(content);
+  }, [content, isLive]);
+
+  // Images in the preview can't send the session token, so attached files
+  // are shown through signed addresses. They're fetched again when the text
+  // embeds a file without one or one is about to expire.
+  const previewAttachmentIds = activeTab === 'preview' ? findAttachmentIds(content).join(',') : '';
+  useEffect(() => {
+    if (!previewAttachmentIds) return;
+
+    const renewBefore = Date.now() + 60 * 1000;
+    const needsSigning = previewAttachmentIds.split(',').some((id: string) => {
+      const signed = attachmentUrlsRef.current.get(id);
+      return !signed || new Date(signed.expires_at).getTime() < renewBefore;
+    });
+    if (!needsSigning) return;
+
+    let cancelled = false;
+    const loadAttachmentUrls = async () => {
+      try {
+        const result = await trpc.getAttachmentUrls.query({ note_id: note.id });
+        if (!cancelled) {
+          setAttachmentUrls(new Map(result.map((signed: SignedAttachmentUrl) => [signed.attachment_id, signed])));
+        }
+      } catch (error) {
+        console.error('Failed to load attachment URLs:', error);
+      }
+    };
+
+    loadAttachmentUrls();
+    return () => {
+      cancelled = true;
+    };
+  }, [note.id, previewAttachmentIds]);
 
   // Auto-save after 2 seconds of inactivity
   useEffect(() => {
@@ -65,10 +224,9 @@ export function NoteEditor({ note, onUpdateNote, tags }: NoteEditorProps) {
 
     setIsSaving(true);
     try {
-      await onUpdateNote(note.id, {
-        title: title.trim() || 'Untitled Note',
-        content
-      });
+      await onUpdateNote(note.id, isLive
+        ? { title: title.trim() || 'Untitled Note' }
+        : { title: title.trim() || 'Untitled Note', content });
       setHasChanges(false);
     } catch (error) {
       console.error('Failed to save note:', error);
@@ -77,6 +235,21 @@ export function NoteEditor({ note, onUpdateNote, tags }: NoteEditorProps) {
     }
   };
 
+  // The server renders the saved note, so pending edits are saved first
+  const handleExport = async (format: NoteExportFormat) => {
+    setIsExporting(true);
+    try {
+      if (canEdit) {
+        await handleSave();
+      }
+      await downloadNoteExport(note.id, format);
+    } catch (error) {
+      console.error('Failed to export note:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const toggleFavorite = async () => {
     await onUpdateNote(note.id, {
       is_favorite: !note.is_favorite
@@ -102,23 +275,159 @@ export function NoteEditor({ note, onUpdateNote, tags }: NoteEditorProps) {
     }, 0);
   };
 
-  const renderMarkdown = (text: string) => {
-    // Simple markdown renderer - in a real app, you'd use a proper markdown library
-    let html = text
-      .replace(/^# (.+)$/gm, '<h1 class="text-2xl font-bold mb-4 text-gray-900 dark:text-gray-100">$1</h1>')
-      .replace(/^## (.+)$/gm, '<h2 class="text-xl font-semibold mb-3 text-gray-800 dark:text-gray-200">$1</h2>')
-      .replace(/^### (.+)$/gm, '<h3 class="text-lg font-medium mb-2 text-gray-700 dark:text-gray-300">$1</h3>')
-      .replace(/\*\*(.+?)\*\*/g, '<strong class="font-bold">$1</strong>')
-      .replace(/\*(.+?)\*/g, '<em class="italic">$1</em>')
-      .replace(/`(.+?)`/g, '<code class="bg-gray-100 dark:bg-gray-800 px-1 py-0.5 rounded text-sm font-mono">$1</code>')
-      .replace(/^> (.+)$/gm, '<blockquote class="border-l-4 border-blue-500 pl-4 italic text-gray-600 dark:text-gray-400 my-2">$1</blockquote>')
-      .replace(/^- (.+)$/gm, '<li class="ml-4">• $1</li>')
-      .replace(/\[(.+?)\]\((.+?)\)/g, '<a href="$2" class="text-blue-500 hover:underline" target="_blank">$1</a>');
-
-    // Convert newlines to <br> tags
-    html = html.replace(/\n/g, '<br>');
-
-    return html;
+  // Text typed after an unclosed [[ before the cursor, or null outside a link
+  const updateLinkQuery = (text: string, cursor: number) => {
+    const match = /\[\[([^[\]\n]*)$/.exec(text.substring(0, cursor));
+    const query = match ? match[1] : null;
+    if (query !== linkQuery) {
+      setLinkQuery(query);
+      setLinkSuggestionIndex(0);
+    }
+  };
+
+  const linkSuggestions = linkQuery === null ? [] : notes
+    .filter((n: Note) => n.id !== note.id && n.title.toLowerCase().includes(linkQuery.trim().toLowerCase()))
+    .slice(0, 8);
+
+  const insertLink = (linkTitle: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea || linkQuery === null) return;
+
+    const cursor = textarea.selectionStart;
+    const start = cursor - linkQuery.length;
+    const closing = content.startsWith(']]', cursor) ? '' : ']]';
+    setContent(content.substring(0, start) + linkTitle + closing + content.substring(cursor));
+    setLinkQuery(null);
+
+    // Place the cursor after the closing brackets
+    setTimeout(() => {
+      textarea.focus();
+      const newCursorPos = start + linkTitle.length + 2;
+      textarea.setSelectionRange(newCursorPos, newCursorPos);
+    }, 0);
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (linkSuggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setLinkSuggestionIndex((linkSuggestionIndex + 1) % linkSuggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setLinkSuggestionIndex((linkSuggestionIndex - 1 + linkSuggestions.length) % linkSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertLink(linkSuggestions[linkSuggestionIndex].title);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setLinkQuery(null);
+    }
+  };
+
+  // Upload files one by one, inserting a markdown reference at the cursor for each
+  const insertAttachments = async (files: File[]) => {
+    let position = textareaRef.current?.selectionStart ?? content.length;
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      for (const file of files) {
+        const attachment = await uploadAttachment(note.id, file);
+        const reference = `${attachmentMarkdown(attachment)}\n`;
+        const insertAt = position;
+        setContent((current: string) => current.substring(0, insertAt) + reference + current.substring(insertAt));
+        position += reference.length;
+      }
+    } catch (error) {
+      console.error('Failed to upload attachment:', error);
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const images = Array.from(e.clipboardData.files).filter((file: File) => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+
+    e.preventDefault();
+    insertAttachments(images);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0 || !canEdit) return;
+
+    e.preventDefault();
+    insertAttachments(files);
+  };
+
+  // Same matching as the server: case-insensitive, oldest note wins
+  const findLinkTarget = (linkTitle: string): Note | undefined => {
+    const key = linkTitle.trim().toLowerCase();
+    return notes
+      .filter((n: Note) => n.id !== note.id && n.title.trim().toLowerCase() === key)
+      .sort((a: Note, b: Note) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())[0];
+  };
+
+  const handlePreviewClick = async (e: React.MouseEvent<HTMLDivElement>) => {
+    const link = (e.target as HTMLElement).closest<HTMLElement>('[data-note-id]');
+    if (!link?.dataset.noteId) return;
+
+    e.preventDefault();
+    await handleSave();
+    onOpenNote(link.dataset.noteId);
+  };
+
+  const renderPreview = (text: string) => {
+    const html = renderMarkdown(text, {
+      resolveWikilink: (linkTitle: string) => {
+        const target = findLinkTarget(linkTitle);
+        return target ? { href: '#', noteId: target.id } : null;
+      }
+    });
+    return signAttachmentLinks(html, attachmentUrls);
+  };
+
+  const handleNoteRestored = (restoredNote: Note) => {
+    // The restored text replaces the shared document for everyone
+    if (liveRef.current) setContent(restoredNote.content);
+    onNoteRestored(restoredNote);
+  };
+
+  const shareSelection = (textarea: HTMLTextAreaElement) => {
+    sessionRef.current?.setSelection({ start: textarea.selectionStart, end: textarea.selectionEnd });
+  };
+
+  // One avatar per person, even with the note open in several tabs
+  const presentUsers = [...new Map(peers.map((peer: CollabPeer) => [peer.name, peer])).values()];
+
+  const renderRemoteCarets = () => {
+    const textarea = textareaRef.current;
+    if (!isLive || !textarea) return null;
+
+    return peers.map((peer: CollabPeer) => {
+      if (!peer.selection) return null;
+      const caret = getCaretCoordinates(textarea, Math.min(peer.selection.end, textarea.value.length));
+      const top = caret.top - editorScrollTop;
+      if (top < 0 || top > textarea.clientHeight) return null;
+
+      return (
+        <div
+          key={peer.clientId}
+          className="pointer-events-none absolute w-0.5"
+          style={{ top, left: caret.left, height: caret.height, backgroundColor: peer.color }}
+        >
+          <span
+            className="absolute -top-4 left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+            style={{ backgroundColor: peer.color }}
+          >
+            {peer.name}
+          </span>
+        </div>
+      );
+    });
   };
 
   const formatDate = (date: Date) => {
@@ -139,33 +448,109 @@ export function NoteEditor({ note, onUpdateNote, tags }: NoteEditorProps) {
           <Input
             value={title}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTitle(e.target.value)}
+            readOnly={!canEdit}
             placeholder="Note title..."
             className="text-xl font-semibold border-none bg-transparent px-0 focus-visible:ring-0 text-gray-900 dark:text-gray-100"
           />
           
           <div className="flex items-center gap-2">
+            {isLive && presentUsers.length > 0 && (
+              <div className="flex -space-x-2 mr-1">
+                {presentUsers.map((peer: CollabPeer) => (
+                  <div
+                    key={peer.clientId}
+                    title={`${peer.name} is editing`}
+                    className="h-7 w-7 rounded-full border-2 border-white dark:border-gray-900 flex items-center justify-center text-xs font-medium text-white"
+                    style={{ backgroundColor: peer.color }}
+                  >
+                    {peer.name.charAt(0).toUpperCase()}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canManage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={toggleFavorite}
+                className={`${
+                  note.is_favorite 
+                    ? 'text-pink-500 hover:text-pink-600' 
+                    : 'text-gray-400 hover:text-pink-500'
+                }`}
+              >
+                {note.is_favorite ? (
+                  <Heart className="h-4 w-4 fill-current" />
+                ) : (
+                  <HeartOff className="h-4 w-4" />
+                )}
+              </Button>
+            )}
+
+            {canManage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsShareOpen(true)}
+                className="text-gray-400 hover:text-purple-500"
+                title="Share"
+              >
+                <Share2 className="h-4 w-4" />
+              </Button>
+            )}
+
+            {canManage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsPublicLinkOpen(true)}
+                className="text-gray-400 hover:text-purple-500"
+                title="Public links"
+              >
+                <Globe className="h-4 w-4" />
+              </Button>
+            )}
+            
             <Button
               variant="ghost"
               size="sm"
-              onClick={toggleFavorite}
-              className={`${
-                note.is_favorite 
-                  ? 'text-pink-500 hover:text-pink-600' 
-                  : 'text-gray-400 hover:text-pink-500'
-              }`}
+              onClick={() => setIsHistoryOpen(true)}
+              className="text-gray-400 hover:text-purple-500"
+              title="Version history"
             >
-              {note.is_favorite ? (
-                <Heart className="h-4 w-4 fill-current" />
-              ) : (
-                <HeartOff className="h-4 w-4" />
-              )}
+              <History className="h-4 w-4" />
             </Button>
-            
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isExporting}
+                  className="text-gray-400 hover:text-purple-500"
+                  title="Export note"
+                >
+                  <FileDown className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('html')} className="cursor-pointer">
+                  <FileText className="h-4 w-4 mr-2" />
+                  Download as HTML
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('pdf')} className="cursor-pointer">
+                  <FileType className="h-4 w-4 mr-2" />
+                  Download as PDF
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             <Button
               variant="ghost"
               size="sm"
               onClick={handleSave}
-              disabled={!hasChanges || isSaving}
+              disabled={!canEdit || !hasChanges || isSaving}
               className={`${
                 hasChanges 
                   ? 'text-green-500 hover:text-green-600' 
@@ -182,6 +567,21 @@ export function NoteEditor({ note, onUpdateNote, tags }: NoteEditorProps) {
           <div className="flex items-center gap-4">
             <span>Created: {formatDate(note.created_at)}</span>
             <span>Updated: {formatDate(note.updated_at)}</span>
+            {share && (
+              <span className="flex items-center gap-1">
+                <Users className="h-3 w-3" />
+                Shared by {share.owner_username}{canEdit ? '' : ' (view only)'}
+              </span>
+            )}
+            {isLive && (
+              <span className="flex items-center gap-1 text-green-500" title="Changes are shared as you type">
+                <Radio className="h-3 w-3" />
+                Live
+              </span>
+            )}
+            {isUploading && <span className="text-purple-500">Uploading...</span>}
+            {uploadError && <span className="text-red-500">{uploadError}</span>}
+            {isLive && collabSaveError && <span className="text-red-500">{collabSaveError}</span>}
           </div>
           
           {/* Note: Tags would be displayed here in a real implementation */}
@@ -232,7 +632,7 @@ export function NoteEditor({ note, onUpdateNote, tags }: NoteEditorProps) {
                 </TabsTrigger>
               </TabsList>
 
-              {activeTab === 'edit' && (
+              {activeTab === 'edit' && canEdit && (
                 <div className="flex items-center gap-1">
                   <Button
                     variant="ghost"
@@ -302,11 +702,31 @@ export function NoteEditor({ note, onUpdateNote, tags }: NoteEditorProps) {
             </div>
           </div>
 
-          <TabsContent value="edit" className="flex-1 m-0">
+          <TabsContent value="edit" className="flex-1 m-0 relative">
             <Textarea
               ref={textareaRef}
               value={content}
-              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setContent(e.target.value)}
+              readOnly={!canEdit}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
+                setContent(e.target.value);
+                updateLinkQuery(e.target.value, e.target.selectionStart);
+                shareSelection(e.target);
+              }}
+              onSelect={(e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+                updateLinkQuery(e.currentTarget.value, e.currentTarget.selectionStart);
+                shareSelection(e.currentTarget);
+              }}
+              onScroll={(e: React.UIEvent<HTMLTextAreaElement>) => setEditorScrollTop(e.currentTarget.scrollTop)}
+              onKeyDown={handleEditorKeyDown}
+              onPaste={handlePaste}
+              onDrop={handleDrop}
+              onDragOver={(e: React.DragEvent<HTMLTextAreaElement>) => {
+                if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+              }}
+              onBlur={() => {
+                setLinkQuery(null);
+                sessionRef.current?.setSelection(null);
+              }}
               placeholder="Start writing your note... ✨
 
 You can use Markdown formatting:
@@ -316,17 +736,46 @@ You can use Markdown formatting:
 - List item
 > Quote
 `code`
-[Link](url)"
+[Link](url)
+[[Another note]]"
               className="h-full resize-none border-none focus-visible:ring-0 text-base leading-relaxed p-4 bg-transparent"
             />
+
+            {renderRemoteCarets()}
+
+            {/* Note title suggestions while typing a [[link */}
+            {linkSuggestions.length > 0 && (
+              <div className="absolute left-4 bottom-4 w-72 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg py-1 z-10">
+                <div className="px-3 py-1 text-xs text-gray-500 dark:text-gray-400">Link to note</div>
+                {linkSuggestions.map((suggestion: Note, index: number) => (
+                  <button
+                    key={suggestion.id}
+                    type="button"
+                    className={`w-full text-left px-3 py-1.5 text-sm truncate ${
+                      index === linkSuggestionIndex
+                        ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
+                        : 'text-gray-700 dark:text-gray-300'
+                    }`}
+                    // Keep focus in the textarea so the cursor position survives
+                    onMouseDown={(e: React.MouseEvent) => {
+                      e.preventDefault();
+                      insertLink(suggestion.title);
+                    }}
+                  >
+                    {suggestion.title}
+                  </button>
+                ))}
+              </div>
+            )}
           </TabsContent>
 
           <TabsContent value="preview" className="flex-1 m-0">
             <ScrollArea className="h-full">
               {content.trim() ? (
                 <div 
-                  className="p-4 prose dark:prose-invert max-w-none"
-                  dangerouslySetInnerHTML={{ __html: renderMarkdown(content) }}
+                  className="p-4 markdown-body max-w-none"
+                  onClick={handlePreviewClick}
+                  dangerouslySetInnerHTML={{ __html: renderPreview(content) }}
                 />
               ) : (
                 <div className="p-4 h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
@@ -341,6 +790,40 @@ You can use Markdown formatting:
           </TabsContent>
         </Tabs>
       </div>
+
+      <BacklinksPanel note={note} onOpenNote={onOpenNote} />
+
+      <NoteHistoryPanel
+        note={note}
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        onRestored={handleNoteRestored}
+        canRestore={canEdit}
+      />
+
+      {isShareOpen && (
+        <ShareDialog
+          target={{ type: 'note', id: note.id, name: note.title }}
+          open
+          onOpenChange={setIsShareOpen}
+        />
+      )}
+
+      {isPublicLinkOpen && (
+        <PublicLinkDialog
+          noteId={note.id}
+          noteTitle={note.title}
+          open
+          onOpenChange={setIsPublicLinkOpen}
+        />
+      )}
+
+      {conflict && (
+        <NoteMergeDialog
+          conflict={conflict}
+          onResolve={(resolution: NoteText | null) => onResolveConflict(conflict, resolution)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { History, RotateCcw } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { Note, NoteRevision, NoteRevisionDiff, DiffLine } from '../../../server/src/schema';
+
+interface NoteHistoryPanelProps {
+  note: Note;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (note: Note) => void;
+  // False for notes shared with the user without edit access
+  canRestore?: boolean;
+}
+
+export function NoteHistoryPanel({ note, open, onOpenChange, onRestored, canRestore = true }: NoteHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<NoteRevisionDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await trpc.getNoteRevisions.query({ note_id: note.id });
+      setRevisions(result);
+      setSelectedRevisionId(result.length > 0 ? result[0].id : null);
+    } catch (err) {
+      console.error('Failed to load revisions:', err);
+      setError('Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [note.id]);
+
+  // Reload whenever the panel opens or the note changes underneath it
+  useEffect(() => {
+    if (open) {
+      loadRevisions();
+    }
+  }, [open, loadRevisions, note.updated_at]);
+
+  // Compare the selected revision against the current note
+  useEffect(() => {
+    if (!selectedRevisionId) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadDiff = async () => {
+      try {
+        const result = await trpc.diffNoteRevisions.query({
+          note_id: note.id,
+          from_revision_id: selectedRevisionId,
+          to_revision_id: null
+        });
+        if (!cancelled) setDiff(result);
+      } catch (err) {
+        console.error('Failed to load diff:', err);
+        if (!cancelled) setError('Failed to load changes');
+      }
+    };
+
+    loadDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [note.id, selectedRevisionId]);
+
+  const handleRestore = async () => {
+    if (!selectedRevisionId) return;
+
+    setIsRestoring(true);
+    try {
+      const restoredNote = await trpc.restoreNoteRevision.mutate({
+        note_id: note.id,
+        revision_id: selectedRevisionId
+      });
+      onRestored(restoredNote);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      setError('Failed to restore this version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const lineClassName = (line: DiffLine) => {
+    if (line.type === 'added') return 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300';
+    if (line.type === 'removed') return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 line-through';
+    return 'text-gray-600 dark:text-gray-400';
+  };
+
+  const linePrefix = (line: DiffLine) => {
+    if (line.type === 'added') return '+';
+    if (line.type === 'removed') return '-';
+    return ' ';
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-purple-500" />
+            Version History
+          </SheetTitle>
+          <SheetDescription>
+            Earlier versions of "{note.title}" compared with the current text
+          </SheetDescription>
+        </SheetHeader>
+
+        {error && (
+          <div className="mx-4 text-sm text-red-600 dark:text-red-400">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading history...</div>
+        ) : revisions.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            <History className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <div className="text-lg mb-2">No earlier versions yet</div>
+            <div className="text-sm">Versions are saved as you edit this note</div>
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0 px-4 pb-4 gap-4">
+            <ScrollArea className="w-48 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 pr-2">
+              <div className="space-y-1">
+                {revisions.map((revision: NoteRevision) => (
+                  <Button
+                    key={revision.id}
+                    variant={selectedRevisionId === revision.id ? 'secondary' : 'ghost'}
+                    className="w-full justify-start text-left h-auto py-2"
+                    onClick={() => setSelectedRevisionId(revision.id)}
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium">{formatDate(revision.created_at)}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{revision.title}</div>
+                    </div>
+                  </Button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {diff?.title_changed ? `Title: "${diff.from.title}"` : 'Changes since this version'}
+                </div>
+                {canRestore && (
+                  <Button
+                    size="sm"
+                    onClick={handleRestore}
+                    disabled={!selectedRevisionId || isRestoring}
+                    className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    {isRestoring ? 'Restoring...' : 'Restore'}
+                  </Button>
+                )}
+              </div>
+
+              <ScrollArea className="flex-1 border border-gray-200 dark:border-gray-700 rounded-md">
+                <pre className="text-xs font-mono p-2">
+                  {diff?.lines.map((line: DiffLine, index: number) => (
+                    <div key={index} className={`px-1 whitespace-pre-wrap ${lineClassName(line)}`}>
+                      {linePrefix(line)} {line.text}
+                    </div>
+                  ))}
+                </pre>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
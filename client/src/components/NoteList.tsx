@@ -1,18 +1,41 @@
 import { Button } from '@/components/ui/button';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Plus, MoreVertical, Trash2, Heart, HeartOff, FileText, Clock } from 'lucide-react';
-import { useState } from 'react';
-import type { Note } from '../../../server/src/schema';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Plus, MoreVertical, Trash2, Heart, HeartOff, FileText, Clock, ArrowUpDown, ArrowUp, ArrowDown, Check } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { NOTE_SORT_LABELS, defaultNoteSortDirection, type NoteSort } from '@/utils/note_sort';
+import { getVisibleRange } from '@/utils/virtual_list';
+import type { Note, NoteSortKey, SearchNoteResult, HighlightSegment } from '../../../server/src/schema';
+
+// Rows have a fixed height so only the ones in view need to be rendered
+const ROW_HEIGHT = 120;
+const OVERSCAN_ROWS = 5;
+// The next page is requested once the user is this many rows from the end
+const LOAD_MORE_THRESHOLD = 10;
 
 interface NoteListProps {
-  notes: Note[];
+  notes: (Note | SearchNoteResult)[];
   selectedNote: Note | null;
   onNoteSelect: (note: Note) => void;
   onCreateNote: () => void;
   onDeleteNote: (noteId: string) => void;
+  // Offered while the list is in manual order
+  onMoveNote?: (noteId: string, offset: -1 | 1) => void;
   isLoading: boolean;
+  // Hides creating and deleting, e.g. for workspace viewers
+  readOnly?: boolean;
+  // Omitted for search results, which are ranked by relevance
+  sort?: NoteSort;
+  onSortChange?: (sort: NoteSort) => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export function NoteList({
@@ -21,9 +44,53 @@ export function NoteList({
   onNoteSelect,
   onCreateNote,
   onDeleteNote,
-  isLoading
+  onMoveNote,
+  isLoading,
+  readOnly = false,
+  sort,
+  onSortChange,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore
 }: NoteListProps) {
   const [noteToDelete, setNoteToDelete] = useState<Note | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  // Track the list's height as the window or the panels around it resize
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    setViewportHeight(element.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const range = getVisibleRange(scrollTop, viewportHeight, ROW_HEIGHT, notes.length, OVERSCAN_ROWS);
+
+  useEffect(() => {
+    if (hasMore && !isLoadingMore && onLoadMore && range.end >= notes.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore();
+    }
+  }, [hasMore, isLoadingMore, onLoadMore, range.end, notes.length]);
+
+  const handleSortSelect = (key: NoteSortKey) => {
+    if (!sort || !onSortChange) return;
+    // Picking the current key again flips the direction
+    onSortChange(key === sort.key
+      ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: defaultNoteSortDirection(key) });
+  };
+
+  const canMove = sort?.key === 'manual' && !!onMoveNote;
+
+  const handleMove = (note: Note, offset: -1 | 1, e: React.MouseEvent) => {
+    e.stopPropagation();
+    onMoveNote?.(note.id, offset);
+  };
 
   const formatDate = (date: Date) => {
     const now = new Date();
@@ -43,6 +110,18 @@ export function NoteList({
     return content.replace(/[#*_`]/g, '').substring(0, 100);
   };
 
+  const renderHighlights = (segments: HighlightSegment[]) => {
+    return segments.map((segment: HighlightSegment, index: number) =>
+      segment.highlighted ? (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-600/50 text-inherit rounded-sm">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    );
+  };
+
   const handleDelete = (note: Note, e: React.MouseEvent) => {
     e.stopPropagation();
     setNoteToDelete(note);
@@ -63,23 +142,57 @@ export function NoteList({
           <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
             Notes
           </h2>
-          <Button
-            size="sm"
-            onClick={onCreateNote}
-            className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-sm"
-          >
-            <Plus className="h-4 w-4 mr-1" />
-            New
-          </Button>
+          <div className="flex items-center gap-1">
+            {sort && onSortChange && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 px-2 text-gray-500" title="Sort notes">
+                    <ArrowUpDown className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-48">
+                  {(Object.keys(NOTE_SORT_LABELS) as NoteSortKey[]).map((key: NoteSortKey) => (
+                    <DropdownMenuItem key={key} onClick={() => handleSortSelect(key)} className="cursor-pointer">
+                      {NOTE_SORT_LABELS[key]}
+                      {sort.key === key && <Check className="h-4 w-4 ml-auto" />}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+                    className="cursor-pointer"
+                  >
+                    {sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {!readOnly && (
+              <Button
+                size="sm"
+                onClick={onCreateNote}
+                className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-sm"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+            )}
+          </div>
         </div>
         
         <div className="text-sm text-gray-500 dark:text-gray-400">
-          {notes.length === 0 ? 'No notes found' : `${notes.length} note${notes.length !== 1 ? 's' : ''}`}
+          {notes.length === 0
+            ? 'No notes found'
+            : `${notes.length}${hasMore ? '+' : ''} note${notes.length !== 1 || hasMore ? 's' : ''}`}
         </div>
       </div>
 
       {/* Note list */}
-      <ScrollArea className="flex-1">
+      <div
+        ref={scrollRef}
+        className="flex-1 min-h-0 overflow-y-auto"
+        onScroll={(e: React.UIEvent<HTMLDivElement>) => setScrollTop(e.currentTarget.scrollTop)}
+      >
         {isLoading ? (
           <div className="p-4">
             <div className="space-y-3">
@@ -94,98 +207,139 @@ export function NoteList({
           <div className="p-8 text-center text-gray-500 dark:text-gray-400">
             <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
             <div className="text-lg mb-2">No notes here yet</div>
-            <div className="text-sm mb-4">Create your first note to get started!</div>
-            <Button
-              onClick={onCreateNote}
-              className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Create Note
-            </Button>
+            {!readOnly && (
+              <>
+                <div className="text-sm mb-4">Create your first note to get started!</div>
+                <Button
+                  onClick={onCreateNote}
+                  className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Note
+                </Button>
+              </>
+            )}
           </div>
         ) : (
-          <div className="p-2">
-            {notes.map((note: Note) => (
+          <div className="relative" style={{ height: notes.length * ROW_HEIGHT + (isLoadingMore ? ROW_HEIGHT : 0) }}>
+            {notes.slice(range.start, range.end).map((note: Note | SearchNoteResult, offset: number) => (
               <div
                 key={note.id}
-                className={`p-3 mb-2 rounded-lg cursor-pointer border transition-all duration-200 group hover:shadow-md ${
-                  selectedNote?.id === note.id
-                    ? 'bg-gradient-to-r from-purple-100 to-blue-100 dark:from-purple-900/30 dark:to-blue-900/30 border-purple-300 dark:border-purple-600 shadow-sm'
-                    : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-750'
-                }`}
-                onClick={() => onNoteSelect(note)}
+                className="absolute inset-x-0 px-2 pt-2"
+                style={{ top: (range.start + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
               >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1 min-w-0 pr-3">
-                    <div className="flex items-center gap-2 mb-1">
-                      <h3 className="font-medium text-gray-900 dark:text-gray-100 truncate text-sm">
-                        {note.title || 'Untitled Note'}
-                      </h3>
-                      {note.is_favorite && (
-                        <Heart className="h-3 w-3 text-pink-500 fill-current flex-shrink-0" />
-                      )}
-                    </div>
-                    
-                    <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2 leading-relaxed">
-                      {getPreviewText(note.content) || 'No content'}
-                    </p>
-                    
-                    <div className="flex items-center gap-2 mt-2">
-                      <Clock className="h-3 w-3 text-gray-400" />
-                      <span className="text-xs text-gray-500 dark:text-gray-400">
-                        {formatDate(note.updated_at)}
-                      </span>
+                <div
+                  className={`h-full overflow-hidden p-3 rounded-lg cursor-pointer border transition-all duration-200 group hover:shadow-md ${
+                    selectedNote?.id === note.id
+                      ? 'bg-gradient-to-r from-purple-100 to-blue-100 dark:from-purple-900/30 dark:to-blue-900/30 border-purple-300 dark:border-purple-600 shadow-sm'
+                      : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-750'
+                  }`}
+                  onClick={() => onNoteSelect(note)}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0 pr-3">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="font-medium text-gray-900 dark:text-gray-100 truncate text-sm">
+                          {'title_highlights' in note
+                            ? renderHighlights(note.title_highlights)
+                            : note.title || 'Untitled Note'}
+                        </h3>
+                        {note.is_favorite && (
+                          <Heart className="h-3 w-3 text-pink-500 fill-current flex-shrink-0" />
+                        )}
+                      </div>
+                      
+                      <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2 leading-relaxed">
+                        {'snippet' in note && note.snippet.length > 0
+                          ? renderHighlights(note.snippet)
+                          : getPreviewText(note.content) || 'No content'}
+                      </p>
+                      
+                      <div className="flex items-center gap-2 mt-2">
+                        <Clock className="h-3 w-3 text-gray-400" />
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatDate(note.updated_at)}
+                        </span>
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="flex-shrink-0">
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                          onClick={(e: React.MouseEvent) => e.stopPropagation()}
-                        >
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end" className="w-48">
-                        <DropdownMenuItem
-                          onClick={(e: React.MouseEvent) => {
-                            e.stopPropagation();
-                            // Toggle favorite functionality would go here
-                          }}
-                          className="cursor-pointer"
-                        >
-                          {note.is_favorite ? (
+                    {!readOnly && <div className="flex-shrink-0">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                            onClick={(e: React.MouseEvent) => e.stopPropagation()}
+                          >
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-48">
+                          <DropdownMenuItem
+                            onClick={(e: React.MouseEvent) => {
+                              e.stopPropagation();
+                              // Toggle favorite functionality would go here
+                            }}
+                            className="cursor-pointer"
+                          >
+                            {note.is_favorite ? (
+                              <>
+                                <HeartOff className="h-4 w-4 mr-2" />
+                                Remove from favorites
+                              </>
+                            ) : (
+                              <>
+                                <Heart className="h-4 w-4 mr-2" />
+                                Add to favorites
+                              </>
+                            )}
+                          </DropdownMenuItem>
+                          {canMove && (
                             <>
-                              <HeartOff className="h-4 w-4 mr-2" />
-                              Remove from favorites
-                            </>
-                          ) : (
-                            <>
-                              <Heart className="h-4 w-4 mr-2" />
-                              Add to favorites
+                              <DropdownMenuItem
+                                onClick={(e: React.MouseEvent) => handleMove(note, -1, e)}
+                                disabled={range.start + offset === 0}
+                                className="cursor-pointer"
+                              >
+                                <ArrowUp className="h-4 w-4 mr-2" />
+                                Move up
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={(e: React.MouseEvent) => handleMove(note, 1, e)}
+                                disabled={range.start + offset === notes.length - 1}
+                                className="cursor-pointer"
+                              >
+                                <ArrowDown className="h-4 w-4 mr-2" />
+                                Move down
+                              </DropdownMenuItem>
                             </>
                           )}
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={(e: React.MouseEvent) => handleDelete(note, e)}
-                          className="cursor-pointer text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400"
-                        >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Delete note
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
+                          <DropdownMenuItem
+                            onClick={(e: React.MouseEvent) => handleDelete(note, e)}
+                            className="cursor-pointer text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete note
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>}
                   </div>
                 </div>
               </div>
             ))}
+            {isLoadingMore && (
+              <div
+                className="absolute inset-x-0 p-2"
+                style={{ top: notes.length * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                <div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-full rounded-lg"></div>
+              </div>
+            )}
           </div>
         )}
-      </ScrollArea>
+      </div>
 
       {/* Delete confirmation dialog */}
       <AlertDialog open={!!noteToDelete} onOpenChange={() => setNoteToDelete(null)}>
@@ -193,11 +347,11 @@ export function NoteList({
           <AlertDialogHeader>
             <AlertDialogTitle className="flex items-center gap-2">
               <Trash2 className="h-5 w-5 text-red-500" />
-              Delete Note
+              Move to Trash
             </AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{noteToDelete?.title || 'this note'}"? 
-              This action cannot be undone.
+              Move "{noteToDelete?.title || 'this note'}" to the trash? 
+              You can restore it from the Trash view.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -206,7 +360,7 @@ export function NoteList({
               onClick={confirmDelete}
               className="bg-red-500 hover:bg-red-600 text-white"
             >
-              Delete
+              Move to Trash
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
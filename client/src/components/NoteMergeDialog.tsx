@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { GitMerge } from 'lucide-react';
+import { diffLines } from '../../../server/src/helpers/line_diff';
+import type { DiffLine } from '../../../server/src/schema';
+import type { NoteConflict, NoteText } from '@/utils/sync';
+
+interface NoteMergeDialogProps {
+  conflict: NoteConflict;
+  // null keeps the server copy as it is
+  onResolve: (resolution: NoteText | null) => void;
+}
+
+export function NoteMergeDialog({ conflict, onResolve }: NoteMergeDialogProps) {
+  const { server, mine } = conflict;
+  const [mergedTitle, setMergedTitle] = useState(mine.title);
+  const [mergedContent, setMergedContent] = useState(mine.content);
+
+  useEffect(() => {
+    setMergedTitle(mine.title);
+    setMergedContent(mine.content);
+  }, [mine.title, mine.content]);
+
+  // removed lines only exist in the server copy, added lines only in mine
+  const lines = diffLines(server.content, mine.content);
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const renderVersion = (side: 'removed' | 'added', highlight: string) => (
+    <ScrollArea className="h-56 border border-gray-200 dark:border-gray-700 rounded-md">
+      <pre className="text-xs font-mono p-2">
+        {lines
+          .filter((line: DiffLine) => line.type === 'equal' || line.type === side)
+          .map((line: DiffLine, index: number) => (
+            <div
+              key={index}
+              className={`px-1 whitespace-pre-wrap ${line.type === side ? highlight : 'text-gray-600 dark:text-gray-400'}`}
+            >
+              {line.text || ' '}
+            </div>
+          ))}
+      </pre>
+    </ScrollArea>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open: boolean) => !open && onResolve(null)}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-purple-500" />
+            This note was changed somewhere else
+          </DialogTitle>
+          <DialogDescription>
+            Your edits were not saved because "{server.title}" was updated at {formatDate(server.updated_at)}.
+            Pick a version or combine them below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 truncate">
+              Saved version: {server.title}
+            </div>
+            {renderVersion('removed', 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300')}
+          </div>
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 truncate">
+              Your version: {mine.title}
+            </div>
+            {renderVersion('added', 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300')}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-gray-700 dark:text-gray-300">Merged result</div>
+          <Input
+            value={mergedTitle}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMergedTitle(e.target.value)}
+            placeholder="Note title..."
+          />
+          <Textarea
+            value={mergedContent}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setMergedContent(e.target.value)}
+            className="h-40 font-mono text-sm resize-none"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(null)}>
+            Keep saved version
+          </Button>
+          <Button variant="outline" onClick={() => onResolve(mine)}>
+            Keep mine
+          </Button>
+          <Button
+            onClick={() => onResolve({ title: mergedTitle.trim() || 'Untitled Note', content: mergedContent })}
+            className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+          >
+            Save merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
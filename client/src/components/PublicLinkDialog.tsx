@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TRPCClientError } from '@trpc/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Globe, Copy, Check, Lock, X } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { PublicLink } from '../../../server/src/schema';
+
+interface PublicLinkDialogProps {
+  noteId: string;
+  noteTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Served by the API server outside the app, so visitors need no account
+const PUBLIC_LINK_URL = '/api/public';
+
+// Hours until the link stops working; 0 keeps it open until revoked
+const EXPIRY_OPTIONS = [
+  { hours: 0, label: 'Never expires' },
+  { hours: 24, label: 'Expires in 1 day' },
+  { hours: 24 * 7, label: 'Expires in 7 days' },
+  { hours: 24 * 30, label: 'Expires in 30 days' }
+];
+
+export function PublicLinkDialog({ noteId, noteTitle, open, onOpenChange }: PublicLinkDialogProps) {
+  const [links, setLinks] = useState<PublicLink[]>([]);
+  const [expiryHours, setExpiryHours] = useState(0);
+  const [password, setPassword] = useState('');
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLinks(await trpc.getPublicLinks.query({ note_id: noteId }));
+    } catch (err) {
+      console.error('Failed to load public links:', err);
+      setError('Failed to load links');
+    }
+  }, [noteId]);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      setCreatedUrl(null);
+      loadLinks();
+    }
+  }, [open, loadLinks]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const link = await trpc.createPublicLink.mutate({
+        note_id: noteId,
+        expires_at: expiryHours > 0 ? new Date(Date.now() + expiryHours * 60 * 60 * 1000) : null,
+        password: password || undefined
+      });
+      setCreatedUrl(`${window.location.origin}${PUBLIC_LINK_URL}/${link.token}`);
+      setCopied(false);
+      setPassword('');
+      await loadLinks();
+    } catch (err) {
+      console.error('Failed to create public link:', err);
+      setError(err instanceof TRPCClientError ? err.message : 'Failed to create link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  const handleRevoke = async (link: PublicLink) => {
+    try {
+      await trpc.revokePublicLink.mutate({ id: link.id });
+      setLinks((prev: PublicLink[]) => prev.filter((l: PublicLink) => l.id !== link.id));
+    } catch (err) {
+      console.error('Failed to revoke public link:', err);
+      setError('Failed to turn off link');
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5 text-purple-500" />
+            Public links for "{noteTitle}"
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with a link can read this note without signing in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="space-y-2">
+          <div className="flex gap-2">
+            <Select value={String(expiryHours)} onValueChange={(v: string) => setExpiryHours(Number(v))}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="password"
+              placeholder="Password (optional)"
+              value={password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              minLength={4}
+              className="flex-1"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={isCreating}
+            className="w-full bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          >
+            {isCreating ? 'Creating...' : 'Create link'}
+          </Button>
+        </form>
+
+        {createdUrl && (
+          <div className="space-y-1">
+            <div className="flex gap-2">
+              <Input value={createdUrl} readOnly className="flex-1 font-mono text-xs" />
+              <Button variant="outline" size="sm" onClick={handleCopy} title="Copy link">
+                {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Copy the link now, it can't be shown again.
+            </div>
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="space-y-2">
+          {links.length === 0 ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">No active links</div>
+          ) : (
+            links.map((link: PublicLink) => (
+              <div key={link.id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1 text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {link.has_password && <Lock className="h-3 w-3 text-gray-400" />}
+                    Created {formatDate(link.created_at)}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {link.view_count} {link.view_count === 1 ? 'view' : 'views'}
+                    {link.last_viewed_at && ` · last ${formatDate(link.last_viewed_at)}`}
+                    {' · '}
+                    {link.expires_at ? `expires ${formatDate(link.expires_at)}` : 'never expires'}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(link)}
+                  className="h-8 w-8 p-0 text-gray-400 hover:text-red-500"
+                  title="Turn off link"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
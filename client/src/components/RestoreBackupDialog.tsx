@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArchiveRestore, AlertTriangle } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { readBackupFile } from '@/utils/backup';
+import type { RestoreBackupInput, RestoreResult, RestoreConflict } from '../../../server/src/schema';
+
+type RestoreMode = RestoreBackupInput['mode'];
+
+interface RestoreBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  merge: 'Merge into my notes',
+  empty: 'Only into an empty account'
+};
+
+export function RestoreBackupDialog({ open, onOpenChange, onRestored }: RestoreBackupDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setResult(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setIsRestoring(true);
+    setResult(null);
+    setError(null);
+    try {
+      const backup = await readBackupFile(file);
+      const restored = await trpc.restoreBackup.mutate({ mode, backup });
+      setResult(restored);
+      onRestored();
+    } catch (err) {
+      console.error('Failed to restore backup:', err);
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArchiveRestore className="h-5 w-5 text-purple-500" />
+            Restore backup
+          </DialogTitle>
+          <DialogDescription>
+            Restores a backup file into your personal notes. Merging reuses folders and tags of the same name
+            and keeps notes you changed since, restoring the backed up version as a copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleRestore} className="space-y-3">
+          <Input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFile(e.target.files?.[0] ?? null)}
+            required
+          />
+          <div className="flex gap-2">
+            <Select value={mode} onValueChange={(v: string) => setMode(v as RestoreMode)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MODE_LABELS) as RestoreMode[]).map((m: RestoreMode) => (
+                  <SelectItem key={m} value={m}>{MODE_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="submit"
+              disabled={!file || isRestoring}
+              className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+            >
+              {isRestoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </div>
+        </form>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        {result && (
+          <div className="space-y-2">
+            <div className="text-sm text-gray-700 dark:text-gray-300">
+              Restored {result.notes} notes, {result.folders} folders, {result.tags} tags
+              and {result.revisions} revisions · {result.skipped} unchanged notes skipped
+              {result.remapped > 0 && ` · ${result.remapped} given new ids`}
+            </div>
+            {result.conflicts.length > 0 && (
+              <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+                {result.conflicts.map((conflict: RestoreConflict, index: number) => (
+                  <div key={index} className="flex items-start gap-2 text-xs">
+                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-amber-500" />
+                    <div className="min-w-0">
+                      <div className="truncate text-gray-900 dark:text-gray-100">{conflict.name}</div>
+                      <div className="text-gray-500 dark:text-gray-400">{conflict.message}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TRPCClientError } from '@trpc/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Share2, X } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { Share, SharePermission } from '../../../server/src/schema';
+
+export type ShareTarget = { type: 'note' | 'folder'; id: string; name: string };
+
+interface ShareDialogProps {
+  target: ShareTarget;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+  read: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can edit'
+};
+
+export function ShareDialog({ target, open, onOpenChange }: ShareDialogProps) {
+  const [shares, setShares] = useState<Share[]>([]);
+  const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<SharePermission>('read');
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadShares = useCallback(async () => {
+    try {
+      const result = await trpc.getShares.query(target.type === 'note' ? { note_id: target.id } : { folder_id: target.id });
+      setShares(result);
+    } catch (err) {
+      console.error('Failed to load shares:', err);
+      setError('Failed to load who has access');
+    }
+  }, [target.type, target.id]);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      loadShares();
+    }
+  }, [open, loadShares]);
+
+  // Sharing again with someone who already has access updates their permission
+  const saveShare = async (shareEmail: string, sharePermission: SharePermission) => {
+    const input = { email: shareEmail, permission: sharePermission };
+    return target.type === 'note'
+      ? trpc.shareNote.mutate({ ...input, note_id: target.id })
+      : trpc.shareFolder.mutate({ ...input, folder_id: target.id });
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSharing(true);
+    setError(null);
+    try {
+      await saveShare(email.trim(), permission);
+      setEmail('');
+      await loadShares();
+    } catch (err) {
+      console.error('Failed to share:', err);
+      setError(err instanceof TRPCClientError ? err.message : 'Failed to share');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handlePermissionChange = async (share: Share, newPermission: SharePermission) => {
+    try {
+      await saveShare(share.grantee_email, newPermission);
+      await loadShares();
+    } catch (err) {
+      console.error('Failed to change permission:', err);
+      setError('Failed to change permission');
+    }
+  };
+
+  const handleRevoke = async (share: Share) => {
+    try {
+      await trpc.revokeShare.mutate({ id: share.id });
+      setShares((prev: Share[]) => prev.filter((s: Share) => s.id !== share.id));
+    } catch (err) {
+      console.error('Failed to remove access:', err);
+      setError('Failed to remove access');
+    }
+  };
+
+  const renderPermissionSelect = (value: SharePermission, onChange: (value: SharePermission) => void) => (
+    <Select value={value} onValueChange={(v: string) => onChange(v as SharePermission)}>
+      <SelectTrigger className="w-36">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(PERMISSION_LABELS) as SharePermission[]).map((p: SharePermission) => (
+          <SelectItem key={p} value={p}>{PERMISSION_LABELS[p]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-purple-500" />
+            Share "{target.name}"
+          </DialogTitle>
+          <DialogDescription>
+            {target.type === 'folder'
+              ? 'People you add get access to every note in this folder and its subfolders.'
+              : 'People you add can open this note from "Shared with me".'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleShare} className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="Email address"
+            value={email}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+            className="flex-1"
+            required
+          />
+          {renderPermissionSelect(permission, setPermission)}
+          <Button
+            type="submit"
+            disabled={isSharing}
+            className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          >
+            {isSharing ? 'Sharing...' : 'Share'}
+          </Button>
+        </form>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="space-y-2">
+          {shares.length === 0 ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">Not shared with anyone yet</div>
+          ) : (
+            shares.map((share: Share) => (
+              <div key={share.id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {share.grantee_username}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{share.grantee_email}</div>
+                </div>
+                {renderPermissionSelect(share.permission, (p: SharePermission) => handlePermissionChange(share, p))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(share)}
+                  className="h-8 w-8 p-0 text-gray-400 hover:text-red-500"
+                  title="Remove access"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,26 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { 
   Search, 
   Heart, 
@@ -14,24 +33,93 @@ import {
   LogOut, 
   User as UserIcon,
   FolderPlus,
-  TagIcon as TagIconTwo
+  TagIcon as TagIconTwo,
+  Trash2,
+  Share2,
+  Users,
+  Eye,
+  MessageSquare,
+  Pencil,
+  FileText,
+  Building2,
+  ChevronsUpDown,
+  Check,
+  Settings,
+  ChevronRight,
+  ChevronDown,
+  Bookmark,
+  Pin,
+  X,
+  MoreHorizontal,
+  Download,
+  Upload,
+  ArchiveRestore
 } from 'lucide-react';
+import { ShareDialog, type ShareTarget } from '@/components/ShareDialog';
+import { WorkspaceDialog } from '@/components/WorkspaceDialog';
+import { ImportDialog, type ImportFormat } from '@/components/ImportDialog';
+import { RestoreBackupDialog } from '@/components/RestoreBackupDialog';
 import { trpc } from '@/utils/trpc';
-import type { User, Folder, Tag, CreateFolderInput, CreateTagInput } from '../../../server/src/schema';
+import { getTagPath } from '../../../server/src/helpers/tag_tree';
+import {
+  EMPTY_TAG_FILTER,
+  isTagFilterActive,
+  cycleTagFilter,
+  removeTagFromFilter,
+  type TagFilter
+} from '@/utils/tag_filter';
+import { getSearchQueryError } from '@/utils/search_syntax';
+import { downloadMarkdownExport } from '@/utils/export';
+import { downloadBackup } from '@/utils/backup';
+import { isNoteViewFiltered, toSavedSearchQuery, fromSavedSearchQuery, isSameNoteView, type NoteView } from '@/utils/saved_search';
+import type {
+  PublicUser,
+  Folder,
+  Tag,
+  CreateFolderInput,
+  CreateTagInput,
+  SharedWithMe,
+  SharedNote,
+  SharedFolder,
+  SharePermission,
+  UserWorkspace,
+  SavedSearch,
+  SavedSearchWithCount
+} from '../../../server/src/schema';
+
+const PERMISSION_ICONS: Record<SharePermission, { icon: typeof Eye; label: string }> = {
+  read: { icon: Eye, label: 'View only' },
+  comment: { icon: MessageSquare, label: 'Can comment' },
+  edit: { icon: Pencil, label: 'Can edit' }
+};
 
 interface SidebarProps {
-  user: User;
+  user: PublicUser;
   folders: Folder[];
   tags: Tag[];
   selectedFolder: string | null;
-  selectedTag: string | null;
+  tagFilter: TagFilter;
   searchQuery: string;
   showFavorites: boolean;
+  showTrash: boolean;
   onFolderSelect: (folderId: string | null) => void;
-  onTagSelect: (tagId: string | null) => void;
+  onTagFilterChange: (filter: TagFilter) => void;
   onSearchChange: (query: string) => void;
   onToggleFavorites: () => void;
+  onToggleTrash: () => void;
   onLogout: () => void;
+  onDataChanged: () => void;
+  sharedWithMe: SharedWithMe;
+  selectedNoteId: string | null;
+  onSharedNoteSelect: (note: SharedNote) => void;
+  workspaces: UserWorkspace[];
+  // Null while the user's personal notes are open
+  activeWorkspace: UserWorkspace | null;
+  onWorkspaceSwitch: (workspaceId: string | null) => void;
+  onWorkspacesChanged: () => void;
+  savedSearches: SavedSearchWithCount[];
+  onSavedSearchSelect: (search: SavedSearch) => void;
+  onSavedSearchesChanged: () => void;
 }
 
 export function Sidebar({
@@ -39,22 +127,62 @@ export function Sidebar({
   folders,
   tags,
   selectedFolder,
-  selectedTag,
+  tagFilter,
   searchQuery,
   showFavorites,
+  showTrash,
   onFolderSelect,
-  onTagSelect,
+  onTagFilterChange,
   onSearchChange,
   onToggleFavorites,
-  onLogout
+  onToggleTrash,
+  onLogout,
+  onDataChanged,
+  sharedWithMe,
+  selectedNoteId,
+  onSharedNoteSelect,
+  workspaces,
+  activeWorkspace,
+  onWorkspaceSwitch,
+  onWorkspacesChanged,
+  savedSearches,
+  onSavedSearchSelect,
+  onSavedSearchesChanged
 }: SidebarProps) {
   const [newFolderName, setNewFolderName] = useState('');
   const [newTagName, setNewTagName] = useState('');
   const [newTagColor, setNewTagColor] = useState('#8B5CF6');
+  const [newTagParentId, setNewTagParentId] = useState<string | null>(null);
+  const [collapsedTags, setCollapsedTags] = useState<Set<string>>(new Set());
+  const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
   const [isFolderDialogOpen, setIsFolderDialogOpen] = useState(false);
   const [isTagDialogOpen, setIsTagDialogOpen] = useState(false);
   const [isCreatingFolder, setIsCreatingFolder] = useState(false);
   const [isCreatingTag, setIsCreatingTag] = useState(false);
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [isWorkspaceDialogOpen, setIsWorkspaceDialogOpen] = useState(false);
+  const [isCreatingWorkspace, setIsCreatingWorkspace] = useState(false);
+  const [isManageWorkspaceOpen, setIsManageWorkspaceOpen] = useState(false);
+  const [newSearchName, setNewSearchName] = useState('');
+  const [newSearchIsDefault, setNewSearchIsDefault] = useState(false);
+  const [isSearchDialogOpen, setIsSearchDialogOpen] = useState(false);
+  const [isSavingSearch, setIsSavingSearch] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [importFormat, setImportFormat] = useState<ImportFormat | null>(null);
+  const [isRestoreBackupOpen, setIsRestoreBackupOpen] = useState(false);
+
+  // Viewers see a workspace's folders and tags but can't add to them
+  const canEdit = activeWorkspace?.role !== 'viewer';
+
+  const searchError = getSearchQueryError(searchQuery);
+
+  const currentView: NoteView = {
+    folderId: selectedFolder,
+    tagFilter,
+    search: searchQuery,
+    favoritesOnly: showFavorites
+  };
 
   const handleCreateFolder = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -62,15 +190,14 @@ export function Sidebar({
 
     setIsCreatingFolder(true);
     try {
-      const folderData: CreateFolderInput = {
-        name: newFolderName.trim(),
-        user_id: user.id
+      const folderData: Omit<CreateFolderInput, 'user_id'> = {
+        name: newFolderName.trim()
       };
       
       await trpc.createFolder.mutate(folderData);
       setNewFolderName('');
       setIsFolderDialogOpen(false);
-      // Note: In a real app, we'd refresh the folders list here
+      onDataChanged();
     } catch (error) {
       console.error('Failed to create folder:', error);
     } finally {
@@ -84,17 +211,18 @@ export function Sidebar({
 
     setIsCreatingTag(true);
     try {
-      const tagData: CreateTagInput = {
+      const tagData: Omit<CreateTagInput, 'user_id'> = {
         name: newTagName.trim(),
         color: newTagColor,
-        user_id: user.id
+        parent_tag_id: newTagParentId
       };
       
       await trpc.createTag.mutate(tagData);
       setNewTagName('');
       setNewTagColor('#8B5CF6');
+      setNewTagParentId(null);
       setIsTagDialogOpen(false);
-      // Note: In a real app, we'd refresh the tags list here
+      onDataChanged();
     } catch (error) {
       console.error('Failed to create tag:', error);
     } finally {
@@ -102,6 +230,197 @@ export function Sidebar({
     }
   };
 
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+
+    setIsCreatingWorkspace(true);
+    try {
+      const workspace = await trpc.createWorkspace.mutate({ name: newWorkspaceName.trim() });
+      setNewWorkspaceName('');
+      setIsWorkspaceDialogOpen(false);
+      onWorkspacesChanged();
+      onWorkspaceSwitch(workspace.id);
+    } catch (error) {
+      console.error('Failed to create workspace:', error);
+    } finally {
+      setIsCreatingWorkspace(false);
+    }
+  };
+
+  const handleSaveSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSearchName.trim()) return;
+
+    setIsSavingSearch(true);
+    try {
+      await trpc.createSavedSearch.mutate({
+        name: newSearchName.trim(),
+        query: toSavedSearchQuery(currentView),
+        is_default: newSearchIsDefault
+      });
+      setNewSearchName('');
+      setNewSearchIsDefault(false);
+      setIsSearchDialogOpen(false);
+      onSavedSearchesChanged();
+    } catch (error) {
+      console.error('Failed to save search:', error);
+    } finally {
+      setIsSavingSearch(false);
+    }
+  };
+
+  const handleToggleDefaultSearch = async (search: SavedSearch) => {
+    try {
+      await trpc.updateSavedSearch.mutate({ id: search.id, is_default: !search.is_default });
+      onSavedSearchesChanged();
+    } catch (error) {
+      console.error('Failed to update saved search:', error);
+    }
+  };
+
+  const handleDeleteSearch = async (search: SavedSearch) => {
+    try {
+      await trpc.deleteSavedSearch.mutate({ id: search.id });
+      onSavedSearchesChanged();
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+    }
+  };
+
+  const exportFolder = folders.find((folder: Folder) => folder.id === selectedFolder);
+
+  const handleExport = async (folder?: Folder) => {
+    setIsExporting(true);
+    try {
+      const name = folder?.name ?? activeWorkspace?.name ?? 'notes';
+      await downloadMarkdownExport(`${name}.zip`, folder?.id);
+    } catch (error) {
+      console.error('Failed to export notes:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDownloadBackup = async () => {
+    setIsExporting(true);
+    try {
+      await downloadBackup();
+    } catch (error) {
+      console.error('Failed to download backup:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Without reparenting, the deleted tag's children become top-level tags
+  const handleDeleteTag = async (reparentChildren: boolean) => {
+    if (!tagToDelete) return;
+
+    try {
+      await trpc.deleteTag.mutate({ id: tagToDelete.id, reparent_children: reparentChildren });
+      onTagFilterChange(removeTagFromFilter(tagFilter, tagToDelete.id));
+      onDataChanged();
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+    } finally {
+      setTagToDelete(null);
+    }
+  };
+
+  const toggleTagCollapsed = (tagId: string) => {
+    setCollapsedTags((prev: Set<string>) => {
+      const next = new Set(prev);
+      if (next.has(tagId)) {
+        next.delete(tagId);
+      } else {
+        next.add(tagId);
+      }
+      return next;
+    });
+  };
+
+  const childTags = (parentId: string | null) =>
+    tags.filter((tag: Tag) => tag.parent_tag_id === parentId);
+
+  const renderTag = (tag: Tag, depth: number): React.ReactNode => {
+    const children = childTags(tag.id);
+    const isCollapsed = collapsedTags.has(tag.id);
+    const isIncluded = tagFilter.include.includes(tag.id);
+    const isExcluded = tagFilter.exclude.includes(tag.id);
+
+    return (
+      <div key={tag.id}>
+        <div className="group flex items-center gap-1" style={{ paddingLeft: depth * 12 }}>
+          {children.length > 0 ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-gray-400"
+              onClick={() => toggleTagCollapsed(tag.id)}
+              title={isCollapsed ? 'Expand' : 'Collapse'}
+            >
+              {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+            </Button>
+          ) : (
+            <div className="w-6 shrink-0" />
+          )}
+          <Button
+            variant={isIncluded || isExcluded ? "secondary" : "ghost"}
+            className={`flex-1 min-w-0 justify-start text-sm ${
+              isIncluded
+                ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' 
+                : isExcluded
+                  ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 line-through'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            onClick={() => onTagFilterChange(cycleTagFilter(tagFilter, tag.id))}
+            title={isIncluded ? 'Click to exclude' : isExcluded ? 'Click to stop filtering' : 'Click to include'}
+          >
+            <div 
+              className="w-3 h-3 rounded-full mr-2 shrink-0" 
+              style={{ backgroundColor: tag.color || '#8B5CF6' }}
+            />
+            <span className="truncate">{tag.name}</span>
+          </Button>
+          {canEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+              onClick={() => setTagToDelete(tag)}
+              title="Delete tag"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+        {!isCollapsed && children.map((child: Tag) => renderTag(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const renderSharedNote = (note: SharedNote, nested: boolean) => {
+    const { icon: PermissionIcon, label } = PERMISSION_ICONS[note.permission];
+    return (
+      <Button
+        key={note.id}
+        variant={selectedNoteId === note.id ? "secondary" : "ghost"}
+        className={`w-full justify-start text-sm ${nested ? 'pl-6' : ''} ${
+          selectedNoteId === note.id
+            ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
+            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+        }`}
+        onClick={() => onSharedNoteSelect(note)}
+        title={`${note.owner_username} · ${label}`}
+      >
+        <FileText className="h-4 w-4 mr-2" />
+        <span className="truncate">{note.title}</span>
+        <PermissionIcon className="h-3 w-3 ml-auto shrink-0 opacity-60" />
+      </Button>
+    );
+  };
+
   const tagColors = [
     '#8B5CF6', '#EC4899', '#10B981', '#F59E0B', 
     '#EF4444', '#3B82F6', '#8B5A2B', '#6B7280'
@@ -123,6 +442,54 @@ export function Sidebar({
               {user.email}
             </div>
           </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 hover:text-purple-500"
+                disabled={isExporting}
+                title="Import, export and backup"
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+              <DropdownMenuItem onClick={() => handleExport()} className="cursor-pointer">
+                <Download className="h-4 w-4 mr-2" />
+                Export all notes as Markdown
+              </DropdownMenuItem>
+              {exportFolder && (
+                <DropdownMenuItem onClick={() => handleExport(exportFolder)} className="cursor-pointer">
+                  <FolderIcon className="h-4 w-4 mr-2" />
+                  <span className="truncate">Export "{exportFolder.name}"</span>
+                </DropdownMenuItem>
+              )}
+              {canEdit && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setImportFormat('markdown')} className="cursor-pointer">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import Markdown...
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setImportFormat('enex')} className="cursor-pointer">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import from Evernote...
+                  </DropdownMenuItem>
+                </>
+              )}
+              {/* Backups always cover the personal notes, whichever workspace is open */}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={handleDownloadBackup} className="cursor-pointer">
+                <Download className="h-4 w-4 mr-2" />
+                Download backup
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setIsRestoreBackupOpen(true)} className="cursor-pointer">
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+                Restore backup...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button
             variant="ghost"
             size="sm"
@@ -133,6 +500,85 @@ export function Sidebar({
           </Button>
         </div>
 
+        {/* Workspace switcher */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              className="w-full justify-start mb-3 bg-white/50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600"
+            >
+              {activeWorkspace ? <Building2 className="h-4 w-4 mr-2" /> : <UserIcon className="h-4 w-4 mr-2" />}
+              <span className="truncate">{activeWorkspace?.name ?? 'Personal'}</span>
+              <ChevronsUpDown className="h-4 w-4 ml-auto opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64">
+            <DropdownMenuItem onClick={() => onWorkspaceSwitch(null)} className="cursor-pointer">
+              <UserIcon className="h-4 w-4 mr-2" />
+              Personal
+              {!activeWorkspace && <Check className="h-4 w-4 ml-auto" />}
+            </DropdownMenuItem>
+            {workspaces.map((workspace: UserWorkspace) => (
+              <DropdownMenuItem
+                key={workspace.id}
+                onClick={() => onWorkspaceSwitch(workspace.id)}
+                className="cursor-pointer"
+              >
+                <Building2 className="h-4 w-4 mr-2" />
+                <span className="truncate">{workspace.name}</span>
+                {activeWorkspace?.id === workspace.id && <Check className="h-4 w-4 ml-auto" />}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setIsWorkspaceDialogOpen(true)} className="cursor-pointer">
+              <Plus className="h-4 w-4 mr-2" />
+              New workspace
+            </DropdownMenuItem>
+            {activeWorkspace && (
+              <DropdownMenuItem onClick={() => setIsManageWorkspaceOpen(true)} className="cursor-pointer">
+                <Settings className="h-4 w-4 mr-2" />
+                Members and settings
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Dialog open={isWorkspaceDialogOpen} onOpenChange={setIsWorkspaceDialogOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Building2 className="h-5 w-5 text-purple-500" />
+                Create New Workspace
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleCreateWorkspace} className="space-y-4">
+              <Input
+                placeholder="Workspace name"
+                value={newWorkspaceName}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewWorkspaceName(e.target.value)}
+                maxLength={100}
+                required
+              />
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  disabled={isCreatingWorkspace}
+                  className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+                >
+                  {isCreatingWorkspace ? 'Creating...' : 'Create'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsWorkspaceDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
         {/* Search */}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
@@ -140,9 +586,16 @@ export function Sidebar({
             placeholder="Search notes..."
             value={searchQuery}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSearchChange(e.target.value)}
-            className="pl-9 bg-white/50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600"
+            className={`pl-9 bg-white/50 dark:bg-gray-700/50 ${
+              searchError ? 'border-red-400 dark:border-red-500' : 'border-gray-200 dark:border-gray-600'
+            }`}
+            title={'Words, "phrases", -exclusions and OR, plus tag:work, folder:"Meeting Notes", is:favorite, created:>2026-01-01 and updated:last-week'}
+            aria-invalid={searchError !== null}
           />
         </div>
+        {searchError && (
+          <div className="text-xs text-red-500 mt-1">{searchError}</div>
+        )}
       </div>
 
       <ScrollArea className="flex-1">
@@ -161,6 +614,132 @@ export function Sidebar({
               <Heart className="h-4 w-4 mr-2" />
               Favorites
             </Button>
+            <Button
+              variant={showTrash ? "default" : "ghost"}
+              className={`w-full justify-start ${
+                showTrash 
+                  ? 'bg-gradient-to-r from-red-500 to-orange-500 text-white hover:from-red-600 hover:to-orange-600' 
+                  : 'text-gray-600 dark:text-gray-300 hover:text-red-500 dark:hover:text-red-400'
+              }`}
+              onClick={onToggleTrash}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Trash
+            </Button>
+          </div>
+
+          <Separator className="bg-gray-200 dark:bg-gray-700" />
+
+          {/* Saved searches section */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+                <Bookmark className="h-4 w-4" />
+                Saved Searches
+              </h3>
+              <Dialog open={isSearchDialogOpen} onOpenChange={setIsSearchDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-gray-500 hover:text-purple-500"
+                    disabled={!isNoteViewFiltered(currentView)}
+                    title="Save the current filters"
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-md">
+                  <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                      <Bookmark className="h-5 w-5 text-purple-500" />
+                      Save Search
+                    </DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleSaveSearch} className="space-y-4">
+                    <Input
+                      placeholder="Search name"
+                      value={newSearchName}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewSearchName(e.target.value)}
+                      maxLength={100}
+                      required
+                    />
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={newSearchIsDefault}
+                        onCheckedChange={(checked: boolean | 'indeterminate') => setNewSearchIsDefault(checked === true)}
+                      />
+                      Open this view after login
+                    </label>
+                    <div className="flex gap-2">
+                      <Button
+                        type="submit"
+                        disabled={isSavingSearch}
+                        className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+                      >
+                        {isSavingSearch ? 'Saving...' : 'Save'}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setIsSearchDialogOpen(false)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+
+            <div className="space-y-1">
+              {savedSearches.length === 0 ? (
+                <div className="text-xs text-gray-400 dark:text-gray-500 pl-6 py-2">
+                  Filter your notes, then save the view here
+                </div>
+              ) : (
+                savedSearches.map((search: SavedSearchWithCount) => {
+                  const isActive = isSameNoteView(currentView, fromSavedSearchQuery(search.query));
+                  return (
+                    <div key={search.id} className="group flex items-center gap-1">
+                      <Button
+                        variant={isActive ? "secondary" : "ghost"}
+                        className={`flex-1 min-w-0 justify-start text-sm ${
+                          isActive
+                            ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                        }`}
+                        onClick={() => onSavedSearchSelect(search)}
+                      >
+                        <Search className="h-4 w-4 mr-2" />
+                        <span className="truncate">{search.name}</span>
+                        <Badge variant="secondary" className="ml-auto text-xs">{search.note_count}</Badge>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={`h-6 w-6 p-0 ${
+                          search.is_default ? 'text-purple-500' : 'opacity-0 group-hover:opacity-100 text-gray-400 hover:text-purple-500'
+                        }`}
+                        onClick={() => handleToggleDefaultSearch(search)}
+                        title={search.is_default ? 'Opens after login' : 'Open after login'}
+                      >
+                        <Pin className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                        onClick={() => handleDeleteSearch(search)}
+                        title="Delete saved search"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
           </div>
 
           <Separator className="bg-gray-200 dark:bg-gray-700" />
@@ -172,7 +751,7 @@ export function Sidebar({
                 <FolderIcon className="h-4 w-4" />
                 Folders
               </h3>
-              <Dialog open={isFolderDialogOpen} onOpenChange={setIsFolderDialogOpen}>
+              {canEdit && <Dialog open={isFolderDialogOpen} onOpenChange={setIsFolderDialogOpen}>
                 <DialogTrigger asChild>
                   <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-gray-500 hover:text-purple-500">
                     <Plus className="h-3 w-3" />
@@ -211,7 +790,7 @@ export function Sidebar({
                     </div>
                   </form>
                 </DialogContent>
-              </Dialog>
+              </Dialog>}
             </div>
 
             <div className="space-y-1">
@@ -234,19 +813,31 @@ export function Sidebar({
                 </div>
               ) : (
                 folders.map((folder: Folder) => (
-                  <Button
-                    key={folder.id}
-                    variant={selectedFolder === folder.id ? "secondary" : "ghost"}
-                    className={`w-full justify-start text-sm ${
-                      selectedFolder === folder.id 
-                        ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' 
-                        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
-                    }`}
-                    onClick={() => onFolderSelect(folder.id)}
-                  >
-                    <FolderIcon className="h-4 w-4 mr-2" />
-                    <span className="truncate">{folder.name}</span>
-                  </Button>
+                  <div key={folder.id} className="group flex items-center gap-1">
+                    <Button
+                      variant={selectedFolder === folder.id ? "secondary" : "ghost"}
+                      className={`flex-1 min-w-0 justify-start text-sm ${
+                        selectedFolder === folder.id 
+                          ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' 
+                          : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                      onClick={() => onFolderSelect(folder.id)}
+                    >
+                      <FolderIcon className="h-4 w-4 mr-2" />
+                      <span className="truncate">{folder.name}</span>
+                    </Button>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-purple-500"
+                        onClick={() => setShareTarget({ type: 'folder', id: folder.id, name: folder.name })}
+                        title="Share folder"
+                      >
+                        <Share2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
                 ))
               )}
             </div>
@@ -261,7 +852,7 @@ export function Sidebar({
                 <TagIcon className="h-4 w-4" />
                 Tags
               </h3>
-              <Dialog open={isTagDialogOpen} onOpenChange={setIsTagDialogOpen}>
+              {canEdit && <Dialog open={isTagDialogOpen} onOpenChange={setIsTagDialogOpen}>
                 <DialogTrigger asChild>
                   <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-gray-500 hover:text-blue-500">
                     <Plus className="h-3 w-3" />
@@ -282,6 +873,25 @@ export function Sidebar({
                       maxLength={50}
                       required
                     />
+                    {tags.length > 0 && (
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Nested under</label>
+                        <Select
+                          value={newTagParentId ?? 'none'}
+                          onValueChange={(v: string) => setNewTagParentId(v === 'none' ? null : v)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No parent (top level)</SelectItem>
+                            {tags.map((tag: Tag) => (
+                              <SelectItem key={tag.id} value={tag.id}>{getTagPath(tags, tag.id)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                     <div className="space-y-2">
                       <label className="text-sm font-medium">Color</label>
                       <div className="flex gap-2 flex-wrap">
@@ -316,38 +926,152 @@ export function Sidebar({
                     </div>
                   </form>
                 </DialogContent>
-              </Dialog>
+              </Dialog>}
             </div>
 
+            {isTagFilterActive(tagFilter) && (
+              <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                {tagFilter.include.length > 1 && (
+                  <>
+                    <span>Match</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => onTagFilterChange({ ...tagFilter, match: tagFilter.match === 'all' ? 'any' : 'all' })}
+                      title="Notes must have all of the included tags, or any of them"
+                    >
+                      {tagFilter.match === 'all' ? 'ALL' : 'ANY'}
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs ml-auto"
+                  onClick={() => onTagFilterChange(EMPTY_TAG_FILTER)}
+                >
+                  Clear
+                </Button>
+              </div>
+            )}
+
             <div className="space-y-1">
               {tags.length === 0 ? (
                 <div className="text-xs text-gray-400 dark:text-gray-500 py-2">
                   🏷️ No tags yet - create one above!
                 </div>
               ) : (
-                tags.map((tag: Tag) => (
-                  <Button
-                    key={tag.id}
-                    variant={selectedTag === tag.id ? "secondary" : "ghost"}
-                    className={`w-full justify-start text-sm ${
-                      selectedTag === tag.id 
-                        ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' 
-                        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
-                    }`}
-                    onClick={() => onTagSelect(tag.id)}
-                  >
-                    <div 
-                      className="w-3 h-3 rounded-full mr-2" 
-                      style={{ backgroundColor: tag.color || '#8B5CF6' }}
-                    />
-                    <span className="truncate">{tag.name}</span>
-                  </Button>
-                ))
+                // Tags whose parent is gone (e.g. deleted on another device) show at the top level
+                tags
+                  .filter((tag: Tag) => !tag.parent_tag_id || !tags.some((t: Tag) => t.id === tag.parent_tag_id))
+                  .map((tag: Tag) => renderTag(tag, 0))
               )}
             </div>
           </div>
+
+          {/* Shared with me section */}
+          {(sharedWithMe.notes.length > 0 || sharedWithMe.folders.length > 0) && (
+            <>
+              <Separator className="bg-gray-200 dark:bg-gray-700" />
+
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Shared with me
+                </h3>
+
+                <div className="space-y-1">
+                  {sharedWithMe.folders.map((folder: SharedFolder) => (
+                    <div key={folder.id} className="space-y-1">
+                      <div className="flex items-center gap-2 px-3 py-1 text-xs text-gray-500 dark:text-gray-400">
+                        <FolderIcon className="h-3 w-3" />
+                        <span className="truncate">{folder.name}</span>
+                        <span className="ml-auto shrink-0">{folder.owner_username}</span>
+                      </div>
+                      {sharedWithMe.notes
+                        .filter((note: SharedNote) => note.shared_folder_id === folder.id)
+                        .map((note: SharedNote) => renderSharedNote(note, true))}
+                    </div>
+                  ))}
+
+                  {sharedWithMe.notes
+                    .filter((note: SharedNote) => note.shared_folder_id === null)
+                    .map((note: SharedNote) => renderSharedNote(note, false))}
+                </div>
+              </div>
+            </>
+          )}
         </div>
       </ScrollArea>
+
+      <AlertDialog open={!!tagToDelete} onOpenChange={(open: boolean) => !open && setTagToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{tagToDelete?.name}" will be removed from every note.
+              {tagToDelete && childTags(tagToDelete.id).length > 0 &&
+                ' Its sub-tags can move up a level or become top-level tags.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            {tagToDelete && childTags(tagToDelete.id).length > 0 ? (
+              <>
+                <AlertDialogAction onClick={() => handleDeleteTag(false)} className="bg-red-500 hover:bg-red-600">
+                  Make sub-tags top-level
+                </AlertDialogAction>
+                <AlertDialogAction onClick={() => handleDeleteTag(true)} className="bg-red-500 hover:bg-red-600">
+                  Move sub-tags up
+                </AlertDialogAction>
+              </>
+            ) : (
+              <AlertDialogAction onClick={() => handleDeleteTag(false)} className="bg-red-500 hover:bg-red-600">
+                Delete
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {activeWorkspace && (
+        <WorkspaceDialog
+          workspace={activeWorkspace}
+          user={user}
+          open={isManageWorkspaceOpen}
+          onOpenChange={setIsManageWorkspaceOpen}
+          onChanged={onWorkspacesChanged}
+          onLeft={() => {
+            setIsManageWorkspaceOpen(false);
+            onWorkspaceSwitch(null);
+            onWorkspacesChanged();
+          }}
+        />
+      )}
+
+      {importFormat && (
+        <ImportDialog
+          format={importFormat}
+          open
+          onOpenChange={(open: boolean) => !open && setImportFormat(null)}
+          onImported={onDataChanged}
+        />
+      )}
+
+      <RestoreBackupDialog
+        open={isRestoreBackupOpen}
+        onOpenChange={setIsRestoreBackupOpen}
+        onRestored={onDataChanged}
+      />
+
+      {shareTarget && (
+        <ShareDialog
+          target={shareTarget}
+          open
+          onOpenChange={(open: boolean) => !open && setShareTarget(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import type { SyncStatus } from '@/utils/sync';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  pendingChanges: number;
+  onSync: () => void;
+}
+
+export function SyncStatusIndicator({ status, pendingChanges, onSync }: SyncStatusIndicatorProps) {
+  const pendingLabel = pendingChanges === 1 ? '1 change waiting' : `${pendingChanges} changes waiting`;
+
+  const { icon, label, className } = {
+    synced: {
+      icon: <Cloud className="h-4 w-4" />,
+      label: 'Saved',
+      className: 'text-gray-500 dark:text-gray-400'
+    },
+    syncing: {
+      icon: <RefreshCw className="h-4 w-4 animate-spin" />,
+      label: 'Syncing...',
+      className: 'text-blue-500 dark:text-blue-400'
+    },
+    offline: {
+      icon: <CloudOff className="h-4 w-4" />,
+      label: pendingChanges > 0 ? `Offline - ${pendingLabel}` : 'Offline',
+      className: 'text-amber-600 dark:text-amber-400'
+    },
+    error: {
+      icon: <AlertTriangle className="h-4 w-4" />,
+      label: pendingChanges > 0 ? `Sync failed - ${pendingLabel}` : 'Sync failed',
+      className: 'text-red-600 dark:text-red-400'
+    }
+  }[status];
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={onSync}
+      disabled={status === 'syncing'}
+      className={className}
+      title="Sync now"
+    >
+      {icon}
+      <span className="ml-1 text-xs">{label}</span>
+    </Button>
+  );
+}
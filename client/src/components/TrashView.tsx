@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Trash2, RotateCcw, FileText, Folder as FolderIcon } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { Note, Folder } from '../../../server/src/schema';
+
+interface TrashViewProps {
+  onRestored: () => void;
+}
+
+export function TrashView({ onRestored }: TrashViewProps) {
+  const [trashedNotes, setTrashedNotes] = useState<Note[]>([]);
+  const [trashedFolders, setTrashedFolders] = useState<Folder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [notes, folders] = await Promise.all([
+        trpc.getUserNotes.query({ trashed: true }),
+        trpc.getUserFolders.query({ trashed: true })
+      ]);
+      setTrashedNotes(notes);
+      setTrashedFolders(folders);
+    } catch (err) {
+      console.error('Failed to load trash:', err);
+      setError('Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestoreNote = async (noteId: string) => {
+    try {
+      await trpc.restoreNote.mutate({ id: noteId });
+      await loadTrash();
+      onRestored();
+    } catch (err) {
+      console.error('Failed to restore note:', err);
+      setError('Failed to restore note');
+    }
+  };
+
+  const handleRestoreFolder = async (folderId: string) => {
+    try {
+      await trpc.restoreFolder.mutate({ id: folderId });
+      await loadTrash();
+      onRestored();
+    } catch (err) {
+      console.error('Failed to restore folder:', err);
+      setError('Failed to restore folder');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    try {
+      await trpc.emptyTrash.mutate({});
+      setTrashedNotes([]);
+      setTrashedFolders([]);
+    } catch (err) {
+      console.error('Failed to empty trash:', err);
+      setError('Failed to empty trash');
+    } finally {
+      setIsConfirmOpen(false);
+    }
+  };
+
+  const formatDate = (date: Date | null) => {
+    if (!date) return '';
+    return new Date(date).toLocaleDateString([], { month: 'short', day: 'numeric' });
+  };
+
+  const isEmpty = trashedNotes.length === 0 && trashedFolders.length === 0;
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+            <Trash2 className="h-5 w-5 text-red-500" />
+            Trash
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Items in the trash are deleted permanently after a while
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsConfirmOpen(true)}
+          disabled={isEmpty}
+          className="text-red-600 dark:text-red-400"
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Empty Trash
+        </Button>
+      </div>
+
+      {error && (
+        <div className="px-4 pt-3 text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      <ScrollArea className="flex-1">
+        {isLoading ? (
+          <div className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading trash...</div>
+        ) : isEmpty ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            <Trash2 className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <div className="text-lg mb-2">Trash is empty</div>
+            <div className="text-sm">Deleted notes and folders show up here</div>
+          </div>
+        ) : (
+          <div className="p-4 space-y-1">
+            {trashedFolders.map((folder: Folder) => (
+              <div
+                key={folder.id}
+                className="flex items-center gap-3 p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                <FolderIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <span className="flex-1 truncate text-gray-700 dark:text-gray-300">{folder.name}</span>
+                <span className="text-xs text-gray-400">{formatDate(folder.deleted_at)}</span>
+                <Button variant="ghost" size="sm" onClick={() => handleRestoreFolder(folder.id)}>
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restore
+                </Button>
+              </div>
+            ))}
+            {trashedNotes.map((note: Note) => (
+              <div
+                key={note.id}
+                className="flex items-center gap-3 p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                <FileText className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <span className="flex-1 truncate text-gray-700 dark:text-gray-300">{note.title || 'Untitled'}</span>
+                <span className="text-xs text-gray-400">{formatDate(note.deleted_at)}</span>
+                <Button variant="ghost" size="sm" onClick={() => handleRestoreNote(note.id)}>
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restore
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      {/* Empty trash confirmation dialog */}
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5 text-red-500" />
+              Empty Trash
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Permanently delete everything in the trash? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleEmptyTrash}
+              className="bg-red-500 hover:bg-red-600 text-white"
+            >
+              Empty Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TRPCClientError } from '@trpc/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Building2, Copy, Check, X } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type {
+  PublicUser,
+  UserWorkspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  WorkspaceRole
+} from '../../../server/src/schema';
+
+interface WorkspaceDialogProps {
+  workspace: UserWorkspace;
+  user: PublicUser;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The workspace was renamed or the user's own role changed
+  onChanged: () => void;
+  onLeft: () => void;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view'
+};
+
+// Invitees open the app with the token and accept it once signed in
+const inviteUrl = (token: string) => `${window.location.origin}/?invite=${token}`;
+
+export function WorkspaceDialog({ workspace, user, open, onOpenChange, onChanged, onLeft }: WorkspaceDialogProps) {
+  const [name, setName] = useState(workspace.name);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('editor');
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = workspace.role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await trpc.getWorkspaceMembers.query({ workspace_id: workspace.id }));
+      if (isOwner) {
+        setInvitations(await trpc.getWorkspaceInvitations.query({ workspace_id: workspace.id }));
+      }
+    } catch (err) {
+      console.error('Failed to load workspace members:', err);
+      setError('Failed to load members');
+    }
+  }, [workspace.id, isOwner]);
+
+  useEffect(() => {
+    if (open) {
+      setName(workspace.name);
+      setError(null);
+      setCreatedUrl(null);
+      loadMembers();
+    }
+  }, [open, workspace.name, loadMembers]);
+
+  const showError = (err: unknown, fallback: string) => {
+    setError(err instanceof TRPCClientError ? err.message : fallback);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || name.trim() === workspace.name) return;
+
+    try {
+      await trpc.updateWorkspace.mutate({ id: workspace.id, name: name.trim() });
+      onChanged();
+    } catch (err) {
+      console.error('Failed to rename workspace:', err);
+      showError(err, 'Failed to rename workspace');
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, newRole: WorkspaceRole) => {
+    try {
+      await trpc.updateWorkspaceMember.mutate({ workspace_id: workspace.id, member_id: member.user_id, role: newRole });
+      await loadMembers();
+      if (member.user_id === user.id) onChanged();
+    } catch (err) {
+      console.error('Failed to change role:', err);
+      showError(err, 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    try {
+      await trpc.removeWorkspaceMember.mutate({ workspace_id: workspace.id, member_id: member.user_id });
+      if (member.user_id === user.id) {
+        onLeft();
+        return;
+      }
+      setMembers((prev: WorkspaceMember[]) => prev.filter((m: WorkspaceMember) => m.user_id !== member.user_id));
+    } catch (err) {
+      console.error('Failed to remove member:', err);
+      showError(err, 'Failed to remove member');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsInviting(true);
+    setError(null);
+    try {
+      const invitation = await trpc.inviteToWorkspace.mutate({ workspace_id: workspace.id, email: email.trim(), role });
+      setCreatedUrl(inviteUrl(invitation.token));
+      setCopied(false);
+      setEmail('');
+      await loadMembers();
+    } catch (err) {
+      console.error('Failed to invite:', err);
+      showError(err, 'Failed to invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  const handleRevoke = async (invitation: WorkspaceInvitation) => {
+    try {
+      await trpc.revokeWorkspaceInvitation.mutate({ id: invitation.id });
+      setInvitations((prev: WorkspaceInvitation[]) => prev.filter((i: WorkspaceInvitation) => i.id !== invitation.id));
+    } catch (err) {
+      console.error('Failed to revoke invitation:', err);
+      setError('Failed to revoke invitation');
+    }
+  };
+
+  const renderRoleSelect = (value: WorkspaceRole, onChange: (value: WorkspaceRole) => void) => (
+    <Select value={value} onValueChange={(v: string) => onChange(v as WorkspaceRole)}>
+      <SelectTrigger className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map((r: WorkspaceRole) => (
+          <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-purple-500" />
+            {workspace.name}
+          </DialogTitle>
+          <DialogDescription>
+            Notes, folders and tags in this workspace belong to the team rather than to one person.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleRename} className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              maxLength={100}
+              className="flex-1"
+              required
+            />
+            <Button type="submit" variant="outline" disabled={!name.trim() || name.trim() === workspace.name}>
+              Rename
+            </Button>
+          </form>
+        )}
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="space-y-2">
+          {members.map((member: WorkspaceMember) => (
+            <div key={member.user_id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                  {member.username}{member.user_id === user.id ? ' (you)' : ''}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{member.email}</div>
+              </div>
+              {isOwner
+                ? renderRoleSelect(member.role, (r: WorkspaceRole) => handleRoleChange(member, r))
+                : <span className="text-xs text-gray-500 dark:text-gray-400">{ROLE_LABELS[member.role]}</span>}
+              {(isOwner || member.user_id === user.id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(member)}
+                  className="h-8 w-8 p-0 text-gray-400 hover:text-red-500"
+                  title={member.user_id === user.id ? 'Leave workspace' : 'Remove member'}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOwner && (
+          <>
+            <Separator className="bg-gray-200 dark:bg-gray-700" />
+
+            <form onSubmit={handleInvite} className="flex gap-2">
+              <Input
+                type="email"
+                placeholder="Invite by email"
+                value={email}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+                className="flex-1"
+                required
+              />
+              {renderRoleSelect(role, setRole)}
+              <Button
+                type="submit"
+                disabled={isInviting}
+                className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+              >
+                {isInviting ? 'Inviting...' : 'Invite'}
+              </Button>
+            </form>
+
+            {createdUrl && (
+              <div className="space-y-1">
+                <div className="flex gap-2">
+                  <Input value={createdUrl} readOnly className="flex-1 font-mono text-xs" />
+                  <Button variant="outline" size="sm" onClick={handleCopy} title="Copy link">
+                    {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  Send this link to the invitee; it can't be shown again.
+                </div>
+              </div>
+            )}
+
+            {invitations.length > 0 && (
+              <div className="space-y-2">
+                {invitations.map((invitation: WorkspaceInvitation) => (
+                  <div key={invitation.id} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-gray-900 dark:text-gray-100 truncate">{invitation.email}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        Invited · {ROLE_LABELS[invitation.role]}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(invitation)}
+                      className="h-8 w-8 p-0 text-gray-400 hover:text-red-500"
+                      title="Revoke invitation"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
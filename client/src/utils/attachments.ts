@@ -0,0 +1,60 @@
+import { getSessionToken } from './session';
+import type { Attachment, SignedAttachmentUrl } from '../../../server/src/schema';
+
+// Attachments are uploaded next to the tRPC API since the body is the raw file
+const ATTACHMENTS_URL = '/api/attachments';
+
+export const getAttachmentUrl = (attachmentId: string): string => `${ATTACHMENTS_URL}/${attachmentId}`;
+
+// Loads without the session token, which <img> tags and plain links can't send
+export const getSignedAttachmentUrl = (signed: SignedAttachmentUrl): string => {
+  const params = new URLSearchParams({
+    expires: String(new Date(signed.expires_at).getTime()),
+    signature: signed.signature
+  });
+  return `${getAttachmentUrl(signed.attachment_id)}?${params}`;
+};
+
+const ATTACHMENT_URL_PATTERN = /\/api\/attachments\/([\w-]+)/g;
+
+// Ids of attachments the markdown links to or embeds
+export const findAttachmentIds = (content: string): string[] =>
+  [...new Set(Array.from(content.matchAll(ATTACHMENT_URL_PATTERN), match => match[1]))];
+
+// Points images and links to attachments in rendered HTML at their signed
+// addresses; ones without a signature are left as they are
+export const signAttachmentLinks = (html: string, signedUrls: Map<string, SignedAttachmentUrl>): string =>
+  html.replace(/(<(?:img src|a href)=")([^"]*)"/g, (match, start: string, url: string) => {
+    const id = /^\/api\/attachments\/([\w-]+)$/.exec(url)?.[1];
+    const signed = id ? signedUrls.get(id) : undefined;
+    return signed ? `${start}${getSignedAttachmentUrl(signed).replace(/&/g, '&amp;')}"` : match;
+  });
+
+export const uploadAttachment = async (noteId: string, file: File): Promise<Attachment> => {
+  const params = new URLSearchParams({ note_id: noteId, filename: file.name || 'pasted-image' });
+  const token = getSessionToken();
+
+  const response = await fetch(`${ATTACHMENTS_URL}?${params}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': file.type || 'application/octet-stream',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: file
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Upload failed');
+  }
+
+  return body;
+};
+
+// Markdown that embeds images and links to any other file
+export const attachmentMarkdown = (attachment: Attachment): string => {
+  const url = getAttachmentUrl(attachment.id);
+  return attachment.content_type.startsWith('image/')
+    ? `![${attachment.filename}](${url})`
+    : `[${attachment.filename}](${url})`;
+};
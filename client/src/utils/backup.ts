@@ -0,0 +1,20 @@
+import { trpc } from './trpc';
+import { saveFile } from './export';
+import type { Backup } from '../../../server/src/schema';
+
+// Downloads a JSON backup of the user's personal notes, folders and tags
+export const downloadBackup = async (): Promise<void> => {
+  const backup = await trpc.getBackup.query({});
+  const date = backup.exported_at.toISOString().slice(0, 10);
+  const data = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  saveFile(data, `notes-backup-${date}.json`);
+};
+
+// Dates are still strings here; the server checks the file against the backup schema
+export const readBackupFile = async (file: File): Promise<Backup> => {
+  try {
+    return JSON.parse(await file.text()) as Backup;
+  } catch {
+    throw new Error('The file is not a notes backup');
+  }
+};
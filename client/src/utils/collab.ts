@@ -0,0 +1,312 @@
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { getSessionToken } from './session';
+import {
+  COLLAB_PATH_PREFIX,
+  COLLAB_TEXT_NAME,
+  MESSAGE_SYNC,
+  MESSAGE_AWARENESS,
+  MESSAGE_AUTH,
+  MESSAGE_SAVED,
+  MESSAGE_SAVE_FAILED,
+  CLOSE_UNAUTHORIZED,
+  CLOSE_FORBIDDEN,
+  type CollabSavedState,
+  type CollabSaveFailedState
+} from '../../../server/src/helpers/collab_protocol';
+import type { PublicUser } from '../../../server/src/schema';
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+// Someone else editing the same note, with their caret if they have one placed
+export interface CollabPeer {
+  clientId: number;
+  name: string;
+  color: string;
+  selection: TextSelection | null;
+}
+
+export interface CollabHandlers {
+  onStatus: (status: CollabStatus) => void;
+  // Text changed by another editor, with our own selection moved along
+  onRemoteText: (text: string, selection: TextSelection | null) => void;
+  onPeers: (peers: CollabPeer[]) => void;
+  onSaved: (saved: { content: string; updated_at: Date }) => void;
+  // The server could not write the session's text; it tries again on the next edit
+  onSaveFailed: (message: string) => void;
+}
+
+export interface CollabSession {
+  setText: (text: string) => void;
+  setSelection: (selection: TextSelection | null) => void;
+  close: () => void;
+}
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const PEER_COLORS = ['#8B5CF6', '#EC4899', '#F59E0B', '#10B981', '#3B82F6', '#EF4444', '#14B8A6', '#6366F1'];
+
+// Stable per user, so someone keeps their color across notes and reloads
+export const colorForUser = (userId: string): string => {
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return PEER_COLORS[hash % PEER_COLORS.length];
+};
+
+const collabUrl = (noteId: string): string => {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}/api${COLLAB_PATH_PREFIX}${noteId}`;
+};
+
+interface AwarenessCursor {
+  anchor: unknown;
+  head: unknown;
+}
+
+interface AwarenessState {
+  user?: { name: string; color: string };
+  cursor?: AwarenessCursor | null;
+}
+
+// Opens a live editing session for a note. Each connection starts from a
+// fresh document filled in by the server, so nothing typed while disconnected
+// is merged twice; the caller keeps those edits on the regular save path and
+// pushes them with setText once connected. Reconnects with backoff until
+// closed, unless the server refuses us outright.
+export const joinNoteSession = (noteId: string, user: PublicUser, handlers: CollabHandlers): CollabSession => {
+  let socket: WebSocket | null = null;
+  let doc: Y.Doc | null = null;
+  let awareness: awarenessProtocol.Awareness | null = null;
+  let synced = false;
+  let closed = false;
+  let retryDelay = RECONNECT_MIN_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let localSelection: TextSelection | null = null;
+
+  const send = (message: Uint8Array) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(message);
+    }
+  };
+
+  const toRelative = (text: Y.Text, index: number) =>
+    Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, index));
+
+  const toAbsolute = (currentDoc: Y.Doc, position: unknown): number | null => {
+    const absolute = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(position), currentDoc);
+    return absolute ? absolute.index : null;
+  };
+
+  const publishSelection = () => {
+    if (!doc || !awareness || !synced) return;
+    const text = doc.getText(COLLAB_TEXT_NAME);
+    awareness.setLocalStateField('cursor', localSelection
+      ? { anchor: toRelative(text, localSelection.start), head: toRelative(text, localSelection.end) }
+      : null);
+  };
+
+  const reportPeers = () => {
+    if (!doc || !awareness) return;
+    const currentDoc = doc;
+    const peers: CollabPeer[] = [];
+
+    awareness.getStates().forEach((state: AwarenessState, clientId: number) => {
+      if (clientId === currentDoc.clientID || !state.user) return;
+
+      const start = state.cursor ? toAbsolute(currentDoc, state.cursor.anchor) : null;
+      const end = state.cursor ? toAbsolute(currentDoc, state.cursor.head) : null;
+      peers.push({
+        clientId,
+        name: state.user.name,
+        color: state.user.color,
+        selection: start !== null && end !== null ? { start, end } : null
+      });
+    });
+
+    handlers.onPeers(peers);
+  };
+
+  const teardown = () => {
+    awareness?.destroy();
+    doc?.destroy();
+    awareness = null;
+    doc = null;
+    synced = false;
+    handlers.onPeers([]);
+  };
+
+  const connect = () => {
+    if (closed) return;
+
+    const token = getSessionToken();
+    if (!token || typeof WebSocket === 'undefined') {
+      handlers.onStatus('disconnected');
+      return;
+    }
+
+    handlers.onStatus('connecting');
+    const ws = new WebSocket(collabUrl(noteId));
+    ws.binaryType = 'arraybuffer';
+    socket = ws;
+
+    const currentDoc = new Y.Doc();
+    const currentAwareness = new awarenessProtocol.Awareness(currentDoc);
+    const text = currentDoc.getText(COLLAB_TEXT_NAME);
+    doc = currentDoc;
+    awareness = currentAwareness;
+
+    // Where our own selection sits, captured before a remote change lands
+    let selectionBefore: AwarenessCursor | null = null;
+
+    currentDoc.on('beforeTransaction', (transaction: Y.Transaction) => {
+      selectionBefore = transaction.origin === ws && synced && localSelection
+        ? { anchor: toRelative(text, localSelection.start), head: toRelative(text, localSelection.end) }
+        : null;
+    });
+
+    currentDoc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin === ws) return;
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      send(encoding.toUint8Array(encoder));
+    });
+
+    text.observe((event: Y.YTextEvent) => {
+      if (event.transaction.origin !== ws || !synced) return;
+
+      if (selectionBefore) {
+        const start = toAbsolute(currentDoc, selectionBefore.anchor);
+        const end = toAbsolute(currentDoc, selectionBefore.head);
+        localSelection = start !== null && end !== null ? { start, end } : localSelection;
+      }
+      handlers.onRemoteText(text.toString(), localSelection);
+      reportPeers();
+    });
+
+    currentAwareness.on('update', (
+      { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      if (origin === 'local') {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(
+          encoder,
+          awarenessProtocol.encodeAwarenessUpdate(currentAwareness, [...added, ...updated, ...removed])
+        );
+        send(encoding.toUint8Array(encoder));
+      }
+      reportPeers();
+    });
+
+    ws.onopen = () => {
+      const authEncoder = encoding.createEncoder();
+      encoding.writeVarUint(authEncoder, MESSAGE_AUTH);
+      encoding.writeVarString(authEncoder, token);
+      send(encoding.toUint8Array(authEncoder));
+
+      const syncEncoder = encoding.createEncoder();
+      encoding.writeVarUint(syncEncoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(syncEncoder, currentDoc);
+      send(encoding.toUint8Array(syncEncoder));
+    };
+
+    ws.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+      const decoder = decoding.createDecoder(new Uint8Array(event.data));
+      const type = decoding.readVarUint(decoder);
+
+      if (type === MESSAGE_SYNC) {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        const syncType = syncProtocol.readSyncMessage(decoder, encoder, currentDoc, ws);
+        if (encoding.length(encoder) > 1) {
+          send(encoding.toUint8Array(encoder));
+        }
+
+        // The server's full state has arrived; from here the document is the note
+        if (syncType === syncProtocol.messageYjsSyncStep2 && !synced) {
+          synced = true;
+          retryDelay = RECONNECT_MIN_MS;
+          currentAwareness.setLocalState({ user: { name: user.username, color: colorForUser(user.id) }, cursor: null });
+          publishSelection();
+          handlers.onRemoteText(text.toString(), localSelection);
+          handlers.onStatus('connected');
+        }
+      } else if (type === MESSAGE_AWARENESS) {
+        awarenessProtocol.applyAwarenessUpdate(currentAwareness, decoding.readVarUint8Array(decoder), ws);
+      } else if (type === MESSAGE_SAVED) {
+        const saved: CollabSavedState = JSON.parse(decoding.readVarString(decoder));
+        handlers.onSaved({ content: saved.content, updated_at: new Date(saved.updated_at) });
+      } else if (type === MESSAGE_SAVE_FAILED) {
+        const failed: CollabSaveFailedState = JSON.parse(decoding.readVarString(decoder));
+        handlers.onSaveFailed(failed.message);
+      }
+    };
+
+    ws.onclose = (event: CloseEvent) => {
+      if (socket !== ws) return;
+      socket = null;
+      teardown();
+      handlers.onStatus('disconnected');
+
+      if (closed || event.code === CLOSE_UNAUTHORIZED || event.code === CLOSE_FORBIDDEN) return;
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+    };
+  };
+
+  connect();
+
+  return {
+    // Applies an edit from the textarea as one replaced span, which keeps
+    // concurrent edits elsewhere in the note intact
+    setText: (next: string) => {
+      if (!doc || !synced) return;
+      const text = doc.getText(COLLAB_TEXT_NAME);
+      const current = text.toString();
+      if (current === next) return;
+
+      let prefix = 0;
+      while (prefix < current.length && prefix < next.length && current[prefix] === next[prefix]) {
+        prefix++;
+      }
+      let suffix = 0;
+      while (
+        suffix < current.length - prefix &&
+        suffix < next.length - prefix &&
+        current[current.length - 1 - suffix] === next[next.length - 1 - suffix]
+      ) {
+        suffix++;
+      }
+
+      doc.transact(() => {
+        text.delete(prefix, current.length - prefix - suffix);
+        text.insert(prefix, next.slice(prefix, next.length - suffix));
+      });
+    },
+    setSelection: (selection: TextSelection | null) => {
+      localSelection = selection;
+      publishSelection();
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      const ws = socket;
+      socket = null;
+      teardown();
+      ws?.close();
+    }
+  };
+};
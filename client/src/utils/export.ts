@@ -0,0 +1,45 @@
+import { getSessionToken } from './session';
+import { getActiveWorkspaceId } from './workspace';
+import { trpc } from './trpc';
+import type { NoteExportFormat } from '../../../server/src/schema';
+
+// The ZIP export is streamed next to the tRPC API rather than through it
+const EXPORT_URL = '/api/export';
+
+// Saves a file from memory through a temporary link
+export const saveFile = (data: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Downloads the active workspace's notes, or one folder of them, as markdown files in a ZIP
+export const downloadMarkdownExport = async (fileName: string, folderId?: string): Promise<void> => {
+  const params = folderId ? `?${new URLSearchParams({ folder_id: folderId })}` : '';
+  const token = getSessionToken();
+  const workspaceId = getActiveWorkspaceId();
+
+  const response = await fetch(`${EXPORT_URL}${params}`, {
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(workspaceId ? { 'X-Workspace-Id': workspaceId } : {})
+    }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || 'Export failed');
+  }
+
+  saveFile(await response.blob(), fileName);
+};
+
+// Downloads one note as a standalone HTML page or PDF, as last saved
+export const downloadNoteExport = async (noteId: string, format: NoteExportFormat): Promise<void> => {
+  const file = await trpc.exportNote.query({ note_id: noteId, format });
+  const bytes = Uint8Array.from(atob(file.data), (char: string) => char.charCodeAt(0));
+  saveFile(new Blob([bytes], { type: file.content_type }), file.file_name);
+};
@@ -0,0 +1,44 @@
+import { getSessionToken } from './session';
+import { getActiveWorkspaceId } from './workspace';
+import type { ImportResult } from '../../../server/src/schema';
+
+// Imports are uploaded next to the tRPC API since the body is the raw file
+const IMPORT_URL = '/api/import';
+
+const uploadImport = async (url: string, file: File, contentType: string): Promise<ImportResult> => {
+  const token = getSessionToken();
+  const workspaceId = getActiveWorkspaceId();
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': contentType,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(workspaceId ? { 'X-Workspace-Id': workspaceId } : {})
+    },
+    body: file
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || 'Import failed');
+  }
+
+  return body;
+};
+
+// Imports a ZIP of markdown files into the active workspace
+export const uploadMarkdownImport = (file: File): Promise<ImportResult> =>
+  uploadImport(IMPORT_URL, file, 'application/zip');
+
+// Evernote exports one notebook per file, named after it
+export const getEnexNotebookName = (file: File): string =>
+  file.name.replace(/\.enex$/i, '').trim().slice(0, 100) || 'Evernote';
+
+// Imports an Evernote export into a folder named after its notebook
+export const uploadEnexImport = (file: File): Promise<ImportResult> =>
+  uploadImport(
+    `${IMPORT_URL}/enex?${new URLSearchParams({ notebook: getEnexNotebookName(file) })}`,
+    file,
+    'application/xml'
+  );
@@ -0,0 +1,39 @@
+import type { Note, NoteSortKey, SortDirection } from '../../../server/src/schema';
+
+export interface NoteSort {
+  key: NoteSortKey;
+  direction: SortDirection;
+}
+
+export const NOTE_SORT_LABELS: Record<NoteSortKey, string> = {
+  updated: 'Last edited',
+  created: 'Date created',
+  title: 'Title',
+  manual: 'Manual order'
+};
+
+// Same defaults as getNotesPage: newest first for dates, ascending otherwise
+export const defaultNoteSortDirection = (key: NoteSortKey): SortDirection =>
+  key === 'updated' || key === 'created' ? 'desc' : 'asc';
+
+export const DEFAULT_NOTE_SORT: NoteSort = { key: 'updated', direction: 'desc' };
+
+const sortValue = (note: Note, key: NoteSortKey): number | string => {
+  switch (key) {
+    case 'updated': return new Date(note.updated_at).getTime();
+    case 'created': return new Date(note.created_at).getTime();
+    case 'title': return note.title;
+    case 'manual': return note.position;
+  }
+};
+
+// Orders the local copy like getNotesPage orders the server's, ties broken by id
+export const compareNotes = (sort: NoteSort) => (a: Note, b: Note): number => {
+  const left = sortValue(a, sort.key);
+  const right = sortValue(b, sort.key);
+  const byValue = typeof left === 'string' && typeof right === 'string'
+    ? left.localeCompare(right)
+    : left < right ? -1 : left > right ? 1 : 0;
+  const order = byValue || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  return sort.direction === 'asc' ? order : -order;
+};
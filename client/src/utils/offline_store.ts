@@ -0,0 +1,246 @@
+import type { PublicUser, Note, Folder, Tag, SyncResult } from '../../../server/src/schema';
+import type { NoteMutation } from './sync';
+import { getActiveWorkspaceId } from './workspace';
+
+// Local copy of the signed-in user's notes, folders and tags in the open
+// workspace, plus the note changes made while the server could not be reached
+const DB_NAME = 'noteflow-offline';
+const DB_VERSION = 1;
+
+const ENTITY_STORES = ['notes', 'folders', 'tags', 'note_tags'] as const;
+const META_STORE = 'meta';
+const MUTATION_STORE = 'mutations';
+
+// Tags assigned to one note, replaced as a whole whenever the note syncs
+export interface NoteTagSet {
+  note_id: string;
+  tag_ids: string[];
+}
+
+export interface OfflineSnapshot {
+  notes: Note[];
+  folders: Folder[];
+  tags: Tag[];
+  noteTags: NoteTagSet[];
+}
+
+export interface PendingMutation {
+  id: number;
+  mutation: NoteMutation;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('notes', { keyPath: 'id' });
+        db.createObjectStore('folders', { keyPath: 'id' });
+        db.createObjectStore('tags', { keyPath: 'id' });
+        db.createObjectStore('note_tags', { keyPath: 'note_id' });
+        db.createObjectStore(META_STORE);
+        db.createObjectStore(MUTATION_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// The cache belongs to whoever synced last, in the workspace they had open;
+// another user or workspace starts from scratch
+const getCacheOwner = (userId: string): string => `${userId}:${getActiveWorkspaceId() ?? ''}`;
+
+const isCacheOwner = async (db: IDBDatabase, userId: string): Promise<boolean> => {
+  const transaction = db.transaction(META_STORE, 'readonly');
+  return await requestResult(transaction.objectStore(META_STORE).get('owner')) === getCacheOwner(userId);
+};
+
+export const loadOfflineSnapshot = async (userId: string): Promise<OfflineSnapshot | null> => {
+  const db = await openDatabase();
+  if (!await isCacheOwner(db, userId)) return null;
+
+  const transaction = db.transaction(ENTITY_STORES, 'readonly');
+  const [notes, folders, tags, noteTags] = await Promise.all([
+    requestResult(transaction.objectStore('notes').getAll()),
+    requestResult(transaction.objectStore('folders').getAll()),
+    requestResult(transaction.objectStore('tags').getAll()),
+    requestResult(transaction.objectStore('note_tags').getAll())
+  ]);
+
+  return { notes, folders, tags, noteTags };
+};
+
+export const getSyncCursor = async (userId: string): Promise<Date | null> => {
+  const db = await openDatabase();
+  if (!await isCacheOwner(db, userId)) return null;
+
+  const transaction = db.transaction(META_STORE, 'readonly');
+  return (await requestResult(transaction.objectStore(META_STORE).get('cursor'))) ?? null;
+};
+
+// Merges a sync response into the cache; a response without a cursor is a
+// full snapshot and replaces everything
+export const applySyncResult = async (userId: string, result: SyncResult, isSnapshot: boolean): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([...ENTITY_STORES, META_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+
+  const notesStore = transaction.objectStore('notes');
+  const foldersStore = transaction.objectStore('folders');
+  const tagsStore = transaction.objectStore('tags');
+  const noteTagsStore = transaction.objectStore('note_tags');
+
+  if (isSnapshot) {
+    ENTITY_STORES.forEach(store => transaction.objectStore(store).clear());
+  }
+
+  result.deleted.notes.forEach(id => {
+    notesStore.delete(id);
+    noteTagsStore.delete(id);
+  });
+  result.deleted.folders.forEach(id => foldersStore.delete(id));
+  result.deleted.tags.forEach(id => tagsStore.delete(id));
+
+  result.notes.forEach(note => {
+    notesStore.put(note);
+    noteTagsStore.put({
+      note_id: note.id,
+      tag_ids: result.note_tags.filter(noteTag => noteTag.note_id === note.id).map(noteTag => noteTag.tag_id)
+    });
+  });
+  result.folders.forEach(folder => foldersStore.put(folder));
+  result.tags.forEach(tag => tagsStore.put(tag));
+
+  const metaStore = transaction.objectStore(META_STORE);
+  metaStore.put(getCacheOwner(userId), 'owner');
+  metaStore.put(result.cursor, 'cursor');
+
+  await done;
+};
+
+// Whether an incremental sync response changed anything at all
+export const hasSyncChanges = (result: SyncResult): boolean =>
+  result.notes.length > 0 || result.folders.length > 0 || result.tags.length > 0 ||
+  result.deleted.notes.length > 0 || result.deleted.folders.length > 0 || result.deleted.tags.length > 0;
+
+// Apply a sync response to records already in memory the way applySyncResult
+// applies it to the cache, so they needn't be read back from it
+export const mergeSyncedRecords = <T extends { id: string }>(records: T[], changed: T[], deleted: string[]): T[] => {
+  const replaced = new Set([...deleted, ...changed.map((record: T) => record.id)]);
+  return [...records.filter((record: T) => !replaced.has(record.id)), ...changed];
+};
+
+export const mergeSyncedNoteTags = (noteTags: NoteTagSet[], result: SyncResult): NoteTagSet[] => {
+  const replaced = new Set([...result.deleted.notes, ...result.notes.map((note: Note) => note.id)]);
+  return [
+    ...noteTags.filter((set: NoteTagSet) => !replaced.has(set.note_id)),
+    ...result.notes.map((note: Note) => ({
+      note_id: note.id,
+      tag_ids: result.note_tags.filter(noteTag => noteTag.note_id === note.id).map(noteTag => noteTag.tag_id)
+    }))
+  ];
+};
+
+// Lets a saved session open without a connection
+export const cacheUser = async (user: PublicUser): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(user, 'user');
+  await transactionDone(transaction);
+};
+
+export const getCachedUser = async (): Promise<PublicUser | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readonly');
+  return (await requestResult(transaction.objectStore(META_STORE).get('user'))) ?? null;
+};
+
+// Keeps a locally edited note until the server copy replaces it
+export const saveNoteLocally = async (note: Note, tagIds?: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(['notes', 'note_tags'], 'readwrite');
+  transaction.objectStore('notes').put(note);
+  if (tagIds !== undefined) {
+    transaction.objectStore('note_tags').put({ note_id: note.id, tag_ids: tagIds });
+  }
+  await transactionDone(transaction);
+};
+
+export const enqueueMutation = async (mutation: NoteMutation): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MUTATION_STORE, 'readwrite');
+  const store = transaction.objectStore(MUTATION_STORE);
+
+  // Autosave produces a stream of updates to the same note; fold them into
+  // the last queued one instead of replaying each keystroke batch. The merged
+  // update keeps the version and text the first one was based on.
+  const cursor = await requestResult(store.openCursor(null, 'prev'));
+  const last = cursor?.value as PendingMutation | undefined;
+
+  if (cursor && last && last.mutation.type === 'updateNote' && mutation.type === 'updateNote' &&
+      last.mutation.input.id === mutation.input.id) {
+    const input = {
+      ...last.mutation.input,
+      ...mutation.input,
+      expected_updated_at: last.mutation.input.expected_updated_at ?? mutation.input.expected_updated_at
+    };
+    cursor.update({ ...last, mutation: { ...mutation, input, base: last.mutation.base ?? mutation.base } });
+  } else {
+    store.add({ mutation });
+  }
+
+  await transactionDone(transaction);
+};
+
+export const getPendingMutations = async (): Promise<PendingMutation[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MUTATION_STORE, 'readonly');
+  return requestResult(transaction.objectStore(MUTATION_STORE).getAll());
+};
+
+// Drops a replayed mutation, unless more edits were folded into it while it
+// was in flight - then it stays queued and is sent again with those edits
+export const removePendingMutation = async (pending: PendingMutation): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MUTATION_STORE, 'readwrite');
+  const store = transaction.objectStore(MUTATION_STORE);
+
+  const current = await requestResult(store.get(pending.id)) as PendingMutation | undefined;
+  if (current && JSON.stringify(current.mutation) === JSON.stringify(pending.mutation)) {
+    store.delete(pending.id);
+  }
+
+  await transactionDone(transaction);
+};
+
+// Signing out leaves nothing behind on the device
+export const clearOfflineStore = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([...ENTITY_STORES, META_STORE, MUTATION_STORE], 'readwrite');
+  [...ENTITY_STORES, META_STORE, MUTATION_STORE].forEach(store => transaction.objectStore(store).clear());
+  await transactionDone(transaction);
+};
@@ -0,0 +1,38 @@
+import { EMPTY_TAG_FILTER, isTagFilterActive, type TagFilter } from '@/utils/tag_filter';
+import type { SavedSearchQuery } from '../../../server/src/schema';
+
+// The filters the Sidebar applies to the note list
+export interface NoteView {
+  folderId: string | null;
+  tagFilter: TagFilter;
+  search: string;
+  favoritesOnly: boolean;
+}
+
+export const isNoteViewFiltered = (view: NoteView): boolean =>
+  view.folderId !== null || isTagFilterActive(view.tagFilter) || view.search.trim() !== '' || view.favoritesOnly;
+
+// Tags in the Sidebar always match their nested tags, so saved searches do too
+export const toSavedSearchQuery = (view: NoteView): SavedSearchQuery => ({
+  ...(view.folderId ? { folder_id: view.folderId } : {}),
+  ...(view.tagFilter.include.length > 0 ? { include_tag_ids: view.tagFilter.include } : {}),
+  ...(view.tagFilter.exclude.length > 0 ? { exclude_tag_ids: view.tagFilter.exclude } : {}),
+  ...(isTagFilterActive(view.tagFilter) ? { tag_match: view.tagFilter.match, include_descendant_tags: true } : {}),
+  ...(view.search.trim() ? { search: view.search.trim() } : {}),
+  ...(view.favoritesOnly ? { is_favorite: true } : {})
+});
+
+// Filters the Sidebar has no control for (unfiled notes, non-favorites) are dropped
+export const fromSavedSearchQuery = (query: SavedSearchQuery): NoteView => ({
+  folderId: query.folder_id ?? null,
+  tagFilter: {
+    include: [...(query.include_tag_ids ?? []), ...(query.tag_id ? [query.tag_id] : [])],
+    exclude: query.exclude_tag_ids ?? [],
+    match: query.tag_match ?? EMPTY_TAG_FILTER.match
+  },
+  search: query.search ?? '',
+  favoritesOnly: query.is_favorite === true
+});
+
+export const isSameNoteView = (a: NoteView, b: NoteView): boolean =>
+  JSON.stringify(toSavedSearchQuery(a)) === JSON.stringify(toSavedSearchQuery(b));
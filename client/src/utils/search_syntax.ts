@@ -0,0 +1,11 @@
+import { parseSearchQuery, SearchQueryError } from '../../../server/src/helpers/search_query';
+
+// Checked locally so mistakes show up while typing, before the server is asked
+export const getSearchQueryError = (query: string): string | null => {
+  try {
+    parseSearchQuery(query);
+    return null;
+  } catch (error) {
+    return error instanceof SearchQueryError ? error.message : null;
+  }
+};
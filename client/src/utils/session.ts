@@ -0,0 +1,11 @@
+const SESSION_TOKEN_KEY = 'noteflow.sessionToken';
+
+export const getSessionToken = (): string | null => localStorage.getItem(SESSION_TOKEN_KEY);
+
+export const setSessionToken = (token: string): void => {
+  localStorage.setItem(SESSION_TOKEN_KEY, token);
+};
+
+export const clearSessionToken = (): void => {
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+};
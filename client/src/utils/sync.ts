@@ -0,0 +1,188 @@
+import { TRPCClientError } from '@trpc/client';
+import { trpc } from './trpc';
+import {
+  applySyncResult,
+  getPendingMutations,
+  getSyncCursor,
+  loadOfflineSnapshot,
+  removePendingMutation,
+  type OfflineSnapshot
+} from './offline_store';
+import type { Note, CreateNoteInput, UpdateNoteInput, DeleteNoteInput, SyncResult } from '../../../server/src/schema';
+
+export type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error';
+
+export type NoteText = Pick<Note, 'title' | 'content'>;
+
+// Note changes are queued locally first and replayed in order, so edits made
+// without a connection reach the server once it is back. Updates remember the
+// text they were based on to tell real conflicts from metadata-only changes.
+export type NoteMutation =
+  | { type: 'createNote'; input: Omit<CreateNoteInput, 'user_id'> & { id: string }; local_updated_at: Date }
+  | { type: 'updateNote'; input: Omit<UpdateNoteInput, 'user_id'>; base?: NoteText }
+  | { type: 'deleteNote'; input: Omit<DeleteNoteInput, 'user_id'> };
+
+// A queued edit the server refused because the note changed elsewhere
+export interface NoteConflict {
+  server: Note;
+  mine: NoteText;
+}
+
+// Only a full download hands back the whole local copy; otherwise the
+// incremental responses, oldest first, say what changed in it
+export interface SyncOutcome {
+  snapshot: OfflineSnapshot | null;
+  changes: SyncResult[];
+  conflicts: NoteConflict[];
+}
+
+// Requests that never got an answer from the API, as opposed to ones it rejected
+export const isNetworkError = (error: unknown): boolean =>
+  !navigator.onLine || (error instanceof TRPCClientError && !error.data);
+
+const getConflictNote = (error: unknown): Note | null =>
+  error instanceof TRPCClientError && error.data?.code === 'CONFLICT' ? error.data.currentNote ?? null : null;
+
+// Versions this device moved a note from and to. An edit queued against a
+// version we replaced ourselves is not stale, so its expected_updated_at is
+// carried forward instead of raising a conflict with our own earlier save.
+const acknowledgedVersions = new Map<string, Date>();
+
+const versionKey = (noteId: string, version: Date) => `${noteId}@${new Date(version).getTime()}`;
+
+const latestVersion = (noteId: string, version: Date): Date => {
+  let latest = version;
+  while (acknowledgedVersions.has(versionKey(noteId, latest))) {
+    latest = acknowledgedVersions.get(versionKey(noteId, latest))!;
+  }
+  return latest;
+};
+
+const sendUpdate = async (
+  mutation: Extract<NoteMutation, { type: 'updateNote' }>,
+  conflicts: NoteConflict[]
+): Promise<void> => {
+  const { input, base } = mutation;
+  const expected = input.expected_updated_at ? latestVersion(input.id, input.expected_updated_at) : undefined;
+
+  try {
+    const note = await trpc.updateNote.mutate({ ...input, expected_updated_at: expected });
+    if (expected) acknowledgedVersions.set(versionKey(input.id, expected), note.updated_at);
+  } catch (error) {
+    const server = getConflictNote(error);
+    if (!server) throw error;
+
+    const mine = { title: input.title ?? server.title, content: input.content ?? server.content };
+    // The server already has this text, e.g. from a live editing session
+    if (server.title === mine.title && server.content === mine.content) return;
+
+    // Only fields this edit doesn't touch changed elsewhere (the favorite
+    // flag, or the content while just the title was renamed); write on top
+    const touchedUnchanged = base
+      && (input.title === undefined || server.title === base.title)
+      && (input.content === undefined || server.content === base.content);
+    if (touchedUnchanged) {
+      const note = await trpc.updateNote.mutate({ ...input, expected_updated_at: server.updated_at });
+      if (expected) acknowledgedVersions.set(versionKey(input.id, expected), note.updated_at);
+      return;
+    }
+
+    conflicts.push({ server, mine });
+  }
+};
+
+// Stops at the first network failure so later changes keep their order. A
+// change the server rejects (say, to a note deleted on another device) is
+// dropped; returns whether that happened, since the local copy then holds
+// edits the server never took. Conflicting edits are handed back for merging.
+const replayPendingMutations = async (conflicts: NoteConflict[]): Promise<boolean> => {
+  let dropped = false;
+
+  for (const pending of await getPendingMutations()) {
+    const { mutation } = pending;
+    const conflictCount = conflicts.length;
+
+    try {
+      switch (mutation.type) {
+        case 'createNote': {
+          const note = await trpc.createNote.mutate(mutation.input);
+          acknowledgedVersions.set(versionKey(note.id, mutation.local_updated_at), note.updated_at);
+          break;
+        }
+        case 'updateNote':
+          await sendUpdate(mutation, conflicts);
+          break;
+        case 'deleteNote':
+          await trpc.deleteNote.mutate(mutation.input);
+          break;
+      }
+    } catch (error) {
+      if (isNetworkError(error)) throw error;
+      console.error(`Dropping rejected ${mutation.type}:`, error);
+      dropped = true;
+    }
+
+    dropped = dropped || conflicts.length > conflictCount;
+    await removePendingMutation(pending);
+  }
+
+  return dropped;
+};
+
+// Downloads everything only when the cache has nothing to build on;
+// returns null in that case, else the changes since the cursor
+const pullChanges = async (userId: string, fullSnapshot: boolean): Promise<SyncResult | null> => {
+  const since = fullSnapshot ? null : await getSyncCursor(userId);
+  const result = await trpc.sync.query({ since });
+  await applySyncResult(userId, result, since === null);
+  return since === null ? null : result;
+};
+
+let runningSync: Promise<SyncOutcome> | null = null;
+let syncRequested = false;
+
+// Conflicts survive a sync that fails halfway, until one completes to report them
+const unreportedConflicts: NoteConflict[] = [];
+
+// Pushes queued changes, then pulls everything changed on the server since the
+// last sync. Calls made while a sync is running join it and trigger one more
+// pass, so a change queued mid-sync is never left behind.
+export const syncWithServer = (userId: string): Promise<SyncOutcome> => {
+  if (runningSync) {
+    syncRequested = true;
+    return runningSync;
+  }
+
+  runningSync = (async () => {
+    try {
+      let fullSnapshot = false;
+      const changes: SyncResult[] = [];
+      do {
+        syncRequested = false;
+        const dropped = await replayPendingMutations(unreportedConflicts);
+        const result = await pullChanges(userId, dropped);
+        if (result) {
+          changes.push(result);
+        } else {
+          fullSnapshot = true;
+          changes.length = 0;
+        }
+      } while (syncRequested);
+
+      const snapshot = fullSnapshot
+        ? await loadOfflineSnapshot(userId) ?? { notes: [], folders: [], tags: [], noteTags: [] }
+        : null;
+      return {
+        snapshot,
+        changes,
+        conflicts: unreportedConflicts.splice(0)
+      };
+    } finally {
+      runningSync = null;
+    }
+  })();
+
+  return runningSync;
+};
+
+export const countPendingMutations = async (): Promise<number> => (await getPendingMutations()).length;
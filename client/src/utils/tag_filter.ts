@@ -0,0 +1,52 @@
+import { collectTagSubtree } from '../../../server/src/helpers/tag_tree';
+import type { Tag, TagMatch } from '../../../server/src/schema';
+
+// The Sidebar's tag filter; mirrors include_tag_ids, exclude_tag_ids and
+// tag_match of getUserNotes so the local copy narrows the same way
+export interface TagFilter {
+  include: string[];
+  exclude: string[];
+  match: TagMatch;
+}
+
+export const EMPTY_TAG_FILTER: TagFilter = { include: [], exclude: [], match: 'all' };
+
+export const isTagFilterActive = (filter: TagFilter): boolean =>
+  filter.include.length > 0 || filter.exclude.length > 0;
+
+// Clicking a tag cycles it from included to excluded to not filtered
+export const cycleTagFilter = (filter: TagFilter, tagId: string): TagFilter => {
+  if (filter.include.includes(tagId)) {
+    return {
+      ...filter,
+      include: filter.include.filter((id: string) => id !== tagId),
+      exclude: [...filter.exclude, tagId]
+    };
+  }
+
+  if (filter.exclude.includes(tagId)) {
+    return { ...filter, exclude: filter.exclude.filter((id: string) => id !== tagId) };
+  }
+
+  return { ...filter, include: [...filter.include, tagId] };
+};
+
+export const removeTagFromFilter = (filter: TagFilter, tagId: string): TagFilter => ({
+  ...filter,
+  include: filter.include.filter((id: string) => id !== tagId),
+  exclude: filter.exclude.filter((id: string) => id !== tagId)
+});
+
+// Each tag in the filter also stands for the tags nested below it
+export const matchesTagFilter = (noteTagIds: string[], filter: TagFilter, tags: Tag[]): boolean => {
+  const hasTag = (tagId: string) => {
+    const subtree = collectTagSubtree(tags, tagId);
+    return (subtree.length > 0 ? subtree.map((tag: Tag) => tag.id) : [tagId])
+      .some((id: string) => noteTagIds.includes(id));
+  };
+
+  if (filter.exclude.some(hasTag)) return false;
+  if (filter.include.length === 0) return true;
+
+  return filter.match === 'any' ? filter.include.some(hasTag) : filter.include.every(hasTag);
+};
@@ -0,0 +1,63 @@
+export interface CaretCoordinates {
+  top: number;
+  left: number;
+  height: number;
+}
+
+// Styles that decide where text wraps and how tall lines are
+const MIRRORED_PROPERTIES = [
+  'boxSizing',
+  'width',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'borderTopWidth',
+  'borderRightWidth',
+  'borderBottomWidth',
+  'borderLeftWidth',
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'fontStyle',
+  'letterSpacing',
+  'lineHeight',
+  'textTransform',
+  'wordSpacing',
+  'tabSize'
+] as const;
+
+// Position of a character offset inside a textarea, relative to its top-left
+// corner and ignoring scroll. Measured by laying the text out in a hidden div
+// styled like the textarea and finding a marker placed at the offset.
+export const getCaretCoordinates = (textarea: HTMLTextAreaElement, position: number): CaretCoordinates => {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+
+  MIRRORED_PROPERTIES.forEach((property) => {
+    mirror.style[property] = style[property];
+  });
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+
+  mirror.textContent = textarea.value.substring(0, position);
+  const marker = document.createElement('span');
+  // A character is needed for the marker to get a height
+  marker.textContent = textarea.value.substring(position, position + 1) || '.';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const lineHeight = parseFloat(style.lineHeight);
+  const coordinates = {
+    top: marker.offsetTop,
+    left: marker.offsetLeft,
+    height: Number.isNaN(lineHeight) ? parseFloat(style.fontSize) * 1.2 : lineHeight
+  };
+  document.body.removeChild(mirror);
+
+  return coordinates;
+};
@@ -0,0 +1,21 @@
+export interface VisibleRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+// Rows of a fixed height that intersect the viewport, plus overscan rows on
+// either side so fast scrolling doesn't show blank space
+export const getVisibleRange = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  count: number,
+  overscan: number
+): VisibleRange => {
+  const first = Math.floor(scrollTop / rowHeight);
+  const last = Math.ceil((scrollTop + viewportHeight) / rowHeight);
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + overscan)
+  };
+};
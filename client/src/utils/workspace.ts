@@ -0,0 +1,12 @@
+const ACTIVE_WORKSPACE_KEY = 'noteflow.activeWorkspace';
+
+// Null means the user's personal notes
+export const getActiveWorkspaceId = (): string | null => localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+
+export const setActiveWorkspaceId = (workspaceId: string | null): void => {
+  if (workspaceId) {
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId);
+  } else {
+    localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+  }
+};
@@ -15,6 +15,8 @@ export default defineConfig({
         target: 'http://localhost:2022',
         changeOrigin: true,
         rewrite: (path) => path.replace(/^\/api/, ''),
+        // Collaborative editing sockets at /api/collab/:noteId
+        ws: true,
       },
     },
   },
@@ -9,3 +9,10 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// The database or an open transaction, for helpers that run inside either
+export type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update' | 'delete'>;
+
+// Either of them, for helpers that need a transaction of their own; inside an
+// open transaction that is a savepoint
+export type DbTransactor = Pick<typeof db, 'transaction'>;
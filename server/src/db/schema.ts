@@ -1,5 +1,13 @@
-import { text, pgTable, timestamp, boolean, primaryKey } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { text, pgTable, timestamp, boolean, integer, jsonb, primaryKey, index, uniqueIndex, customType, pgSequence } from 'drizzle-orm/pg-core';
+import { relations, sql, getTableColumns } from 'drizzle-orm';
+import { type SavedSearchQuery } from '../schema';
+
+// Postgres full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  }
+});
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -11,12 +19,62 @@ export const usersTable = pgTable('users', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Sessions table - id is the SHA-256 hash of the bearer token handed to the client
+export const sessionsTable = pgTable('sessions', {
+  id: text('id').primaryKey(),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Workspaces table - a team's shared space; notes, folders and tags with a
+// workspace_id belong to the workspace rather than to the user who created them
+export const workspacesTable = pgTable('workspaces', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Workspace members table - every workspace keeps at least one owner
+export const workspaceMembersTable = pgTable('workspace_members', {
+  workspace_id: text('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  role: text('role', { enum: ['owner', 'editor', 'viewer'] }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.workspace_id, table.user_id] }),
+    userIdx: index('workspace_members_user_id_idx').on(table.user_id)
+  };
+});
+
+// Workspace invitations table - the invitee accepts with the emailed token,
+// of which only the hash is stored
+export const workspaceInvitationsTable = pgTable('workspace_invitations', {
+  id: text('id').primaryKey(),
+  workspace_id: text('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(),
+  role: text('role', { enum: ['owner', 'editor', 'viewer'] }).notNull(),
+  token_hash: text('token_hash').notNull(),
+  invited_by: text('invited_by').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    tokenHashIdx: uniqueIndex('workspace_invitations_token_hash_idx').on(table.token_hash),
+    workspaceEmailIdx: uniqueIndex('workspace_invitations_workspace_id_email_idx').on(table.workspace_id, table.email)
+  };
+});
+
 // Folders table
 export const foldersTable = pgTable('folders', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
   user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  workspace_id: text('workspace_id').references(() => workspacesTable.id, { onDelete: 'cascade' }), // Null for personal records
   parent_folder_id: text('parent_folder_id'), // Self-reference constraint handled via relations
+  deleted_at: timestamp('deleted_at'), // Set while the folder is in the trash
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -27,10 +85,16 @@ export const tagsTable = pgTable('tags', {
   name: text('name').notNull(),
   color: text('color'), // Nullable for default colors
   user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  workspace_id: text('workspace_id').references(() => workspacesTable.id, { onDelete: 'cascade' }), // Null for personal records
+  parent_tag_id: text('parent_tag_id'), // Self-reference constraint handled via relations
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Hands out manual sort positions, so every new note lands below the others in
+// its space and no two notes ever share a position
+export const notePositionSequence = pgSequence('notes_position_seq', { startWith: 1, maxValue: 2147483647 });
+
 // Notes table
 export const notesTable = pgTable('notes', {
   id: text('id').primaryKey(),
@@ -38,12 +102,30 @@ export const notesTable = pgTable('notes', {
   content: text('content').notNull(),
   markdown_content: text('markdown_content'), // Nullable for rich text only notes
   user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  workspace_id: text('workspace_id').references(() => workspacesTable.id, { onDelete: 'cascade' }), // Null for personal records
   folder_id: text('folder_id').references(() => foldersTable.id, { onDelete: 'set null' }),
   is_favorite: boolean('is_favorite').default(false).notNull(),
+  position: integer('position').default(sql`nextval('notes_position_seq')`).notNull(), // Manual sort order; lower comes first
+  deleted_at: timestamp('deleted_at'), // Set while the note is in the trash
+  // Maintained by Postgres; title matches rank above content matches
+  search_vector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(content, '')), 'B')`
+  ),
   created_at: timestamp('created_at').defaultNow().notNull(),
-  updated_at: timestamp('updated_at').defaultNow().notNull()
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+  // Set on every write; sync compares against it since imports keep the
+  // original, possibly much older, updated_at
+  changed_at: timestamp('changed_at').defaultNow().notNull().$onUpdate(() => new Date())
+}, (table) => {
+  return {
+    searchIdx: index('notes_search_vector_idx').using('gin', table.search_vector)
+  };
 });
 
+// Note columns returned to API clients - the search vector and sync bookkeeping stay in the database
+const { search_vector: _searchVector, changed_at: _changedAt, ...noteColumns } = getTableColumns(notesTable);
+export { noteColumns };
+
 // Note-Tag junction table for many-to-many relationship
 export const noteTagsTable = pgTable('note_tags', {
   note_id: text('note_id').notNull().references(() => notesTable.id, { onDelete: 'cascade' }),
@@ -55,11 +137,176 @@ export const noteTagsTable = pgTable('note_tags', {
   };
 });
 
+// Note revisions table - snapshots of a note's text taken before it is overwritten
+export const noteRevisionsTable = pgTable('note_revisions', {
+  id: text('id').primaryKey(),
+  note_id: text('note_id').notNull().references(() => notesTable.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  content: text('content').notNull(),
+  markdown_content: text('markdown_content'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    noteCreatedIdx: index('note_revisions_note_id_created_at_idx').on(table.note_id, table.created_at)
+  };
+});
+
+// Note links table - [[Title]] references from one note's text to another note
+export const noteLinksTable = pgTable('note_links', {
+  source_note_id: text('source_note_id').notNull().references(() => notesTable.id, { onDelete: 'cascade' }),
+  target_note_id: text('target_note_id').notNull().references(() => notesTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.source_note_id, table.target_note_id] }),
+    targetIdx: index('note_links_target_note_id_idx').on(table.target_note_id)
+  };
+});
+
+// Attachments table - uploaded files referenced from a note's markdown
+export const attachmentsTable = pgTable('attachments', {
+  id: text('id').primaryKey(),
+  note_id: text('note_id').notNull().references(() => notesTable.id, { onDelete: 'cascade' }),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  filename: text('filename').notNull(),
+  content_type: text('content_type').notNull(),
+  size: integer('size').notNull(), // Bytes, counted against the owner's quota
+  storage_key: text('storage_key').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    noteIdx: index('attachments_note_id_idx').on(table.note_id),
+    userIdx: index('attachments_user_id_idx').on(table.user_id)
+  };
+});
+
+// Sync tombstones - ids of permanently deleted records, so clients syncing
+// since an earlier cursor can drop them from their local copy
+export const syncTombstonesTable = pgTable('sync_tombstones', {
+  entity_type: text('entity_type', { enum: ['note', 'folder', 'tag'] }).notNull(),
+  entity_id: text('entity_id').notNull(),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  workspace_id: text('workspace_id').references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  deleted_at: timestamp('deleted_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.entity_type, table.entity_id] }),
+    userDeletedIdx: index('sync_tombstones_user_id_deleted_at_idx').on(table.user_id, table.deleted_at)
+  };
+});
+
+// Shares table - grants another user access to a single note or to a folder
+// and everything nested below it; exactly one of note_id and folder_id is set
+export const sharesTable = pgTable('shares', {
+  id: text('id').primaryKey(),
+  owner_id: text('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  grantee_id: text('grantee_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  note_id: text('note_id').references(() => notesTable.id, { onDelete: 'cascade' }),
+  folder_id: text('folder_id').references(() => foldersTable.id, { onDelete: 'cascade' }),
+  permission: text('permission', { enum: ['read', 'comment', 'edit'] }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    granteeNoteIdx: uniqueIndex('shares_grantee_id_note_id_idx').on(table.grantee_id, table.note_id),
+    granteeFolderIdx: uniqueIndex('shares_grantee_id_folder_id_idx').on(table.grantee_id, table.folder_id)
+  };
+});
+
+// Public links table - read-only access to a note for anyone holding the
+// token; only the token's hash is stored, like session tokens
+export const publicLinksTable = pgTable('public_links', {
+  id: text('id').primaryKey(),
+  note_id: text('note_id').notNull().references(() => notesTable.id, { onDelete: 'cascade' }),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull(),
+  password_hash: text('password_hash'), // Nullable when the link is open to anyone with the token
+  expires_at: timestamp('expires_at'), // Nullable for links that never expire
+  view_count: integer('view_count').default(0).notNull(),
+  last_viewed_at: timestamp('last_viewed_at'),
+  // Password attempts since the last success, and when a lock after too many lifts
+  failed_attempts: integer('failed_attempts').default(0).notNull(),
+  locked_until: timestamp('locked_until'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    tokenHashIdx: uniqueIndex('public_links_token_hash_idx').on(table.token_hash),
+    noteIdx: index('public_links_note_id_idx').on(table.note_id)
+  };
+});
+
+// Saved searches table - a getUserNotes filter kept under a name; saved
+// searches are private to the user even inside a workspace
+export const savedSearchesTable = pgTable('saved_searches', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  user_id: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  workspace_id: text('workspace_id').references(() => workspacesTable.id, { onDelete: 'cascade' }), // Null for personal records
+  query: jsonb('query').$type<SavedSearchQuery>().notNull(),
+  is_default: boolean('is_default').default(false).notNull(), // Opened after login; at most one per user and space
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => {
+  return {
+    userIdx: index('saved_searches_user_id_idx').on(table.user_id)
+  };
+});
+
 // Define relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
+  sessions: many(sessionsTable),
+  folders: many(foldersTable),
+  tags: many(tagsTable),
+  notes: many(notesTable),
+  attachments: many(attachmentsTable),
+  syncTombstones: many(syncTombstonesTable),
+  ownedShares: many(sharesTable, {
+    relationName: 'owner'
+  }),
+  receivedShares: many(sharesTable, {
+    relationName: 'grantee'
+  }),
+  publicLinks: many(publicLinksTable),
+  savedSearches: many(savedSearchesTable),
+  workspaceMemberships: many(workspaceMembersTable)
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const workspacesRelations = relations(workspacesTable, ({ many }) => ({
+  members: many(workspaceMembersTable),
+  invitations: many(workspaceInvitationsTable),
   folders: many(foldersTable),
   tags: many(tagsTable),
-  notes: many(notesTable)
+  notes: many(notesTable),
+  savedSearches: many(savedSearchesTable)
+}));
+
+export const workspaceMembersRelations = relations(workspaceMembersTable, ({ one }) => ({
+  workspace: one(workspacesTable, {
+    fields: [workspaceMembersTable.workspace_id],
+    references: [workspacesTable.id]
+  }),
+  user: one(usersTable, {
+    fields: [workspaceMembersTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const workspaceInvitationsRelations = relations(workspaceInvitationsTable, ({ one }) => ({
+  workspace: one(workspacesTable, {
+    fields: [workspaceInvitationsTable.workspace_id],
+    references: [workspacesTable.id]
+  }),
+  inviter: one(usersTable, {
+    fields: [workspaceInvitationsTable.invited_by],
+    references: [usersTable.id]
+  })
 }));
 
 export const foldersRelations = relations(foldersTable, ({ one, many }) => ({
@@ -67,6 +314,10 @@ export const foldersRelations = relations(foldersTable, ({ one, many }) => ({
     fields: [foldersTable.user_id],
     references: [usersTable.id]
   }),
+  workspace: one(workspacesTable, {
+    fields: [foldersTable.workspace_id],
+    references: [workspacesTable.id]
+  }),
   parentFolder: one(foldersTable, {
     fields: [foldersTable.parent_folder_id],
     references: [foldersTable.id],
@@ -75,7 +326,8 @@ export const foldersRelations = relations(foldersTable, ({ one, many }) => ({
   subFolders: many(foldersTable, {
     relationName: 'parent'
   }),
-  notes: many(notesTable)
+  notes: many(notesTable),
+  shares: many(sharesTable)
 }));
 
 export const tagsRelations = relations(tagsTable, ({ one, many }) => ({
@@ -83,6 +335,18 @@ export const tagsRelations = relations(tagsTable, ({ one, many }) => ({
     fields: [tagsTable.user_id],
     references: [usersTable.id]
   }),
+  workspace: one(workspacesTable, {
+    fields: [tagsTable.workspace_id],
+    references: [workspacesTable.id]
+  }),
+  parentTag: one(tagsTable, {
+    fields: [tagsTable.parent_tag_id],
+    references: [tagsTable.id],
+    relationName: 'parent'
+  }),
+  childTags: many(tagsTable, {
+    relationName: 'parent'
+  }),
   noteTags: many(noteTagsTable)
 }));
 
@@ -91,11 +355,106 @@ export const notesRelations = relations(notesTable, ({ one, many }) => ({
     fields: [notesTable.user_id],
     references: [usersTable.id]
   }),
+  workspace: one(workspacesTable, {
+    fields: [notesTable.workspace_id],
+    references: [workspacesTable.id]
+  }),
   folder: one(foldersTable, {
     fields: [notesTable.folder_id],
     references: [foldersTable.id]
   }),
-  noteTags: many(noteTagsTable)
+  noteTags: many(noteTagsTable),
+  revisions: many(noteRevisionsTable),
+  attachments: many(attachmentsTable),
+  outgoingLinks: many(noteLinksTable, {
+    relationName: 'source'
+  }),
+  incomingLinks: many(noteLinksTable, {
+    relationName: 'target'
+  }),
+  shares: many(sharesTable),
+  publicLinks: many(publicLinksTable)
+}));
+
+export const noteRevisionsRelations = relations(noteRevisionsTable, ({ one }) => ({
+  note: one(notesTable, {
+    fields: [noteRevisionsTable.note_id],
+    references: [notesTable.id]
+  })
+}));
+
+export const noteLinksRelations = relations(noteLinksTable, ({ one }) => ({
+  source: one(notesTable, {
+    fields: [noteLinksTable.source_note_id],
+    references: [notesTable.id],
+    relationName: 'source'
+  }),
+  target: one(notesTable, {
+    fields: [noteLinksTable.target_note_id],
+    references: [notesTable.id],
+    relationName: 'target'
+  })
+}));
+
+export const attachmentsRelations = relations(attachmentsTable, ({ one }) => ({
+  note: one(notesTable, {
+    fields: [attachmentsTable.note_id],
+    references: [notesTable.id]
+  }),
+  user: one(usersTable, {
+    fields: [attachmentsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const syncTombstonesRelations = relations(syncTombstonesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [syncTombstonesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const sharesRelations = relations(sharesTable, ({ one }) => ({
+  owner: one(usersTable, {
+    fields: [sharesTable.owner_id],
+    references: [usersTable.id],
+    relationName: 'owner'
+  }),
+  grantee: one(usersTable, {
+    fields: [sharesTable.grantee_id],
+    references: [usersTable.id],
+    relationName: 'grantee'
+  }),
+  note: one(notesTable, {
+    fields: [sharesTable.note_id],
+    references: [notesTable.id]
+  }),
+  folder: one(foldersTable, {
+    fields: [sharesTable.folder_id],
+    references: [foldersTable.id]
+  })
+}));
+
+export const publicLinksRelations = relations(publicLinksTable, ({ one }) => ({
+  note: one(notesTable, {
+    fields: [publicLinksTable.note_id],
+    references: [notesTable.id]
+  }),
+  user: one(usersTable, {
+    fields: [publicLinksTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const savedSearchesRelations = relations(savedSearchesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [savedSearchesTable.user_id],
+    references: [usersTable.id]
+  }),
+  workspace: one(workspacesTable, {
+    fields: [savedSearchesTable.workspace_id],
+    references: [workspacesTable.id]
+  })
 }));
 
 export const noteTagsRelations = relations(noteTagsTable, ({ one }) => ({
@@ -113,6 +472,18 @@ export const noteTagsRelations = relations(noteTagsTable, ({ one }) => ({
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type Workspace = typeof workspacesTable.$inferSelect;
+export type NewWorkspace = typeof workspacesTable.$inferInsert;
+
+export type WorkspaceMember = typeof workspaceMembersTable.$inferSelect;
+export type NewWorkspaceMember = typeof workspaceMembersTable.$inferInsert;
+
+export type WorkspaceInvitation = typeof workspaceInvitationsTable.$inferSelect;
+export type NewWorkspaceInvitation = typeof workspaceInvitationsTable.$inferInsert;
+
 export type Folder = typeof foldersTable.$inferSelect;
 export type NewFolder = typeof foldersTable.$inferInsert;
 
@@ -122,14 +493,46 @@ export type NewTag = typeof tagsTable.$inferInsert;
 export type Note = typeof notesTable.$inferSelect;
 export type NewNote = typeof notesTable.$inferInsert;
 
+export type NoteRevision = typeof noteRevisionsTable.$inferSelect;
+export type NewNoteRevision = typeof noteRevisionsTable.$inferInsert;
+
 export type NoteTag = typeof noteTagsTable.$inferSelect;
 export type NewNoteTag = typeof noteTagsTable.$inferInsert;
 
+export type NoteLink = typeof noteLinksTable.$inferSelect;
+export type NewNoteLink = typeof noteLinksTable.$inferInsert;
+
+export type Attachment = typeof attachmentsTable.$inferSelect;
+export type NewAttachment = typeof attachmentsTable.$inferInsert;
+
+export type SyncTombstone = typeof syncTombstonesTable.$inferSelect;
+export type NewSyncTombstone = typeof syncTombstonesTable.$inferInsert;
+
+export type Share = typeof sharesTable.$inferSelect;
+export type NewShare = typeof sharesTable.$inferInsert;
+
+export type PublicLink = typeof publicLinksTable.$inferSelect;
+export type NewPublicLink = typeof publicLinksTable.$inferInsert;
+
+export type SavedSearch = typeof savedSearchesTable.$inferSelect;
+export type NewSavedSearch = typeof savedSearchesTable.$inferInsert;
+
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  workspaces: workspacesTable,
+  workspaceMembers: workspaceMembersTable,
+  workspaceInvitations: workspaceInvitationsTable,
   folders: foldersTable,
   tags: tagsTable,
   notes: notesTable,
-  noteTags: noteTagsTable
+  noteTags: noteTagsTable,
+  noteRevisions: noteRevisionsTable,
+  noteLinks: noteLinksTable,
+  attachments: attachmentsTable,
+  syncTombstones: syncTombstonesTable,
+  shares: sharesTable,
+  publicLinks: publicLinksTable,
+  savedSearches: savedSearchesTable
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { workspaceInvitationsTable, workspaceMembersTable, workspacesTable, usersTable } from '../db/schema';
+import { type AcceptWorkspaceInvitationInput, type UserWorkspace } from '../schema';
+import { hashInvitationToken } from '../helpers/workspaces';
+import { eq } from 'drizzle-orm';
+
+// The invitation is for one email address, so a forwarded link is of no use
+// to anyone else. Accepting as an existing member applies the invited role.
+export async function acceptWorkspaceInvitation(input: AcceptWorkspaceInvitationInput): Promise<UserWorkspace> {
+  try {
+    const invitations = await db.select()
+      .from(workspaceInvitationsTable)
+      .where(eq(workspaceInvitationsTable.token_hash, hashInvitationToken(input.token)))
+      .execute();
+
+    const invitation = invitations[0];
+    if (!invitation || invitation.expires_at.getTime() <= Date.now()) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Invitation not found or expired' });
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users[0]?.email !== invitation.email) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'This invitation is for another email address' });
+    }
+
+    await db.insert(workspaceMembersTable)
+      .values({
+        workspace_id: invitation.workspace_id,
+        user_id: input.user_id,
+        role: invitation.role
+      })
+      .onConflictDoUpdate({
+        target: [workspaceMembersTable.workspace_id, workspaceMembersTable.user_id],
+        set: { role: invitation.role }
+      })
+      .execute();
+
+    await db.delete(workspaceInvitationsTable)
+      .where(eq(workspaceInvitationsTable.id, invitation.id))
+      .execute();
+
+    const workspaces = await db.select()
+      .from(workspacesTable)
+      .where(eq(workspacesTable.id, invitation.workspace_id))
+      .execute();
+
+    return { ...workspaces[0], role: invitation.role };
+  } catch (error) {
+    console.error('Workspace invitation acceptance failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,28 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable } from '../db/schema';
+import { type CreateAttachmentInput, type Attachment } from '../schema';
+import { assertNoteAccess } from '../helpers/note_access';
+import { saveAttachment } from '../helpers/attachment_storage';
+import { eq } from 'drizzle-orm';
+
+export async function createAttachment(input: CreateAttachmentInput, data: Buffer): Promise<Attachment> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    const note = await assertNoteAccess(notes[0], input.user_id, 'edit');
+
+    if (note.deleted_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot attach files to a note in the trash' });
+    }
+
+    const { storage_key: _storageKey, ...attachment } = await saveAttachment(note, input, data);
+    return attachment;
+  } catch (error) {
+    console.error('Attachment upload failed:', error);
+    throw error;
+  }
+}
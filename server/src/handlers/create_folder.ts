@@ -1,7 +1,10 @@
+import { TRPCError } from '@trpc/server';
 import { db } from '../db';
 import { foldersTable, usersTable } from '../db/schema';
 import { type CreateFolderInput, type Folder } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertRecordAccess, assertSameSpace } from '../helpers/ownership';
+import { assertActiveWorkspace } from '../helpers/workspaces';
+import { eq } from 'drizzle-orm';
 
 export async function createFolder(input: CreateFolderInput): Promise<Folder> {
   try {
@@ -15,18 +18,20 @@ export async function createFolder(input: CreateFolderInput): Promise<Folder> {
       throw new Error('User not found');
     }
 
-    // If parent_folder_id is specified, verify it exists and belongs to the user
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'editor');
+
+    // If parent_folder_id is specified, verify it exists and is in the same space
     if (input.parent_folder_id) {
-      const parentFolderExists = await db.select({ id: foldersTable.id })
+      const parentFolders = await db.select()
         .from(foldersTable)
-        .where(and(
-          eq(foldersTable.id, input.parent_folder_id),
-          eq(foldersTable.user_id, input.user_id)
-        ))
+        .where(eq(foldersTable.id, input.parent_folder_id))
         .execute();
 
-      if (parentFolderExists.length === 0) {
-        throw new Error('Parent folder not found or does not belong to user');
+      const parent = await assertRecordAccess(parentFolders[0], input.user_id, 'Parent folder');
+      assertSameSpace(parent, input.workspace_id, 'Parent folder');
+      // Nothing would hold the folder once the trash is emptied
+      if (parent.deleted_at) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Parent folder is in the trash' });
       }
     }
 
@@ -39,6 +44,7 @@ export async function createFolder(input: CreateFolderInput): Promise<Folder> {
         id: folderId,
         name: input.name,
         user_id: input.user_id,
+        workspace_id: input.workspace_id ?? null,
         parent_folder_id: input.parent_folder_id || null
       })
       .returning()
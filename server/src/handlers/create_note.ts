@@ -1,44 +1,50 @@
+import { TRPCError } from '@trpc/server';
 import { db } from '../db';
-import { notesTable, foldersTable, tagsTable, noteTagsTable } from '../db/schema';
+import { notesTable, foldersTable, noteTagsTable, noteColumns } from '../db/schema';
 import { type CreateNoteInput, type Note } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertRecordAccess, assertSameSpace, assertTagsOwnership } from '../helpers/ownership';
+import { assertActiveWorkspace } from '../helpers/workspaces';
+import { syncNoteLinks, linkNotesReferencingTitle } from '../helpers/note_links';
+import { eq } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
 export const createNote = async (input: CreateNoteInput): Promise<Note> => {
   try {
-    // Validate folder ownership if folder_id is provided
+    // Replaying a queued offline create that already reached the server is a no-op
+    if (input.id) {
+      const existingNotes = await db.select(noteColumns)
+        .from(notesTable)
+        .where(eq(notesTable.id, input.id))
+        .execute();
+
+      if (existingNotes.length > 0) {
+        return await assertRecordAccess(existingNotes[0], input.user_id, 'Note', 'viewer');
+      }
+    }
+
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'editor');
+
+    // Validate the folder is in the same space if folder_id is provided
     if (input.folder_id) {
       const folder = await db.select()
         .from(foldersTable)
-        .where(and(
-          eq(foldersTable.id, input.folder_id),
-          eq(foldersTable.user_id, input.user_id)
-        ))
+        .where(eq(foldersTable.id, input.folder_id))
         .execute();
 
-      if (folder.length === 0) {
-        throw new Error('Folder not found or access denied');
+      const target = await assertRecordAccess(folder[0], input.user_id, 'Folder');
+      assertSameSpace(target, input.workspace_id, 'Folder');
+      // Nothing would hold the note once the trash is emptied
+      if (target.deleted_at) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Folder is in the trash' });
       }
     }
 
     // Validate tag ownership if tag_ids are provided
     if (input.tag_ids && input.tag_ids.length > 0) {
-      const tags = await db.select()
-        .from(tagsTable)
-        .where(and(
-          eq(tagsTable.user_id, input.user_id)
-        ))
-        .execute();
-
-      const userTagIds = tags.map(tag => tag.id);
-      const invalidTags = input.tag_ids.filter(tagId => !userTagIds.includes(tagId));
-      
-      if (invalidTags.length > 0) {
-        throw new Error('One or more tags not found or access denied');
-      }
+      await assertTagsOwnership(input.tag_ids, input.user_id, input.workspace_id);
     }
 
-    const noteId = randomUUID();
+    const noteId = input.id ?? randomUUID();
     const now = new Date();
 
     // Insert note record
@@ -49,12 +55,13 @@ export const createNote = async (input: CreateNoteInput): Promise<Note> => {
         content: input.content,
         markdown_content: input.markdown_content || null,
         user_id: input.user_id,
+        workspace_id: input.workspace_id ?? null,
         folder_id: input.folder_id || null,
         is_favorite: false,
         created_at: now,
         updated_at: now
       })
-      .returning()
+      .returning(noteColumns)
       .execute();
 
     // Create note-tag relationships if tag_ids are provided
@@ -70,6 +77,10 @@ export const createNote = async (input: CreateNoteInput): Promise<Note> => {
         .execute();
     }
 
+    // Resolve [[Title]] references in both directions
+    await syncNoteLinks(result[0]);
+    await linkNotesReferencingTitle(result[0]);
+
     return result[0];
   } catch (error) {
     console.error('Note creation failed:', error);
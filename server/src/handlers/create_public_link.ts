@@ -0,0 +1,46 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable, publicLinksTable } from '../db/schema';
+import { type CreatePublicLinkInput, type CreatedPublicLink } from '../schema';
+import { assertRecordAccess } from '../helpers/ownership';
+import { hashPassword } from '../helpers/password';
+import { generatePublicLinkToken, hashPublicLinkToken, toPublicLink } from '../helpers/public_links';
+import { eq } from 'drizzle-orm';
+
+// Share recipients cannot publish; only the owner or workspace editors can
+export async function createPublicLink(input: CreatePublicLinkInput): Promise<CreatedPublicLink> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    const note = await assertRecordAccess(notes[0], input.user_id, 'Note');
+
+    if (note.deleted_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot publish a note in the trash' });
+    }
+
+    if (input.expires_at && input.expires_at.getTime() <= Date.now()) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Expiry must be in the future' });
+    }
+
+    const token = generatePublicLinkToken();
+    const result = await db.insert(publicLinksTable)
+      .values({
+        id: crypto.randomUUID(),
+        note_id: note.id,
+        user_id: input.user_id,
+        token_hash: hashPublicLinkToken(token),
+        password_hash: input.password ? await hashPassword(input.password) : null,
+        expires_at: input.expires_at ?? null
+      })
+      .returning()
+      .execute();
+
+    return { ...toPublicLink(result[0]), token };
+  } catch (error) {
+    console.error('Public link creation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { savedSearchesTable } from '../db/schema';
+import { type CreateSavedSearchInput, type SavedSearch } from '../schema';
+import { assertActiveWorkspace } from '../helpers/workspaces';
+import { clearDefaultSavedSearch } from '../helpers/saved_searches';
+import { parseNoteSearch } from '../helpers/note_filters';
+
+// Saved searches are private, so viewers can keep them too
+export async function createSavedSearch(input: CreateSavedSearchInput): Promise<SavedSearch> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'viewer');
+
+    // Checked now so a bad query can't break the saved search list later
+    if (input.query.search) {
+      parseNoteSearch(input.query.search);
+    }
+
+    if (input.is_default) {
+      await clearDefaultSavedSearch(input.user_id, input.workspace_id);
+    }
+
+    const result = await db.insert(savedSearchesTable)
+      .values({
+        id: crypto.randomUUID(),
+        name: input.name,
+        user_id: input.user_id,
+        workspace_id: input.workspace_id ?? null,
+        query: input.query,
+        is_default: input.is_default ?? false
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Saved search creation failed:', error);
+    throw error;
+  }
+}
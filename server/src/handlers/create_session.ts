@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type Session } from '../schema';
+import { generateSessionToken, hashSessionToken, getSessionTtlMs } from '../helpers/session_token';
+import { eq } from 'drizzle-orm';
+
+export async function createSession(userId: string): Promise<Session> {
+  try {
+    // Verify user exists
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const token = generateSessionToken();
+    const expiresAt = new Date(Date.now() + getSessionTtlMs());
+
+    // Only the hash of the token is persisted
+    await db.insert(sessionsTable)
+      .values({
+        id: hashSessionToken(token),
+        user_id: userId,
+        expires_at: expiresAt
+      })
+      .execute();
+
+    return {
+      token,
+      expires_at: expiresAt
+    };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,9 @@
 import { db } from '../db';
 import { tagsTable, usersTable } from '../db/schema';
 import { type CreateTagInput, type Tag } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertRecordAccess, assertSameSpace } from '../helpers/ownership';
+import { assertActiveWorkspace, inSpace } from '../helpers/workspaces';
+import { eq, and, isNull } from 'drizzle-orm';
 
 export const createTag = async (input: CreateTagInput): Promise<Tag> => {
   try {
@@ -16,12 +18,26 @@ export const createTag = async (input: CreateTagInput): Promise<Tag> => {
       throw new Error(`User with ID ${input.user_id} not found`);
     }
 
-    // Check if tag name already exists for this user
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'editor');
+
+    // Validate the parent tag is in the same space if parent_tag_id is provided
+    if (input.parent_tag_id) {
+      const parentTags = await db.select()
+        .from(tagsTable)
+        .where(eq(tagsTable.id, input.parent_tag_id))
+        .execute();
+
+      const parent = await assertRecordAccess(parentTags[0], input.user_id, 'Parent tag');
+      assertSameSpace(parent, input.workspace_id, 'Parent tag');
+    }
+
+    // Check if tag name already exists next to it in this space
     const existingTag = await db.select()
       .from(tagsTable)
       .where(
         and(
-          eq(tagsTable.user_id, input.user_id),
+          inSpace(tagsTable, input.user_id, input.workspace_id),
+          input.parent_tag_id ? eq(tagsTable.parent_tag_id, input.parent_tag_id) : isNull(tagsTable.parent_tag_id),
           eq(tagsTable.name, input.name)
         )
       )
@@ -41,7 +57,9 @@ export const createTag = async (input: CreateTagInput): Promise<Tag> => {
         id: tagId,
         name: input.name,
         color: input.color || null,
-        user_id: input.user_id
+        user_id: input.user_id,
+        workspace_id: input.workspace_id ?? null,
+        parent_tag_id: input.parent_tag_id ?? null
       })
       .returning()
       .execute();
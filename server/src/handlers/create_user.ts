@@ -2,7 +2,7 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
 import { eq, or } from 'drizzle-orm';
-import { createHash, randomBytes, pbkdf2Sync } from 'crypto';
+import { hashPassword } from '../helpers/password';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
   try {
@@ -25,10 +25,8 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
       }
     }
 
-    // Hash the password using PBKDF2
-    const salt = randomBytes(32).toString('hex');
-    const hash = pbkdf2Sync(input.password, salt, 10000, 64, 'sha512').toString('hex');
-    const password_hash = `${salt}:${hash}`;
+    // Hash the password with the current PBKDF2 parameters
+    const password_hash = await hashPassword(input.password);
 
     // Generate unique ID
     const id = crypto.randomUUID();
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { workspacesTable, workspaceMembersTable } from '../db/schema';
+import { type CreateWorkspaceInput, type UserWorkspace } from '../schema';
+
+// The creator becomes the workspace's first owner
+export async function createWorkspace(input: CreateWorkspaceInput): Promise<UserWorkspace> {
+  try {
+    const result = await db.insert(workspacesTable)
+      .values({
+        id: crypto.randomUUID(),
+        name: input.name
+      })
+      .returning()
+      .execute();
+
+    await db.insert(workspaceMembersTable)
+      .values({
+        workspace_id: result[0].id,
+        user_id: input.user_id,
+        role: 'owner'
+      })
+      .execute();
+
+    return { ...result[0], role: 'owner' };
+  } catch (error) {
+    console.error('Workspace creation failed:', error);
+    throw error;
+  }
+}
@@ -1,43 +1,52 @@
 import { db } from '../db';
 import { foldersTable, notesTable } from '../db/schema';
 import { type DeleteFolderInput } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertRecordAccess } from '../helpers/ownership';
+import { inSpace } from '../helpers/workspaces';
+import { collectFolderSubtree } from '../helpers/folder_tree';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
 
+// Moves a folder to the trash together with its subfolders and notes
 export const deleteFolder = async (input: DeleteFolderInput): Promise<{ success: boolean }> => {
   try {
-    // First, verify the folder exists and belongs to the user
-    const folder = await db.select()
+    // First, verify the folder exists and the user may change it
+    const folders = await db.select()
+      .from(foldersTable)
+      .where(eq(foldersTable.id, input.id))
+      .execute();
+
+    const folder = await assertRecordAccess(folders[0], input.user_id, 'Folder');
+
+    // Only items still outside the trash are swept up, so anything trashed
+    // earlier keeps its own deletion time and is not restored with the folder
+    const activeFolders = await db.select({ id: foldersTable.id, parent_folder_id: foldersTable.parent_folder_id })
       .from(foldersTable)
       .where(and(
-        eq(foldersTable.id, input.id),
-        eq(foldersTable.user_id, input.user_id)
+        inSpace(foldersTable, folder.user_id, folder.workspace_id),
+        isNull(foldersTable.deleted_at)
       ))
       .execute();
 
-    if (folder.length === 0) {
-      throw new Error('Folder not found or access denied');
+    const folderIds = collectFolderSubtree(activeFolders, input.id).map(f => f.id);
+    if (folderIds.length === 0) {
+      // Already in the trash
+      return { success: true };
     }
 
-    const folderToDelete = folder[0];
+    // Everything trashed together shares one timestamp so restoreFolder can bring it back as a unit
+    const deletedAt = new Date();
 
-    // Move all notes from this folder to its parent folder (or null if root)
     await db.update(notesTable)
-      .set({ folder_id: folderToDelete.parent_folder_id })
-      .where(eq(notesTable.folder_id, input.id))
+      .set({ deleted_at: deletedAt, updated_at: deletedAt })
+      .where(and(
+        inArray(notesTable.folder_id, folderIds),
+        isNull(notesTable.deleted_at)
+      ))
       .execute();
 
-    // Move all subfolders to the parent folder (or null if root)
     await db.update(foldersTable)
-      .set({ parent_folder_id: folderToDelete.parent_folder_id })
-      .where(eq(foldersTable.parent_folder_id, input.id))
-      .execute();
-
-    // Delete the folder itself
-    await db.delete(foldersTable)
-      .where(and(
-        eq(foldersTable.id, input.id),
-        eq(foldersTable.user_id, input.user_id)
-      ))
+      .set({ deleted_at: deletedAt, updated_at: deletedAt })
+      .where(inArray(foldersTable.id, folderIds))
       .execute();
 
     return { success: true };
@@ -45,4 +54,4 @@ export const deleteFolder = async (input: DeleteFolderInput): Promise<{ success:
     console.error('Folder deletion failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -1,36 +1,28 @@
 import { db } from '../db';
-import { notesTable, noteTagsTable } from '../db/schema';
+import { notesTable } from '../db/schema';
 import { type DeleteNoteInput } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertRecordAccess } from '../helpers/ownership';
+import { eq, and, isNull } from 'drizzle-orm';
 
+// Moves a note to the trash; it is removed for good by emptyTrash or the scheduled purge
 export async function deleteNote(input: DeleteNoteInput): Promise<{ success: boolean }> {
   try {
-    // First, verify the note exists and belongs to the user
+    // First, verify the note exists and the user may change it
     const existingNote = await db.select()
       .from(notesTable)
-      .where(
-        and(
-          eq(notesTable.id, input.id),
-          eq(notesTable.user_id, input.user_id)
-        )
-      )
+      .where(eq(notesTable.id, input.id))
       .execute();
 
-    if (existingNote.length === 0) {
-      throw new Error('Note not found or access denied');
-    }
-
-    // Delete note-tag relationships first (due to foreign key constraints)
-    await db.delete(noteTagsTable)
-      .where(eq(noteTagsTable.note_id, input.id))
-      .execute();
+    await assertRecordAccess(existingNote[0], input.user_id, 'Note');
 
-    // Delete the note itself
-    await db.delete(notesTable)
+    // Tag relationships are kept so the note can be restored intact
+    const now = new Date();
+    await db.update(notesTable)
+      .set({ deleted_at: now, updated_at: now })
       .where(
         and(
           eq(notesTable.id, input.id),
-          eq(notesTable.user_id, input.user_id)
+          isNull(notesTable.deleted_at)
         )
       )
       .execute();
@@ -40,4 +32,4 @@ export async function deleteNote(input: DeleteNoteInput): Promise<{ success: boo
     console.error('Note deletion failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
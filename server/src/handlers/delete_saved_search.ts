@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { savedSearchesTable } from '../db/schema';
+import { type DeleteSavedSearchInput } from '../schema';
+import { assertOwnership } from '../helpers/ownership';
+import { eq } from 'drizzle-orm';
+
+export async function deleteSavedSearch(input: DeleteSavedSearchInput): Promise<{ success: boolean }> {
+  try {
+    const existing = await db.select()
+      .from(savedSearchesTable)
+      .where(eq(savedSearchesTable.id, input.id))
+      .execute();
+
+    assertOwnership(existing[0], input.user_id, 'Saved search');
+
+    await db.delete(savedSearchesTable)
+      .where(eq(savedSearchesTable.id, input.id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Saved search deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { hashSessionToken } from '../helpers/session_token';
+import { eq } from 'drizzle-orm';
+
+export async function deleteSession(token: string): Promise<{ success: boolean }> {
+  try {
+    await db.delete(sessionsTable)
+      .where(eq(sessionsTable.id, hashSessionToken(token)))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Session deletion failed:', error);
+    throw error;
+  }
+}
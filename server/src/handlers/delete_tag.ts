@@ -1,23 +1,56 @@
+import { TRPCError } from '@trpc/server';
 import { db } from '../db';
 import { tagsTable, noteTagsTable } from '../db/schema';
 import { type DeleteTagInput } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertRecordAccess } from '../helpers/ownership';
+import { recordTombstones } from '../helpers/sync_tombstones';
+import { inSpace } from '../helpers/workspaces';
+import { eq, ne, and, isNull, inArray } from 'drizzle-orm';
 
 export async function deleteTag(input: DeleteTagInput): Promise<{ success: boolean }> {
   try {
-    // Verify the tag exists and belongs to the user
+    // Verify the tag exists and the user may change it
     const existingTags = await db.select()
       .from(tagsTable)
-      .where(and(
-        eq(tagsTable.id, input.id),
-        eq(tagsTable.user_id, input.user_id)
-      ))
+      .where(eq(tagsTable.id, input.id))
       .execute();
 
-    if (existingTags.length === 0) {
-      throw new Error('Tag not found or you do not have permission to delete it');
+    const tag = await assertRecordAccess(existingTags[0], input.user_id, 'Tag');
+
+    // Keep the child tags, either one level up or at the top level. Names are
+    // unique among siblings, so children that would land next to a tag of
+    // the same name have to be renamed first.
+    const parentTagId = input.reparent_children ? tag.parent_tag_id : null;
+    const children = await db.select({ name: tagsTable.name })
+      .from(tagsTable)
+      .where(eq(tagsTable.parent_tag_id, tag.id))
+      .execute();
+
+    if (children.length > 0) {
+      const collisions = await db.select({ name: tagsTable.name })
+        .from(tagsTable)
+        .where(and(
+          inSpace(tagsTable, tag.user_id, tag.workspace_id),
+          parentTagId ? eq(tagsTable.parent_tag_id, parentTagId) : isNull(tagsTable.parent_tag_id),
+          ne(tagsTable.id, tag.id),
+          inArray(tagsTable.name, children.map(child => child.name))
+        ))
+        .execute();
+
+      if (collisions.length > 0) {
+        const names = collisions.map(collision => `"${collision.name}"`).join(', ');
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `Rename the child tags ${names} first: tags with the same names already exist where they would move`
+        });
+      }
     }
 
+    await db.update(tagsTable)
+      .set({ parent_tag_id: parentTagId, updated_at: new Date() })
+      .where(eq(tagsTable.parent_tag_id, tag.id))
+      .execute();
+
     // Delete all note-tag associations first (due to foreign key constraints)
     await db.delete(noteTagsTable)
       .where(eq(noteTagsTable.tag_id, input.id))
@@ -25,12 +58,11 @@ export async function deleteTag(input: DeleteTagInput): Promise<{ success: boole
 
     // Delete the tag itself
     await db.delete(tagsTable)
-      .where(and(
-        eq(tagsTable.id, input.id),
-        eq(tagsTable.user_id, input.user_id)
-      ))
+      .where(eq(tagsTable.id, input.id))
       .execute();
 
+    await recordTombstones('tag', [tag]);
+
     return { success: true };
   } catch (error) {
     console.error('Tag deletion failed:', error);
@@ -0,0 +1,50 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable, noteRevisionsTable } from '../db/schema';
+import { type DiffNoteRevisionsInput, type NoteRevisionDiff, type NoteRevision } from '../schema';
+import { assertNoteAccess } from '../helpers/note_access';
+import { diffLines } from '../helpers/line_diff';
+import { eq, and } from 'drizzle-orm';
+
+export async function diffNoteRevisions(input: DiffNoteRevisionsInput): Promise<NoteRevisionDiff> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    const note = await assertNoteAccess(notes[0], input.user_id, 'read');
+
+    const findRevision = async (revisionId: string): Promise<NoteRevision> => {
+      const revisions = await db.select()
+        .from(noteRevisionsTable)
+        .where(and(
+          eq(noteRevisionsTable.id, revisionId),
+          eq(noteRevisionsTable.note_id, input.note_id)
+        ))
+        .execute();
+
+      if (revisions.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Revision not found' });
+      }
+
+      return revisions[0];
+    };
+
+    const from = await findRevision(input.from_revision_id);
+    const to = input.to_revision_id ? await findRevision(input.to_revision_id) : null;
+
+    // Without a target revision, compare against the note as it is now
+    const target = to ?? note;
+
+    return {
+      from,
+      to,
+      title_changed: from.title !== target.title,
+      lines: diffLines(from.content, target.content)
+    };
+  } catch (error) {
+    console.error('Note revision diff failed:', error);
+    throw error;
+  }
+}
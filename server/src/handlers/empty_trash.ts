@@ -0,0 +1,14 @@
+import { type EmptyTrashInput, type TrashPurgeResult } from '../schema';
+import { purgeTrashedItems } from '../helpers/trash';
+import { assertActiveWorkspace } from '../helpers/workspaces';
+
+export async function emptyTrash(input: EmptyTrashInput): Promise<TrashPurgeResult> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'editor');
+
+    return await purgeTrashedItems({ userId: input.user_id, workspaceId: input.workspace_id });
+  } catch (error) {
+    console.error('Empty trash failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { notesTable, attachmentsTable } from '../db/schema';
+import { type ExportNoteInput, type NoteExportFile } from '../schema';
+import { assertNoteAccess } from '../helpers/note_access';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { toFileName } from '../helpers/note_export';
+import { renderNoteHtml, type EmbeddedFile } from '../helpers/note_html';
+import { renderNotePdf } from '../helpers/note_pdf';
+import { eq } from 'drizzle-orm';
+
+// Renders one note as a file to hand to people without an account: a
+// self-contained HTML page or a PDF, both with the note's attached images
+// embedded. Anyone who can read the note can export it.
+export async function exportNote(input: ExportNoteInput): Promise<NoteExportFile> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    const note = await assertNoteAccess(notes[0], input.user_id, 'read');
+
+    // Only images are embedded; links to other attached files are left as they are
+    const attachments = await db.select()
+      .from(attachmentsTable)
+      .where(eq(attachmentsTable.note_id, note.id))
+      .execute();
+
+    const storage = getAttachmentStorage();
+    const files = new Map<string, EmbeddedFile>();
+    for (const attachment of attachments) {
+      if (!attachment.content_type.startsWith('image/') || !note.content.includes(attachment.id)) {
+        continue;
+      }
+      const data = await storage.get(attachment.storage_key);
+      if (data) {
+        files.set(attachment.id, { content_type: attachment.content_type, data });
+      }
+    }
+
+    const fileName = toFileName(note.title);
+    const file = input.format === 'pdf'
+      ? { file_name: `${fileName}.pdf`, content_type: 'application/pdf', data: await renderNotePdf(note, files) }
+      : { file_name: `${fileName}.html`, content_type: 'text/html; charset=utf-8', data: Buffer.from(renderNoteHtml(note, files)) };
+
+    return { ...file, data: file.data.toString('base64') };
+  } catch (error) {
+    console.error('Note export failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,148 @@
+import { db } from '../db';
+import { notesTable, noteColumns, foldersTable, tagsTable, noteTagsTable, attachmentsTable, type NoteTag, type Attachment } from '../db/schema';
+import { type ExportNotesInput, type Folder } from '../schema';
+import { assertActiveWorkspace, inSpace } from '../helpers/workspaces';
+import { collectFolderSubtree } from '../helpers/folder_tree';
+import { getTagPath } from '../helpers/tag_tree';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { inBatches } from '../helpers/batches';
+import { renderNoteMarkdown, toFileName, createPathAllocator, rewriteAttachmentLinks } from '../helpers/note_export';
+import { TRPCError } from '@trpc/server';
+import { and, isNull, inArray, asc } from 'drizzle-orm';
+
+export interface ExportFile {
+  path: string; // Slash-separated, relative to the archive root
+  data: Buffer;
+  modified: Date;
+}
+
+// Attachments of a note are exported next to it, under this directory
+const ATTACHMENTS_DIR = '_attachments';
+
+// Yields the files of a markdown export one by one, so attachments are only
+// read from storage as the archive is written. Folders become directories;
+// a folder export is rooted at that folder, an account export at the top.
+// Trashed notes and folders are left out.
+export async function* exportNotes(input: ExportNotesInput): AsyncGenerator<ExportFile> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'viewer');
+
+    const allFolders = await db.select()
+      .from(foldersTable)
+      .where(and(inSpace(foldersTable, input.user_id, input.workspace_id), isNull(foldersTable.deleted_at)))
+      .orderBy(asc(foldersTable.name))
+      .execute();
+
+    let folders: Folder[] = allFolders;
+    if (input.folder_id !== undefined) {
+      folders = collectFolderSubtree(allFolders, input.folder_id);
+      if (folders.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Folder not found' });
+      }
+    }
+
+    // Directory of each folder, under its parent's unless the parent is not
+    // exported (the exported folder's own parent, or a trashed one)
+    const allocatePath = createPathAllocator();
+    const exportedFolders = new Map(folders.map(folder => [folder.id, folder]));
+    const folderDirs = new Map<string, string>();
+    const folderDir = (folder: Folder): string => {
+      let dir = folderDirs.get(folder.id);
+      if (dir === undefined) {
+        const parent = folder.id !== input.folder_id && folder.parent_folder_id
+          ? exportedFolders.get(folder.parent_folder_id)
+          : undefined;
+        dir = allocatePath(parent ? folderDir(parent) : '', toFileName(folder.name));
+        folderDirs.set(folder.id, dir);
+      }
+      return dir;
+    };
+    folders.forEach(folderDir);
+
+    const conditions = [
+      inSpace(notesTable, input.user_id, input.workspace_id),
+      isNull(notesTable.deleted_at)
+    ];
+    if (input.folder_id !== undefined) {
+      conditions.push(inArray(notesTable.folder_id, folders.map(folder => folder.id)));
+    }
+
+    const notes = await db.select(noteColumns)
+      .from(notesTable)
+      .where(and(...conditions))
+      .orderBy(asc(notesTable.title), asc(notesTable.id))
+      .execute();
+
+    if (notes.length === 0) {
+      return;
+    }
+
+    const noteIds = notes.map(note => note.id);
+    const tags = await db.select()
+      .from(tagsTable)
+      .where(inSpace(tagsTable, input.user_id, input.workspace_id))
+      .execute();
+    const noteTags: NoteTag[] = [];
+    const attachments: Attachment[] = [];
+    for (const batch of inBatches(noteIds)) {
+      noteTags.push(...await db.select()
+        .from(noteTagsTable)
+        .where(inArray(noteTagsTable.note_id, batch))
+        .execute());
+      attachments.push(...await db.select()
+        .from(attachmentsTable)
+        .where(inArray(attachmentsTable.note_id, batch))
+        .execute());
+    }
+    attachments.sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+
+    const tagPathsByNote = new Map<string, string[]>();
+    for (const { note_id, tag_id } of noteTags) {
+      tagPathsByNote.set(note_id, [...(tagPathsByNote.get(note_id) ?? []), getTagPath(tags, tag_id)]);
+    }
+
+    const storage = getAttachmentStorage();
+
+    for (const note of notes) {
+      // Notes whose folder was not exported (e.g. a trashed parent) land at the top
+      const dir = (note.folder_id && folderDirs.get(note.folder_id)) || '';
+      const notePath = allocatePath(dir, toFileName(note.title), '.md');
+
+      const files: ExportFile[] = [];
+      const links = new Map<string, string>();
+      for (const attachment of attachments.filter(attachment => attachment.note_id === note.id)) {
+        const data = await storage.get(attachment.storage_key);
+        if (!data) {
+          continue;
+        }
+
+        // Repeated names are numbered before the extension: "photo (2).png"
+        const fileName = toFileName(attachment.filename);
+        const dot = fileName.lastIndexOf('.');
+        const attachmentPath = allocatePath(
+          dir ? `${dir}/${ATTACHMENTS_DIR}` : ATTACHMENTS_DIR,
+          dot > 0 ? fileName.slice(0, dot) : fileName,
+          dot > 0 ? fileName.slice(dot) : ''
+        );
+
+        // Links are relative to the note, which sits in the same directory
+        links.set(attachment.id, attachmentPath.slice(dir ? dir.length + 1 : 0).split('/').map(encodeURIComponent).join('/'));
+        files.push({ path: attachmentPath, data, modified: attachment.created_at });
+      }
+
+      const markdown = renderNoteMarkdown({
+        title: note.title,
+        tags: (tagPathsByNote.get(note.id) ?? []).sort(),
+        favorite: note.is_favorite,
+        created: note.created_at,
+        updated: note.updated_at
+      }, rewriteAttachmentLinks(note.content, links));
+
+      yield { path: notePath, data: Buffer.from(markdown, 'utf8'), modified: note.updated_at };
+      yield* files;
+    }
+  } catch (error) {
+    console.error('Note export failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { attachmentsTable, notesTable, publicLinksTable, type Note as DbNote } from '../db/schema';
+import { type Attachment, type GetAttachmentFileInput } from '../schema';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { getNoteAccess } from '../helpers/note_access';
+import { hashPublicLinkToken, isPublicLinkExpired } from '../helpers/public_links';
+import { verifyAttachmentSignature } from '../helpers/attachment_urls';
+import { eq, and } from 'drizzle-orm';
+
+export interface AttachmentFile {
+  attachment: Attachment;
+  data: Buffer;
+}
+
+// Serves a file to whoever can read its note: a signed-in user with access, a
+// visitor of one of the note's public links, or the holder of an address
+// signed for a reader (see getAttachmentUrls) until it expires. Ids of files
+// in a password-protected note only show up once the password is given, so
+// there the token and the id together stand in for it. No access gives null,
+// like an unknown id, so ids can't be probed.
+export async function getAttachmentFile(input: GetAttachmentFileInput): Promise<AttachmentFile | null> {
+  try {
+    const results = await db.select({ attachment: attachmentsTable, note: notesTable })
+      .from(attachmentsTable)
+      .innerJoin(notesTable, eq(notesTable.id, attachmentsTable.note_id))
+      .where(eq(attachmentsTable.id, input.id))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { attachment: { storage_key, ...attachment }, note } = results[0];
+    const signed = !!input.expires && !!input.signature &&
+      verifyAttachmentSignature(attachment.id, input.expires, input.signature);
+    if (!signed && !await canReadAttachments(note, input)) {
+      return null;
+    }
+
+    const data = await getAttachmentStorage().get(storage_key);
+
+    return data ? { attachment, data } : null;
+  } catch (error) {
+    console.error('Attachment download failed:', error);
+    throw error;
+  }
+}
+
+async function canReadAttachments(note: DbNote, input: GetAttachmentFileInput): Promise<boolean> {
+  if (input.user_id && await getNoteAccess(note, input.user_id)) {
+    return true;
+  }
+
+  if (!input.public_token || note.deleted_at) {
+    return false;
+  }
+
+  const links = await db.select()
+    .from(publicLinksTable)
+    .where(and(
+      eq(publicLinksTable.token_hash, hashPublicLinkToken(input.public_token)),
+      eq(publicLinksTable.note_id, note.id)
+    ))
+    .execute();
+
+  return links.length > 0 && !isPublicLinkExpired(links[0]);
+}
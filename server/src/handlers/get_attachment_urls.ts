@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { notesTable, attachmentsTable } from '../db/schema';
+import { type GetAttachmentUrlsInput, type SignedAttachmentUrl } from '../schema';
+import { assertNoteAccess } from '../helpers/note_access';
+import { signAttachmentUrl } from '../helpers/attachment_urls';
+import { eq } from 'drizzle-orm';
+
+// Signed addresses for the note's files, so the preview can show images
+// through plain <img> tags, which can't carry the session token
+export async function getAttachmentUrls(input: GetAttachmentUrlsInput): Promise<SignedAttachmentUrl[]> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    const note = await assertNoteAccess(notes[0], input.user_id, 'read');
+
+    const attachments = await db.select({ id: attachmentsTable.id })
+      .from(attachmentsTable)
+      .where(eq(attachmentsTable.note_id, note.id))
+      .execute();
+
+    const now = new Date();
+    return attachments.map(attachment => signAttachmentUrl(attachment.id, now));
+  } catch (error) {
+    console.error('Attachment URL signing failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { notesTable, noteLinksTable, noteColumns } from '../db/schema';
+import { type GetBacklinksInput, type Note } from '../schema';
+import { assertNoteAccess, getNoteAccess } from '../helpers/note_access';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+
+export async function getBacklinks(input: GetBacklinksInput): Promise<Note[]> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    const note = await assertNoteAccess(notes[0], input.user_id, 'read');
+
+    // Notes linking here, most recently edited first; trashed notes are left out
+    const results = await db.select(noteColumns)
+      .from(notesTable)
+      .innerJoin(noteLinksTable, eq(noteLinksTable.source_note_id, notesTable.id))
+      .where(and(
+        eq(noteLinksTable.target_note_id, input.note_id),
+        isNull(notesTable.deleted_at)
+      ))
+      .orderBy(desc(notesTable.updated_at))
+      .execute();
+
+    if (!note.workspace_id && note.user_id === input.user_id) {
+      return results;
+    }
+
+    // Others only see linking notes they can open too
+    const readable = await Promise.all(results.map(result => getNoteAccess(result, input.user_id)));
+    return results.filter((_result, index) => readable[index] !== null);
+  } catch (error) {
+    console.error('Get backlinks failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,91 @@
+import { db } from '../db';
+import { notesTable, foldersTable, tagsTable, noteTagsTable, noteRevisionsTable } from '../db/schema';
+import { BACKUP_SCHEMA_VERSION, type Backup, type GetBackupInput } from '../schema';
+import { inSpace } from '../helpers/workspaces';
+import { eq, asc } from 'drizzle-orm';
+
+// Snapshots everything in the user's personal space, trashed notes and folders
+// included, so restoring the backup brings the account back as it was
+export async function getBackup(input: GetBackupInput): Promise<Backup> {
+  try {
+    const folders = await db.select({
+      id: foldersTable.id,
+      name: foldersTable.name,
+      parent_folder_id: foldersTable.parent_folder_id,
+      deleted_at: foldersTable.deleted_at,
+      created_at: foldersTable.created_at,
+      updated_at: foldersTable.updated_at
+    })
+      .from(foldersTable)
+      .where(inSpace(foldersTable, input.user_id, null))
+      .orderBy(asc(foldersTable.created_at))
+      .execute();
+
+    const tags = await db.select({
+      id: tagsTable.id,
+      name: tagsTable.name,
+      color: tagsTable.color,
+      parent_tag_id: tagsTable.parent_tag_id,
+      created_at: tagsTable.created_at,
+      updated_at: tagsTable.updated_at
+    })
+      .from(tagsTable)
+      .where(inSpace(tagsTable, input.user_id, null))
+      .orderBy(asc(tagsTable.created_at))
+      .execute();
+
+    const notes = await db.select({
+      id: notesTable.id,
+      title: notesTable.title,
+      content: notesTable.content,
+      markdown_content: notesTable.markdown_content,
+      folder_id: notesTable.folder_id,
+      is_favorite: notesTable.is_favorite,
+      position: notesTable.position,
+      deleted_at: notesTable.deleted_at,
+      created_at: notesTable.created_at,
+      updated_at: notesTable.updated_at
+    })
+      .from(notesTable)
+      .where(inSpace(notesTable, input.user_id, null))
+      .orderBy(asc(notesTable.created_at))
+      .execute();
+
+    const noteTags = await db.select({
+      note_id: noteTagsTable.note_id,
+      tag_id: noteTagsTable.tag_id,
+      created_at: noteTagsTable.created_at
+    })
+      .from(noteTagsTable)
+      .innerJoin(notesTable, eq(noteTagsTable.note_id, notesTable.id))
+      .where(inSpace(notesTable, input.user_id, null))
+      .execute();
+
+    const revisions = await db.select({
+      id: noteRevisionsTable.id,
+      note_id: noteRevisionsTable.note_id,
+      title: noteRevisionsTable.title,
+      content: noteRevisionsTable.content,
+      markdown_content: noteRevisionsTable.markdown_content,
+      created_at: noteRevisionsTable.created_at
+    })
+      .from(noteRevisionsTable)
+      .innerJoin(notesTable, eq(noteRevisionsTable.note_id, notesTable.id))
+      .where(inSpace(notesTable, input.user_id, null))
+      .orderBy(asc(noteRevisionsTable.created_at))
+      .execute();
+
+    return {
+      schema_version: BACKUP_SCHEMA_VERSION,
+      exported_at: new Date(),
+      folders,
+      tags,
+      notes,
+      note_tags: noteTags,
+      revisions
+    };
+  } catch (error) {
+    console.error('Backup failed:', error);
+    throw error;
+  }
+}
@@ -1,23 +1,18 @@
 import { db } from '../db';
 import { notesTable } from '../db/schema';
 import { type Note } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { getNoteAccess } from '../helpers/note_access';
+import { eq } from 'drizzle-orm';
 
 export async function getNoteById(noteId: string, userId: string): Promise<Note | null> {
   try {
-    // Query note with user ownership validation
     const results = await db.select()
       .from(notesTable)
-      .where(
-        and(
-          eq(notesTable.id, noteId),
-          eq(notesTable.user_id, userId)
-        )
-      )
+      .where(eq(notesTable.id, noteId))
       .execute();
 
-    // Return null if note not found or doesn't belong to user
-    if (results.length === 0) {
+    // Return null if note not found or the user can't read it
+    if (results.length === 0 || !(await getNoteAccess(results[0], userId))) {
       return null;
     }
 
@@ -28,8 +23,11 @@ export async function getNoteById(noteId: string, userId: string): Promise<Note
       content: note.content,
       markdown_content: note.markdown_content,
       user_id: note.user_id,
+      workspace_id: note.workspace_id,
       folder_id: note.folder_id,
       is_favorite: note.is_favorite,
+      position: note.position,
+      deleted_at: note.deleted_at,
       created_at: note.created_at,
       updated_at: note.updated_at
     };
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { notesTable, noteRevisionsTable } from '../db/schema';
+import { type GetNoteRevisionsInput, type NoteRevision } from '../schema';
+import { assertNoteAccess } from '../helpers/note_access';
+import { eq, desc } from 'drizzle-orm';
+
+export async function getNoteRevisions(input: GetNoteRevisionsInput): Promise<NoteRevision[]> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    await assertNoteAccess(notes[0], input.user_id, 'read');
+
+    // Newest first
+    const results = await db.select()
+      .from(noteRevisionsTable)
+      .where(eq(noteRevisionsTable.note_id, input.note_id))
+      .orderBy(desc(noteRevisionsTable.created_at))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Get note revisions failed:', error);
+    throw error;
+  }
+}
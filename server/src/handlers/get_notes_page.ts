@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { notesTable, noteColumns } from '../db/schema';
+import { type GetNotesPageInput, type NotesPage } from '../schema';
+import { assertActiveWorkspace } from '../helpers/workspaces';
+import { buildNoteConditions } from '../helpers/note_filters';
+import { attachNoteTags } from '../helpers/note_tags';
+import { afterNoteCursor, defaultSortDirection, encodeNoteCursor, noteSortOrder } from '../helpers/note_pagination';
+import { and } from 'drizzle-orm';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export async function getNotesPage(input: GetNotesPageInput): Promise<NotesPage> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'viewer');
+
+    const sort = input.sort ?? 'updated';
+    const direction = input.direction ?? defaultSortDirection(sort);
+    const limit = input.limit ?? DEFAULT_PAGE_SIZE;
+
+    const conditions = await buildNoteConditions(input);
+    if (input.cursor) {
+      conditions.push(afterNoteCursor(input.cursor, sort, direction));
+    }
+
+    // One extra row tells whether another page follows
+    const rows = await db.select(noteColumns)
+      .from(notesTable)
+      .where(and(...conditions))
+      .orderBy(...noteSortOrder(sort, direction))
+      .limit(limit + 1)
+      .execute();
+
+    const notes = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    return {
+      notes: await attachNoteTags(notes),
+      next_cursor: hasMore ? encodeNoteCursor(notes[notes.length - 1], sort) : null
+    };
+  } catch (error) {
+    console.error('Failed to get notes page:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { notesTable, publicLinksTable } from '../db/schema';
+import { type GetPublicLinksInput, type PublicLink } from '../schema';
+import { assertRecordAccess } from '../helpers/ownership';
+import { toPublicLink } from '../helpers/public_links';
+import { eq, and, or, isNull, gt, desc } from 'drizzle-orm';
+
+// Active links of a note, newest first; expired links are left out
+export async function getPublicLinks(input: GetPublicLinksInput): Promise<PublicLink[]> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    await assertRecordAccess(notes[0], input.user_id, 'Note');
+
+    const links = await db.select()
+      .from(publicLinksTable)
+      .where(and(
+        eq(publicLinksTable.note_id, input.note_id),
+        or(isNull(publicLinksTable.expires_at), gt(publicLinksTable.expires_at, new Date()))
+      ))
+      .orderBy(desc(publicLinksTable.created_at))
+      .execute();
+
+    return links.map(toPublicLink);
+  } catch (error) {
+    console.error('Get public links failed:', error);
+    throw error;
+  }
+}
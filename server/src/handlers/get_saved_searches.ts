@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { notesTable, savedSearchesTable } from '../db/schema';
+import { type GetSavedSearchesInput, type SavedSearchWithCount } from '../schema';
+import { assertActiveWorkspace } from '../helpers/workspaces';
+import { buildNoteConditions } from '../helpers/note_filters';
+import { ownSavedSearches } from '../helpers/saved_searches';
+import { and, asc, count } from 'drizzle-orm';
+
+// The caller's saved searches in the active space, each with its current note count
+export async function getSavedSearches(input: GetSavedSearchesInput): Promise<SavedSearchWithCount[]> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'viewer');
+
+    const searches = await db.select()
+      .from(savedSearchesTable)
+      .where(ownSavedSearches(input.user_id, input.workspace_id))
+      .orderBy(asc(savedSearchesTable.name))
+      .execute();
+
+    return await Promise.all(searches.map(async search => {
+      const conditions = await buildNoteConditions({
+        ...search.query,
+        user_id: input.user_id,
+        workspace_id: input.workspace_id
+      });
+
+      const result = await db.select({ note_count: count() })
+        .from(notesTable)
+        .where(and(...conditions))
+        .execute();
+
+      return { ...search, note_count: result[0].note_count };
+    }));
+  } catch (error) {
+    console.error('Get saved searches failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type PublicUser } from '../schema';
+import { hashSessionToken } from '../helpers/session_token';
+import { eq, and, gt } from 'drizzle-orm';
+
+export async function getSessionUser(token: string): Promise<PublicUser | null> {
+  try {
+    // Resolve the token to its owner, ignoring expired sessions. The password
+    // hash is left out since the user ends up in the request context.
+    const results = await db.select({
+      id: usersTable.id,
+      email: usersTable.email,
+      username: usersTable.username,
+      created_at: usersTable.created_at,
+      updated_at: usersTable.updated_at
+    })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.id, hashSessionToken(token)),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return results[0];
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+}
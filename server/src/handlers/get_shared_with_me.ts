@@ -0,0 +1,89 @@
+import { db } from '../db';
+import { notesTable, foldersTable, sharesTable, usersTable, noteColumns, type Share } from '../db/schema';
+import { type GetSharedWithMeInput, type SharedWithMe, type SharedNote, type SharedFolder } from '../schema';
+import { collectFolderSubtree, collectFolderAncestors } from '../helpers/folder_tree';
+import { strongestPermission } from '../helpers/note_access';
+import { getTableColumns, eq, and, or, inArray, isNull, desc } from 'drizzle-orm';
+
+type ReceivedShare = Share & { owner_username: string };
+
+// Notes and folders other users have shared with this user. Notes reached
+// through a shared folder are listed along with the ones shared on their own;
+// trashed items are left out.
+export async function getSharedWithMe(input: GetSharedWithMeInput): Promise<SharedWithMe> {
+  try {
+    const shares: ReceivedShare[] = await db.select({ ...getTableColumns(sharesTable), owner_username: usersTable.username })
+      .from(sharesTable)
+      .innerJoin(usersTable, eq(usersTable.id, sharesTable.owner_id))
+      .where(eq(sharesTable.grantee_id, input.user_id))
+      .execute();
+
+    if (shares.length === 0) {
+      return { notes: [], folders: [] };
+    }
+
+    const ownerFolders = await db.select()
+      .from(foldersTable)
+      .where(and(
+        inArray(foldersTable.user_id, [...new Set(shares.map(share => share.owner_id))]),
+        isNull(foldersTable.deleted_at)
+      ))
+      .execute();
+
+    const folderShares = new Map<string, ReceivedShare[]>();
+    for (const share of shares) {
+      if (share.folder_id) {
+        folderShares.set(share.folder_id, [...(folderShares.get(share.folder_id) ?? []), share]);
+      }
+    }
+
+    // Shares reaching each folder, from its own and from folders above it
+    const sharesFor = (folderId: string | null): ReceivedShare[] => folderId
+      ? collectFolderAncestors(ownerFolders, folderId).flatMap(folder => folderShares.get(folder.id) ?? [])
+      : [];
+
+    const sharedFolderIds = [...folderShares.keys()];
+    const coveredFolderIds = sharedFolderIds.flatMap(id => collectFolderSubtree(ownerFolders, id).map(folder => folder.id));
+    const directNoteIds = shares.flatMap(share => share.note_id ? [share.note_id] : []);
+
+    const noteConditions = [];
+    if (directNoteIds.length > 0) noteConditions.push(inArray(notesTable.id, directNoteIds));
+    if (coveredFolderIds.length > 0) noteConditions.push(inArray(notesTable.folder_id, coveredFolderIds));
+
+    const noteRows = noteConditions.length === 0 ? [] : await db.select(noteColumns)
+      .from(notesTable)
+      .where(and(isNull(notesTable.deleted_at), or(...noteConditions)))
+      .orderBy(desc(notesTable.updated_at))
+      .execute();
+
+    const notes: SharedNote[] = noteRows.map(note => {
+      const viaFolders = sharesFor(note.folder_id);
+      const applicable = [...shares.filter(share => share.note_id === note.id), ...viaFolders];
+
+      return {
+        ...note,
+        permission: strongestPermission(applicable.map(share => share.permission))!,
+        owner_username: applicable[0].owner_username,
+        // The outermost shared folder, so nested shares group together
+        shared_folder_id: viaFolders.length > 0 ? viaFolders[viaFolders.length - 1].folder_id : null
+      };
+    });
+
+    const folders: SharedFolder[] = ownerFolders
+      .filter(folder => folderShares.has(folder.id))
+      .map(folder => {
+        const applicable = sharesFor(folder.id);
+        return {
+          ...folder,
+          permission: strongestPermission(applicable.map(share => share.permission))!,
+          owner_username: applicable[0].owner_username
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return { notes, folders };
+  } catch (error) {
+    console.error('Get shared items failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable, foldersTable, sharesTable, usersTable } from '../db/schema';
+import { type GetSharesInput, type Share } from '../schema';
+import { assertRecordAccess } from '../helpers/ownership';
+import { shareColumns } from '../helpers/shares';
+import { eq, asc } from 'drizzle-orm';
+
+// Who the owner has shared a note or folder with
+export async function getShares(input: GetSharesInput): Promise<Share[]> {
+  try {
+    if (!input.note_id === !input.folder_id) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Pass either note_id or folder_id' });
+    }
+
+    if (input.note_id) {
+      const notes = await db.select()
+        .from(notesTable)
+        .where(eq(notesTable.id, input.note_id))
+        .execute();
+
+      await assertRecordAccess(notes[0], input.user_id, 'Note');
+    } else if (input.folder_id) {
+      const folders = await db.select()
+        .from(foldersTable)
+        .where(eq(foldersTable.id, input.folder_id))
+        .execute();
+
+      await assertRecordAccess(folders[0], input.user_id, 'Folder');
+    }
+
+    const results = await db.select(shareColumns)
+      .from(sharesTable)
+      .innerJoin(usersTable, eq(usersTable.id, sharesTable.grantee_id))
+      .where(input.note_id ? eq(sharesTable.note_id, input.note_id) : eq(sharesTable.folder_id, input.folder_id!))
+      .orderBy(asc(sharesTable.created_at))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Get shares failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { notesTable, foldersTable, tagsTable, noteTagsTable, syncTombstonesTable, noteColumns } from '../db/schema';
+import { type SyncInput, type SyncResult } from '../schema';
+import { assertActiveWorkspace, inSpace } from '../helpers/workspaces';
+import { eq, and, gte, type SQL } from 'drizzle-orm';
+
+// The returned cursor trails the clock so that writes still in flight while
+// this snapshot was read are picked up by the next sync. Records near the
+// cursor may be sent twice, which clients handle by upserting.
+const CURSOR_LAG_MS = 5000;
+
+export async function getSyncChanges(input: SyncInput): Promise<SyncResult> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'viewer');
+
+    const cursor = new Date(Date.now() - CURSOR_LAG_MS);
+    const since = input.since ?? null;
+
+    // Each sync covers one space, so clients keep a copy per workspace
+    const noteConditions: SQL<unknown>[] = [inSpace(notesTable, input.user_id, input.workspace_id)];
+    const folderConditions: SQL<unknown>[] = [inSpace(foldersTable, input.user_id, input.workspace_id)];
+    const tagConditions: SQL<unknown>[] = [inSpace(tagsTable, input.user_id, input.workspace_id)];
+
+    if (since) {
+      noteConditions.push(gte(notesTable.changed_at, since));
+      folderConditions.push(gte(foldersTable.updated_at, since));
+      tagConditions.push(gte(tagsTable.updated_at, since));
+    }
+
+    const notes = await db.select(noteColumns)
+      .from(notesTable)
+      .where(and(...noteConditions))
+      .execute();
+
+    const folders = await db.select()
+      .from(foldersTable)
+      .where(and(...folderConditions))
+      .execute();
+
+    const tags = await db.select()
+      .from(tagsTable)
+      .where(and(...tagConditions))
+      .execute();
+
+    const noteTags = await db.select({
+      note_id: noteTagsTable.note_id,
+      tag_id: noteTagsTable.tag_id,
+      created_at: noteTagsTable.created_at
+    })
+      .from(noteTagsTable)
+      .innerJoin(notesTable, eq(noteTagsTable.note_id, notesTable.id))
+      .where(and(...noteConditions))
+      .execute();
+
+    // A full snapshot replaces the client's copy, so it needs no deletions
+    const tombstones = since
+      ? await db.select()
+        .from(syncTombstonesTable)
+        .where(and(
+          inSpace(syncTombstonesTable, input.user_id, input.workspace_id),
+          gte(syncTombstonesTable.deleted_at, since)
+        ))
+        .execute()
+      : [];
+
+    const deletedIds = (entityType: string) => tombstones
+      .filter(tombstone => tombstone.entity_type === entityType)
+      .map(tombstone => tombstone.entity_id);
+
+    return {
+      notes,
+      folders,
+      tags,
+      note_tags: noteTags,
+      deleted: {
+        notes: deletedIds('note'),
+        folders: deletedIds('folder'),
+        tags: deletedIds('tag')
+      },
+      cursor
+    };
+  } catch (error) {
+    console.error('Sync failed:', error);
+    throw error;
+  }
+}
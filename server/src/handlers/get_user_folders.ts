@@ -1,15 +1,21 @@
 import { db } from '../db';
 import { foldersTable } from '../db/schema';
 import { type GetUserFoldersInput, type Folder } from '../schema';
-import { eq, and, isNull, type SQL } from 'drizzle-orm';
+import { assertActiveWorkspace, inSpace } from '../helpers/workspaces';
+import { eq, and, isNull, isNotNull, type SQL } from 'drizzle-orm';
 
 export const getUserFolders = async (input: GetUserFoldersInput): Promise<Folder[]> => {
   try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'viewer');
+
     // Build conditions array
     const conditions: SQL<unknown>[] = [];
     
-    // Always filter by user_id
-    conditions.push(eq(foldersTable.user_id, input.user_id));
+    // Always filter by the active workspace
+    conditions.push(inSpace(foldersTable, input.user_id, input.workspace_id));
+
+    // Trashed folders only show up in the trash view
+    conditions.push(input.trashed ? isNotNull(foldersTable.deleted_at) : isNull(foldersTable.deleted_at));
 
     // Filter by parent folder if specified
     if (input.parent_folder_id !== undefined) {
@@ -1,13 +1,16 @@
 import { db } from '../db';
 import { tagsTable } from '../db/schema';
 import { type GetUserTagsInput, type Tag } from '../schema';
-import { eq, asc } from 'drizzle-orm';
+import { assertActiveWorkspace, inSpace } from '../helpers/workspaces';
+import { asc } from 'drizzle-orm';
 
 export async function getUserTags(input: GetUserTagsInput): Promise<Tag[]> {
   try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'viewer');
+
     const results = await db.select()
       .from(tagsTable)
-      .where(eq(tagsTable.user_id, input.user_id))
+      .where(inSpace(tagsTable, input.user_id, input.workspace_id))
       .orderBy(asc(tagsTable.name))
       .execute();
 
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { workspacesTable, workspaceMembersTable } from '../db/schema';
+import { type GetUserWorkspacesInput, type UserWorkspace } from '../schema';
+import { getTableColumns, eq, asc } from 'drizzle-orm';
+
+export async function getUserWorkspaces(input: GetUserWorkspacesInput): Promise<UserWorkspace[]> {
+  try {
+    return await db.select({ ...getTableColumns(workspacesTable), role: workspaceMembersTable.role })
+      .from(workspaceMembersTable)
+      .innerJoin(workspacesTable, eq(workspacesTable.id, workspaceMembersTable.workspace_id))
+      .where(eq(workspaceMembersTable.user_id, input.user_id))
+      .orderBy(asc(workspacesTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Get user workspaces failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { workspaceInvitationsTable } from '../db/schema';
+import { type GetWorkspaceInvitationsInput, type WorkspaceInvitation } from '../schema';
+import { assertWorkspaceRole, toWorkspaceInvitation } from '../helpers/workspaces';
+import { eq, and, gt, desc } from 'drizzle-orm';
+
+// Pending invitations, newest first; expired ones are left out
+export async function getWorkspaceInvitations(input: GetWorkspaceInvitationsInput): Promise<WorkspaceInvitation[]> {
+  try {
+    await assertWorkspaceRole(input.workspace_id, input.user_id, 'owner');
+
+    const invitations = await db.select()
+      .from(workspaceInvitationsTable)
+      .where(and(
+        eq(workspaceInvitationsTable.workspace_id, input.workspace_id),
+        gt(workspaceInvitationsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(workspaceInvitationsTable.created_at))
+      .execute();
+
+    return invitations.map(toWorkspaceInvitation);
+  } catch (error) {
+    console.error('Get workspace invitations failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { workspaceMembersTable, usersTable } from '../db/schema';
+import { type GetWorkspaceMembersInput, type WorkspaceMember } from '../schema';
+import { assertWorkspaceRole } from '../helpers/workspaces';
+import { getTableColumns, eq, asc } from 'drizzle-orm';
+
+// Any member may see who else is in the workspace
+export async function getWorkspaceMembers(input: GetWorkspaceMembersInput): Promise<WorkspaceMember[]> {
+  try {
+    await assertWorkspaceRole(input.workspace_id, input.user_id, 'viewer');
+
+    return await db.select({
+      ...getTableColumns(workspaceMembersTable),
+      username: usersTable.username,
+      email: usersTable.email
+    })
+      .from(workspaceMembersTable)
+      .innerJoin(usersTable, eq(usersTable.id, workspaceMembersTable.user_id))
+      .where(eq(workspaceMembersTable.workspace_id, input.workspace_id))
+      .orderBy(asc(usersTable.username))
+      .execute();
+  } catch (error) {
+    console.error('Get workspace members failed:', error);
+    throw error;
+  }
+}
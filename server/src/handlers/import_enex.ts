@@ -0,0 +1,192 @@
+import { db } from '../db';
+import { notesTable, noteColumns } from '../db/schema';
+import {
+  type Note,
+  type Attachment,
+  type ImportEnexInput,
+  type ImportResult,
+  type ImportFileResult
+} from '../schema';
+import { assertActiveWorkspace } from '../helpers/workspaces';
+import { parseEnex, enmlToMarkdown, type EnexNote, type EnexResource } from '../helpers/enex';
+import {
+  loadImportTarget,
+  insertImportedNote,
+  describeImportError,
+  summarizeImport,
+  getImportMaxBytes
+} from '../helpers/import_target';
+import { linkAddedNotes } from '../helpers/note_links';
+import { getAttachmentStorage, saveAttachment } from '../helpers/attachment_storage';
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+import { createHash } from 'crypto';
+
+// The same links the editor inserts for uploaded files
+const ATTACHMENTS_URL = '/api/attachments';
+
+const attachmentMarkdown = (attachment: Pick<Attachment, 'id' | 'filename' | 'content_type'>): string => {
+  const label = attachment.filename.replace(/[[\]]/g, '');
+  const url = `${ATTACHMENTS_URL}/${attachment.id}`;
+  return attachment.content_type.startsWith('image/') ? `![${label}](${url})` : `[${label}](${url})`;
+};
+
+// Each run gives the files new ids, so they are left out when comparing content
+const ATTACHMENT_ID = new RegExp(`(${ATTACHMENTS_URL}/)[0-9a-f-]*`, 'g');
+
+const contentHash = (content: string): string =>
+  createHash('sha256').update(content.replace(ATTACHMENT_ID, '$1')).digest('hex');
+
+// A note counts as already imported when the notebook's folder holds one with
+// the same title and creation time, so running the same import again creates
+// nothing. Notes without a creation time are stamped with the time of the
+// import, so those are matched on their content instead.
+const noteKey = (folderId: string | null, title: string, created: Date): string =>
+  JSON.stringify([folderId, title, created.getTime()]);
+
+const undatedNoteKey = (folderId: string | null, title: string, content: string): string =>
+  JSON.stringify([folderId, title, contentHash(content)]);
+
+// Files in the order they are stored, once per distinct file
+const noteFiles = (enexNote: EnexNote): { resource: EnexResource; filename: string }[] =>
+  enexNote.resources
+    .map((resource, index) => ({ resource, filename: resource.filename ?? `attachment-${index + 1}` }))
+    .filter(({ resource }, index) => enexNote.resources.findIndex(other => other.hash === resource.hash) === index);
+
+// The note's markdown, given the link for each file by its hash. Files the
+// note text never shows are listed after it.
+const noteContent = (enexNote: EnexNote, links: Map<string, string>): string => {
+  const shown = new Set<string>();
+  const body = enmlToMarkdown(enexNote.content, hash => {
+    shown.add(hash);
+    return links.get(hash) ?? null;
+  });
+  const unshown = [...links].filter(([hash]) => !shown.has(hash)).map(([, link]) => link);
+  return [body, ...unshown].filter(Boolean).join('\n\n');
+};
+
+// Imports one Evernote notebook export. Notes keep their original timestamps,
+// tags are reused by name or created, and embedded files become attachments
+// of the note; each note is reported on separately and one that fails does
+// not stop the rest. A note and its files are stored in one transaction, so
+// one that fails leaves no note or files behind and the next run imports it
+// afresh; tags it needed are created beforehand and may remain.
+export async function importEnex(input: ImportEnexInput, data: Buffer): Promise<ImportResult> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'editor');
+
+    const maxBytes = getImportMaxBytes();
+    if (data.length > maxBytes) {
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `Import exceeds the ${Math.floor(maxBytes / (1024 * 1024))} MB limit`
+      });
+    }
+
+    let enexNotes: EnexNote[];
+    try {
+      enexNotes = parseEnex(data.toString('utf8'));
+    } catch {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'The upload is not an Evernote export' });
+    }
+
+    const target = await loadImportTarget(input);
+    const folderId = await target.ensureFolder([input.notebook]);
+    const existingNotes = new Map(target.notes.flatMap(note => [
+      [noteKey(note.folder_id, note.title, note.created_at), note.id],
+      [undatedNoteKey(note.folder_id, note.title, note.content), note.id]
+    ]));
+
+    const results: ImportFileResult[] = [];
+    const createdNotes: Note[] = [];
+
+    for (const enexNote of enexNotes) {
+      const title = enexNote.title || 'Untitled';
+      const path = `${input.notebook}/${title}`;
+
+      try {
+        const createdAt = enexNote.created ?? new Date();
+        const updatedAt = enexNote.updated ?? createdAt;
+        const files = noteFiles(enexNote);
+
+        // The content as it will be stored, less the ids its files will get
+        const plannedLinks = new Map(files.map(({ resource, filename }) =>
+          [resource.hash, attachmentMarkdown({ id: '', filename, content_type: resource.mime })]));
+        const key = enexNote.created
+          ? noteKey(folderId, title, enexNote.created)
+          : undatedNoteKey(folderId, title, noteContent(enexNote, plannedLinks));
+        const existingId = existingNotes.get(key);
+        if (existingId) {
+          results.push({ path, status: 'skipped', note_id: existingId, message: 'Already imported' });
+          continue;
+        }
+
+        const tagIds: string[] = [];
+        for (const tag of enexNote.tags) {
+          tagIds.push(await target.ensureTag(tag));
+        }
+
+        const storedKeys: string[] = [];
+        const missing: string[] = [];
+        let note: Note;
+        try {
+          note = await db.transaction(async tx => {
+            // Attachments belong to a note, so the content is filled in once they are stored
+            const created = await insertImportedNote(input, {
+              title,
+              content: '',
+              folder_id: folderId,
+              tag_ids: tagIds,
+              created_at: createdAt,
+              updated_at: updatedAt
+            }, tx);
+
+            const links = new Map<string, string>();
+            for (const { resource, filename } of files) {
+              try {
+                // Stored in a savepoint, so a file that can't be stored only leaves out that file
+                const attachment = await saveAttachment(created, { filename, content_type: resource.mime }, resource.data, tx);
+                storedKeys.push(attachment.storage_key);
+                links.set(resource.hash, attachmentMarkdown(attachment));
+              } catch (error) {
+                missing.push(`${filename} (${describeImportError(error)})`);
+              }
+            }
+
+            const content = noteContent(enexNote, links);
+            const updated = await tx.update(notesTable)
+              .set({ content, markdown_content: content })
+              .where(eq(notesTable.id, created.id))
+              .returning(noteColumns)
+              .execute();
+            return updated[0];
+          });
+        } catch (error) {
+          const storage = getAttachmentStorage();
+          for (const storedKey of storedKeys) {
+            await storage.delete(storedKey);
+          }
+          throw error;
+        }
+
+        createdNotes.push(note);
+        existingNotes.set(key, note.id);
+        results.push({
+          path,
+          status: 'created',
+          note_id: note.id,
+          message: missing.length > 0 ? `Attachments not imported: ${missing.join(', ')}` : null
+        });
+      } catch (error) {
+        results.push({ path, status: 'failed', note_id: null, message: describeImportError(error) });
+      }
+    }
+
+    await linkAddedNotes(createdNotes);
+
+    return summarizeImport(results);
+  } catch (error) {
+    console.error('Evernote import failed:', error);
+    throw error;
+  }
+}
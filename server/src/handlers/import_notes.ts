@@ -0,0 +1,154 @@
+import { type Note, type ImportNotesInput, type ImportResult, type ImportFileResult } from '../schema';
+import { assertActiveWorkspace } from '../helpers/workspaces';
+import { readZipEntries, ZipEntryTooLargeError, type ZipEntry } from '../helpers/zip';
+import { parseNoteMarkdown, convertWikilinks } from '../helpers/note_import';
+import {
+  loadImportTarget,
+  insertImportedNote,
+  describeImportError,
+  summarizeImport,
+  getImportMaxBytes
+} from '../helpers/import_target';
+import { linkAddedNotes } from '../helpers/note_links';
+import { TRPCError } from '@trpc/server';
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+
+// Limits on the inflated sizes. The sizes the archive declares are checked
+// before anything is inflated, and the bytes actually inflated as files are
+// read, in case the archive understates them.
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 200 * 1024 * 1024;
+
+const FILE_LIMIT_MESSAGE = `Larger than the ${MAX_FILE_BYTES / (1024 * 1024)} MB limit for a single file`;
+const TOTAL_LIMIT_MESSAGE = `The archive's files add up to more than ${MAX_TOTAL_BYTES / (1024 * 1024)} MB`;
+
+// Directory entries, hidden files such as .obsidian/ and macOS metadata
+const isIgnoredPath = (path: string): boolean =>
+  path.endsWith('/') || path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+
+// A note counts as already imported when its folder holds one with the same
+// title and content, so running the same import again creates nothing
+const noteKey = (folderId: string | null, title: string, content: string): string =>
+  JSON.stringify([folderId, title, content]);
+
+// Imports a ZIP of markdown files, e.g. an Obsidian vault. Directories become
+// folders and front matter tags become tags, reusing the ones that already
+// exist by name; each file is reported on separately and one that fails does
+// not stop the rest.
+export async function importNotes(input: ImportNotesInput, data: Buffer): Promise<ImportResult> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'editor');
+
+    const maxBytes = getImportMaxBytes();
+    if (data.length > maxBytes) {
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `Import exceeds the ${Math.floor(maxBytes / (1024 * 1024))} MB limit`
+      });
+    }
+
+    let entries: ZipEntry[];
+    try {
+      entries = await readZipEntries(data);
+    } catch {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'The upload is not a valid ZIP archive' });
+    }
+
+    const files = entries
+      .filter(entry => !isIgnoredPath(entry.path))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    // Only markdown files are ever read
+    const totalBytes = files
+      .filter(entry => MARKDOWN_FILE.test(entry.path))
+      .reduce((total, entry) => total + entry.size, 0);
+    if (totalBytes > MAX_TOTAL_BYTES) {
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: TOTAL_LIMIT_MESSAGE
+      });
+    }
+
+    const target = await loadImportTarget(input);
+    const existingNotes = new Map(target.notes.map(note => [noteKey(note.folder_id, note.title, note.content), note.id]));
+
+    const results: ImportFileResult[] = [];
+    const createdNotes: Note[] = [];
+    let inflatedBytes = 0;
+
+    for (const entry of files) {
+      const segments = entry.path.split('/').filter(segment => segment && segment !== '.' && segment !== '..');
+      const fileName = segments[segments.length - 1] ?? '';
+
+      if (!MARKDOWN_FILE.test(fileName)) {
+        results.push({ path: entry.path, status: 'skipped', note_id: null, message: 'Not a markdown file' });
+        continue;
+      }
+
+      if (entry.size > MAX_FILE_BYTES) {
+        results.push({ path: entry.path, status: 'failed', note_id: null, message: FILE_LIMIT_MESSAGE });
+        continue;
+      }
+
+      try {
+        // Whatever is left of the total caps a file as well
+        const maxBytes = Math.min(MAX_FILE_BYTES, MAX_TOTAL_BYTES - inflatedBytes);
+        let bytes: Buffer;
+        try {
+          bytes = await entry.read(maxBytes);
+        } catch (error) {
+          if (!(error instanceof ZipEntryTooLargeError)) throw error;
+          inflatedBytes += maxBytes;
+          throw new Error(maxBytes < MAX_FILE_BYTES ? TOTAL_LIMIT_MESSAGE : FILE_LIMIT_MESSAGE);
+        }
+        inflatedBytes += bytes.length;
+
+        let text: string;
+        try {
+          text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        } catch {
+          throw new Error('Not a UTF-8 text file');
+        }
+
+        const parsed = parseNoteMarkdown(text);
+        const title = parsed.title ?? fileName.replace(MARKDOWN_FILE, '');
+        const content = convertWikilinks(parsed.content);
+        const folderId = await target.ensureFolder(segments.slice(0, -1));
+
+        const key = noteKey(folderId, title, content);
+        const existingId = existingNotes.get(key);
+        if (existingId) {
+          results.push({ path: entry.path, status: 'skipped', note_id: existingId, message: 'Already imported' });
+          continue;
+        }
+
+        const tagIds: string[] = [];
+        for (const tagPath of parsed.tags) {
+          tagIds.push(await target.ensureTag(tagPath));
+        }
+
+        const note = await insertImportedNote(input, {
+          title,
+          content,
+          folder_id: folderId,
+          tag_ids: tagIds,
+          is_favorite: parsed.favorite
+        });
+
+        createdNotes.push(note);
+        existingNotes.set(key, note.id);
+        results.push({ path: entry.path, status: 'created', note_id: note.id, message: null });
+      } catch (error) {
+        results.push({ path: entry.path, status: 'failed', note_id: null, message: describeImportError(error) });
+      }
+    }
+
+    await linkAddedNotes(createdNotes);
+
+    return summarizeImport(results);
+  } catch (error) {
+    console.error('Note import failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,59 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { workspaceInvitationsTable, workspaceMembersTable, usersTable } from '../db/schema';
+import { type InviteToWorkspaceInput, type CreatedWorkspaceInvitation } from '../schema';
+import {
+  assertWorkspaceRole,
+  generateInvitationToken,
+  hashInvitationToken,
+  getInvitationTtlMs,
+  toWorkspaceInvitation
+} from '../helpers/workspaces';
+import { eq, and } from 'drizzle-orm';
+
+// Inviting the same email again replaces the earlier invitation and its token
+export async function inviteToWorkspace(input: InviteToWorkspaceInput): Promise<CreatedWorkspaceInvitation> {
+  try {
+    await assertWorkspaceRole(input.workspace_id, input.user_id, 'owner');
+
+    const members = await db.select({ user_id: workspaceMembersTable.user_id })
+      .from(workspaceMembersTable)
+      .innerJoin(usersTable, eq(usersTable.id, workspaceMembersTable.user_id))
+      .where(and(
+        eq(workspaceMembersTable.workspace_id, input.workspace_id),
+        eq(usersTable.email, input.email)
+      ))
+      .execute();
+
+    if (members.length > 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'This user is already a member' });
+    }
+
+    const token = generateInvitationToken();
+    const values = {
+      role: input.role,
+      token_hash: hashInvitationToken(token),
+      invited_by: input.user_id,
+      expires_at: new Date(Date.now() + getInvitationTtlMs())
+    };
+
+    const result = await db.insert(workspaceInvitationsTable)
+      .values({
+        id: crypto.randomUUID(),
+        workspace_id: input.workspace_id,
+        email: input.email,
+        ...values
+      })
+      .onConflictDoUpdate({
+        target: [workspaceInvitationsTable.workspace_id, workspaceInvitationsTable.email],
+        set: { ...values, created_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return { ...toWorkspaceInvitation(result[0]), token };
+  } catch (error) {
+    console.error('Workspace invitation failed:', error);
+    throw error;
+  }
+}
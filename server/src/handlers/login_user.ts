@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type LoginUserInput, type User } from '../schema';
+import { hashPassword, verifyPassword, verifyDummyPassword } from '../helpers/password';
 import { eq } from 'drizzle-orm';
 
 export async function loginUser(input: LoginUserInput): Promise<User> {
@@ -12,26 +13,31 @@ export async function loginUser(input: LoginUserInput): Promise<User> {
       .execute();
 
     if (users.length === 0) {
+      await verifyDummyPassword(input.password);
       throw new Error('Invalid email or password');
     }
 
     const user = users[0];
 
-    // In a real implementation, you would:
-    // 1. Hash the input password with the same algorithm used during registration
-    // 2. Compare the hashed input password with the stored password_hash
-    // 3. Use a library like bcrypt for secure password comparison
-    // 
-    // For this implementation, we'll do a simple comparison
-    // Note: This is NOT secure and should never be used in production
-    if (user.password_hash !== input.password) {
+    const { valid, needsRehash } = await verifyPassword(input.password, user.password_hash);
+    if (!valid) {
       throw new Error('Invalid email or password');
     }
 
-    // Return the user data (excluding sensitive information in production)
+    // Upgrade hashes created with outdated parameters while the plaintext is at hand
+    if (needsRehash) {
+      const result = await db.update(usersTable)
+        .set({ password_hash: await hashPassword(input.password) })
+        .where(eq(usersTable.id, user.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    }
+
     return user;
   } catch (error) {
     console.error('User login failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
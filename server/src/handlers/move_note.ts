@@ -0,0 +1,86 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable } from '../db/schema';
+import { type MoveNoteInput } from '../schema';
+import { assertRecordAccess } from '../helpers/ownership';
+import { noteSortOrder } from '../helpers/note_pagination';
+import { renumberNotePositions } from '../helpers/note_positions';
+import { inSpace } from '../helpers/workspaces';
+import { eq, and, isNull, inArray, sql } from 'drizzle-orm';
+
+// Puts a note where target_id is in the manual order of its space, shifting
+// the notes in between by one. Only positions change, so the notes keep their
+// updated_at and get no revision.
+export async function moveNote(input: MoveNoteInput): Promise<{ success: boolean }> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.id))
+      .execute();
+
+    const note = await assertRecordAccess(notes[0], input.user_id, 'Note');
+
+    if (note.deleted_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot move a note in the trash' });
+    }
+
+    const space = and(
+      inSpace(notesTable, note.user_id, note.workspace_id),
+      isNull(notesTable.deleted_at)
+    )!;
+
+    await db.transaction(async tx => {
+      // Moves in one space apply one after the other, without locking its notes
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtextextended(${note.workspace_id ?? `user:${note.user_id}`}, 0))`);
+
+      // Only the notes from the note to its target, in manual order
+      const loadRange = async () => {
+        const ends = await tx.select({ id: notesTable.id, position: notesTable.position })
+          .from(notesTable)
+          .where(and(space, inArray(notesTable.id, [note.id, input.target_id])))
+          .orderBy(...noteSortOrder('manual', 'asc'))
+          .execute();
+        if (!ends.some(row => row.id === input.target_id)) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Target note not found' });
+        }
+
+        const [first, last] = [ends[0], ends[ends.length - 1]];
+        return tx.select({ id: notesTable.id, position: notesTable.position })
+          .from(notesTable)
+          .where(and(
+            space,
+            sql`(${notesTable.position}, ${notesTable.id}) between (${first.position}, ${first.id}) and (${last.position}, ${last.id})`
+          ))
+          .orderBy(...noteSortOrder('manual', 'asc'))
+          .for('update')
+          .execute();
+      };
+
+      let range = await loadRange();
+
+      // Every note gets its own position on create, so notes only share one
+      // after an explicit position update; the space is numbered once then
+      const distinct = range.every((row, index) => index === 0 || row.position > range[index - 1].position);
+      if (!distinct) {
+        await renumberNotePositions(tx, space);
+        range = await loadRange();
+      }
+
+      const reordered = range[0].id === note.id
+        ? [...range.slice(1), range[0]]
+        : [range[range.length - 1], ...range.slice(0, -1)];
+
+      for (const [index, row] of reordered.entries()) {
+        await tx.update(notesTable)
+          .set({ position: range[index].position })
+          .where(eq(notesTable.id, row.id))
+          .execute();
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Note move failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,38 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { workspaceMembersTable } from '../db/schema';
+import { type RemoveWorkspaceMemberInput } from '../schema';
+import { assertWorkspaceRole, assertNotLastOwner } from '../helpers/workspaces';
+import { deleteMemberShares } from '../helpers/shares';
+import { eq, and } from 'drizzle-orm';
+
+// Owners remove anyone; every member may remove themselves to leave. The
+// shares they made of the workspace's notes and folders go with them
+export async function removeWorkspaceMember(input: RemoveWorkspaceMemberInput): Promise<{ success: boolean }> {
+  try {
+    const leaving = input.member_id === input.user_id;
+    await assertWorkspaceRole(input.workspace_id, input.user_id, leaving ? 'viewer' : 'owner');
+    await assertNotLastOwner(input.workspace_id, input.member_id);
+
+    await db.transaction(async tx => {
+      const result = await tx.delete(workspaceMembersTable)
+        .where(and(
+          eq(workspaceMembersTable.workspace_id, input.workspace_id),
+          eq(workspaceMembersTable.user_id, input.member_id)
+        ))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Member not found' });
+      }
+
+      await deleteMemberShares(input.workspace_id, input.member_id, tx);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Workspace member removal failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,307 @@
+import { db } from '../db';
+import { notesTable, foldersTable, tagsTable, noteTagsTable, noteRevisionsTable, type Note } from '../db/schema';
+import { type Backup, type RestoreBackupInput, type RestoreResult, type RestoreConflict } from '../schema';
+import { inSpace } from '../helpers/workspaces';
+import { syncNoteLinks, linkNotesReferencingTitle } from '../helpers/note_links';
+import { inBatches } from '../helpers/batches';
+import { TRPCError } from '@trpc/server';
+import { randomUUID } from 'crypto';
+import { inArray } from 'drizzle-orm';
+
+// Ids are global, so the backed up ones may already belong to another account
+// (or to this one, when restoring over it)
+async function findTakenIds(
+  ids: string[],
+  lookup: (batch: string[]) => Promise<{ id: string }[]>
+): Promise<Set<string>> {
+  const taken = new Set<string>();
+  for (const batch of inBatches(ids)) {
+    for (const row of await lookup(batch)) {
+      taken.add(row.id);
+    }
+  }
+  return taken;
+}
+
+// Restores a backup into the user's personal space. Records keep their ids
+// where those are free and get new ones otherwise, with every reference
+// rewritten to match. When merging, folders and tags are reused by name and
+// position in the tree, and notes the account already has are skipped if
+// unchanged or restored as a copy if not; each such case is reported as a conflict.
+export async function restoreBackup(input: RestoreBackupInput): Promise<RestoreResult> {
+  try {
+    const { backup } = input;
+
+    const existingFolders = await db.select().from(foldersTable).where(inSpace(foldersTable, input.user_id, null)).execute();
+    const existingTags = await db.select().from(tagsTable).where(inSpace(tagsTable, input.user_id, null)).execute();
+    const existingNotes = await db.select({
+      id: notesTable.id,
+      title: notesTable.title,
+      content: notesTable.content,
+      markdown_content: notesTable.markdown_content
+    })
+      .from(notesTable)
+      .where(inSpace(notesTable, input.user_id, null))
+      .execute();
+
+    if (input.mode === 'empty' && (existingFolders.length > 0 || existingTags.length > 0 || existingNotes.length > 0)) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'The account already has notes, folders or tags; merge the backup into it instead'
+      });
+    }
+
+    const conflicts: RestoreConflict[] = [];
+    let remapped = 0;
+    // Sync finds changed folders and tags by updated_at, so restored ones
+    // count as changed now rather than when they were backed up
+    const restoredAt = new Date();
+
+    const allocateId = (id: string, taken: Set<string>): string => {
+      const restoredId = taken.has(id) ? randomUUID() : id;
+      if (restoredId !== id) {
+        remapped++;
+      }
+      taken.add(restoredId);
+      return restoredId;
+    };
+
+    // Folders - parents are resolved first so children can be matched by parent
+    const takenFolderIds = await findTakenIds(backup.folders.map(folder => folder.id), batch =>
+      db.select({ id: foldersTable.id }).from(foldersTable).where(inArray(foldersTable.id, batch)).execute()
+    );
+    const backupFolders = new Map(backup.folders.map(folder => [folder.id, folder]));
+    const existingFolderIds = new Set(existingFolders.map(folder => folder.id));
+    const folderIds = new Map<string, string>();
+    const folderRows: (typeof foldersTable.$inferInsert)[] = [];
+
+    const restoreFolder = (folder: Backup['folders'][number], visiting: Set<string>): string => {
+      const known = folderIds.get(folder.id);
+      if (known) {
+        return known;
+      }
+
+      // A parent missing from the backup, or a cycle, leaves the folder at the top level
+      visiting.add(folder.id);
+      const parent = folder.parent_folder_id ? backupFolders.get(folder.parent_folder_id) : undefined;
+      const parentId = parent && !visiting.has(parent.id) ? restoreFolder(parent, visiting) : null;
+
+      let restoredId: string;
+      const match = input.mode === 'merge' && !folder.deleted_at
+        ? existingFolders.find(existing =>
+          !existing.deleted_at && existing.name === folder.name && existing.parent_folder_id === parentId)
+        : undefined;
+
+      if (existingFolderIds.has(folder.id)) {
+        restoredId = folder.id;
+      } else if (match) {
+        restoredId = match.id;
+        conflicts.push({
+          entity_type: 'folder',
+          backup_id: folder.id,
+          name: folder.name,
+          restored_id: match.id,
+          message: 'Merged into the existing folder of the same name'
+        });
+      } else {
+        restoredId = allocateId(folder.id, takenFolderIds);
+        folderRows.push({
+          ...folder,
+          id: restoredId,
+          parent_folder_id: parentId,
+          user_id: input.user_id,
+          workspace_id: null,
+          updated_at: restoredAt
+        });
+      }
+
+      folderIds.set(folder.id, restoredId);
+      return restoredId;
+    };
+
+    for (const folder of backup.folders) {
+      restoreFolder(folder, new Set());
+    }
+
+    // Tags - matched the same way as folders
+    const takenTagIds = await findTakenIds(backup.tags.map(tag => tag.id), batch =>
+      db.select({ id: tagsTable.id }).from(tagsTable).where(inArray(tagsTable.id, batch)).execute()
+    );
+    const backupTags = new Map(backup.tags.map(tag => [tag.id, tag]));
+    const existingTagIds = new Set(existingTags.map(tag => tag.id));
+    const tagIds = new Map<string, string>();
+    const tagRows: (typeof tagsTable.$inferInsert)[] = [];
+
+    const restoreTag = (tag: Backup['tags'][number], visiting: Set<string>): string => {
+      const known = tagIds.get(tag.id);
+      if (known) {
+        return known;
+      }
+
+      visiting.add(tag.id);
+      const parent = tag.parent_tag_id ? backupTags.get(tag.parent_tag_id) : undefined;
+      const parentId = parent && !visiting.has(parent.id) ? restoreTag(parent, visiting) : null;
+
+      let restoredId: string;
+      const match = input.mode === 'merge'
+        ? existingTags.find(existing => existing.name === tag.name && existing.parent_tag_id === parentId)
+        : undefined;
+
+      if (existingTagIds.has(tag.id)) {
+        restoredId = tag.id;
+      } else if (match) {
+        restoredId = match.id;
+        conflicts.push({
+          entity_type: 'tag',
+          backup_id: tag.id,
+          name: tag.name,
+          restored_id: match.id,
+          message: 'Merged into the existing tag of the same name'
+        });
+      } else {
+        restoredId = allocateId(tag.id, takenTagIds);
+        tagRows.push({
+          ...tag,
+          id: restoredId,
+          parent_tag_id: parentId,
+          user_id: input.user_id,
+          workspace_id: null,
+          updated_at: restoredAt
+        });
+      }
+
+      tagIds.set(tag.id, restoredId);
+      return restoredId;
+    };
+
+    for (const tag of backup.tags) {
+      restoreTag(tag, new Set());
+    }
+
+    // Notes - only the ones restored here get the backup's tags and revisions
+    const takenNoteIds = await findTakenIds(backup.notes.map(note => note.id), batch =>
+      db.select({ id: notesTable.id }).from(notesTable).where(inArray(notesTable.id, batch)).execute()
+    );
+    const accountNotes = new Map(existingNotes.map(note => [note.id, note]));
+    const noteIds = new Map<string, string>();
+    const noteRows: (typeof notesTable.$inferInsert)[] = [];
+    let skipped = 0;
+
+    // Restored notes get new positions, in the backup's manual order and below
+    // the account's own notes, since the backup's positions can clash with theirs
+    const orderedNotes = [...backup.notes].sort((a, b) => a.position - b.position || a.id.localeCompare(b.id));
+    for (const { position: _position, ...note } of orderedNotes) {
+      const current = accountNotes.get(note.id);
+      if (current && current.title === note.title && current.content === note.content &&
+        current.markdown_content === note.markdown_content) {
+        skipped++;
+        continue;
+      }
+
+      const restoredId = allocateId(note.id, takenNoteIds);
+      if (current) {
+        conflicts.push({
+          entity_type: 'note',
+          backup_id: note.id,
+          name: note.title,
+          restored_id: restoredId,
+          message: 'The account has a different version of this note, so it was restored as a copy'
+        });
+      }
+
+      noteIds.set(note.id, restoredId);
+      noteRows.push({
+        ...note,
+        id: restoredId,
+        folder_id: note.folder_id ? folderIds.get(note.folder_id) ?? null : null,
+        user_id: input.user_id,
+        workspace_id: null
+      });
+    }
+
+    const noteTagRows: (typeof noteTagsTable.$inferInsert)[] = [];
+    for (const noteTag of backup.note_tags) {
+      const noteId = noteIds.get(noteTag.note_id);
+      if (!noteId && accountNotes.has(noteTag.note_id)) {
+        continue;
+      }
+
+      const tagId = tagIds.get(noteTag.tag_id);
+      if (!noteId || !tagId) {
+        conflicts.push({
+          entity_type: 'note_tag',
+          backup_id: `${noteTag.note_id}:${noteTag.tag_id}`,
+          name: backupTags.get(noteTag.tag_id)?.name ?? noteTag.tag_id,
+          restored_id: null,
+          message: noteId ? 'Refers to a tag missing from the backup' : 'Refers to a note missing from the backup'
+        });
+        continue;
+      }
+
+      noteTagRows.push({ ...noteTag, note_id: noteId, tag_id: tagId });
+    }
+
+    const takenRevisionIds = await findTakenIds(backup.revisions.map(revision => revision.id), batch =>
+      db.select({ id: noteRevisionsTable.id }).from(noteRevisionsTable).where(inArray(noteRevisionsTable.id, batch)).execute()
+    );
+    const revisionRows: (typeof noteRevisionsTable.$inferInsert)[] = [];
+    for (const revision of backup.revisions) {
+      const noteId = noteIds.get(revision.note_id);
+      if (!noteId) {
+        if (!accountNotes.has(revision.note_id)) {
+          conflicts.push({
+            entity_type: 'revision',
+            backup_id: revision.id,
+            name: revision.title,
+            restored_id: null,
+            message: 'Refers to a note missing from the backup'
+          });
+        }
+        continue;
+      }
+
+      revisionRows.push({ ...revision, id: allocateId(revision.id, takenRevisionIds), note_id: noteId });
+    }
+
+    // All or nothing, so a failed restore can simply be run again
+    await db.transaction(async tx => {
+      for (const batch of inBatches(folderRows)) {
+        await tx.insert(foldersTable).values(batch).execute();
+      }
+      for (const batch of inBatches(tagRows)) {
+        await tx.insert(tagsTable).values(batch).execute();
+      }
+      const restoredNotes: Note[] = [];
+      for (const batch of inBatches(noteRows)) {
+        restoredNotes.push(...await tx.insert(notesTable).values(batch).returning().execute());
+      }
+      for (const batch of inBatches(noteTagRows)) {
+        await tx.insert(noteTagsTable).values(batch).onConflictDoNothing().execute();
+      }
+      for (const batch of inBatches(revisionRows)) {
+        await tx.insert(noteRevisionsTable).values(batch).execute();
+      }
+
+      // Links are derived from the note text, so they are rebuilt rather than backed up
+      for (const note of restoredNotes) {
+        if (!note.deleted_at) {
+          await syncNoteLinks(note, tx);
+          await linkNotesReferencingTitle(note, tx);
+        }
+      }
+    });
+
+    return {
+      folders: folderRows.length,
+      tags: tagRows.length,
+      notes: noteRows.length,
+      revisions: revisionRows.length,
+      skipped,
+      remapped,
+      conflicts
+    };
+  } catch (error) {
+    console.error('Backup restore failed:', error);
+    throw error;
+  }
+}
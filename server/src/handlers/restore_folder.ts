@@ -0,0 +1,64 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { foldersTable, notesTable } from '../db/schema';
+import { type RestoreFolderInput, type Folder } from '../schema';
+import { assertRecordAccess } from '../helpers/ownership';
+import { inSpace } from '../helpers/workspaces';
+import { collectFolderSubtree } from '../helpers/folder_tree';
+import { eq, and, inArray } from 'drizzle-orm';
+
+export const restoreFolder = async (input: RestoreFolderInput): Promise<Folder> => {
+  try {
+    const existingFolders = await db.select()
+      .from(foldersTable)
+      .where(eq(foldersTable.id, input.id))
+      .execute();
+
+    const folder = await assertRecordAccess(existingFolders[0], input.user_id, 'Folder');
+
+    if (!folder.deleted_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Folder is not in the trash' });
+    }
+
+    const deletedAt = folder.deleted_at;
+
+    const spaceFolders = await db.select()
+      .from(foldersTable)
+      .where(inSpace(foldersTable, folder.user_id, folder.workspace_id))
+      .execute();
+
+    // Bring back the subfolders that were trashed together with this folder
+    const folderIds = collectFolderSubtree(spaceFolders, input.id)
+      .filter(f => f.deleted_at?.getTime() === deletedAt.getTime())
+      .map(f => f.id);
+
+    // A folder whose parent is still in the trash comes back at the top level
+    const parent = spaceFolders.find(f => f.id === folder.parent_folder_id);
+    const parentFolderId = parent && !parent.deleted_at ? parent.id : null;
+    const now = new Date();
+
+    await db.update(notesTable)
+      .set({ deleted_at: null, updated_at: now })
+      .where(and(
+        inArray(notesTable.folder_id, folderIds),
+        eq(notesTable.deleted_at, deletedAt)
+      ))
+      .execute();
+
+    await db.update(foldersTable)
+      .set({ deleted_at: null, updated_at: now })
+      .where(inArray(foldersTable.id, folderIds))
+      .execute();
+
+    const result = await db.update(foldersTable)
+      .set({ parent_folder_id: parentFolderId, updated_at: now })
+      .where(eq(foldersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Folder restore failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,45 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable, foldersTable, noteColumns } from '../db/schema';
+import { type RestoreNoteInput, type Note } from '../schema';
+import { assertRecordAccess } from '../helpers/ownership';
+import { eq } from 'drizzle-orm';
+
+export async function restoreNote(input: RestoreNoteInput): Promise<Note> {
+  try {
+    const existingNote = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.id))
+      .execute();
+
+    const note = await assertRecordAccess(existingNote[0], input.user_id, 'Note');
+
+    if (!note.deleted_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Note is not in the trash' });
+    }
+
+    // A note whose folder is still in the trash comes back at the top level
+    let folderId = note.folder_id;
+    if (folderId) {
+      const folders = await db.select({ deleted_at: foldersTable.deleted_at })
+        .from(foldersTable)
+        .where(eq(foldersTable.id, folderId))
+        .execute();
+
+      if (folders.length === 0 || folders[0].deleted_at) {
+        folderId = null;
+      }
+    }
+
+    const result = await db.update(notesTable)
+      .set({ deleted_at: null, folder_id: folderId, updated_at: new Date() })
+      .where(eq(notesTable.id, input.id))
+      .returning(noteColumns)
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Note restore failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable, noteRevisionsTable, noteColumns } from '../db/schema';
+import { type RestoreNoteRevisionInput, type Note } from '../schema';
+import { assertNoteAccess } from '../helpers/note_access';
+import { recordNoteRevision } from '../helpers/note_revisions';
+import { refreshNoteLinks } from '../helpers/note_links';
+import { eq, and } from 'drizzle-orm';
+
+export async function restoreNoteRevision(input: RestoreNoteRevisionInput): Promise<Note> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    const note = await assertNoteAccess(notes[0], input.user_id, 'edit');
+
+    const revisions = await db.select()
+      .from(noteRevisionsTable)
+      .where(and(
+        eq(noteRevisionsTable.id, input.revision_id),
+        eq(noteRevisionsTable.note_id, input.note_id)
+      ))
+      .execute();
+
+    if (revisions.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Revision not found' });
+    }
+
+    const revision = revisions[0];
+
+    // Always snapshot the current text so the restore itself can be undone
+    await recordNoteRevision(note, { force: true });
+
+    const result = await db.update(notesTable)
+      .set({
+        title: revision.title,
+        content: revision.content,
+        markdown_content: revision.markdown_content,
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(notesTable.id, input.note_id),
+        eq(notesTable.user_id, note.user_id)
+      ))
+      .returning(noteColumns)
+      .execute();
+
+    await refreshNoteLinks(note, result[0]);
+
+    return result[0];
+  } catch (error) {
+    console.error('Note revision restore failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { notesTable, publicLinksTable } from '../db/schema';
+import { type RevokePublicLinkInput } from '../schema';
+import { TRPCError } from '@trpc/server';
+import { assertRecordAccess } from '../helpers/ownership';
+import { eq } from 'drizzle-orm';
+
+export async function revokePublicLink(input: RevokePublicLinkInput): Promise<{ success: boolean }> {
+  try {
+    const links = await db.select({ note: notesTable })
+      .from(publicLinksTable)
+      .innerJoin(notesTable, eq(notesTable.id, publicLinksTable.note_id))
+      .where(eq(publicLinksTable.id, input.id))
+      .execute();
+
+    if (links.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Public link not found' });
+    }
+
+    // Whoever may publish the note may also take its links down
+    await assertRecordAccess(links[0].note, input.user_id, 'Public link');
+
+    await db.delete(publicLinksTable)
+      .where(eq(publicLinksTable.id, input.id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Public link revocation failed:', error);
+    throw error;
+  }
+}
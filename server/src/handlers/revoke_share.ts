@@ -0,0 +1,42 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { sharesTable } from '../db/schema';
+import { type RevokeShareInput } from '../schema';
+import { getSharedItemWorkspace } from '../helpers/shares';
+import { getWorkspaceRole, hasWorkspaceRole } from '../helpers/workspaces';
+import { eq } from 'drizzle-orm';
+
+// The owner can take a share back; the grantee can remove it to leave. Shares
+// of workspace items can also be taken back by the workspace's owners and
+// editors, who have the same access to the item as the member who shared it
+export async function revokeShare(input: RevokeShareInput): Promise<{ success: boolean }> {
+  try {
+    const shares = await db.select()
+      .from(sharesTable)
+      .where(eq(sharesTable.id, input.id))
+      .execute();
+
+    if (shares.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Share not found' });
+    }
+
+    const share = shares[0];
+    if (share.owner_id !== input.user_id && share.grantee_id !== input.user_id) {
+      const workspaceId = await getSharedItemWorkspace(share);
+      const role = workspaceId ? await getWorkspaceRole(workspaceId, input.user_id) : null;
+
+      if (!role || !hasWorkspaceRole(role, 'editor')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Share does not belong to user' });
+      }
+    }
+
+    await db.delete(sharesTable)
+      .where(eq(sharesTable.id, input.id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Share revocation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { workspaceInvitationsTable } from '../db/schema';
+import { type RevokeWorkspaceInvitationInput } from '../schema';
+import { assertWorkspaceRole } from '../helpers/workspaces';
+import { eq } from 'drizzle-orm';
+
+export async function revokeWorkspaceInvitation(input: RevokeWorkspaceInvitationInput): Promise<{ success: boolean }> {
+  try {
+    const invitations = await db.select()
+      .from(workspaceInvitationsTable)
+      .where(eq(workspaceInvitationsTable.id, input.id))
+      .execute();
+
+    if (invitations.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Invitation not found' });
+    }
+
+    await assertWorkspaceRole(invitations[0].workspace_id, input.user_id, 'owner');
+
+    await db.delete(workspaceInvitationsTable)
+      .where(eq(workspaceInvitationsTable.id, input.id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Workspace invitation revocation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { notesTable, noteColumns } from '../db/schema';
+import { type SearchNotesInput, type SearchNoteResult } from '../schema';
+import {
+  noteSearchRank,
+  noteTitleHeadline,
+  noteSnippetHeadline,
+  parseHeadline
+} from '../helpers/note_search';
+import { compileNoteSearch } from '../helpers/note_filters';
+import { assertActiveWorkspace, inSpace } from '../helpers/workspaces';
+import { eq, and, isNull, desc, type SQL } from 'drizzle-orm';
+
+const DEFAULT_SEARCH_LIMIT = 50;
+
+export async function searchNotes(input: SearchNotesInput): Promise<SearchNoteResult[]> {
+  try {
+    await assertActiveWorkspace(input.workspace_id, input.user_id, 'viewer');
+
+    // Field operators only filter; ranking and highlights follow the words searched for
+    const search = await compileNoteSearch(input.query, input.user_id, input.workspace_id);
+    const query = search.rankQuery;
+    const rank = noteSearchRank(query);
+
+    const conditions: SQL<unknown>[] = [
+      inSpace(notesTable, input.user_id, input.workspace_id),
+      isNull(notesTable.deleted_at),
+      search.condition
+    ];
+
+    // Filter by folder if specified
+    if (input.folder_id !== undefined) {
+      conditions.push(input.folder_id === null ? isNull(notesTable.folder_id) : eq(notesTable.folder_id, input.folder_id));
+    }
+
+    const results = await db.select({
+      ...noteColumns,
+      rank,
+      title_headline: noteTitleHeadline(query),
+      snippet_headline: noteSnippetHeadline(query)
+    })
+      .from(notesTable)
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(notesTable.updated_at))
+      .limit(input.limit ?? DEFAULT_SEARCH_LIMIT)
+      .execute();
+
+    return results.map(({ title_headline, snippet_headline, ...note }) => ({
+      ...note,
+      title_highlights: parseHeadline(title_headline),
+      snippet: parseHeadline(snippet_headline)
+    }));
+  } catch (error) {
+    console.error('Note search failed:', error);
+    throw error;
+  }
+}
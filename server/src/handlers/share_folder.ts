@@ -0,0 +1,31 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { foldersTable } from '../db/schema';
+import { type ShareFolderInput, type Share } from '../schema';
+import { assertRecordAccess } from '../helpers/ownership';
+import { findGrantee, saveShare } from '../helpers/shares';
+import { eq } from 'drizzle-orm';
+
+// Grants access to the folder's notes and to everything in its subfolders,
+// including notes added later
+export async function shareFolder(input: ShareFolderInput): Promise<Share> {
+  try {
+    const folders = await db.select()
+      .from(foldersTable)
+      .where(eq(foldersTable.id, input.folder_id))
+      .execute();
+
+    const folder = await assertRecordAccess(folders[0], input.user_id, 'Folder');
+
+    if (folder.deleted_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot share a folder in the trash' });
+    }
+
+    const grantee = await findGrantee(input.email, input.user_id);
+
+    return await saveShare(input.user_id, grantee, { folder_id: folder.id }, input.permission);
+  } catch (error) {
+    console.error('Folder sharing failed:', error);
+    throw error;
+  }
+}
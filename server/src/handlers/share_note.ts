@@ -0,0 +1,29 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable } from '../db/schema';
+import { type ShareNoteInput, type Share } from '../schema';
+import { assertRecordAccess } from '../helpers/ownership';
+import { findGrantee, saveShare } from '../helpers/shares';
+import { eq } from 'drizzle-orm';
+
+export async function shareNote(input: ShareNoteInput): Promise<Share> {
+  try {
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, input.note_id))
+      .execute();
+
+    const note = await assertRecordAccess(notes[0], input.user_id, 'Note');
+
+    if (note.deleted_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot share a note in the trash' });
+    }
+
+    const grantee = await findGrantee(input.email, input.user_id);
+
+    return await saveShare(input.user_id, grantee, { note_id: note.id }, input.permission);
+  } catch (error) {
+    console.error('Note sharing failed:', error);
+    throw error;
+  }
+}
@@ -1,24 +1,34 @@
+import { TRPCError } from '@trpc/server';
 import { db } from '../db';
 import { foldersTable } from '../db/schema';
 import { type UpdateFolderInput, type Folder } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assertRecordAccess, assertSameSpace } from '../helpers/ownership';
+import { eq } from 'drizzle-orm';
 
 export const updateFolder = async (input: UpdateFolderInput): Promise<Folder> => {
   try {
-    // First, get the current folder to validate ownership and get user_id
+    // First, get the current folder to validate ownership
     const existingFolders = await db.select()
       .from(foldersTable)
       .where(eq(foldersTable.id, input.id))
       .execute();
 
-    if (existingFolders.length === 0) {
-      throw new Error('Folder not found');
-    }
-
-    const currentFolder = existingFolders[0];
+    const folder = await assertRecordAccess(existingFolders[0], input.user_id, 'Folder');
 
-    // Check for circular reference if parent_folder_id is being updated
+    // Check the new parent is in the same space and doesn't create a cycle
     if (input.parent_folder_id !== undefined && input.parent_folder_id !== null) {
+      const parentFolders = await db.select()
+        .from(foldersTable)
+        .where(eq(foldersTable.id, input.parent_folder_id))
+        .execute();
+
+      const parent = await assertRecordAccess(parentFolders[0], input.user_id, 'Parent folder');
+      assertSameSpace(parent, folder.workspace_id, 'Parent folder');
+      // Nothing would hold the folder once the trash is emptied
+      if (parent.deleted_at) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Parent folder is in the trash' });
+      }
+
       await validateNoCircularReference(input.id, input.parent_folder_id);
     }
 
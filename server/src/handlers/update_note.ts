@@ -1,56 +1,60 @@
 import { db } from '../db';
-import { notesTable, noteTagsTable, foldersTable, tagsTable } from '../db/schema';
+import { notesTable, noteTagsTable, foldersTable, noteColumns } from '../db/schema';
 import { type UpdateNoteInput, type Note } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { assertRecordAccess, assertSameSpace, assertTagsOwnership } from '../helpers/ownership';
+import { assertNoteAccess, getNoteAccess } from '../helpers/note_access';
+import { recordNoteRevision } from '../helpers/note_revisions';
+import { refreshNoteLinks } from '../helpers/note_links';
+import { noteConflict } from '../helpers/note_conflict';
+import { eq, and, sql } from 'drizzle-orm';
 
 export const updateNote = async (input: UpdateNoteInput): Promise<Note> => {
   try {
-    // First, verify the note exists and get the user_id for ownership validation
+    // First, verify the note exists and the caller may edit it
     const existingNote = await db.select()
       .from(notesTable)
       .where(eq(notesTable.id, input.id))
       .execute();
 
-    if (existingNote.length === 0) {
-      throw new Error('Note not found');
+    const note = await assertNoteAccess(existingNote[0], input.user_id, 'edit');
+
+    // Trashed notes only come back through restoreNote
+    if (note.deleted_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot edit a note in the trash' });
+    }
+
+    // Folder, tags, the favorite flag and manual order belong to the owner's
+    // organization of their notes, or to the workspace's editors
+    const organizes = input.folder_id !== undefined || input.tag_ids !== undefined ||
+      input.is_favorite !== undefined || input.position !== undefined;
+    if (organizes && await getNoteAccess(note, input.user_id) !== 'owner') {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the owner can move, tag or favorite this note' });
+    }
+
+    if (input.expected_updated_at && input.expected_updated_at.getTime() !== note.updated_at.getTime()) {
+      const { search_vector: _searchVector, ...currentNote } = note;
+      throw noteConflict(currentNote);
     }
 
-    const note = existingNote[0];
-    
-    // Validate folder ownership if folder_id is being updated
+    // Validate the folder is in the note's space if folder_id is being updated
     if (input.folder_id !== undefined && input.folder_id !== null) {
       const folder = await db.select()
         .from(foldersTable)
-        .where(
-          and(
-            eq(foldersTable.id, input.folder_id),
-            eq(foldersTable.user_id, note.user_id)
-          )
-        )
+        .where(eq(foldersTable.id, input.folder_id))
         .execute();
 
-      if (folder.length === 0) {
-        throw new Error('Folder not found or does not belong to user');
+      const target = await assertRecordAccess(folder[0], input.user_id, 'Folder');
+      assertSameSpace(target, note.workspace_id, 'Folder');
+      // Nothing would hold the note once the trash is emptied
+      if (target.deleted_at) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Folder is in the trash' });
       }
     }
 
     // Validate tag ownership if tag_ids are provided
     if (input.tag_ids && input.tag_ids.length > 0) {
-      const tags = await db.select()
-        .from(tagsTable)
-        .where(
-          and(
-            eq(tagsTable.user_id, note.user_id)
-          )
-        )
-        .execute();
-
-      const userTagIds = new Set(tags.map(tag => tag.id));
-      const invalidTags = input.tag_ids.filter(tagId => !userTagIds.has(tagId));
-      
-      if (invalidTags.length > 0) {
-        throw new Error('One or more tags do not belong to user');
-      }
+      await assertTagsOwnership(input.tag_ids, input.user_id, note.workspace_id);
     }
 
     // Build update object with only provided fields
@@ -73,14 +77,45 @@ export const updateNote = async (input: UpdateNoteInput): Promise<Note> => {
     if (input.is_favorite !== undefined) {
       updateData.is_favorite = input.is_favorite;
     }
+    if (input.position !== undefined) {
+      updateData.position = input.position;
+    }
 
-    // Update the note
+    // Update the note. The version is checked again in the same statement, so
+    // of two saves based on the same version only the first gets through.
     const updatedNotes = await db.update(notesTable)
       .set(updateData)
-      .where(eq(notesTable.id, input.id))
-      .returning()
+      .where(and(
+        eq(notesTable.id, input.id),
+        eq(notesTable.user_id, note.user_id),
+        input.expected_updated_at
+          ? sql`date_trunc('milliseconds', ${notesTable.updated_at}) = ${input.expected_updated_at.toISOString()}::timestamp`
+          : undefined
+      ))
+      .returning(noteColumns)
       .execute();
 
+    if (updatedNotes.length === 0) {
+      const currentNotes = await db.select(noteColumns)
+        .from(notesTable)
+        .where(eq(notesTable.id, input.id))
+        .execute();
+
+      if (currentNotes.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Note not found' });
+      }
+      throw noteConflict(currentNotes[0]);
+    }
+
+    // Keep the previous text in the revision history now that it's overwritten
+    const textChanged = (input.title !== undefined && input.title !== note.title) ||
+      (input.content !== undefined && input.content !== note.content) ||
+      (input.markdown_content !== undefined && input.markdown_content !== note.markdown_content);
+
+    if (textChanged) {
+      await recordNoteRevision(note);
+    }
+
     // Handle tag relationships if tag_ids are provided
     if (input.tag_ids !== undefined) {
       // Remove all existing tag relationships
@@ -101,6 +136,11 @@ export const updateNote = async (input: UpdateNoteInput): Promise<Note> => {
       }
     }
 
+    // Keep [[Title]] links in step with the new title and text
+    if (textChanged) {
+      await refreshNoteLinks(note, updatedNotes[0]);
+    }
+
     return updatedNotes[0];
   } catch (error) {
     console.error('Note update failed:', error);
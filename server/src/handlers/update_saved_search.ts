@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { savedSearchesTable } from '../db/schema';
+import { type UpdateSavedSearchInput, type SavedSearch } from '../schema';
+import { assertOwnership } from '../helpers/ownership';
+import { clearDefaultSavedSearch } from '../helpers/saved_searches';
+import { parseNoteSearch } from '../helpers/note_filters';
+import { eq } from 'drizzle-orm';
+
+export async function updateSavedSearch(input: UpdateSavedSearchInput): Promise<SavedSearch> {
+  try {
+    const existing = await db.select()
+      .from(savedSearchesTable)
+      .where(eq(savedSearchesTable.id, input.id))
+      .execute();
+
+    const search = assertOwnership(existing[0], input.user_id, 'Saved search');
+
+    // Checked now so a bad query can't break the saved search list later
+    if (input.query?.search) {
+      parseNoteSearch(input.query?.search);
+    }
+
+    if (input.is_default) {
+      await clearDefaultSavedSearch(search.user_id, search.workspace_id);
+    }
+
+    const updateData: Partial<typeof savedSearchesTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+
+    if (input.query !== undefined) {
+      updateData.query = input.query;
+    }
+
+    if (input.is_default !== undefined) {
+      updateData.is_default = input.is_default;
+    }
+
+    const result = await db.update(savedSearchesTable)
+      .set(updateData)
+      .where(eq(savedSearchesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Saved search update failed:', error);
+    throw error;
+  }
+}
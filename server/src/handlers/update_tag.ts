@@ -1,7 +1,11 @@
 import { db } from '../db';
 import { tagsTable } from '../db/schema';
 import { type UpdateTagInput, type Tag } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { assertRecordAccess, assertSameSpace } from '../helpers/ownership';
+import { inSpace } from '../helpers/workspaces';
+import { collectTagSubtree } from '../helpers/tag_tree';
+import { eq, and, isNull } from 'drizzle-orm';
 
 export const updateTag = async (input: UpdateTagInput): Promise<Tag> => {
   try {
@@ -11,20 +15,39 @@ export const updateTag = async (input: UpdateTagInput): Promise<Tag> => {
       .where(eq(tagsTable.id, input.id))
       .execute();
 
-    if (existingTags.length === 0) {
-      throw new Error('Tag not found');
-    }
+    const existingTag = await assertRecordAccess(existingTags[0], input.user_id, 'Tag');
+
+    // Check the new parent is in the same space and not nested below the tag
+    if (input.parent_tag_id) {
+      const spaceTags = await db.select()
+        .from(tagsTable)
+        .where(inSpace(tagsTable, existingTag.user_id, existingTag.workspace_id))
+        .execute();
+
+      const parentTags = await db.select()
+        .from(tagsTable)
+        .where(eq(tagsTable.id, input.parent_tag_id))
+        .execute();
+
+      const parent = await assertRecordAccess(parentTags[0], input.user_id, 'Parent tag');
+      assertSameSpace(parent, existingTag.workspace_id, 'Parent tag');
 
-    const existingTag = existingTags[0];
+      if (collectTagSubtree(spaceTags, existingTag.id).some(tag => tag.id === parent.id)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot nest a tag inside itself' });
+      }
+    }
 
-    // If name is being updated, check for uniqueness within user's tags
-    if (input.name && input.name !== existingTag.name) {
+    // If the name or parent is being updated, check for uniqueness among the new siblings
+    const name = input.name ?? existingTag.name;
+    const parentTagId = input.parent_tag_id !== undefined ? input.parent_tag_id : existingTag.parent_tag_id;
+    if (name !== existingTag.name || parentTagId !== existingTag.parent_tag_id) {
       const duplicateTags = await db.select()
         .from(tagsTable)
         .where(
           and(
-            eq(tagsTable.user_id, existingTag.user_id),
-            eq(tagsTable.name, input.name)
+            inSpace(tagsTable, existingTag.user_id, existingTag.workspace_id),
+            parentTagId ? eq(tagsTable.parent_tag_id, parentTagId) : isNull(tagsTable.parent_tag_id),
+            eq(tagsTable.name, name)
           )
         )
         .execute();
@@ -47,6 +70,10 @@ export const updateTag = async (input: UpdateTagInput): Promise<Tag> => {
       updateValues.color = input.color;
     }
 
+    if (input.parent_tag_id !== undefined) {
+      updateValues.parent_tag_id = input.parent_tag_id;
+    }
+
     // Update the tag
     const result = await db.update(tagsTable)
       .set(updateValues)
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { workspacesTable } from '../db/schema';
+import { type UpdateWorkspaceInput, type UserWorkspace } from '../schema';
+import { assertWorkspaceRole } from '../helpers/workspaces';
+import { eq } from 'drizzle-orm';
+
+export async function updateWorkspace(input: UpdateWorkspaceInput): Promise<UserWorkspace> {
+  try {
+    const role = await assertWorkspaceRole(input.id, input.user_id, 'owner');
+
+    const result = await db.update(workspacesTable)
+      .set({
+        name: input.name,
+        updated_at: new Date()
+      })
+      .where(eq(workspacesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return { ...result[0], role };
+  } catch (error) {
+    console.error('Workspace update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,39 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { workspaceMembersTable, usersTable } from '../db/schema';
+import { type UpdateWorkspaceMemberInput, type WorkspaceMember } from '../schema';
+import { assertWorkspaceRole, assertNotLastOwner } from '../helpers/workspaces';
+import { eq, and } from 'drizzle-orm';
+
+export async function updateWorkspaceMember(input: UpdateWorkspaceMemberInput): Promise<WorkspaceMember> {
+  try {
+    await assertWorkspaceRole(input.workspace_id, input.user_id, 'owner');
+
+    if (input.role !== 'owner') {
+      await assertNotLastOwner(input.workspace_id, input.member_id);
+    }
+
+    const result = await db.update(workspaceMembersTable)
+      .set({ role: input.role })
+      .where(and(
+        eq(workspaceMembersTable.workspace_id, input.workspace_id),
+        eq(workspaceMembersTable.user_id, input.member_id)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Member not found' });
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.member_id))
+      .execute();
+
+    return { ...result[0], username: users[0].username, email: users[0].email };
+  } catch (error) {
+    console.error('Workspace member update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+import { db } from '../db';
+import { notesTable, publicLinksTable } from '../db/schema';
+import { type Note } from '../schema';
+import { verifyPassword } from '../helpers/password';
+import { hashPublicLinkToken, isPublicLinkExpired } from '../helpers/public_links';
+import { eq, and, or, isNull, lte, sql } from 'drizzle-orm';
+
+// A link takes this many wrong passwords in a row, then refuses every
+// password for a while. Each check runs PBKDF2, so this also caps the work
+// one link can be made to do.
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_LOCK_MS = 15 * 60 * 1000;
+
+export type PublicLinkView =
+  | { status: 'ok'; note: Pick<Note, 'title' | 'content' | 'updated_at'> }
+  // Shown again with an error after a wrong password
+  | { status: 'password_required'; invalid_password: boolean }
+  | { status: 'locked' };
+
+// Opens a note through its public link for anyone holding the token. Unknown,
+// revoked and expired tokens and trashed notes all give null, so a visitor
+// can't tell them apart. Each time the note is shown counts as a view.
+export async function viewPublicLink(token: string, password?: string): Promise<PublicLinkView | null> {
+  try {
+    const results = await db.select({ link: publicLinksTable, note: notesTable })
+      .from(publicLinksTable)
+      .innerJoin(notesTable, eq(notesTable.id, publicLinksTable.note_id))
+      .where(eq(publicLinksTable.token_hash, hashPublicLinkToken(token)))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { link, note } = results[0];
+    if (isPublicLinkExpired(link) || note.deleted_at) {
+      return null;
+    }
+
+    if (link.password_hash) {
+      const now = new Date();
+      if (link.locked_until && link.locked_until > now) {
+        return { status: 'locked' };
+      }
+
+      if (password === undefined) {
+        return { status: 'password_required', invalid_password: false };
+      }
+
+      // The attempt is counted before the password is checked, so a burst of
+      // parallel guesses can't get past the limit either
+      const claimed = await db.update(publicLinksTable)
+        .set({ failed_attempts: sql`${publicLinksTable.failed_attempts} + 1` })
+        .where(and(
+          eq(publicLinksTable.id, link.id),
+          or(isNull(publicLinksTable.locked_until), lte(publicLinksTable.locked_until, now))
+        ))
+        .returning({ failed_attempts: publicLinksTable.failed_attempts })
+        .execute();
+
+      if (claimed.length === 0 || claimed[0].failed_attempts > MAX_PASSWORD_ATTEMPTS) {
+        return { status: 'locked' };
+      }
+
+      const { valid } = await verifyPassword(password, link.password_hash);
+      if (!valid) {
+        if (claimed[0].failed_attempts < MAX_PASSWORD_ATTEMPTS) {
+          return { status: 'password_required', invalid_password: true };
+        }
+
+        await db.update(publicLinksTable)
+          .set({ failed_attempts: 0, locked_until: new Date(Date.now() + PASSWORD_LOCK_MS) })
+          .where(eq(publicLinksTable.id, link.id))
+          .execute();
+        return { status: 'locked' };
+      }
+    }
+
+    await db.update(publicLinksTable)
+      .set({ view_count: sql`${publicLinksTable.view_count} + 1`, last_viewed_at: new Date(), failed_attempts: 0 })
+      .where(eq(publicLinksTable.id, link.id))
+      .execute();
+
+    return { status: 'ok', note: { title: note.title, content: note.content, updated_at: note.updated_at } };
+  } catch (error) {
+    console.error('Public link view failed:', error);
+    throw error;
+  }
+}
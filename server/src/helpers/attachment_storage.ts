@@ -0,0 +1,127 @@
+import { TRPCError } from '@trpc/server';
+import { mkdir, readFile, writeFile, rm } from 'fs/promises';
+import path from 'path';
+import { db, type DbTransactor } from '../db';
+import { attachmentsTable, type Attachment as DbAttachment } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+// Where attachment bytes live. Keys are opaque, slash-separated paths chosen
+// by the server; implementations only need to store and return the bytes.
+export interface AttachmentStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export function createLocalDiskStorage(rootDir: string): AttachmentStorage {
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid attachment storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    }
+  };
+}
+
+// Files go under ATTACHMENTS_DIR (defaults to ./uploads). Other backends,
+// e.g. S3-compatible object storage, can be selected here later.
+export function getAttachmentStorage(): AttachmentStorage {
+  return createLocalDiskStorage(process.env['ATTACHMENTS_DIR'] || 'uploads');
+}
+
+// Per-file limit from ATTACHMENT_MAX_SIZE_MB (default 10)
+export const getAttachmentMaxBytes = (): number =>
+  Number(process.env['ATTACHMENT_MAX_SIZE_MB'] || 10) * 1024 * 1024;
+
+// Total storage per user from ATTACHMENT_QUOTA_MB (default 100)
+export const getAttachmentQuotaBytes = (): number =>
+  Number(process.env['ATTACHMENT_QUOTA_MB'] || 100) * 1024 * 1024;
+
+interface AttachmentFile {
+  filename: string;
+  content_type: string;
+}
+
+// Stores a file for a note the caller may already attach files to, within the
+// size limit and its owner's quota. Files belong to the note's owner, even
+// when someone it is shared with uploads them. Returns the row with its
+// storage key, so a caller whose transaction fails can delete the file again.
+export async function saveAttachment(
+  note: { id: string; user_id: string },
+  file: AttachmentFile,
+  data: Buffer,
+  executor: DbTransactor = db
+): Promise<DbAttachment> {
+  const maxBytes = getAttachmentMaxBytes();
+  if (data.length > maxBytes) {
+    throw new TRPCError({
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `Attachment exceeds the ${Math.floor(maxBytes / (1024 * 1024))} MB limit`
+    });
+  }
+
+  return executor.transaction(async tx => {
+    // Uploads for the same owner wait for each other, so parallel ones can't
+    // all fit under the quota and then exceed it together
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtextextended(${`attachments:${note.user_id}`}, 0))`);
+
+    const usage = await tx.select({ total: sql<string>`coalesce(sum(${attachmentsTable.size}), 0)` })
+      .from(attachmentsTable)
+      .where(eq(attachmentsTable.user_id, note.user_id))
+      .execute();
+
+    if (Number(usage[0].total) + data.length > getAttachmentQuotaBytes()) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Attachment storage quota exceeded' });
+    }
+
+    const id = randomUUID();
+    const storageKey = `${note.user_id}/${id}`;
+    const storage = getAttachmentStorage();
+
+    await storage.put(storageKey, data);
+
+    try {
+      const result = await tx.insert(attachmentsTable)
+        .values({
+          id,
+          note_id: note.id,
+          user_id: note.user_id,
+          filename: file.filename,
+          content_type: file.content_type,
+          size: data.length,
+          storage_key: storageKey
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    } catch (error) {
+      await storage.delete(storageKey);
+      throw error;
+    }
+  });
+}
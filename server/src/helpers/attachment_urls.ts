@@ -0,0 +1,43 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { type SignedAttachmentUrl } from '../schema';
+
+// Signed addresses let the browser load attachments where no session token
+// can be sent, such as <img> tags in the note preview. Set
+// ATTACHMENT_URL_SECRET when several server processes share the load; without
+// it each process signs with its own random key.
+const fallbackSecret = randomBytes(32);
+
+const getSecret = (): string | Buffer => process.env['ATTACHMENT_URL_SECRET'] || fallbackSecret;
+
+// Lifetime of a signed address from ATTACHMENT_URL_TTL_MINUTES (default 15)
+export const getAttachmentUrlTtlMs = (): number =>
+  Number(process.env['ATTACHMENT_URL_TTL_MINUTES'] || 15) * 60 * 1000;
+
+const sign = (attachmentId: string, expires: number): Buffer =>
+  createHmac('sha256', getSecret()).update(`${attachmentId}:${expires}`).digest();
+
+// Sent as ?expires=<ms since epoch>&signature=<base64url>
+export function signAttachmentUrl(attachmentId: string, now: Date = new Date()): SignedAttachmentUrl {
+  const expires = now.getTime() + getAttachmentUrlTtlMs();
+  return {
+    attachment_id: attachmentId,
+    expires_at: new Date(expires),
+    signature: sign(attachmentId, expires).toString('base64url')
+  };
+}
+
+export function verifyAttachmentSignature(
+  attachmentId: string,
+  expires: string,
+  signature: string,
+  now: Date = new Date()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!/^\d+$/.test(expires) || expiresAt <= now.getTime()) {
+    return false;
+  }
+
+  const expected = sign(attachmentId, expiresAt);
+  const given = Buffer.from(signature, 'base64url');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,10 @@
+// Keeps each insert or id lookup well under Postgres' bind parameter limit
+export const BATCH_SIZE = 500;
+
+export const inBatches = <T>(items: T[]): T[][] => {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += BATCH_SIZE) {
+    batches.push(items.slice(start, start + BATCH_SIZE));
+  }
+  return batches;
+};
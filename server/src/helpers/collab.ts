@@ -0,0 +1,482 @@
+import { type IncomingMessage, type Server } from 'http';
+import { type Duplex } from 'stream';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { TRPCError } from '@trpc/server';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { db } from '../db';
+import { notesTable, type Note as DbNote } from '../db/schema';
+import { type Note } from '../schema';
+import { getSessionUser } from '../handlers/get_session_user';
+import { updateNote } from '../handlers/update_note';
+import { assertNoteAccess, getNoteAccess, allows } from './note_access';
+import { NoteConflictError } from './note_conflict';
+import {
+  COLLAB_PATH_PREFIX,
+  COLLAB_TEXT_NAME,
+  MESSAGE_SYNC,
+  MESSAGE_AWARENESS,
+  MESSAGE_AUTH,
+  MESSAGE_SAVED,
+  MESSAGE_SAVE_FAILED,
+  CLOSE_UNAUTHORIZED,
+  CLOSE_FORBIDDEN,
+  CLOSE_NOT_FOUND,
+  type CollabSavedState,
+  type CollabSaveFailedState
+} from './collab_protocol';
+import { eq } from 'drizzle-orm';
+
+// Edits are written to the note once typing pauses for this long
+const SAVE_DELAY_MS = 1000;
+// Edits are only taken from users who can still edit the note, checked again
+// when an edit arrives this long after the last check
+const ACCESS_CHECK_INTERVAL_MS = 1000;
+const AUTH_TIMEOUT_MS = 10000;
+const PING_INTERVAL_MS = 30000;
+
+// Largest message a client may send, from COLLAB_MAX_MESSAGE_MB (default 2);
+// bigger ones close the connection before they are read into memory
+const getCollabMaxMessageBytes = (): number =>
+  Number(process.env['COLLAB_MAX_MESSAGE_MB'] || 2) * 1024 * 1024;
+
+// One shared document per note with at least one connected editor
+interface CollabRoom {
+  noteId: string;
+  ownerId: string;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  // Awareness client ids announced over each connection, removed when it closes
+  connections: Map<WebSocket, Set<number>>;
+  // The user behind each connection
+  users: Map<WebSocket, string>;
+  // Connections of users the note is shared with read or comment access only
+  readOnly: Set<WebSocket>;
+  persistedText: string;
+  // The document as it was when persistedText was read or written, so edits
+  // saved outside the session can be merged in on top of it
+  persistedDoc: Y.Doc;
+  version: Date;
+  // Who made the latest edit; the next save is made as them
+  editorId: string | null;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+  saving: Promise<void>;
+  // Set once the last connection left and the final save is written
+  closed: boolean;
+}
+
+const rooms = new Map<string, Promise<CollabRoom>>();
+
+const send = (conn: WebSocket, message: Uint8Array) => {
+  if (conn.readyState === WebSocket.OPEN) {
+    conn.send(message);
+  }
+};
+
+const broadcast = (room: CollabRoom, message: Uint8Array) => {
+  room.connections.forEach((_ids, conn) => send(conn, message));
+};
+
+const sendSaveFailed = (room: CollabRoom, message: string) => {
+  const failed: CollabSaveFailedState = { message };
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SAVE_FAILED);
+  encoding.writeVarString(encoder, JSON.stringify(failed));
+  broadcast(room, encoding.toUint8Array(encoder));
+};
+
+const copyDoc = (update: Uint8Array): Y.Doc => {
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, update);
+  return doc;
+};
+
+// Replaces the text that differs between the two as one span
+const replaceText = (text: Y.Text, next: string) => {
+  const current = text.toString();
+  let prefix = 0;
+  while (prefix < current.length && prefix < next.length && current[prefix] === next[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < current.length - prefix &&
+    suffix < next.length - prefix &&
+    current[current.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  text.delete(prefix, current.length - prefix - suffix);
+  text.insert(prefix, next.slice(prefix, next.length - suffix));
+};
+
+// The note was saved outside the session (say, by a client whose socket
+// dropped). That change is made to the last persisted copy of the document and
+// applied to the shared one like any other editor's, so it merges with the
+// session's unsaved edits instead of either overwriting the other.
+const mergeOutsideEdit = (room: CollabRoom, current: Note) => {
+  const stateBefore = Y.encodeStateVector(room.persistedDoc);
+  room.persistedDoc.transact(() => replaceText(room.persistedDoc.getText(COLLAB_TEXT_NAME), current.content));
+  Y.applyUpdate(room.doc, Y.encodeStateAsUpdate(room.persistedDoc, stateBefore), room);
+
+  room.persistedText = current.content;
+  room.version = current.updated_at;
+};
+
+// Writes the shared text through updateNote as the user who last edited it,
+// so access checks, revisions, links and updated_at behave as for any other
+// edit. A save that finds the note changed since the last one merges that
+// change first and tries again; one that fails otherwise, for instance
+// because the editor lost access, is reported to everyone in the session and
+// the text is kept for the next save.
+const persistRoom = async (room: CollabRoom): Promise<void> => {
+  const userId = room.editorId ?? room.ownerId;
+  try {
+    for (;;) {
+      const text = room.doc.getText(COLLAB_TEXT_NAME).toString();
+      if (text === room.persistedText) return;
+      const state = Y.encodeStateAsUpdate(room.doc);
+
+      let note: Note;
+      try {
+        note = await updateNote({
+          id: room.noteId,
+          user_id: userId,
+          content: text,
+          expected_updated_at: room.version
+        });
+      } catch (error) {
+        if (!(error instanceof TRPCError && error.cause instanceof NoteConflictError)) throw error;
+        mergeOutsideEdit(room, error.cause.currentNote);
+        continue;
+      }
+
+      room.persistedText = text;
+      room.persistedDoc.destroy();
+      room.persistedDoc = copyDoc(state);
+      room.version = note.updated_at;
+
+      const saved: CollabSavedState = { content: note.content, updated_at: note.updated_at.toISOString() };
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SAVED);
+      encoding.writeVarString(encoder, JSON.stringify(saved));
+      broadcast(room, encoding.toUint8Array(encoder));
+      return;
+    }
+  } catch (error) {
+    console.error('Collaborative save failed:', error);
+    sendSaveFailed(room, error instanceof Error ? error.message : 'Save failed');
+  }
+};
+
+const scheduleSave = (room: CollabRoom) => {
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  room.saveTimer = setTimeout(() => {
+    room.saveTimer = null;
+    room.saving = room.saving.then(() => persistRoom(room));
+  }, SAVE_DELAY_MS);
+};
+
+const createRoom = async (note: DbNote): Promise<CollabRoom> => {
+  const doc = new Y.Doc();
+  doc.getText(COLLAB_TEXT_NAME).insert(0, note.content);
+
+  const room: CollabRoom = {
+    noteId: note.id,
+    ownerId: note.user_id,
+    doc,
+    awareness: new awarenessProtocol.Awareness(doc),
+    connections: new Map(),
+    users: new Map(),
+    readOnly: new Set(),
+    persistedText: note.content,
+    persistedDoc: copyDoc(Y.encodeStateAsUpdate(doc)),
+    version: note.updated_at,
+    editorId: null,
+    saveTimer: null,
+    saving: Promise.resolve(),
+    closed: false
+  };
+
+  // The server itself has no cursor
+  room.awareness.setLocalState(null);
+
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin instanceof WebSocket) {
+      room.editorId = room.users.get(origin) ?? room.editorId;
+    }
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+    // Merged outside edits are saved by the save that merged them
+    if (origin !== room) scheduleSave(room);
+  });
+
+  room.awareness.on('update', (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    const changed = [...added, ...updated, ...removed];
+
+    if (origin instanceof WebSocket) {
+      const ids = room.connections.get(origin);
+      added.forEach(id => ids?.add(id));
+      removed.forEach(id => ids?.delete(id));
+    }
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(room.awareness, changed));
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  return room;
+};
+
+// Throws unless the user can still read the note; says whether they may
+// also change the text
+const checkAccess = async (noteId: string, userId: string): Promise<{ note: DbNote; canEdit: boolean }> => {
+  const notes = await db.select().from(notesTable).where(eq(notesTable.id, noteId)).execute();
+  const note = await assertNoteAccess(notes[0], userId, 'read');
+  return { note, canEdit: allows((await getNoteAccess(note, userId))!, 'edit') };
+};
+
+// Access is checked per connection; the room itself is shared by everyone
+// who has the note open. A room still writing its final save takes the
+// connection back, while one already closed is loaded again from the note.
+const joinRoom = async (noteId: string, userId: string, conn: WebSocket): Promise<CollabRoom> => {
+  for (;;) {
+    const { note, canEdit } = await checkAccess(noteId, userId);
+
+    let loading = rooms.get(noteId);
+    if (!loading) {
+      loading = createRoom(note);
+      rooms.set(noteId, loading);
+      loading.catch(() => rooms.delete(noteId));
+    }
+
+    const room = await loading;
+    if (room.closed) continue;
+
+    room.connections.set(conn, new Set());
+    room.users.set(conn, userId);
+    if (!canEdit) room.readOnly.add(conn);
+    return room;
+  }
+};
+
+const leaveRoom = async (room: CollabRoom, conn: WebSocket) => {
+  const ids = room.connections.get(conn);
+  room.connections.delete(conn);
+  room.users.delete(conn);
+  room.readOnly.delete(conn);
+  if (ids && ids.size > 0) {
+    awarenessProtocol.removeAwarenessStates(room.awareness, [...ids], null);
+  }
+
+  if (room.connections.size > 0) return;
+
+  // Last editor gone: write any pending edits, then drop the document unless
+  // someone opened the note again in the meantime
+  if (room.saveTimer) {
+    clearTimeout(room.saveTimer);
+    room.saveTimer = null;
+  }
+  const saving = room.saving = room.saving.then(() => persistRoom(room));
+  await saving;
+
+  // A later save is finished off by whoever started it
+  if (room.connections.size > 0 || room.saving !== saving) return;
+  room.closed = true;
+  rooms.delete(room.noteId);
+  room.awareness.destroy();
+  room.doc.destroy();
+  room.persistedDoc.destroy();
+};
+
+const handleMessage = (room: CollabRoom, conn: WebSocket, message: Uint8Array) => {
+  const decoder = decoding.createDecoder(message);
+  const type = decoding.readVarUint(decoder);
+
+  if (type === MESSAGE_SYNC) {
+    // Read-only editors may ask for the document but not change it
+    if (room.readOnly.has(conn) && decoding.peekVarUint(decoder) !== syncProtocol.messageYjsSyncStep1) return;
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+    // Only a sync step 1 needs an answer
+    if (encoding.length(encoder) > 1) {
+      send(conn, encoding.toUint8Array(encoder));
+    }
+  } else if (type === MESSAGE_AWARENESS) {
+    awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), conn);
+  }
+};
+
+const closeCodeFor = (error: unknown): number => {
+  if (error instanceof TRPCError && error.code === 'NOT_FOUND') return CLOSE_NOT_FOUND;
+  if (error instanceof TRPCError && error.code === 'FORBIDDEN') return CLOSE_FORBIDDEN;
+  return 1011;
+};
+
+const toUint8Array = (data: RawData): Uint8Array => {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  return new Uint8Array(data instanceof ArrayBuffer ? data : data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+};
+
+// Sync step 2 and update messages change the document; step 1 only asks for it
+const changesDocument = (message: Uint8Array): boolean => {
+  const decoder = decoding.createDecoder(message);
+  return decoding.readVarUint(decoder) === MESSAGE_SYNC &&
+    decoding.peekVarUint(decoder) !== syncProtocol.messageYjsSyncStep1;
+};
+
+// A connection waits for its MESSAGE_AUTH, joins the note's room and then
+// relays sync and awareness messages. Messages arriving while the room is
+// loading, or while access is checked again, are handled once that is done.
+// Access is checked again before edits and on every ping, so revoked shares
+// and workspace roles take effect on open sockets too.
+const handleConnection = (conn: WebSocket, noteId: string) => {
+  let room: CollabRoom | null = null;
+  let userId: string | null = null;
+  let authenticating = false;
+  let checking = false;
+  let checkedAt = 0;
+  const queued: Uint8Array[] = [];
+  let alive = true;
+
+  const authTimer = setTimeout(() => conn.close(CLOSE_UNAUTHORIZED, 'Authentication required'), AUTH_TIMEOUT_MS);
+
+  const recheckAccess = async (joined: CollabRoom, user: string) => {
+    checking = true;
+    try {
+      const { canEdit } = await checkAccess(noteId, user);
+      if (!joined.connections.has(conn)) return;
+
+      if (canEdit) joined.readOnly.delete(conn);
+      else joined.readOnly.add(conn);
+      checkedAt = Date.now();
+      checking = false;
+      queued.splice(0).forEach(message => handleMessage(joined, conn, message));
+    } catch (error) {
+      console.error('Collaboration access check failed:', error);
+      conn.close(closeCodeFor(error), 'Cannot open note');
+    }
+  };
+
+  const pingTimer = setInterval(() => {
+    if (!alive) {
+      conn.terminate();
+      return;
+    }
+    alive = false;
+    conn.ping();
+
+    if (room && userId && !checking) {
+      recheckAccess(room, userId);
+    }
+  }, PING_INTERVAL_MS);
+
+  conn.on('pong', () => {
+    alive = true;
+  });
+
+  const authenticate = async (token: string) => {
+    authenticating = true;
+    try {
+      const user = await getSessionUser(token);
+      if (!user) {
+        conn.close(CLOSE_UNAUTHORIZED, 'Authentication required');
+        return;
+      }
+
+      const joined = await joinRoom(noteId, user.id, conn);
+      clearTimeout(authTimer);
+      if (conn.readyState !== WebSocket.OPEN) {
+        await leaveRoom(joined, conn);
+        return;
+      }
+
+      room = joined;
+      userId = user.id;
+      checkedAt = Date.now();
+
+      // Start the handshake and share who is already here
+      const syncEncoder = encoding.createEncoder();
+      encoding.writeVarUint(syncEncoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(syncEncoder, joined.doc);
+      send(conn, encoding.toUint8Array(syncEncoder));
+
+      const states = [...joined.awareness.getStates().keys()];
+      if (states.length > 0) {
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(joined.awareness, states));
+        send(conn, encoding.toUint8Array(awarenessEncoder));
+      }
+
+      queued.splice(0).forEach(message => handleMessage(joined, conn, message));
+    } catch (error) {
+      console.error('Collaboration join failed:', error);
+      conn.close(closeCodeFor(error), 'Cannot open note');
+    }
+  };
+
+  conn.on('message', (data: RawData) => {
+    try {
+      const message = toUint8Array(data);
+
+      if (room && userId && !checking) {
+        if (changesDocument(message) && Date.now() - checkedAt > ACCESS_CHECK_INTERVAL_MS) {
+          queued.push(message);
+          recheckAccess(room, userId);
+        } else {
+          handleMessage(room, conn, message);
+        }
+      } else if (room || authenticating) {
+        queued.push(message);
+      } else {
+        const decoder = decoding.createDecoder(message);
+        if (decoding.readVarUint(decoder) !== MESSAGE_AUTH) {
+          conn.close(CLOSE_UNAUTHORIZED, 'Authentication required');
+          return;
+        }
+        authenticate(decoding.readVarString(decoder));
+      }
+    } catch (error) {
+      console.error('Collaboration message failed:', error);
+    }
+  });
+
+  conn.on('close', () => {
+    clearTimeout(authTimer);
+    clearInterval(pingTimer);
+    if (room) {
+      leaveRoom(room, conn).catch(error => console.error('Collaboration leave failed:', error));
+    }
+  });
+};
+
+// Serves /collab/:noteId WebSocket upgrades next to the tRPC HTTP API
+export function attachCollabServer(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: getCollabMaxMessageBytes() });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = new RegExp(`^${COLLAB_PATH_PREFIX}([\\w-]+)$`).exec(url.pathname);
+
+    if (!match) {
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (conn: WebSocket) => handleConnection(conn, match[1]));
+  });
+}
@@ -0,0 +1,31 @@
+// Wire protocol for collaborative editing, shared by the server and the client.
+// Messages are binary and start with one of the types below; sync and
+// awareness payloads follow y-protocols. The first message a client sends must
+// be MESSAGE_AUTH carrying its session token; MESSAGE_SAVED tells clients which
+// text and version the server last wrote to the note, and MESSAGE_SAVE_FAILED
+// why it could not write the session's text.
+
+export const COLLAB_PATH_PREFIX = '/collab/';
+
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+export const MESSAGE_AUTH = 2;
+export const MESSAGE_SAVED = 3;
+export const MESSAGE_SAVE_FAILED = 4;
+
+export interface CollabSavedState {
+  content: string;
+  updated_at: string;
+}
+
+export interface CollabSaveFailedState {
+  message: string;
+}
+
+// Name of the shared Y.Text holding the note's content
+export const COLLAB_TEXT_NAME = 'content';
+
+// Close codes for sessions the server refuses; clients don't reconnect after these
+export const CLOSE_UNAUTHORIZED = 4401;
+export const CLOSE_FORBIDDEN = 4403;
+export const CLOSE_NOT_FOUND = 4404;
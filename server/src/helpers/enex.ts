@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import { parser } from 'sax';
+
+// Evernote exports (.enex): one XML file per notebook, each note carrying its
+// body as ENML (a restricted XHTML) plus embedded files as base64 resources.
+
+export interface EnexResource {
+  data: Buffer;
+  mime: string;
+  filename: string | null;
+  hash: string; // MD5 of the data, which <en-media hash="..."> refers to
+}
+
+export interface EnexNote {
+  title: string;
+  content: string; // ENML
+  created: Date | null;
+  updated: Date | null;
+  tags: string[];
+  resources: EnexResource[];
+}
+
+interface XmlElement {
+  name: string; // Lowercased
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+// Unlike XHTML, ENML written by hand or other tools may leave these unclosed
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'col', 'area', 'base', 'wbr']);
+
+// Builds a plain element tree with sax in its forgiving mode, which closes
+// mismatched tags and knows the HTML entities. Declarations, comments and
+// DTDs are dropped. Returns a root element holding the top-level nodes.
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  // Content after an unclosed void element belongs to its parent
+  const parent = () => stack.filter(element => !VOID_ELEMENTS.has(element.name)).pop()!;
+
+  const appendText = (text: string) => {
+    const children = parent().children;
+    if (typeof children[children.length - 1] === 'string') {
+      children[children.length - 1] += text;
+    } else if (text) {
+      children.push(text);
+    }
+  };
+
+  const xml = parser(false, { lowercase: true });
+  xml.onopentag = tag => {
+    const element: XmlElement = { name: tag.name, attributes: tag.attributes as Record<string, string>, children: [] };
+    parent().children.push(element);
+    stack.push(element);
+  };
+  xml.onclosetag = () => {
+    stack.pop();
+  };
+  xml.ontext = appendText;
+  xml.oncdata = appendText;
+  // Keep whatever can still be read
+  xml.onerror = () => xml.resume();
+  xml.write(source).close();
+
+  return root;
+}
+
+const isElement = (node: XmlNode): node is XmlElement => typeof node !== 'string';
+
+const childElements = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter((child): child is XmlElement => isElement(child) && child.name === name);
+
+const childElement = (element: XmlElement, name: string): XmlElement | undefined =>
+  childElements(element, name)[0];
+
+function textContent(node: XmlNode | undefined): string {
+  if (node === undefined) {
+    return '';
+  }
+  return isElement(node) ? node.children.map(textContent).join('') : node;
+}
+
+// Timestamps are written as 20240131T235959Z
+export function parseEnexDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
+
+export function parseEnex(xml: string): EnexNote[] {
+  const document = parseXml(xml);
+  const root = childElement(document, 'en-export');
+  if (!root) {
+    throw new Error('Not an Evernote export');
+  }
+
+  return childElements(root, 'note').map(note => ({
+    title: textContent(childElement(note, 'title')).trim(),
+    content: textContent(childElement(note, 'content')),
+    created: parseEnexDate(textContent(childElement(note, 'created'))),
+    updated: parseEnexDate(textContent(childElement(note, 'updated'))),
+    tags: childElements(note, 'tag').map(tag => textContent(tag).trim()).filter(Boolean),
+    resources: childElements(note, 'resource').map(resource => {
+      const data = Buffer.from(textContent(childElement(resource, 'data')).replace(/\s+/g, ''), 'base64');
+      const attributes = childElement(resource, 'resource-attributes');
+      const filename = attributes ? textContent(childElement(attributes, 'file-name')).trim() : '';
+
+      return {
+        data,
+        mime: textContent(childElement(resource, 'mime')).trim() || 'application/octet-stream',
+        filename: filename || null,
+        hash: createHash('md5').update(data).digest('hex')
+      };
+    })
+  }));
+}
+
+// Markdown for an <en-media> element, or null to leave it out
+export type MediaRenderer = (hash: string) => string | null;
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const SPACED_BLOCKS = new Set([...HEADINGS, 'p', 'ul', 'ol', 'table', 'blockquote', 'pre', 'hr']);
+const BLOCKS = new Set([...SPACED_BLOCKS, 'div', 'en-note', 'li', 'tr', 'td', 'th', 'tbody', 'thead']);
+
+const escapeMarkdown = (text: string): string => text.replace(/[\\`*_[\]]/g, char => `\\${char}`);
+
+// Text as laid out on screen, for code blocks: <br> and <div> start new lines
+function plainText(node: XmlNode): string {
+  if (!isElement(node)) {
+    return node;
+  }
+  if (node.name === 'br') {
+    return '\n';
+  }
+
+  const text = node.children.map(plainText).join('');
+  return node.name === 'div' || node.name === 'p' ? `${text.replace(/\n$/, '')}\n` : text;
+}
+
+// Keeps spaces around emphasis markers outside them, since "** bold**" is not bold
+function wrapInline(text: string, marker: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+function renderInline(node: XmlNode, media: MediaRenderer): string {
+  if (!isElement(node)) {
+    return escapeMarkdown(node.replace(/\s+/g, ' '));
+  }
+
+  const inner = () => node.children.map(child => renderInline(child, media)).join('');
+
+  switch (node.name) {
+    case 'br':
+      return '\n';
+    case 'b':
+    case 'strong':
+      return wrapInline(inner(), '**');
+    case 'i':
+    case 'em':
+      return wrapInline(inner(), '*');
+    case 's':
+    case 'strike':
+    case 'del':
+      return wrapInline(inner(), '~~');
+    case 'code':
+    case 'tt':
+      return `\`${textContent(node).replace(/`/g, '')}\``;
+    case 'a': {
+      const text = inner().trim();
+      const href = node.attributes['href'];
+      return href ? `[${text || href}](${href.replace(/[()\s]/g, encodeURIComponent)})` : text;
+    }
+    case 'img': {
+      const src = node.attributes['src'];
+      return src ? `![${escapeMarkdown(node.attributes['alt'] ?? '')}](${src})` : '';
+    }
+    case 'en-media':
+      return media(node.attributes['hash'] ?? '') ?? '';
+    case 'en-todo':
+      return node.attributes['checked'] === 'true' ? '[x] ' : '[ ] ';
+    default:
+      return inner();
+  }
+}
+
+const indent = (text: string, prefix: string, firstPrefix = prefix): string =>
+  text.split('\n').map((line, index) => (index === 0 ? firstPrefix : line ? prefix : '') + line).join('\n');
+
+function renderList(list: XmlElement, media: MediaRenderer): string {
+  let number = 1;
+  return childElements(list, 'li').map(item => {
+    const marker = list.name === 'ol' ? `${number++}. ` : '- ';
+    // Nested lists stay tight against their item
+    const text = renderChildren(item, media).trim().replace(/\n{2,}/g, '\n');
+    return indent(text, ' '.repeat(marker.length), marker);
+  }).join('\n');
+}
+
+function renderTable(table: XmlElement, media: MediaRenderer): string {
+  const rows: string[][] = [];
+  const collectRows = (element: XmlElement) => {
+    for (const child of element.children.filter(isElement)) {
+      if (child.name === 'tr') {
+        rows.push(child.children.filter(isElement)
+          .filter(cell => cell.name === 'td' || cell.name === 'th')
+          .map(cell => renderChildren(cell, media).trim().replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')));
+      } else {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(table);
+
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  if (columns === 0) {
+    return '';
+  }
+
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  return [line(rows[0]), line(Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function renderBlock(element: XmlElement, media: MediaRenderer): string {
+  if (HEADINGS.includes(element.name)) {
+    const text = renderChildren(element, media).trim().replace(/\s*\n\s*/g, ' ');
+    return `${'#'.repeat(Number(element.name[1]))} ${text}`;
+  }
+
+  switch (element.name) {
+    case 'ul':
+    case 'ol':
+      return renderList(element, media);
+    case 'table':
+      return renderTable(element, media);
+    case 'blockquote':
+      return renderChildren(element, media).trim().split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    case 'pre':
+      return `\`\`\`\n${plainText(element).replace(/\n$/, '')}\n\`\`\``;
+    case 'hr':
+      return '---';
+    case 'div': {
+      // Evernote marks code blocks with a style rather than <pre>
+      if ((element.attributes['style'] ?? '').includes('-en-codeblock')) {
+        return `\n\`\`\`\n${plainText(element).replace(/\n+$/, '')}\n\`\`\`\n`;
+      }
+
+      // A checkbox at the start of a line makes it a task list item
+      const first = element.children.find(child => !(typeof child === 'string' && !child.trim()));
+      const text = renderChildren(element, media).replace(/^\n+|\n+$/g, '');
+      return first && isElement(first) && first.name === 'en-todo' ? `- ${text}` : text;
+    }
+    default:
+      return renderChildren(element, media);
+  }
+}
+
+// Evernote writes one <div> per line, with <div><br/></div> for blank lines,
+// so divs follow each other directly while paragraphs, lists and the like get
+// a blank line around them
+function renderChildren(element: XmlElement, media: MediaRenderer): string {
+  let output = '';
+  let inline = '';
+
+  const flushInline = () => {
+    if (inline.trim()) {
+      output += `${inline.replace(/^ +| +$/gm, '')}\n`;
+    }
+    inline = '';
+  };
+
+  for (const child of element.children) {
+    if (isElement(child) && BLOCKS.has(child.name)) {
+      flushInline();
+      const block = renderBlock(child, media);
+      output += SPACED_BLOCKS.has(child.name) ? `\n${block}\n\n` : `${block}\n`;
+    } else {
+      inline += renderInline(child, media);
+    }
+  }
+  flushInline();
+
+  return output;
+}
+
+export function enmlToMarkdown(enml: string, media: MediaRenderer): string {
+  const document = parseXml(enml);
+  const note = childElement(document, 'en-note') ?? document;
+
+  return renderChildren(note, media)
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
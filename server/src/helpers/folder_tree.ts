@@ -0,0 +1,54 @@
+interface FolderNode {
+  id: string;
+  parent_folder_id: string | null;
+}
+
+// Returns the root folder followed by every folder nested below it (breadth first)
+export function collectFolderSubtree<T extends FolderNode>(folders: T[], rootId: string): T[] {
+  const childrenByParent = new Map<string, T[]>();
+  for (const folder of folders) {
+    if (folder.parent_folder_id) {
+      const siblings = childrenByParent.get(folder.parent_folder_id) ?? [];
+      siblings.push(folder);
+      childrenByParent.set(folder.parent_folder_id, siblings);
+    }
+  }
+
+  const root = folders.find(folder => folder.id === rootId);
+  if (!root) {
+    return [];
+  }
+
+  const result: T[] = [];
+  const visited = new Set<string>();
+  const queue: T[] = [root];
+
+  while (queue.length > 0) {
+    const folder = queue.shift()!;
+    if (visited.has(folder.id)) {
+      continue;
+    }
+
+    visited.add(folder.id);
+    result.push(folder);
+    queue.push(...(childrenByParent.get(folder.id) ?? []));
+  }
+
+  return result;
+}
+
+// Returns the folder followed by its parent, grandparent and so on up to the root
+export function collectFolderAncestors<T extends FolderNode>(folders: T[], folderId: string): T[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const result: T[] = [];
+  const visited = new Set<string>();
+  let current = byId.get(folderId);
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    result.push(current);
+    current = current.parent_folder_id ? byId.get(current.parent_folder_id) : undefined;
+  }
+
+  return result;
+}
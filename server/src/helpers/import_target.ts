@@ -0,0 +1,168 @@
+import { db, type DbExecutor } from '../db';
+import { notesTable, foldersTable, tagsTable, noteTagsTable, noteColumns } from '../db/schema';
+import {
+  createNoteInputSchema,
+  createFolderInputSchema,
+  createTagInputSchema,
+  type Note,
+  type ImportResult,
+  type ImportFileResult
+} from '../schema';
+import { inSpace } from './workspaces';
+import { createFolder } from '../handlers/create_folder';
+import { createTag } from '../handlers/create_tag';
+import { ZodError } from 'zod';
+import { and, isNull } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+export interface ImportedNote {
+  id: string;
+  title: string;
+  content: string;
+  folder_id: string | null;
+  created_at: Date;
+}
+
+// The space an import writes into. Folders and tags are looked up by name and
+// created through createFolder and createTag when missing, so importing the
+// same files twice reuses what the first run made.
+export interface ImportTarget {
+  notes: ImportedNote[]; // Notes outside the trash when the import started
+  ensureFolder(dir: string[]): Promise<string | null>; // Folder for a path of names; null for the top level
+  ensureTag(path: string): Promise<string>; // Tag for a path such as "project/alpha"
+}
+
+interface ImportSpace {
+  user_id: string;
+  workspace_id?: string | null;
+}
+
+export async function loadImportTarget(space: ImportSpace): Promise<ImportTarget> {
+  const folders = await db.select()
+    .from(foldersTable)
+    .where(and(inSpace(foldersTable, space.user_id, space.workspace_id), isNull(foldersTable.deleted_at)))
+    .execute();
+  const tags = await db.select()
+    .from(tagsTable)
+    .where(inSpace(tagsTable, space.user_id, space.workspace_id))
+    .execute();
+  const notes = await db.select({
+    id: notesTable.id,
+    title: notesTable.title,
+    content: notesTable.content,
+    folder_id: notesTable.folder_id,
+    created_at: notesTable.created_at
+  })
+    .from(notesTable)
+    .where(and(inSpace(notesTable, space.user_id, space.workspace_id), isNull(notesTable.deleted_at)))
+    .execute();
+
+  const folderIds = new Map<string, string>();
+  const ensureFolder = async (dir: string[]): Promise<string | null> => {
+    if (dir.length === 0) {
+      return null;
+    }
+
+    let id = folderIds.get(dir.join('/'));
+    if (id === undefined) {
+      const parentId = await ensureFolder(dir.slice(0, -1));
+      const name = dir[dir.length - 1];
+      const existing = folders.find(folder => folder.name === name && folder.parent_folder_id === parentId);
+      id = existing?.id ?? (await createFolder(createFolderInputSchema.parse({
+        name,
+        user_id: space.user_id,
+        workspace_id: space.workspace_id,
+        parent_folder_id: parentId
+      }))).id;
+      folderIds.set(dir.join('/'), id);
+    }
+    return id;
+  };
+
+  const ensureTag = async (path: string): Promise<string> => {
+    let parentId: string | null = null;
+    for (const name of path.split('/')) {
+      let tag = tags.find(existing => existing.name === name && existing.parent_tag_id === parentId);
+      if (!tag) {
+        tag = await createTag(createTagInputSchema.parse({
+          name,
+          parent_tag_id: parentId,
+          user_id: space.user_id,
+          workspace_id: space.workspace_id
+        }));
+        tags.push(tag);
+      }
+      parentId = tag.id;
+    }
+    return parentId!;
+  };
+
+  return { notes, ensureFolder, ensureTag };
+}
+
+interface ImportedNoteValues {
+  title: string;
+  content: string;
+  markdown_content?: string | null;
+  folder_id: string | null;
+  tag_ids: string[];
+  is_favorite?: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Adds one note to the import's space. The folder and tags come from
+// ensureFolder and ensureTag, so only the note's own fields are validated, and
+// links are left to linkAddedNotes once the whole import is in.
+export async function insertImportedNote(
+  space: ImportSpace,
+  values: ImportedNoteValues,
+  executor: DbExecutor = db
+): Promise<Note> {
+  const note = createNoteInputSchema.parse({ ...values, ...space });
+  const now = new Date();
+
+  const result = await executor.insert(notesTable)
+    .values({
+      id: randomUUID(),
+      title: note.title,
+      content: note.content,
+      markdown_content: note.markdown_content ?? null,
+      user_id: note.user_id,
+      workspace_id: note.workspace_id ?? null,
+      folder_id: note.folder_id ?? null,
+      is_favorite: values.is_favorite ?? false,
+      created_at: values.created_at ?? now,
+      updated_at: values.updated_at ?? values.created_at ?? now
+    })
+    .returning(noteColumns)
+    .execute();
+
+  if (values.tag_ids.length > 0) {
+    await executor.insert(noteTagsTable)
+      .values(values.tag_ids.map(tagId => ({ note_id: result[0].id, tag_id: tagId })))
+      .onConflictDoNothing()
+      .execute();
+  }
+
+  return result[0];
+}
+
+// Upload limit for an import file from IMPORT_MAX_SIZE_MB (default 50)
+export const getImportMaxBytes = (): number =>
+  Number(process.env['IMPORT_MAX_SIZE_MB'] || 50) * 1024 * 1024;
+
+export const describeImportError = (error: unknown): string => {
+  if (error instanceof ZodError) {
+    const issue = error.issues[0];
+    return `Invalid ${issue.path.join('.')}: ${issue.message}`;
+  }
+  return error instanceof Error ? error.message : 'Import failed';
+};
+
+export const summarizeImport = (files: ImportFileResult[]): ImportResult => ({
+  files,
+  created: files.filter(file => file.status === 'created').length,
+  skipped: files.filter(file => file.status === 'skipped').length,
+  failed: files.filter(file => file.status === 'failed').length
+});
@@ -0,0 +1,140 @@
+import { type DiffLine } from '../schema';
+
+type Edit = 'equal' | 'added' | 'removed';
+
+// Myers' algorithm takes O((N+M)·D) time and O(D²) memory for D changed
+// lines. Past this many the changed block is shown as replaced whole.
+const MAX_EDIT_DISTANCE = 1000;
+
+// Myers' shortest edit script from a to b, or null when it needs more than
+// MAX_EDIT_DISTANCE edits. Each round d keeps the furthest x reached on every
+// diagonal k = x - y, and those rounds are walked back to recover the edits.
+function shortestEdit(a: string[], b: string[]): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      // Step down (an added line) or right (a removed line) from the diagonal
+      // that got further, then follow any run of equal lines
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push('equal');
+      x--;
+      y--;
+    }
+    edits.push(x === previousX ? 'added' : 'removed');
+    x = previousX;
+    y = previousY;
+  }
+  for (; x > 0; x--) {
+    edits.push('equal');
+  }
+
+  return edits.reverse();
+}
+
+// Line-based diff built from Myers' shortest edit script. Common leading and
+// trailing lines are trimmed first so typical edits stay cheap. Within each
+// changed block the added lines are listed before the removed ones.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const edits = shortestEdit(oldMiddle, newMiddle) ?? [
+    ...newMiddle.map((): Edit => 'added'),
+    ...oldMiddle.map((): Edit => 'removed')
+  ];
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < prefix; k++) {
+    result.push({ type: 'equal', text: oldLines[k], old_line: k + 1, new_line: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  let added: DiffLine[] = [];
+  let removed: DiffLine[] = [];
+  const flush = () => {
+    result.push(...added, ...removed);
+    added = [];
+    removed = [];
+  };
+
+  for (const edit of edits) {
+    if (edit === 'equal') {
+      flush();
+      result.push({ type: 'equal', text: oldMiddle[i], old_line: prefix + i + 1, new_line: prefix + j + 1 });
+      i++;
+      j++;
+    } else if (edit === 'added') {
+      added.push({ type: 'added', text: newMiddle[j], old_line: null, new_line: prefix + j + 1 });
+      j++;
+    } else {
+      removed.push({ type: 'removed', text: oldMiddle[i], old_line: prefix + i + 1, new_line: null });
+      i++;
+    }
+  }
+  flush();
+
+  for (let k = 0; k < suffix; k++) {
+    const oldIndex = oldLines.length - suffix + k;
+    const newIndex = newLines.length - suffix + k;
+    result.push({ type: 'equal', text: oldLines[oldIndex], old_line: oldIndex + 1, new_line: newIndex + 1 });
+  }
+
+  return result;
+}
@@ -0,0 +1,136 @@
+import MarkdownIt from 'markdown-it';
+import footnote from 'markdown-it-footnote';
+import hljs from 'highlight.js/lib/common';
+
+// Shared by the client preview and server-side exports, so this module must
+// not depend on Node or browser APIs.
+
+export interface WikilinkTarget {
+  href: string;
+  noteId?: string;
+}
+
+export interface RenderMarkdownOptions {
+  // Resolves [[Title]] links; unresolved titles render as plain text
+  resolveWikilink?: (title: string) => WikilinkTarget | null;
+}
+
+const SAFE_PROTOCOLS = ['http', 'https', 'mailto'];
+
+// Links and images may only use SAFE_PROTOCOLS or be relative, which rules
+// out javascript:, vbscript: and data: URLs
+const isSafeUrl = (url: string): boolean => {
+  const protocol = /^([a-z][a-z0-9+.-]*):/i.exec(url.trim());
+  return !protocol || SAFE_PROTOCOLS.includes(protocol[1].toLowerCase());
+};
+
+const highlightCode = (code: string, language: string): string => {
+  if (language && hljs.getLanguage(language)) {
+    try {
+      return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    } catch {
+      // Fall through to markdown-it's escaped output
+    }
+  }
+  return '';
+};
+
+// [[Note Title]] links, matching the syntax parsed by helpers/wikilinks.ts
+function wikilinkPlugin(md: MarkdownIt): void {
+  md.inline.ruler.before('link', 'wikilink', (state, silent) => {
+    const start = state.pos;
+    if (!state.src.startsWith('[[', start)) return false;
+
+    const end = state.src.indexOf(']]', start + 2);
+    if (end < 0) return false;
+
+    const title = state.src.slice(start + 2, end);
+    if (!title.trim() || /[[\]\n]/.test(title)) return false;
+
+    if (!silent) {
+      const token = state.push('wikilink', '', 0);
+      token.content = title.trim();
+    }
+    state.pos = end + 2;
+    return true;
+  });
+
+  md.renderer.rules['wikilink'] = (tokens, idx, _options, env: RenderMarkdownOptions) => {
+    const title = tokens[idx].content;
+    const text = md.utils.escapeHtml(title);
+    const target = env.resolveWikilink?.(title) ?? null;
+
+    if (!target) {
+      return `<span class="wikilink wikilink-missing" title="No note with this title yet">${text}</span>`;
+    }
+
+    const noteAttr = target.noteId ? ` data-note-id="${md.utils.escapeHtml(target.noteId)}"` : '';
+    return `<a href="${md.utils.escapeHtml(target.href)}" class="wikilink"${noteAttr}>${text}</a>`;
+  };
+}
+
+// GFM task list items: "- [ ] todo" and "- [x] done"
+function taskListPlugin(md: MarkdownIt): void {
+  md.core.ruler.push('task_lists', (state) => {
+    const tokens = state.tokens;
+
+    for (let i = 2; i < tokens.length; i++) {
+      const inline = tokens[i];
+      if (inline.type !== 'inline' || tokens[i - 1].type !== 'paragraph_open' || tokens[i - 2].type !== 'list_item_open') {
+        continue;
+      }
+
+      const firstChild = inline.children?.[0];
+      const match = firstChild?.type === 'text' ? /^\[([ xX])\]\s+/.exec(firstChild.content) : null;
+      if (!firstChild || !match) continue;
+
+      firstChild.content = firstChild.content.slice(match[0].length);
+
+      const checkbox = new state.Token('html_inline', '', 0);
+      const checked = match[1] !== ' ' ? ' checked' : '';
+      checkbox.content = `<input type="checkbox" class="task-list-item-checkbox" disabled${checked}> `;
+      inline.children!.unshift(checkbox);
+
+      tokens[i - 2].attrJoin('class', 'task-list-item');
+    }
+  });
+}
+
+// Raw HTML is escaped instead of rendered, so together with the URL check the
+// output is safe to insert into a page
+const md = new MarkdownIt({
+  html: false,
+  linkify: true,
+  breaks: true,
+  highlight: highlightCode
+})
+  .use(footnote)
+  .use(wikilinkPlugin)
+  .use(taskListPlugin);
+
+md.validateLink = isSafeUrl;
+
+// External links open in a new tab without access to this window
+const defaultLinkOpen = md.renderer.rules['link_open'] ??
+  ((tokens, idx, options, _env, self) => self.renderToken(tokens, idx, options));
+
+md.renderer.rules['link_open'] = (tokens, idx, options, env, self) => {
+  const href = tokens[idx].attrGet('href') ?? '';
+  if (/^https?:/i.test(href)) {
+    tokens[idx].attrSet('target', '_blank');
+    tokens[idx].attrSet('rel', 'noopener noreferrer');
+  }
+  return defaultLinkOpen(tokens, idx, options, env, self);
+};
+
+export function renderMarkdown(text: string, options: RenderMarkdownOptions = {}): string {
+  return md.render(text, { ...options });
+}
+
+export type MarkdownToken = ReturnType<MarkdownIt['parse']>[number];
+
+// The tokens renderMarkdown turns into HTML, for exports that lay notes out
+// in other formats. Wikilinks come through as 'wikilink' tokens.
+export function parseMarkdown(text: string): MarkdownToken[] {
+  return md.parse(text, {});
+}
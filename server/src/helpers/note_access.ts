@@ -0,0 +1,99 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { foldersTable, sharesTable } from '../db/schema';
+import { type SharePermission } from '../schema';
+import { collectFolderAncestors } from './folder_tree';
+import { getWorkspaceRole, inSpace } from './workspaces';
+import { eq, and, or, inArray } from 'drizzle-orm';
+
+// What a user may do with a note: everything as its owner or as an editor of
+// its workspace, or what the strongest share of the note or of a folder above
+// it allows
+export type NoteAccess = 'owner' | SharePermission;
+
+interface AccessibleNote {
+  id: string;
+  user_id: string;
+  workspace_id: string | null;
+  folder_id: string | null;
+  deleted_at: Date | null;
+}
+
+const PERMISSION_RANK: Record<SharePermission, number> = {
+  read: 0,
+  comment: 1,
+  edit: 2
+};
+
+export function strongestPermission(permissions: SharePermission[]): SharePermission | null {
+  return permissions.reduce<SharePermission | null>(
+    (best, permission) => best === null || PERMISSION_RANK[permission] > PERMISSION_RANK[best] ? permission : best,
+    null
+  );
+}
+
+export function allows(access: NoteAccess, required: SharePermission): boolean {
+  return access === 'owner' || PERMISSION_RANK[access] >= PERMISSION_RANK[required];
+}
+
+// Trashed notes stay private to their owner or workspace
+export async function getNoteAccess(note: AccessibleNote, userId: string): Promise<NoteAccess | null> {
+  if (note.workspace_id) {
+    // Leaving a workspace leaves its notes behind, including ones the user wrote
+    const role = await getWorkspaceRole(note.workspace_id, userId);
+    if (role) {
+      return role === 'viewer' ? 'read' : 'owner';
+    }
+  } else if (note.user_id === userId) {
+    return 'owner';
+  }
+
+  if (note.deleted_at) {
+    return null;
+  }
+
+  let folderIds: string[] = [];
+  if (note.folder_id) {
+    const ownerFolders = await db.select({ id: foldersTable.id, parent_folder_id: foldersTable.parent_folder_id })
+      .from(foldersTable)
+      .where(inSpace(foldersTable, note.user_id, note.workspace_id))
+      .execute();
+
+    folderIds = collectFolderAncestors(ownerFolders, note.folder_id).map(folder => folder.id);
+  }
+
+  const shares = await db.select({ permission: sharesTable.permission })
+    .from(sharesTable)
+    .where(and(
+      eq(sharesTable.grantee_id, userId),
+      folderIds.length > 0
+        ? or(eq(sharesTable.note_id, note.id), inArray(sharesTable.folder_id, folderIds))
+        : eq(sharesTable.note_id, note.id)
+    ))
+    .execute();
+
+  return strongestPermission(shares.map(share => share.permission));
+}
+
+// Like assertOwnership, but also lets in users the note is shared with at
+// the required level
+export async function assertNoteAccess<T extends AccessibleNote>(
+  note: T | undefined,
+  userId: string,
+  required: SharePermission
+): Promise<T> {
+  if (!note) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Note not found' });
+  }
+
+  const access = await getNoteAccess(note, userId);
+  if (!access) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Note does not belong to user' });
+  }
+
+  if (!allows(access, required)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Note is shared with ${access} access only` });
+  }
+
+  return note;
+}
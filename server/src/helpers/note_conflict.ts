@@ -0,0 +1,16 @@
+import { TRPCError } from '@trpc/server';
+import { type Note } from '../schema';
+
+// Cause of the CONFLICT error updateNote throws for a stale write; the
+// router's error formatter passes the server copy on to the client
+export class NoteConflictError extends Error {
+  constructor(readonly currentNote: Note) {
+    super('Note was changed since it was loaded');
+    this.name = 'NoteConflictError';
+  }
+}
+
+export function noteConflict(currentNote: Note): TRPCError {
+  const cause = new NoteConflictError(currentNote);
+  return new TRPCError({ code: 'CONFLICT', message: cause.message, cause });
+}
@@ -0,0 +1,76 @@
+// Markdown files for exported notes: a YAML front matter block with the
+// note's metadata, followed by the content as written.
+
+export interface NoteFrontMatter {
+  title: string;
+  tags: string[]; // Tag paths, e.g. "project/alpha"
+  favorite: boolean;
+  created: Date;
+  updated: Date;
+}
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+// JSON strings are valid double-quoted YAML scalars, escapes included
+const yamlString = (value: string): string => JSON.stringify(value);
+
+export function renderNoteMarkdown(frontMatter: NoteFrontMatter, content: string): string {
+  const tags = frontMatter.tags.length > 0
+    ? '\n' + frontMatter.tags.map(tag => `  - ${yamlString(tag)}`).join('\n')
+    : ' []';
+
+  return [
+    '---',
+    `title: ${yamlString(frontMatter.title)}`,
+    `tags:${tags}`,
+    `favorite: ${frontMatter.favorite}`,
+    `created: ${frontMatter.created.toISOString()}`,
+    `updated: ${frontMatter.updated.toISOString()}`,
+    '---',
+    '',
+    content
+  ].join('\n');
+}
+
+// A file or directory name that is valid on Windows, macOS and Linux
+export function toFileName(name: string): string {
+  const safe = name
+    .replace(/[\p{Cc}/\\:*?"<>|]/gu, '-')
+    .trim()
+    .replace(/[. ]+$/, '')
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim();
+
+  return safe && !/^\.+$/.test(safe) ? safe : 'Untitled';
+}
+
+// Hands out archive paths, numbering repeats: "Notes.md", "Notes (2).md", ...
+// Names are compared case-insensitively since many file systems do too.
+export function createPathAllocator() {
+  const taken = new Set<string>();
+
+  return (dir: string, name: string, extension = ''): string => {
+    const prefix = dir ? `${dir}/` : '';
+    let candidate = `${prefix}${name}${extension}`;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+      candidate = `${prefix}${name} (${n})${extension}`;
+    }
+
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  };
+}
+
+// Points attachment links in the content, e.g. ![photo](/api/attachments/<id>),
+// at the exported copy of the file instead
+export function rewriteAttachmentLinks(content: string, links: Map<string, string>): string {
+  return content.replace(/\]\((?:[^)\s]*\/)?attachments\/([\w-]+)\)/g, (match, id: string) => {
+    const target = links.get(id);
+    return target ? `](${target})` : match;
+  });
+}
+
+// The attachment id in a link the editor inserts for an uploaded file
+export function getAttachmentId(url: string): string | null {
+  return /(?:^|\/)attachments\/([\w-]+)$/.exec(url)?.[1] ?? null;
+}
@@ -0,0 +1,187 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { notesTable, noteTagsTable, tagsTable, foldersTable } from '../db/schema';
+import { type GetUserNotesInput } from '../schema';
+import { toNoteSearchQuery, matchesNoteSearch } from './note_search';
+import { inSpace } from './workspaces';
+import { collectTagSubtree, getTagPath } from './tag_tree';
+import { parseSearchQuery, SearchQueryError, type SearchClause, type SearchTerm } from './search_query';
+import { eq, and, or, not, exists, inArray, isNull, isNotNull, gte, lt, sql, type SQL } from 'drizzle-orm';
+
+// Matches notes carrying at least one of the tags
+const hasAnyTag = (tagIds: string[]): SQL =>
+  exists(
+    db.select({ note_id: noteTagsTable.note_id })
+      .from(noteTagsTable)
+      .where(and(eq(noteTagsTable.note_id, notesTable.id), inArray(noteTagsTable.tag_id, tagIds)))
+  );
+
+export interface CompiledNoteSearch {
+  condition: SQL;
+  // Full-text query of the words and phrases being looked for, for ranking
+  // and highlighting; empty when the search only uses filters
+  rankQuery: SQL;
+}
+
+const quoteTerm = (term: Extract<SearchTerm, { type: 'text' }>): string =>
+  term.phrase ? `"${term.text}"` : term.text;
+
+// parseSearchQuery for API input: syntax errors become BAD_REQUEST with the parser's message
+export function parseNoteSearch(text: string): SearchClause[][] {
+  try {
+    return parseSearchQuery(text);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
+
+// Compiles the search language of helpers/search_query into a condition on notesTable
+export async function compileNoteSearch(
+  text: string,
+  userId: string,
+  workspaceId: string | null | undefined
+): Promise<CompiledNoteSearch> {
+  const groups = parseNoteSearch(text);
+
+  const clauses = groups.flat();
+  const terms = clauses.map(clause => clause.term);
+
+  // Names are looked up in the space; unknown names simply match nothing
+  const spaceTags = terms.some(term => term.type === 'tag')
+    ? await db.select({ id: tagsTable.id, name: tagsTable.name, parent_tag_id: tagsTable.parent_tag_id })
+      .from(tagsTable)
+      .where(inSpace(tagsTable, userId, workspaceId))
+      .execute()
+    : [];
+
+  const spaceFolders = terms.some(term => term.type === 'folder')
+    ? await db.select({ id: foldersTable.id, name: foldersTable.name })
+      .from(foldersTable)
+      .where(inSpace(foldersTable, userId, workspaceId))
+      .execute()
+    : [];
+
+  // A tag is named by itself or by its path (project/alpha) and stands for its nested tags too
+  const tagIds = (name: string): string[] => spaceTags
+    .filter(tag => [tag.name, getTagPath(spaceTags, tag.id)].some(value => value.toLowerCase() === name.toLowerCase()))
+    .flatMap(tag => collectTagSubtree(spaceTags, tag.id).map(t => t.id));
+
+  const compileClause = ({ negated, term }: SearchClause): SQL => {
+    switch (term.type) {
+      case 'text': {
+        // Stop words on their own ("the") neither narrow nor widen the search
+        const query = term.phrase
+          ? sql`phraseto_tsquery('english', ${term.text})`
+          : sql`plainto_tsquery('english', ${term.text})`;
+        const matches = matchesNoteSearch(query);
+        return sql`(numnode(${query}) = 0 or ${negated ? not(matches) : matches})`;
+      }
+      case 'tag': {
+        const ids = tagIds(term.name);
+        const condition = ids.length > 0 ? hasAnyTag(ids) : sql`false`;
+        return negated ? not(condition) : condition;
+      }
+      case 'folder': {
+        const ids = spaceFolders
+          .filter(folder => folder.name.toLowerCase() === term.name.toLowerCase())
+          .map(folder => folder.id);
+        // Notes outside any folder are never in the named folder
+        const condition = ids.length > 0 ? inArray(notesTable.folder_id, ids) : sql`false`;
+        return negated ? or(isNull(notesTable.folder_id), not(condition))! : condition;
+      }
+      case 'favorite': {
+        return eq(notesTable.is_favorite, !negated);
+      }
+      case 'date': {
+        const column = notesTable[term.field];
+        const condition = and(
+          term.from ? gte(column, term.from) : undefined,
+          term.to ? lt(column, term.to) : undefined
+        ) ?? sql`true`;
+        return negated ? not(condition) : condition;
+      }
+    }
+  };
+
+  const conditions = groups.map(group => or(...group.map(compileClause))!);
+
+  // Like websearch_to_tsquery, a plain-text query made only of stop words matches nothing
+  const textTerms = terms.filter((term): term is Extract<SearchTerm, { type: 'text' }> => term.type === 'text');
+  if (textTerms.length > 0 && textTerms.length === terms.length) {
+    conditions.push(sql`numnode(${toNoteSearchQuery(textTerms.map(quoteTerm).join(' '))}) > 0`);
+  }
+
+  const wanted = clauses
+    .filter(clause => !clause.negated && clause.term.type === 'text')
+    .map(clause => quoteTerm(clause.term as Extract<SearchTerm, { type: 'text' }>));
+
+  return {
+    condition: and(...conditions) ?? sql`true`,
+    rankQuery: toNoteSearchQuery(wanted.join(' or '))
+  };
+}
+
+// WHERE conditions for a getUserNotes filter; saved searches count their
+// notes with the same conditions
+export async function buildNoteConditions(input: GetUserNotesInput): Promise<SQL[]> {
+  const conditions: SQL[] = [];
+
+  // Always filter by the active workspace
+  conditions.push(inSpace(notesTable, input.user_id, input.workspace_id));
+
+  // Trashed notes only show up in the trash view
+  conditions.push(input.trashed ? isNotNull(notesTable.deleted_at) : isNull(notesTable.deleted_at));
+
+  // Filter by folder if specified
+  if (input.folder_id !== undefined) {
+    if (input.folder_id === null) {
+      // Notes not in any folder
+      conditions.push(isNull(notesTable.folder_id));
+    } else {
+      // Notes in specific folder
+      conditions.push(eq(notesTable.folder_id, input.folder_id));
+    }
+  }
+
+  // Filter by favorites if specified
+  if (input.is_favorite !== undefined) {
+    conditions.push(eq(notesTable.is_favorite, input.is_favorite));
+  }
+
+  // Filter by the search language: words, phrases and field operators
+  if (input.search) {
+    conditions.push((await compileNoteSearch(input.search, input.user_id, input.workspace_id)).condition);
+  }
+
+  // Filter by tags; each tag stands for itself plus, if asked, the tags nested below it
+  const includeTagIds = [...(input.include_tag_ids ?? []), ...(input.tag_id ? [input.tag_id] : [])];
+  const excludeTagIds = input.exclude_tag_ids ?? [];
+
+  if (includeTagIds.length > 0 || excludeTagIds.length > 0) {
+    const spaceTags = input.include_descendant_tags
+      ? await db.select({ id: tagsTable.id, parent_tag_id: tagsTable.parent_tag_id })
+        .from(tagsTable)
+        .where(inSpace(tagsTable, input.user_id, input.workspace_id))
+        .execute()
+      : [];
+
+    const expand = (tagId: string): string[] => {
+      const subtree = collectTagSubtree(spaceTags, tagId).map(tag => tag.id);
+      return subtree.length > 0 ? subtree : [tagId];
+    };
+
+    if (includeTagIds.length > 0) {
+      const groups = includeTagIds.map(tagId => hasAnyTag(expand(tagId)));
+      conditions.push(input.tag_match === 'any' ? or(...groups)! : and(...groups)!);
+    }
+
+    if (excludeTagIds.length > 0) {
+      conditions.push(not(hasAnyTag(excludeTagIds.flatMap(expand))));
+    }
+  }
+
+  return conditions;
+}
@@ -0,0 +1,63 @@
+import { renderMarkdown } from './markdown';
+import { escapeHtml } from './public_page';
+import { getAttachmentId } from './note_export';
+
+// Standalone HTML documents for exported notes. Everything the page needs is
+// in the file: styles are inlined and attached images become data URLs, so
+// it can be mailed around and opened offline.
+
+// An attached file to embed, by attachment id
+export interface EmbeddedFile {
+  content_type: string;
+  data: Buffer;
+}
+
+const DOCUMENT_STYLES = `
+  body { margin: 0; background: #ffffff; color: #111827; font: 16px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 760px; margin: 0 auto; padding: 48px 24px; }
+  h1.note-title { font-size: 2rem; line-height: 1.25; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin-bottom: 32px; }
+  .note-content a { color: #6d28d9; }
+  .note-content img { max-width: 100%; }
+  .note-content pre { background: #f3f4f6; padding: 12px; border-radius: 6px; overflow-x: auto; }
+  .note-content code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.9em; }
+  .note-content blockquote { margin: 0; padding-left: 16px; border-left: 4px solid #d1d5db; color: #4b5563; }
+  .note-content table { border-collapse: collapse; }
+  .note-content th, .note-content td { border: 1px solid #d1d5db; padding: 4px 8px; }
+  .note-content .task-list-item { list-style: none; }
+  .note-content hr { border: 0; border-top: 1px solid #e5e7eb; }
+  @media print { main { max-width: none; padding: 0; } .note-content pre { white-space: pre-wrap; } }
+`;
+
+export function renderNoteHtml(
+  note: { title: string; content: string; updated_at: Date },
+  files: Map<string, EmbeddedFile>
+): string {
+  // Images that aren't attachments of the note keep their original address
+  const content = renderMarkdown(note.content).replace(/<img src="([^"]*)"/g, (match, src: string) => {
+    const id = getAttachmentId(src);
+    const file = id ? files.get(id) : undefined;
+    return file ? `<img src="data:${file.content_type};base64,${file.data.toString('base64')}"` : match;
+  });
+
+  // Other notes aren't part of the file, so [[links]] stay plain text
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(note.title)}</title>
+<style>${DOCUMENT_STYLES}</style>
+</head>
+<body>
+<main>
+<h1 class="note-title">${escapeHtml(note.title)}</h1>
+<div class="meta">Last updated ${escapeHtml(note.updated_at.toUTCString())}</div>
+<article class="note-content">
+${content}
+</article>
+</main>
+</body>
+</html>
+`;
+}
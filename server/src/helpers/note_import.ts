@@ -0,0 +1,118 @@
+// Markdown files from other apps, e.g. an Obsidian vault or one of our own
+// exports: an optional YAML front matter block followed by the content.
+
+export interface ParsedNoteMarkdown {
+  title: string | null; // From front matter; the file name is used otherwise
+  tags: string[]; // Tag paths, e.g. "project/alpha"
+  favorite: boolean;
+  content: string;
+}
+
+type FrontMatterValue = string | string[];
+
+const TRUE_VALUES = ['true', 'yes', 'on'];
+
+// Double-quoted YAML scalars are read as JSON strings, single-quoted ones
+// double their quotes; anything else is taken as written
+function parseScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value.replace(/\s+#.*$/, '');
+}
+
+// Only the subset of YAML that front matter uses in practice: top-level
+// "key: value" pairs whose values are scalars, [flow, lists] or "- item" lists
+function parseFrontMatter(lines: string[]): Map<string, FrontMatterValue> {
+  const fields = new Map<string, FrontMatterValue>();
+  let listKey: string | null = null;
+
+  for (const line of lines) {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      const list = fields.get(listKey);
+      fields.set(listKey, [...(Array.isArray(list) ? list : []), parseScalar(item[1])]);
+      continue;
+    }
+
+    const field = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+    if (!field) {
+      continue;
+    }
+
+    const key = field[1].toLowerCase();
+    const value = field[2].trim();
+    listKey = value === '' ? key : null;
+
+    if (value.startsWith('[') && value.endsWith(']')) {
+      fields.set(key, value.slice(1, -1).split(',').map(parseScalar).filter(Boolean));
+    } else {
+      fields.set(key, value === '' ? [] : parseScalar(value));
+    }
+  }
+
+  return fields;
+}
+
+// Tags are written as "#project/alpha" or "project/alpha"; a single string
+// may hold several, separated by commas or spaces
+function toTagPaths(value: FrontMatterValue | undefined): string[] {
+  const values = typeof value === 'string' ? value.split(/[,\s]+/) : value ?? [];
+  const paths = values
+    .map(tag => tag.trim().replace(/^#/, '').split('/').map(name => name.trim()).filter(Boolean).join('/'))
+    .filter(Boolean);
+
+  return [...new Set(paths)];
+}
+
+export function parseNoteMarkdown(text: string): ParsedNoteMarkdown {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let fields = new Map<string, FrontMatterValue>();
+  let contentLines = lines;
+
+  if (lines[0] === '---') {
+    const close = lines.findIndex((line, index) => index > 0 && (line === '---' || line === '...'));
+    if (close > 0) {
+      fields = parseFrontMatter(lines.slice(1, close));
+      contentLines = lines.slice(close + 1);
+      // The blank line separating the front matter from the content
+      if (contentLines[0] === '') {
+        contentLines = contentLines.slice(1);
+      }
+    }
+  }
+
+  const title = fields.get('title');
+  const favorite = fields.get('favorite');
+
+  return {
+    title: typeof title === 'string' && title.trim() ? title.trim() : null,
+    tags: toTagPaths(fields.get('tags') ?? fields.get('tag')),
+    favorite: typeof favorite === 'string' && TRUE_VALUES.includes(favorite.toLowerCase()),
+    content: contentLines.join('\n')
+  };
+}
+
+// Rewrites Obsidian-style links to the [[Title]] form notes link by here:
+// [[folder/Note.md#Heading|label]] becomes [[Note]]. Links to other files,
+// e.g. ![[photo.png]], and links within the same note stay as they are.
+export function convertWikilinks(content: string): string {
+  return content.replace(/\[\[([^[\]\n]+)\]\]/g, (link: string, target: string) => {
+    const path = target.split('|')[0].split('#')[0];
+    const name = path.split('/').pop()!.trim();
+    if (/\.(?!md$)[a-z0-9]{1,5}$/i.test(name)) {
+      return link;
+    }
+
+    const title = name.replace(/\.md$/i, '').trim();
+    return title ? `[[${title}]]` : link;
+  });
+}
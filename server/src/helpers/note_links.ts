@@ -0,0 +1,177 @@
+import { db, type DbExecutor } from '../db';
+import { notesTable, noteLinksTable, type Note } from '../db/schema';
+import { extractWikilinkTitles, normalizeLinkTitle, renameWikilinks } from './wikilinks';
+import { inSpace } from './workspaces';
+import { recordNoteRevision } from './note_revisions';
+import { eq, ne, and, or, like, ilike, isNull, inArray, asc, sql, getTableColumns } from 'drizzle-orm';
+
+type LinkableNote = Pick<Note, 'id' | 'user_id' | 'workspace_id' | 'title' | 'content' | 'markdown_content'>;
+
+const linkableColumns = {
+  id: notesTable.id,
+  user_id: notesTable.user_id,
+  workspace_id: notesTable.workspace_id,
+  title: notesTable.title,
+  content: notesTable.content,
+  markdown_content: notesTable.markdown_content
+};
+
+const linkedText = (note: LinkableNote): string =>
+  `${note.content}\n${note.markdown_content ?? ''}`;
+
+const escapeLikePattern = (text: string): string =>
+  text.replace(/[\\%_]/g, char => `\\${char}`);
+
+// Rebuilds the outgoing links of a note from the [[Title]] references in its
+// text. Titles resolve to notes of the same space outside the trash; when several
+// notes share a title the oldest one wins.
+export async function syncNoteLinks(note: LinkableNote, executor: DbExecutor = db): Promise<void> {
+  await executor.delete(noteLinksTable)
+    .where(eq(noteLinksTable.source_note_id, note.id))
+    .execute();
+
+  const titles = extractWikilinkTitles(linkedText(note)).map(normalizeLinkTitle);
+  if (titles.length === 0) {
+    return;
+  }
+
+  const candidates = await executor.select({ id: notesTable.id, title: notesTable.title })
+    .from(notesTable)
+    .where(and(
+      inSpace(notesTable, note.user_id, note.workspace_id),
+      isNull(notesTable.deleted_at),
+      ne(notesTable.id, note.id),
+      inArray(sql`lower(trim(${notesTable.title}))`, titles)
+    ))
+    .orderBy(asc(notesTable.created_at))
+    .execute();
+
+  const targetIds = new Map<string, string>();
+  for (const candidate of candidates) {
+    const key = normalizeLinkTitle(candidate.title);
+    if (!targetIds.has(key)) {
+      targetIds.set(key, candidate.id);
+    }
+  }
+
+  if (targetIds.size === 0) {
+    return;
+  }
+
+  await executor.insert(noteLinksTable)
+    .values([...targetIds.values()].map(targetId => ({
+      source_note_id: note.id,
+      target_note_id: targetId
+    })))
+    .onConflictDoNothing()
+    .execute();
+}
+
+// Links notes that already mention [[title]] of a newly created or renamed
+// note, so references written before the target existed start working
+export async function linkNotesReferencingTitle(note: LinkableNote, executor: DbExecutor = db): Promise<void> {
+  const key = normalizeLinkTitle(note.title);
+  const pattern = `%[[%${escapeLikePattern(note.title.trim())}%]]%`;
+
+  const candidates = await executor.select(linkableColumns)
+    .from(notesTable)
+    .where(and(
+      inSpace(notesTable, note.user_id, note.workspace_id),
+      isNull(notesTable.deleted_at),
+      ne(notesTable.id, note.id),
+      or(
+        ilike(notesTable.content, pattern),
+        ilike(notesTable.markdown_content, pattern)
+      )
+    ))
+    .execute();
+
+  for (const candidate of candidates) {
+    const titles = extractWikilinkTitles(linkedText(candidate));
+    if (titles.some(title => normalizeLinkTitle(title) === key)) {
+      await syncNoteLinks(candidate, executor);
+    }
+  }
+}
+
+// Links a batch of notes added together, such as an import, once they are
+// all in: their own [[Title]] references, and notes already in the space that
+// mention one of their titles. Those are found in one pass over the space
+// rather than a title search per added note.
+export async function linkAddedNotes(notes: LinkableNote[], executor: DbExecutor = db): Promise<void> {
+  if (notes.length === 0) {
+    return;
+  }
+
+  for (const note of notes) {
+    await syncNoteLinks(note, executor);
+  }
+
+  const addedIds = new Set(notes.map(note => note.id));
+  const addedTitles = new Set(notes.map(note => normalizeLinkTitle(note.title)));
+  const candidates = await executor.select(linkableColumns)
+    .from(notesTable)
+    .where(and(
+      inSpace(notesTable, notes[0].user_id, notes[0].workspace_id),
+      isNull(notesTable.deleted_at),
+      or(
+        like(notesTable.content, '%[[%'),
+        like(notesTable.markdown_content, '%[[%')
+      )
+    ))
+    .execute();
+
+  for (const candidate of candidates) {
+    if (addedIds.has(candidate.id)) {
+      continue;
+    }
+
+    const titles = extractWikilinkTitles(linkedText(candidate));
+    if (titles.some(title => addedTitles.has(normalizeLinkTitle(title)))) {
+      await syncNoteLinks(candidate, executor);
+    }
+  }
+}
+
+// Rewrites [[Old Title]] in every note linking to a renamed note. Each
+// rewrite keeps the previous text as a revision and moves updated_at, so an
+// editor that still has the old text open gets a CONFLICT instead of saving
+// the old link back.
+export async function propagateNoteRename(note: LinkableNote, oldTitle: string): Promise<void> {
+  const sources = await db.select(getTableColumns(notesTable))
+    .from(notesTable)
+    .innerJoin(noteLinksTable, eq(noteLinksTable.source_note_id, notesTable.id))
+    .where(eq(noteLinksTable.target_note_id, note.id))
+    .execute();
+
+  for (const source of sources) {
+    const content = renameWikilinks(source.content, oldTitle, note.title);
+    const markdownContent = source.markdown_content === null
+      ? null
+      : renameWikilinks(source.markdown_content, oldTitle, note.title);
+
+    if (content === source.content && markdownContent === source.markdown_content) {
+      continue;
+    }
+
+    await recordNoteRevision(source, { force: true });
+    await db.update(notesTable)
+      .set({ content, markdown_content: markdownContent, updated_at: new Date() })
+      .where(eq(notesTable.id, source.id))
+      .execute();
+  }
+}
+
+// Brings links up to date after a note's title or text was overwritten.
+// Titles match case-insensitively, so a rename that only changes case or
+// surrounding spaces leaves other notes alone.
+export async function refreshNoteLinks(previous: LinkableNote, updated: LinkableNote): Promise<void> {
+  if (normalizeLinkTitle(updated.title) !== normalizeLinkTitle(previous.title)) {
+    await propagateNoteRename(updated, previous.title);
+    await linkNotesReferencingTitle(updated);
+  }
+
+  if (updated.content !== previous.content || updated.markdown_content !== previous.markdown_content) {
+    await syncNoteLinks(updated);
+  }
+}
@@ -0,0 +1,73 @@
+import { TRPCError } from '@trpc/server';
+import { notesTable } from '../db/schema';
+import { type Note, type NoteSortKey, type SortDirection } from '../schema';
+import { sql, type SQL } from 'drizzle-orm';
+
+// Cursors are opaque to clients: the sort key and the last note's sort value
+// and id, since several notes can share a sort value
+interface NoteCursor {
+  sort: NoteSortKey;
+  value: string | number;
+  id: string;
+}
+
+// Timestamps are compared at millisecond precision, the precision a cursor
+// can carry through a JavaScript Date
+const sortExpressions: Record<NoteSortKey, SQL> = {
+  updated: sql`date_trunc('milliseconds', ${notesTable.updated_at})`,
+  created: sql`date_trunc('milliseconds', ${notesTable.created_at})`,
+  title: sql`${notesTable.title}`,
+  manual: sql`${notesTable.position}`
+};
+
+export const defaultSortDirection = (sort: NoteSortKey): SortDirection =>
+  sort === 'updated' || sort === 'created' ? 'desc' : 'asc';
+
+export function noteSortOrder(sort: NoteSortKey, direction: SortDirection): SQL[] {
+  return direction === 'asc'
+    ? [sql`${sortExpressions[sort]} asc`, sql`${notesTable.id} asc`]
+    : [sql`${sortExpressions[sort]} desc`, sql`${notesTable.id} desc`];
+}
+
+function sortValue(note: Note, sort: NoteSortKey): string | number {
+  switch (sort) {
+    case 'updated': return note.updated_at.toISOString();
+    case 'created': return note.created_at.toISOString();
+    case 'title': return note.title;
+    case 'manual': return note.position;
+  }
+}
+
+export function encodeNoteCursor(note: Note, sort: NoteSortKey): string {
+  const cursor: NoteCursor = { sort, value: sortValue(note, sort), id: note.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Matches the notes that come after the cursor in the given order
+export function afterNoteCursor(encoded: string, sort: NoteSortKey, direction: SortDirection): SQL {
+  let cursor: NoteCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+
+  const expectedType = sort === 'manual' ? 'number' : 'string';
+  if (cursor?.sort !== sort || typeof cursor.value !== expectedType || typeof cursor.id !== 'string') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+  }
+
+  let value = sql`${cursor.value}`;
+  if (sort === 'updated' || sort === 'created') {
+    // Checked here, or a forged value fails inside Postgres instead
+    const date = new Date(cursor.value);
+    if (isNaN(date.getTime())) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' });
+    }
+    value = sql`${date.toISOString()}::timestamp`;
+  }
+  const expression = sortExpressions[sort];
+  const op = direction === 'asc' ? sql.raw('>') : sql.raw('<');
+
+  return sql`(${expression} ${op} ${value} or (${expression} = ${value} and ${notesTable.id} ${op} ${cursor.id}))`;
+}
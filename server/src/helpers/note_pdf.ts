@@ -0,0 +1,476 @@
+import PDFDocument from 'pdfkit';
+import { inflateSync } from 'zlib';
+import { fileURLToPath } from 'url';
+import { parseMarkdown, type MarkdownToken } from './markdown';
+import { getAttachmentId } from './note_export';
+import { type EmbeddedFile } from './note_html';
+
+// Lays a note out as an A4 PDF from its markdown tokens: headings, paragraphs
+// with bold, italic, code and links, lists, quotes, code blocks, tables and
+// the note's attached images. PDFKit writes the file; text is set in the
+// DejaVu fonts, which it embeds with just the glyphs the note uses and which
+// cover Latin, Greek, Cyrillic and most symbols. Remote images aren't
+// fetched; like images in unsupported formats they show as their alt text.
+
+type PdfFont = 'regular' | 'bold' | 'italic' | 'boldItalic' | 'mono';
+
+const FONT_FILES: Record<PdfFont, string> = {
+  regular: 'DejaVuSans',
+  bold: 'DejaVuSans-Bold',
+  italic: 'DejaVuSans-Oblique',
+  boldItalic: 'DejaVuSans-BoldOblique',
+  mono: 'DejaVuSansMono'
+};
+
+const MARGIN = 56;
+const BODY_SIZE = 11;
+const TITLE_SIZE = 22;
+const META_SIZE = 9;
+const CODE_SIZE = 9.5;
+// Space added between wrapped lines, as a share of the font size
+const LINE_GAP = 0.3;
+const HEADING_SIZES = [20, 16, 14, 12, 12, 12];
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CELL_PADDING = 4;
+const IMAGE_SPACING = 6;
+// Images are sized as a browser would show them at 96 dpi
+const POINTS_PER_PIXEL = 0.75;
+
+// Images are decoded to raw pixels, so larger ones are left out rather than
+// risk running out of memory; they show as their alt text like other images
+// that can't be embedded
+const MAX_IMAGE_PIXELS = 20_000_000;
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const LINK_COLOR = '#6d28d9';
+const RULE_COLOR = '#d1d5db';
+const SHADE_COLOR = '#f3f4f6';
+
+// An image PDFKit has read the header of; PNGs keep their compressed pixels
+interface PdfImage {
+  width: number;
+  height: number;
+  imgData?: Buffer;
+}
+
+// PDFKit opens an image once to draw it as often as needed, but its type
+// definitions only cover drawing straight from the file data
+type ImageDocument = PDFKit.PDFDocument & {
+  openImage(data: Buffer): PdfImage;
+  image(image: PdfImage, x: number, y: number, options: PDFKit.Mixins.ImageOption): PDFKit.PDFDocument;
+};
+
+interface Run {
+  text: string;
+  font: PdfFont;
+  size: number;
+  color: string;
+  link: string | null;
+  strike: boolean;
+}
+
+type InlineItem = Run | { image: string; alt: string };
+
+const fontPath = (font: PdfFont): string =>
+  fileURLToPath(import.meta.resolve(`dejavu-fonts-ttf/ttf/${FONT_FILES[font]}.ttf`));
+
+const pickFont = (bold: boolean, italic: boolean): PdfFont =>
+  bold ? (italic ? 'boldItalic' : 'bold') : italic ? 'italic' : 'regular';
+
+// Only links a reader can follow from the file become clickable
+const isExternalUrl = (url: string): boolean => /^(https?|mailto):/i.test(url);
+
+// Inline tokens as styled runs; size and base weight come from the block
+function collectInline(children: MarkdownToken[], size: number, baseBold = false): InlineItem[] {
+  const items: InlineItem[] = [];
+  let bold = baseBold;
+  let italic = false;
+  let strike = false;
+  let link: string | null = null;
+
+  const push = (text: string, font: PdfFont = pickFont(bold, italic), runSize = size) => {
+    items.push({ text, font, size: runSize, color: link ? LINK_COLOR : TEXT_COLOR, link, strike });
+  };
+
+  for (const child of children) {
+    switch (child.type) {
+      case 'text':
+      case 'wikilink':
+        push(child.content);
+        break;
+      case 'code_inline':
+        push(child.content, 'mono', size * 0.95);
+        break;
+      case 'softbreak':
+      case 'hardbreak':
+        push('\n');
+        break;
+      case 'strong_open':
+      case 'strong_close':
+        bold = child.type === 'strong_open' || baseBold;
+        break;
+      case 'em_open':
+      case 'em_close':
+        italic = child.type === 'em_open';
+        break;
+      case 's_open':
+      case 's_close':
+        strike = child.type === 's_open';
+        break;
+      case 'link_open':
+        link = child.attrGet('href');
+        break;
+      case 'link_close':
+        link = null;
+        break;
+      case 'image':
+        items.push({ image: child.attrGet('src') ?? '', alt: child.content });
+        break;
+      case 'html_inline':
+        // Task list checkboxes, the only HTML the renderer produces
+        if (child.content.includes('task-list-item-checkbox')) {
+          push(child.content.includes('checked') ? '[x] ' : '[ ] ', 'mono');
+        }
+        break;
+      case 'footnote_ref':
+        push(`[${(child.meta?.id ?? 0) + 1}]`, pickFont(bold, italic), size * 0.8);
+        break;
+    }
+  }
+
+  return items;
+}
+
+const altText = (alt: string): Run =>
+  ({ text: `[${alt || 'image'}]`, font: 'italic', size: BODY_SIZE, color: MUTED_COLOR, link: null, strike: false });
+
+const plainText = (items: InlineItem[]): string =>
+  items.map(item => 'image' in item ? altText(item.alt).text : item.text).join('');
+
+export function renderNotePdf(
+  note: { title: string; content: string; updated_at: Date },
+  files: Map<string, EmbeddedFile>
+): Promise<Buffer> {
+  // Pages stay open until the end so quote bars can be drawn down every page
+  // a quote runs over
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    font: fontPath('regular'),
+    info: { Title: note.title }
+  }) as ImageDocument;
+  (Object.keys(FONT_FILES) as PdfFont[]).forEach(font => doc.registerFont(font, fontPath(font)));
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = MARGIN;
+  const right = doc.page.width - MARGIN;
+  const bottom = doc.page.height - MARGIN;
+
+  let pageIndex = 0;
+  doc.on('pageAdded', () => pageIndex++);
+
+  let indent = 0;
+  const quotes: { x: number; page: number; top: number }[] = [];
+
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > bottom && doc.y > MARGIN) {
+      doc.addPage();
+    }
+  };
+
+  const gap = (height: number) => {
+    if (doc.y > MARGIN) {
+      doc.y += height;
+    }
+  };
+
+  const rule = (x1: number, y1: number, x2: number, y2: number, width = 0.7) => {
+    doc.save().moveTo(x1, y1).lineTo(x2, y2).lineWidth(width).strokeColor(RULE_COLOR).stroke().restore();
+  };
+
+  const opened = new Map<string, PdfImage | null>();
+  const openImage = (data: Buffer): PdfImage | null => {
+    try {
+      const image = doc.openImage(data);
+      if (image.width * image.height > MAX_IMAGE_PIXELS) {
+        return null;
+      }
+      // PNG pixels are inflated when embedded: make sure they stop at what
+      // the dimensions allow (16-bit RGBA plus the filter bytes of each row)
+      if (image.imgData) {
+        inflateSync(image.imgData, { maxOutputLength: image.height * (image.width * 8 + 2) + 7 });
+      }
+      return image;
+    } catch {
+      // Corrupt and unsupported images are left out
+      return null;
+    }
+  };
+
+  const resolveImage = (src: string): PdfImage | null => {
+    const id = getAttachmentId(src);
+    const file = id ? files.get(id) : undefined;
+    if (!id || !file) {
+      return null;
+    }
+    if (!opened.has(id)) {
+      opened.set(id, openImage(file.data));
+    }
+    return opened.get(id) ?? null;
+  };
+
+  const drawImage = (image: PdfImage, x: number, width: number) => {
+    let imageWidth = Math.min(image.width * POINTS_PER_PIXEL, width);
+    let imageHeight = (image.height * imageWidth) / image.width;
+    const maxHeight = bottom - MARGIN - IMAGE_SPACING;
+    if (imageHeight > maxHeight) {
+      imageWidth *= maxHeight / imageHeight;
+      imageHeight = maxHeight;
+    }
+
+    ensureSpace(imageHeight);
+    const top = doc.y;
+    doc.image(image, x, top, { width: imageWidth, height: imageHeight });
+    doc.y = top + imageHeight + IMAGE_SPACING;
+  };
+
+  // Runs flow as one paragraph, wrapped by PDFKit. Each line break starts a
+  // new text call, since PDFKit ignores breaks at the end of a continued run.
+  const writeRuns = (runs: Run[], x: number, width: number) => {
+    const lines: Run[][] = [[]];
+    for (const run of runs) {
+      run.text.split('\n').forEach((text, index) => {
+        if (index > 0) {
+          lines.push([]);
+        }
+        if (text) {
+          lines[lines.length - 1].push({ ...run, text });
+        }
+      });
+    }
+
+    for (const line of lines) {
+      if (line.length === 0) {
+        doc.font('regular').fontSize(BODY_SIZE).moveDown();
+        continue;
+      }
+      line.forEach((run, index) => {
+        const link = run.link && isExternalUrl(run.link) ? run.link : null;
+        doc.font(run.font).fontSize(run.size).fillColor(run.color);
+        const options = { width, lineGap: run.size * LINE_GAP, link, strike: run.strike, continued: index < line.length - 1 };
+        if (index === 0) {
+          doc.text(run.text, x, doc.y, options);
+        } else {
+          doc.text(run.text, options);
+        }
+      });
+    }
+  };
+
+  // One block of inline items; attached images break the text around them
+  // and the list marker goes left of the first line
+  const writeBlock = (items: InlineItem[], marker: string | null = null) => {
+    const x = left + indent;
+    const width = right - x;
+    let runs: Run[] = [];
+
+    if (marker) {
+      const size = items.find((item): item is Run => !('image' in item))?.size ?? BODY_SIZE;
+      ensureSpace(size * (1 + LINE_GAP));
+      const top = doc.y;
+      doc.font('regular').fontSize(size).fillColor(TEXT_COLOR);
+      doc.text(marker, x - doc.widthOfString(marker) - 5, top, { lineBreak: false });
+      doc.y = top;
+    }
+
+    for (const item of items) {
+      if (!('image' in item)) {
+        runs.push(item);
+        continue;
+      }
+
+      const image = resolveImage(item.image);
+      if (!image) {
+        runs.push(altText(item.alt));
+        continue;
+      }
+      if (runs.some(run => run.text.trim())) {
+        writeRuns(runs, x, width);
+      }
+      runs = [];
+      drawImage(image, x, width);
+    }
+
+    if (runs.some(run => run.text.trim())) {
+      writeRuns(runs, x, width);
+    }
+  };
+
+  const drawCodeBlock = (code: string) => {
+    const x = left + indent;
+    const lineHeight = CODE_SIZE * 1.4;
+    doc.font('mono').fontSize(CODE_SIZE).fillColor(TEXT_COLOR);
+    const perLine = Math.max(1, Math.floor((right - x - 2 * CELL_PADDING) / doc.widthOfString(' ')));
+
+    const lines = code.replace(/\n$/, '').replace(/\t/g, '    ').split('\n').flatMap(line => {
+      const chars = Array.from(line);
+      const parts: string[] = [];
+      for (let start = 0; start < chars.length; start += perLine) {
+        parts.push(chars.slice(start, start + perLine).join(''));
+      }
+      return parts.length > 0 ? parts : [''];
+    });
+
+    ensureSpace(CELL_PADDING + lineHeight);
+    doc.rect(x, doc.y, right - x, CELL_PADDING).fill(SHADE_COLOR);
+    let top = doc.y + CELL_PADDING;
+    for (const line of lines) {
+      if (top + lineHeight > bottom) {
+        doc.addPage();
+        top = MARGIN;
+      }
+      doc.rect(x, top, right - x, lineHeight).fill(SHADE_COLOR);
+      doc.fillColor(TEXT_COLOR).text(line, x + CELL_PADDING, top + (lineHeight - CODE_SIZE) / 2, { lineBreak: false });
+      top += lineHeight;
+    }
+    doc.rect(x, top, right - x, CELL_PADDING).fill(SHADE_COLOR);
+    doc.y = top + CELL_PADDING;
+  };
+
+  const drawTable = (rows: { text: string; header: boolean }[][]) => {
+    const x = left + indent;
+    doc.font('regular').fontSize(BODY_SIZE).fillColor(TEXT_COLOR);
+    doc.table({
+      position: { x, y: doc.y },
+      maxWidth: right - x,
+      defaultStyle: { border: 0.7, borderColor: RULE_COLOR, padding: CELL_PADDING },
+      data: rows.map(row => row.map(cell => cell.header
+        ? { text: cell.text, font: { src: 'bold' }, backgroundColor: SHADE_COLOR }
+        : { text: cell.text }))
+    });
+  };
+
+  // Each page a quote covers gets its part of the bar
+  const closeQuote = () => {
+    const quote = quotes.pop();
+    if (!quote) {
+      return;
+    }
+    const end = doc.y;
+    for (let page = quote.page; page <= pageIndex; page++) {
+      doc.switchToPage(page);
+      rule(quote.x, page === quote.page ? quote.top : MARGIN, quote.x, page === pageIndex ? end : bottom, 3);
+    }
+    doc.y = end;
+  };
+
+  // Title and date, as on public pages
+  writeBlock([{ text: note.title, font: 'bold', size: TITLE_SIZE, color: TEXT_COLOR, link: null, strike: false }]);
+  writeBlock([{ text: `Last updated ${note.updated_at.toUTCString()}`, font: 'regular', size: META_SIZE, color: MUTED_COLOR, link: null, strike: false }]);
+  gap(8);
+  rule(left, doc.y, right, doc.y);
+  gap(16);
+
+  const tokens = parseMarkdown(note.content);
+  const lists: { ordered: boolean; next: number }[] = [];
+  let headingLevel = 0;
+  let marker: string | null = null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    switch (token.type) {
+      case 'heading_open':
+        headingLevel = Number(token.tag.slice(1));
+        gap(headingLevel <= 2 ? 10 : 6);
+        break;
+      case 'heading_close':
+        headingLevel = 0;
+        gap(6);
+        break;
+      case 'inline': {
+        const size = headingLevel ? HEADING_SIZES[headingLevel - 1] : BODY_SIZE;
+        writeBlock(collectInline(token.children ?? [], size, headingLevel > 0), marker);
+        marker = null;
+        break;
+      }
+      case 'paragraph_close':
+        // Paragraphs of tight lists are hidden and sit closer together
+        gap(token.hidden ? 2 : 8);
+        break;
+      case 'bullet_list_open':
+      case 'ordered_list_open':
+        lists.push({ ordered: token.type === 'ordered_list_open', next: Number(token.attrGet('start') ?? 1) });
+        indent += LIST_INDENT;
+        break;
+      case 'bullet_list_close':
+      case 'ordered_list_close':
+        lists.pop();
+        indent -= LIST_INDENT;
+        if (lists.length === 0) {
+          gap(6);
+        }
+        break;
+      case 'list_item_open': {
+        const list = lists[lists.length - 1];
+        marker = list?.ordered ? `${list.next++}.` : '•';
+        break;
+      }
+      case 'blockquote_open':
+        quotes.push({ x: left + indent + 1.5, page: pageIndex, top: doc.y });
+        indent += QUOTE_INDENT;
+        break;
+      case 'blockquote_close':
+        closeQuote();
+        indent -= QUOTE_INDENT;
+        gap(6);
+        break;
+      case 'fence':
+      case 'code_block':
+        drawCodeBlock(token.content);
+        gap(10);
+        break;
+      case 'hr':
+      case 'footnote_block_open':
+        ensureSpace(16);
+        rule(left + indent, doc.y + 8, right, doc.y + 8);
+        doc.y += 16;
+        break;
+      case 'footnote_open':
+        marker = `${(token.meta?.id ?? 0) + 1}.`;
+        indent += LIST_INDENT;
+        break;
+      case 'footnote_close':
+        indent -= LIST_INDENT;
+        break;
+      case 'table_open': {
+        const rows: { text: string; header: boolean }[][] = [];
+        for (i++; i < tokens.length && tokens[i].type !== 'table_close'; i++) {
+          const cell = tokens[i];
+          if (cell.type === 'tr_open') {
+            rows.push([]);
+          } else if (cell.type === 'inline' && rows.length > 0) {
+            rows[rows.length - 1].push({ text: plainText(collectInline(cell.children ?? [], BODY_SIZE)), header: tokens[i - 1].type === 'th_open' });
+          }
+        }
+        if (rows.length > 0) {
+          drawTable(rows);
+        }
+        gap(10);
+        break;
+      }
+    }
+  }
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { notesTable } from '../db/schema';
+import { sql, type SQL } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Numbers the matching notes 1, 2, 3... in their current manual order, with
+// ties broken by id, in a single statement
+export async function renumberNotePositions(tx: Transaction, condition: SQL): Promise<void> {
+  await tx.execute(sql`
+    update ${notesTable} set position = ordered.rank
+    from (
+      select id, row_number() over (order by position, id) as rank
+      from ${notesTable}
+      where ${condition}
+    ) ordered
+    where ${notesTable.id} = ordered.id
+  `);
+}
+
+// Brings notes from before notes_position_seq up to date: they all started at
+// position 0, so any space with notes sharing a position is numbered once in
+// its current order, and the sequence is moved past the highest position so
+// new notes still land last. Runs at startup and does nothing the second time.
+export async function backfillNotePositions(): Promise<void> {
+  await db.transaction(async tx => {
+    const tied = await tx.select({ position: notesTable.position })
+      .from(notesTable)
+      .groupBy(notesTable.user_id, notesTable.workspace_id, notesTable.position)
+      .having(sql`count(*) > 1`)
+      .limit(1)
+      .execute();
+
+    if (tied.length > 0) {
+      await renumberNotePositions(tx, sql`true`);
+    }
+
+    await tx.execute(sql`
+      select setval('notes_position_seq', maxima.position)
+      from (select max(${notesTable.position}) as position from ${notesTable}) maxima
+      where maxima.position >= (select last_value from notes_position_seq)
+    `);
+  });
+}
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { noteRevisionsTable, type Note } from '../db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+// Autosave fires every couple of seconds, so snapshots taken within this
+// window of the previous one are skipped. Configurable through
+// NOTE_REVISION_INTERVAL_SECONDS (defaults to 5 minutes).
+const getRevisionIntervalMs = (): number =>
+  Number(process.env['NOTE_REVISION_INTERVAL_SECONDS'] || 300) * 1000;
+
+// Snapshot the note's current text before it gets overwritten. Pass force to
+// bypass coalescing, e.g. before a restore so that it can be undone.
+export async function recordNoteRevision(note: Note, options: { force?: boolean } = {}): Promise<void> {
+  if (!options.force) {
+    const latest = await db.select({ created_at: noteRevisionsTable.created_at })
+      .from(noteRevisionsTable)
+      .where(eq(noteRevisionsTable.note_id, note.id))
+      .orderBy(desc(noteRevisionsTable.created_at))
+      .limit(1)
+      .execute();
+
+    if (latest.length > 0 && Date.now() - latest[0].created_at.getTime() < getRevisionIntervalMs()) {
+      return;
+    }
+  }
+
+  await db.insert(noteRevisionsTable)
+    .values({
+      id: randomUUID(),
+      note_id: note.id,
+      title: note.title,
+      content: note.content,
+      markdown_content: note.markdown_content
+    })
+    .execute();
+}
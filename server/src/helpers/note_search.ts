@@ -0,0 +1,57 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { notesTable } from '../db/schema';
+import { type HighlightSegment } from '../schema';
+
+// Control characters mark matches in ts_headline output so that note text
+// never has to be treated as HTML
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+const TITLE_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Parses web-search syntax: "quoted phrases", -excluded terms and OR
+export function toNoteSearchQuery(text: string): SQL {
+  return sql`websearch_to_tsquery('english', ${text})`;
+}
+
+export function matchesNoteSearch(query: SQL): SQL {
+  return sql`${notesTable.search_vector} @@ ${query}`;
+}
+
+export function noteSearchRank(query: SQL): SQL<number> {
+  return sql<number>`ts_rank(${notesTable.search_vector}, ${query})`;
+}
+
+export function noteTitleHeadline(query: SQL): SQL<string> {
+  return sql<string>`ts_headline('english', ${notesTable.title}, ${query}, ${TITLE_HEADLINE_OPTIONS})`;
+}
+
+export function noteSnippetHeadline(query: SQL): SQL<string> {
+  return sql<string>`ts_headline('english', ${notesTable.content}, ${query}, ${SNIPPET_HEADLINE_OPTIONS})`;
+}
+
+// Splits ts_headline output into plain and highlighted segments
+export function parseHeadline(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+  let text = '';
+
+  for (const char of headline) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_STOP) {
+      if (text) {
+        segments.push({ text, highlighted });
+      }
+      highlighted = char === HIGHLIGHT_START;
+      text = '';
+    } else {
+      text += char;
+    }
+  }
+
+  if (text) {
+    segments.push({ text, highlighted });
+  }
+
+  return segments;
+}
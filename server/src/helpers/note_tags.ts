@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { noteTagsTable, tagsTable } from '../db/schema';
+import { type Note, type NoteWithTags, type Tag } from '../schema';
+import { eq, inArray, getTableColumns } from 'drizzle-orm';
+
+// Adds each note's tags, keeping the notes in their order
+export async function attachNoteTags(notes: Note[]): Promise<NoteWithTags[]> {
+  if (notes.length === 0) {
+    return [];
+  }
+
+  const noteTags = await db.select({ note_id: noteTagsTable.note_id, tag: getTableColumns(tagsTable) })
+    .from(noteTagsTable)
+    .innerJoin(tagsTable, eq(tagsTable.id, noteTagsTable.tag_id))
+    .where(inArray(noteTagsTable.note_id, notes.map(note => note.id)))
+    .execute();
+
+  const tagsByNote = new Map<string, Tag[]>();
+  for (const { note_id, tag } of noteTags) {
+    tagsByNote.set(note_id, [...(tagsByNote.get(note_id) ?? []), tag]);
+  }
+
+  return notes.map(note => ({ ...note, tags: tagsByNote.get(note.id) ?? [] }));
+}
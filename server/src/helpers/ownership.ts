@@ -0,0 +1,84 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type WorkspaceRole } from '../schema';
+import { getWorkspaceRole, hasWorkspaceRole } from './workspaces';
+import { inArray } from 'drizzle-orm';
+
+// Missing records are NOT_FOUND, records owned by someone else are FORBIDDEN
+export function assertOwnership<T extends { user_id: string }>(
+  record: T | undefined,
+  userId: string,
+  entity: string
+): T {
+  if (!record) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `${entity} not found` });
+  }
+
+  if (record.user_id !== userId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `${entity} does not belong to user` });
+  }
+
+  return record;
+}
+
+interface SpaceRecord {
+  user_id: string;
+  workspace_id: string | null;
+}
+
+// assertOwnership for records that may belong to a workspace: those are open
+// to its members with at least the required role, whoever created them
+export async function assertRecordAccess<T extends SpaceRecord>(
+  record: T | undefined,
+  userId: string,
+  entity: string,
+  required: WorkspaceRole = 'editor'
+): Promise<T> {
+  if (!record?.workspace_id) {
+    return assertOwnership(record, userId, entity);
+  }
+
+  const role = await getWorkspaceRole(record.workspace_id, userId);
+  if (!role) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `${entity} does not belong to user` });
+  }
+
+  if (!hasWorkspaceRole(role, required)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Requires the ${required} role in this workspace` });
+  }
+
+  return record;
+}
+
+// Folders and tags can only be used by notes and folders of the same space
+export function assertSameSpace(record: { workspace_id: string | null }, workspaceId: string | null | undefined, entity: string): void {
+  if (record.workspace_id !== (workspaceId ?? null)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `${entity} is in another workspace` });
+  }
+}
+
+// Same rules as assertOwnership, applied to every tag in a note's tag list;
+// the tags must also come from the note's space
+export async function assertTagsOwnership(tagIds: string[], userId: string, workspaceId?: string | null): Promise<void> {
+  if (tagIds.length === 0) {
+    return;
+  }
+
+  const tags = await db.select({ id: tagsTable.id, user_id: tagsTable.user_id, workspace_id: tagsTable.workspace_id })
+    .from(tagsTable)
+    .where(inArray(tagsTable.id, tagIds))
+    .execute();
+
+  if (tags.length !== new Set(tagIds).size) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'One or more tags not found' });
+  }
+
+  const inNoteSpace = (tag: SpaceRecord) => workspaceId
+    ? tag.workspace_id === workspaceId
+    : tag.user_id === userId && tag.workspace_id === null;
+
+  if (!tags.every(inNoteSpace)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'One or more tags do not belong to user' });
+  }
+}
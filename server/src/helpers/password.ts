@@ -0,0 +1,113 @@
+import { pbkdf2, randomBytes, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+// Digests accepted in stored hashes; the first entry is used for new hashes
+const SUPPORTED_DIGESTS = ['sha512', 'sha256'] as const;
+type PasswordDigest = typeof SUPPORTED_DIGESTS[number];
+
+interface PasswordHashParams {
+  digest: PasswordDigest;
+  iterations: number;
+  keyLength: number;
+}
+
+interface ParsedPasswordHash extends PasswordHashParams {
+  salt: string;
+  hash: Buffer;
+}
+
+export interface PasswordVerification {
+  valid: boolean;
+  // True when the stored hash was produced with weaker parameters than the current ones
+  needsRehash: boolean;
+}
+
+// Parameters of hashes written before the algorithm tag was introduced ("salt:hash")
+const LEGACY_PARAMS: PasswordHashParams = {
+  digest: 'sha512',
+  iterations: 10000,
+  keyLength: 64
+};
+
+const SALT_BYTES = 32;
+
+// Iteration count for new hashes, configurable through PASSWORD_HASH_ITERATIONS
+export const getCurrentPasswordParams = (): PasswordHashParams => ({
+  digest: SUPPORTED_DIGESTS[0],
+  iterations: Number(process.env['PASSWORD_HASH_ITERATIONS'] || 210000),
+  keyLength: 64
+});
+
+const derive = async (password: string, salt: string, params: PasswordHashParams): Promise<Buffer> =>
+  pbkdf2Async(password, salt, params.iterations, params.keyLength, params.digest);
+
+// Stored format: pbkdf2-<digest>$<iterations>$<salt>$<hash>
+export async function hashPassword(password: string): Promise<string> {
+  const params = getCurrentPasswordParams();
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const hash = await derive(password, salt, params);
+  return `pbkdf2-${params.digest}$${params.iterations}$${salt}$${hash.toString('hex')}`;
+}
+
+const parsePasswordHash = (stored: string): ParsedPasswordHash | null => {
+  const parts = stored.split('$');
+
+  if (parts.length === 4) {
+    const [algorithm, iterations, salt, hash] = parts;
+    const digest = algorithm.replace(/^pbkdf2-/, '') as PasswordDigest;
+    const iterationCount = Number(iterations);
+
+    if (!algorithm.startsWith('pbkdf2-') || !SUPPORTED_DIGESTS.includes(digest)) {
+      return null;
+    }
+    if (!Number.isInteger(iterationCount) || iterationCount <= 0 || !salt || !hash) {
+      return null;
+    }
+
+    const hashBuffer = Buffer.from(hash, 'hex');
+    return { digest, iterations: iterationCount, keyLength: hashBuffer.length, salt, hash: hashBuffer };
+  }
+
+  const legacyParts = stored.split(':');
+  if (legacyParts.length === 2 && legacyParts[0] && legacyParts[1]) {
+    const hashBuffer = Buffer.from(legacyParts[1], 'hex');
+    return { ...LEGACY_PARAMS, keyLength: hashBuffer.length, salt: legacyParts[0], hash: hashBuffer };
+  }
+
+  return null;
+};
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordVerification> {
+  const parsed = parsePasswordHash(stored);
+  if (!parsed || parsed.hash.length === 0) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const candidate = await derive(password, parsed.salt, parsed);
+  const valid = candidate.length === parsed.hash.length && timingSafeEqual(candidate, parsed.hash);
+
+  const current = getCurrentPasswordParams();
+  const needsRehash = parsed.digest !== current.digest ||
+    parsed.iterations < current.iterations ||
+    parsed.keyLength < current.keyLength;
+
+  return { valid, needsRehash: valid && needsRehash };
+}
+
+// Hashes of a random password, one per iteration count, that no login can match
+const dummyHashes = new Map<number, Promise<string>>();
+
+// Runs the same work as a real check when no account matched, so a login for an
+// unknown email takes as long as one with a wrong password
+export async function verifyDummyPassword(password: string): Promise<void> {
+  const { iterations } = getCurrentPasswordParams();
+  let dummyHash = dummyHashes.get(iterations);
+  if (!dummyHash) {
+    dummyHash = hashPassword(randomBytes(SALT_BYTES).toString('hex'));
+    dummyHashes.set(iterations, dummyHash);
+  }
+
+  await verifyPassword(password, await dummyHash);
+}
@@ -0,0 +1,19 @@
+import { createHash, randomBytes } from 'crypto';
+import { type PublicLink as PublicLinkRow } from '../db/schema';
+import { type PublicLink } from '../schema';
+
+// 32 random bytes, URL-safe so the token can sit in a path segment
+export const generatePublicLinkToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashPublicLinkToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+export const isPublicLinkExpired = (link: Pick<PublicLinkRow, 'expires_at'>, now: Date = new Date()): boolean =>
+  link.expires_at !== null && link.expires_at.getTime() <= now.getTime();
+
+// Public links as the API returns them, without the token and password hashes
+// or the password lock
+export function toPublicLink(row: PublicLinkRow): PublicLink {
+  const { token_hash: _tokenHash, password_hash, failed_attempts: _failedAttempts, locked_until: _lockedUntil, ...link } = row;
+  return { ...link, has_password: password_hash !== null };
+}
@@ -0,0 +1,87 @@
+import { renderMarkdown } from './markdown';
+
+// Standalone pages served to visitors of public links. They load nothing but
+// attachment images, so the styles are inlined.
+
+export const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const PAGE_STYLES = `
+  body { margin: 0; background: #f9fafb; color: #111827; font: 16px/1.6 system-ui, -apple-system, sans-serif; }
+  main { max-width: 760px; margin: 0 auto; padding: 48px 24px; }
+  h1.note-title { font-size: 2rem; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin-bottom: 32px; }
+  .note-content img { max-width: 100%; }
+  .note-content pre { background: #f3f4f6; padding: 12px; border-radius: 6px; overflow-x: auto; }
+  .note-content code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+  .note-content blockquote { margin: 0; padding-left: 16px; border-left: 4px solid #d1d5db; color: #4b5563; }
+  .note-content table { border-collapse: collapse; }
+  .note-content th, .note-content td { border: 1px solid #d1d5db; padding: 4px 8px; }
+  .note-content .task-list-item { list-style: none; }
+  .wikilink-missing { color: #6b7280; }
+  form { display: flex; gap: 8px; }
+  input[type=password] { flex: 1; padding: 8px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 1rem; }
+  button { padding: 8px 16px; border: 0; border-radius: 6px; background: #7c3aed; color: white; font-size: 1rem; cursor: pointer; }
+  .error { color: #dc2626; margin-top: 8px; }
+  footer { margin-top: 48px; color: #9ca3af; font-size: 0.75rem; }
+`;
+
+const renderPage = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+<footer>Shared with NoteFlow</footer>
+</main>
+</body>
+</html>
+`;
+
+const ATTACHMENT_PATH = /^\/(?:api\/)?attachments\/[\w-]+$/;
+
+export function renderPublicNotePage(note: { title: string; content: string; updated_at: Date }, token: string): string {
+  // Visitors have no session, so addresses of this server's attachments carry
+  // the link's token. Other sites' addresses are left alone so it isn't sent
+  // anywhere else.
+  const content = renderMarkdown(note.content).replace(/(<(?:img src|a href)=")([^"]*)"/g, (match, start: string, url: string) =>
+    ATTACHMENT_PATH.test(url) ? `${start}${url}?public_token=${encodeURIComponent(token)}"` : match);
+
+  // Other notes aren't reachable from here, so [[links]] stay plain text
+  return renderPage(note.title, `<h1 class="note-title">${escapeHtml(note.title)}</h1>
+<div class="meta">Last updated ${escapeHtml(note.updated_at.toUTCString())}</div>
+<article class="note-content">
+${content}
+</article>`);
+}
+
+// Posts back to the same URL, so the password never shows up in it
+export function renderPublicPasswordPage(invalidPassword: boolean): string {
+  return renderPage('Password required', `<h1 class="note-title">Password required</h1>
+<div class="meta">Enter the password you were given to view this note.</div>
+<form method="post">
+<input type="password" name="password" aria-label="Password" autofocus required>
+<button type="submit">View note</button>
+</form>
+${invalidPassword ? '<div class="error">Wrong password, please try again.</div>' : ''}`);
+}
+
+export function renderPublicLockedPage(): string {
+  return renderPage('Too many attempts', `<h1 class="note-title">Too many attempts</h1>
+<div class="meta">This link was given too many wrong passwords. Please try again in a few minutes.</div>`);
+}
+
+export function renderPublicNotFoundPage(): string {
+  return renderPage('Link not available', `<h1 class="note-title">Link not available</h1>
+<div class="meta">This link doesn't exist, has expired or was turned off by its owner.</div>`);
+}
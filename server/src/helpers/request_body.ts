@@ -0,0 +1,44 @@
+import { TRPCError } from '@trpc/server';
+import { type IncomingMessage } from 'http';
+
+const formatLimit = (maxBytes: number): string =>
+  maxBytes >= 1024 * 1024 ? `${Math.floor(maxBytes / (1024 * 1024))} MB` : `${Math.floor(maxBytes / 1024)} KB`;
+
+// Buffers a raw request body, failing with PAYLOAD_TOO_LARGE past maxBytes.
+// An oversized body is still read to the end and thrown away rather than cut
+// off, since closing the connection mid-upload loses the 413 response and the
+// client only sees a reset.
+export function readRequestBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new TRPCError({
+    code: 'PAYLOAD_TOO_LARGE',
+    message: `Upload exceeds the ${formatLimit(maxBytes)} limit`
+  });
+
+  return new Promise((resolve, reject) => {
+    // Declared sizes are turned away before any of the body is read
+    if (Number(req.headers['content-length']) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        req.off('data', onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.once('end', () => resolve(Buffer.concat(chunks)));
+    req.once('error', reject);
+  });
+}
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { savedSearchesTable } from '../db/schema';
+import { and, eq, isNull, type SQL } from 'drizzle-orm';
+
+// A user's saved searches in one space; unlike inSpace, other workspace
+// members' searches are never included
+export function ownSavedSearches(userId: string, workspaceId: string | null | undefined): SQL {
+  return and(
+    eq(savedSearchesTable.user_id, userId),
+    workspaceId ? eq(savedSearchesTable.workspace_id, workspaceId) : isNull(savedSearchesTable.workspace_id)
+  )!;
+}
+
+// Only one saved search per space opens after login
+export async function clearDefaultSavedSearch(userId: string, workspaceId: string | null | undefined): Promise<void> {
+  await db.update(savedSearchesTable)
+    .set({ is_default: false, updated_at: new Date() })
+    .where(and(ownSavedSearches(userId, workspaceId), eq(savedSearchesTable.is_default, true)))
+    .execute();
+}
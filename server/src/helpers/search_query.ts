@@ -0,0 +1,201 @@
+// Parser for the note search language, e.g.
+//   tag:work folder:"Meeting Notes" is:favorite created:>2026-01-01 "exact phrase" -draft budget OR plans
+// Terms are ANDed together, OR binds the terms on either side of it, and a
+// leading - excludes a term. This module has no database imports so the
+// client can check queries while they are typed.
+
+export type SearchTerm =
+  | { type: 'text'; text: string; phrase: boolean }
+  | { type: 'tag'; name: string }
+  | { type: 'folder'; name: string }
+  | { type: 'favorite' }
+  // from is inclusive, to is exclusive; null leaves that side open
+  | { type: 'date'; field: 'created_at' | 'updated_at'; from: Date | null; to: Date | null };
+
+export interface SearchClause {
+  negated: boolean;
+  term: SearchTerm;
+}
+
+// Every group must match; a group matches when any of its clauses does
+export type ParsedSearch = SearchClause[][];
+
+// position is the offset in the query where the problem starts
+export class SearchQueryError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_FIELDS = { created: 'created_at', updated: 'updated_at' } as const;
+
+// Relative dates reach back from now, except the calendar days today and yesterday
+const RELATIVE_DAYS: Record<string, number> = {
+  'last-week': 7,
+  'last-month': 30,
+  'last-year': 365
+};
+
+const DATE_HINT = 'use YYYY-MM-DD, optionally after >, >=, < or <=, or today, yesterday, last-week, last-month or last-year';
+
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+function parseDay(text: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  // Rejects dates like 2026-02-30 that Date.UTC would roll over
+  return date.getUTCDate() === Number(match[3]) && date.getUTCMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+// Dates are whole UTC days, so created:2026-01-01 covers that entire day
+function parseDateRange(value: string, now: Date): { from: Date | null; to: Date | null } | null {
+  const today = startOfDay(now);
+
+  if (value === 'today') {
+    return { from: today, to: null };
+  }
+
+  if (value === 'yesterday') {
+    return { from: new Date(today.getTime() - DAY_MS), to: today };
+  }
+
+  if (value in RELATIVE_DAYS) {
+    return { from: new Date(now.getTime() - RELATIVE_DAYS[value] * DAY_MS), to: null };
+  }
+
+  const match = /^(>=|<=|>|<)?(.*)$/.exec(value)!;
+  const day = parseDay(match[2]);
+  if (!day) {
+    return null;
+  }
+
+  const nextDay = new Date(day.getTime() + DAY_MS);
+  switch (match[1]) {
+    case '>': return { from: nextDay, to: null };
+    case '>=': return { from: day, to: null };
+    case '<': return { from: null, to: day };
+    case '<=': return { from: null, to: nextDay };
+    default: return { from: day, to: nextDay };
+  }
+}
+
+export function parseSearchQuery(query: string, now: Date = new Date()): ParsedSearch {
+  const groups: ParsedSearch = [];
+  let pos = 0;
+  let joinWithPrevious = false;
+
+  const skipSpaces = () => {
+    while (pos < query.length && /\s/.test(query[pos])) pos++;
+  };
+
+  // Reads a "quoted string" starting at pos, or a bare word up to the next space
+  const readValue = (): string => {
+    if (query[pos] === '"') {
+      const end = query.indexOf('"', pos + 1);
+      if (end === -1) {
+        throw new SearchQueryError('Missing closing quote', pos);
+      }
+      const value = query.slice(pos + 1, end);
+      pos = end + 1;
+      return value;
+    }
+
+    const start = pos;
+    while (pos < query.length && !/\s/.test(query[pos])) pos++;
+    return query.slice(start, pos);
+  };
+
+  const readTerm = (): SearchTerm => {
+    const start = pos;
+
+    if (query[pos] === '"') {
+      const text = readValue();
+      return { type: 'text', text, phrase: true };
+    }
+
+    // Only the known fields are filters, so words like TODO: or https://
+    // are searched for as they are written
+    const field = /^(tag|folder|is|created|updated):/i.exec(query.slice(pos));
+    if (!field) {
+      return { type: 'text', text: readValue(), phrase: false };
+    }
+
+    const name = field[1].toLowerCase() as 'tag' | 'folder' | 'is' | 'created' | 'updated';
+    pos += field[0].length;
+    const valueStart = pos;
+    const value = pos < query.length && !/\s/.test(query[pos]) ? readValue() : '';
+    if (!value) {
+      throw new SearchQueryError(`${name}: needs a value`, start);
+    }
+
+    switch (name) {
+      case 'tag':
+        return { type: 'tag', name: value };
+      case 'folder':
+        return { type: 'folder', name: value };
+      case 'is':
+        if (value.toLowerCase() !== 'favorite') {
+          throw new SearchQueryError(`Unknown is: value "${value}"; use is:favorite`, valueStart);
+        }
+        return { type: 'favorite' };
+      case 'created':
+      case 'updated': {
+        const range = parseDateRange(value.toLowerCase(), now);
+        if (!range) {
+          throw new SearchQueryError(`Invalid date "${value}"; ${DATE_HINT}`, valueStart);
+        }
+        return { type: 'date', field: DATE_FIELDS[name], ...range };
+      }
+    }
+  };
+
+  skipSpaces();
+  while (pos < query.length) {
+    const start = pos;
+
+    // Only an uppercase OR is an operator, between two terms; a lowercase or
+    // is an ordinary word, and a quoted "OR" searches for the word too
+    if (/^OR(\s|$)/.test(query.slice(pos))) {
+      if (groups.length === 0 || joinWithPrevious) {
+        throw new SearchQueryError('OR needs a term on both sides', start);
+      }
+      pos += 2;
+      joinWithPrevious = true;
+      skipSpaces();
+      continue;
+    }
+
+    let negated = false;
+    if (query[pos] === '-') {
+      pos++;
+      if (pos >= query.length || /\s/.test(query[pos])) {
+        throw new SearchQueryError('Nothing to exclude after -', start);
+      }
+      negated = true;
+    }
+
+    const clause: SearchClause = { negated, term: readTerm() };
+    if (joinWithPrevious) {
+      groups[groups.length - 1].push(clause);
+      joinWithPrevious = false;
+    } else {
+      groups.push([clause]);
+    }
+
+    skipSpaces();
+  }
+
+  if (joinWithPrevious) {
+    throw new SearchQueryError('OR needs a term on both sides', query.trimEnd().length - 2);
+  }
+
+  return groups;
+}
@@ -0,0 +1,14 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Sessions are stored by the hash of their token so a leaked sessions table
+// cannot be replayed against the API.
+export const generateSessionToken = (): string => randomBytes(32).toString('hex');
+
+export const hashSessionToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+// Session lifetime in hours, configurable through SESSION_TTL_HOURS (defaults to 7 days)
+export const getSessionTtlMs = (): number => {
+  const hours = Number(process.env['SESSION_TTL_HOURS'] || 24 * 7);
+  return hours * 60 * 60 * 1000;
+};
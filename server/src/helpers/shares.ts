@@ -0,0 +1,89 @@
+import { TRPCError } from '@trpc/server';
+import { db, type DbExecutor } from '../db';
+import { notesTable, foldersTable, sharesTable, usersTable, type User } from '../db/schema';
+import { type Share, type SharePermission } from '../schema';
+import { getTableColumns, eq, and, or, inArray } from 'drizzle-orm';
+
+// Share rows as the API returns them, with the grantee's name and email
+export const shareColumns = {
+  ...getTableColumns(sharesTable),
+  grantee_username: usersTable.username,
+  grantee_email: usersTable.email
+};
+
+export async function findGrantee(email: string, ownerId: string): Promise<User> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.email, email))
+    .execute();
+
+  if (users.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'No user with this email address' });
+  }
+
+  if (users[0].id === ownerId) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot share with yourself' });
+  }
+
+  return users[0];
+}
+
+type ShareTarget = { note_id: string; folder_id?: never } | { folder_id: string; note_id?: never };
+
+// Sharing the same item with the same user again changes the permission and
+// makes the member sharing it again the share's owner
+export async function saveShare(
+  ownerId: string,
+  grantee: User,
+  target: ShareTarget,
+  permission: SharePermission
+): Promise<Share> {
+  const now = new Date();
+
+  const result = await db.insert(sharesTable)
+    .values({
+      id: crypto.randomUUID(),
+      owner_id: ownerId,
+      grantee_id: grantee.id,
+      note_id: target.note_id ?? null,
+      folder_id: target.folder_id ?? null,
+      permission
+    })
+    .onConflictDoUpdate({
+      target: target.note_id ? [sharesTable.grantee_id, sharesTable.note_id] : [sharesTable.grantee_id, sharesTable.folder_id],
+      set: { owner_id: ownerId, permission, updated_at: now }
+    })
+    .returning()
+    .execute();
+
+  return { ...result[0], grantee_username: grantee.username, grantee_email: grantee.email };
+}
+
+// The workspace of the shared note or folder, or null for personal items
+export async function getSharedItemWorkspace(share: { note_id: string | null; folder_id: string | null }): Promise<string | null> {
+  const items = share.note_id
+    ? await db.select({ workspace_id: notesTable.workspace_id })
+      .from(notesTable)
+      .where(eq(notesTable.id, share.note_id))
+      .execute()
+    : await db.select({ workspace_id: foldersTable.workspace_id })
+      .from(foldersTable)
+      .where(eq(foldersTable.id, share.folder_id!))
+      .execute();
+
+  return items[0]?.workspace_id ?? null;
+}
+
+// Shares a member made of a workspace's notes and folders go when they leave
+// it, so nobody keeps access that no current member handed out
+export async function deleteMemberShares(workspaceId: string, memberId: string, executor: DbExecutor = db): Promise<void> {
+  await executor.delete(sharesTable)
+    .where(and(
+      eq(sharesTable.owner_id, memberId),
+      or(
+        inArray(sharesTable.note_id, executor.select({ id: notesTable.id }).from(notesTable).where(eq(notesTable.workspace_id, workspaceId))),
+        inArray(sharesTable.folder_id, executor.select({ id: foldersTable.id }).from(foldersTable).where(eq(foldersTable.workspace_id, workspaceId)))
+      )
+    ))
+    .execute();
+}
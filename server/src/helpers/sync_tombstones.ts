@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { syncTombstonesTable, type NewSyncTombstone } from '../db/schema';
+
+type SyncEntityType = NewSyncTombstone['entity_type'];
+
+// Remembers permanently deleted records so the sync procedure can report them
+export async function recordTombstones(
+  entityType: SyncEntityType,
+  records: { id: string; user_id: string; workspace_id: string | null }[]
+): Promise<void> {
+  if (records.length === 0) return;
+
+  const deletedAt = new Date();
+  await db.insert(syncTombstonesTable)
+    .values(records.map(record => ({
+      entity_type: entityType,
+      entity_id: record.id,
+      user_id: record.user_id,
+      workspace_id: record.workspace_id,
+      deleted_at: deletedAt
+    })))
+    .onConflictDoUpdate({
+      target: [syncTombstonesTable.entity_type, syncTombstonesTable.entity_id],
+      set: { deleted_at: deletedAt }
+    })
+    .execute();
+}
@@ -0,0 +1,52 @@
+interface TagNode {
+  id: string;
+  parent_tag_id: string | null;
+}
+
+// Returns the tag followed by every tag nested below it (breadth first)
+export function collectTagSubtree<T extends TagNode>(tags: T[], rootId: string): T[] {
+  const childrenByParent = new Map<string, T[]>();
+  for (const tag of tags) {
+    if (tag.parent_tag_id) {
+      childrenByParent.set(tag.parent_tag_id, [...(childrenByParent.get(tag.parent_tag_id) ?? []), tag]);
+    }
+  }
+
+  const root = tags.find(tag => tag.id === rootId);
+  if (!root) {
+    return [];
+  }
+
+  const result: T[] = [];
+  const visited = new Set<string>();
+  const queue: T[] = [root];
+
+  while (queue.length > 0) {
+    const tag = queue.shift()!;
+    if (visited.has(tag.id)) {
+      continue;
+    }
+
+    visited.add(tag.id);
+    result.push(tag);
+    queue.push(...(childrenByParent.get(tag.id) ?? []));
+  }
+
+  return result;
+}
+
+// Joins the names from the top-level tag down, e.g. "project/alpha/design"
+export function getTagPath<T extends TagNode & { name: string }>(tags: T[], tagId: string): string {
+  const byId = new Map(tags.map(tag => [tag.id, tag]));
+  const names: string[] = [];
+  const visited = new Set<string>();
+  let current = byId.get(tagId);
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    names.unshift(current.name);
+    current = current.parent_tag_id ? byId.get(current.parent_tag_id) : undefined;
+  }
+
+  return names.join('/');
+}
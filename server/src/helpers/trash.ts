@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { notesTable, foldersTable, attachmentsTable } from '../db/schema';
+import { type TrashPurgeResult } from '../schema';
+import { getAttachmentStorage } from './attachment_storage';
+import { recordTombstones } from './sync_tombstones';
+import { inSpace } from './workspaces';
+import { eq, and, lt, isNotNull, type SQL } from 'drizzle-orm';
+
+interface PurgeFilter {
+  userId?: string;
+  // With userId, limits the purge to this workspace instead of the user's personal trash
+  workspaceId?: string | null;
+  deletedBefore?: Date;
+}
+
+// Permanently removes trashed notes and folders. Used both by emptyTrash for a
+// single space and by the scheduled purge across all users.
+export async function purgeTrashedItems(filter: PurgeFilter): Promise<TrashPurgeResult> {
+  const noteConditions: SQL<unknown>[] = [isNotNull(notesTable.deleted_at)];
+  const folderConditions: SQL<unknown>[] = [isNotNull(foldersTable.deleted_at)];
+
+  if (filter.userId) {
+    noteConditions.push(inSpace(notesTable, filter.userId, filter.workspaceId));
+    folderConditions.push(inSpace(foldersTable, filter.userId, filter.workspaceId));
+  }
+
+  if (filter.deletedBefore) {
+    noteConditions.push(lt(notesTable.deleted_at, filter.deletedBefore));
+    folderConditions.push(lt(foldersTable.deleted_at, filter.deletedBefore));
+  }
+
+  // Attachment rows cascade with the notes, so collect their files first
+  const attachments = await db.select({ storage_key: attachmentsTable.storage_key })
+    .from(attachmentsTable)
+    .innerJoin(notesTable, eq(attachmentsTable.note_id, notesTable.id))
+    .where(and(...noteConditions))
+    .execute();
+
+  // Note-tag links, links, revisions and attachments cascade with the notes
+  const deletedNotes = await db.delete(notesTable)
+    .where(and(...noteConditions))
+    .returning({ id: notesTable.id, user_id: notesTable.user_id, workspace_id: notesTable.workspace_id })
+    .execute();
+
+  const deletedFolders = await db.delete(foldersTable)
+    .where(and(...folderConditions))
+    .returning({ id: foldersTable.id, user_id: foldersTable.user_id, workspace_id: foldersTable.workspace_id })
+    .execute();
+
+  await recordTombstones('note', deletedNotes);
+  await recordTombstones('folder', deletedFolders);
+
+  const storage = getAttachmentStorage();
+  for (const attachment of attachments) {
+    await storage.delete(attachment.storage_key);
+  }
+
+  return {
+    notes: deletedNotes.length,
+    folders: deletedFolders.length
+  };
+}
+
+// Purges items that have been in the trash longer than TRASH_RETENTION_DAYS
+// (default 30), checking every TRASH_PURGE_INTERVAL_MINUTES (default 60).
+export function scheduleTrashPurge(): void {
+  const retentionMs = Number(process.env['TRASH_RETENTION_DAYS'] || 30) * 24 * 60 * 60 * 1000;
+  const intervalMs = Number(process.env['TRASH_PURGE_INTERVAL_MINUTES'] || 60) * 60 * 1000;
+
+  const purge = async () => {
+    try {
+      const result = await purgeTrashedItems({ deletedBefore: new Date(Date.now() - retentionMs) });
+      if (result.notes > 0 || result.folders > 0) {
+        console.log(`Purged ${result.notes} notes and ${result.folders} folders from trash`);
+      }
+    } catch (error) {
+      console.error('Trash purge failed:', error);
+    }
+  };
+
+  purge();
+  setInterval(purge, intervalMs);
+}
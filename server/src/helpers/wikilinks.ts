@@ -0,0 +1,32 @@
+// Matches [[Note Title]]; titles cannot span lines or contain brackets
+const WIKILINK_PATTERN = /\[\[([^[\]\n]+)\]\]/g;
+
+// Link titles are compared ignoring case and surrounding whitespace
+export function normalizeLinkTitle(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+// Returns each distinct linked title once, in order of first appearance
+export function extractWikilinkTitles(text: string): string[] {
+  const seen = new Set<string>();
+  const titles: string[] = [];
+
+  for (const match of text.matchAll(WIKILINK_PATTERN)) {
+    const title = match[1].trim();
+    const key = normalizeLinkTitle(title);
+    if (title && !seen.has(key)) {
+      seen.add(key);
+      titles.push(title);
+    }
+  }
+
+  return titles;
+}
+
+// Points every [[oldTitle]] in the text at newTitle
+export function renameWikilinks(text: string, oldTitle: string, newTitle: string): string {
+  const oldKey = normalizeLinkTitle(oldTitle);
+  return text.replace(WIKILINK_PATTERN, (link: string, title: string) =>
+    normalizeLinkTitle(title) === oldKey ? `[[${newTitle}]]` : link
+  );
+}
@@ -0,0 +1,99 @@
+import { TRPCError } from '@trpc/server';
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { workspaceMembersTable, type WorkspaceInvitation as DbWorkspaceInvitation } from '../db/schema';
+import { type WorkspaceRole, type WorkspaceInvitation } from '../schema';
+import { eq, and, isNull, type SQL } from 'drizzle-orm';
+import { type PgColumn } from 'drizzle-orm/pg-core';
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2
+};
+
+export const hasWorkspaceRole = (role: WorkspaceRole, required: WorkspaceRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[required];
+
+export async function getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const members = await db.select({ role: workspaceMembersTable.role })
+    .from(workspaceMembersTable)
+    .where(and(
+      eq(workspaceMembersTable.workspace_id, workspaceId),
+      eq(workspaceMembersTable.user_id, userId)
+    ))
+    .execute();
+
+  return members[0]?.role ?? null;
+}
+
+// Non-members get NOT_FOUND so workspace ids can't be probed
+export async function assertWorkspaceRole(
+  workspaceId: string,
+  userId: string,
+  required: WorkspaceRole
+): Promise<WorkspaceRole> {
+  const role = await getWorkspaceRole(workspaceId, userId);
+  if (!role) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Workspace not found' });
+  }
+
+  if (!hasWorkspaceRole(role, required)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Requires the ${required} role in this workspace` });
+  }
+
+  return role;
+}
+
+// Checks the caller may work in the active workspace; personal data needs no check
+export async function assertActiveWorkspace(
+  workspaceId: string | null | undefined,
+  userId: string,
+  required: WorkspaceRole
+): Promise<void> {
+  if (workspaceId) {
+    await assertWorkspaceRole(workspaceId, userId, required);
+  }
+}
+
+interface SpaceColumns {
+  user_id: PgColumn;
+  workspace_id: PgColumn;
+}
+
+// Matches the records of one space: a workspace's, or a user's personal ones
+export function inSpace(table: SpaceColumns, userId: string, workspaceId: string | null | undefined): SQL {
+  return workspaceId
+    ? eq(table.workspace_id, workspaceId)
+    : and(eq(table.user_id, userId), isNull(table.workspace_id))!;
+}
+
+export const generateInvitationToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashInvitationToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+// Invitations stay open for INVITATION_TTL_DAYS (default 7)
+export const getInvitationTtlMs = (): number =>
+  Number(process.env['INVITATION_TTL_DAYS'] || 7) * 24 * 60 * 60 * 1000;
+
+// Invitations as the API returns them, without the token hash
+export function toWorkspaceInvitation(invitation: DbWorkspaceInvitation): WorkspaceInvitation {
+  const { token_hash: _tokenHash, ...rest } = invitation;
+  return rest;
+}
+
+// A workspace must never be left without an owner
+export async function assertNotLastOwner(workspaceId: string, memberId: string): Promise<void> {
+  const owners = await db.select({ user_id: workspaceMembersTable.user_id })
+    .from(workspaceMembersTable)
+    .where(and(
+      eq(workspaceMembersTable.workspace_id, workspaceId),
+      eq(workspaceMembersTable.role, 'owner')
+    ))
+    .execute();
+
+  if (owners.length === 1 && owners[0].user_id === memberId) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'A workspace needs at least one owner' });
+  }
+}
@@ -0,0 +1,83 @@
+import { Readable, type Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import { ZipFile } from 'yazl';
+import { fromBufferPromise } from 'yauzl';
+
+// ZIP archives are written with yazl and read with yauzl, both of which use
+// the ZIP64 extensions for archives past 4 GB or 65535 entries.
+
+export interface ZipWriter {
+  addFile(path: string, data: Buffer, modified?: Date): Promise<void>;
+  finish(): Promise<void>;
+}
+
+// Streams the archive to output as files are added. Each file resolves once
+// the output has taken it in, so a slow reader holds back the next one
+// instead of the archive piling up in memory.
+export function createZipWriter(output: Writable): ZipWriter {
+  const zip = new ZipFile();
+  const written = pipeline(zip.outputStream, output);
+  // Surfaced through the next addFile or finish
+  written.catch(() => {});
+
+  return {
+    async addFile(path, data, modified = new Date()) {
+      const source = Readable.from([data]);
+      zip.addReadStream(source, path, { mtime: modified, size: data.length });
+      await Promise.race([finished(source), written]);
+    },
+
+    async finish() {
+      zip.end();
+      await written;
+    }
+  };
+}
+
+// Thrown when an entry inflates past the limit it is read with
+export class ZipEntryTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Inflates to more than ${maxBytes} bytes`);
+    this.name = 'ZipEntryTooLargeError';
+  }
+}
+
+export interface ZipEntry {
+  path: string;
+  size: number; // As the archive declares it
+  read(maxBytes: number): Promise<Buffer>;
+}
+
+// Lists the entries of an archive. Contents are only inflated when read, and
+// reading stops as soon as the inflated bytes pass maxBytes, whatever size
+// the archive declares.
+export async function readZipEntries(archive: Buffer): Promise<ZipEntry[]> {
+  const zip = await fromBufferPromise(archive);
+  const entries: ZipEntry[] = [];
+
+  for await (const entry of zip.eachEntry()) {
+    entries.push({
+      path: entry.fileName,
+      size: entry.uncompressedSize,
+      async read(maxBytes) {
+        if (entry.isEncrypted()) {
+          throw new Error('Encrypted entries are not supported');
+        }
+
+        const stream = await zip.openReadStreamPromise(entry);
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of stream) {
+          size += chunk.length;
+          if (size > maxBytes) {
+            throw new ZipEntryTooLargeError(maxBytes);
+          }
+          chunks.push(chunk);
+        }
+        return Buffer.concat(chunks);
+      }
+    });
+  }
+
+  return entries;
+}
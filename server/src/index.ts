@@ -1,5 +1,7 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { type IncomingMessage, type ServerResponse } from 'http';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -19,8 +21,51 @@ import {
   getUserTagsInputSchema,
   createNoteInputSchema,
   updateNoteInputSchema,
+  moveNoteInputSchema,
   deleteNoteInputSchema,
-  getUserNotesInputSchema
+  getUserNotesInputSchema,
+  getNotesPageInputSchema,
+  searchNotesInputSchema,
+  getNoteRevisionsInputSchema,
+  diffNoteRevisionsInputSchema,
+  restoreNoteRevisionInputSchema,
+  getBacklinksInputSchema,
+  restoreNoteInputSchema,
+  restoreFolderInputSchema,
+  emptyTrashInputSchema,
+  createAttachmentInputSchema,
+  getAttachmentUrlsInputSchema,
+  exportNotesInputSchema,
+  exportNoteInputSchema,
+  importNotesInputSchema,
+  importEnexInputSchema,
+  syncInputSchema,
+  getBackupInputSchema,
+  restoreBackupInputSchema,
+  shareNoteInputSchema,
+  shareFolderInputSchema,
+  revokeShareInputSchema,
+  getSharesInputSchema,
+  getSharedWithMeInputSchema,
+  createPublicLinkInputSchema,
+  getPublicLinksInputSchema,
+  revokePublicLinkInputSchema,
+  createWorkspaceInputSchema,
+  getUserWorkspacesInputSchema,
+  updateWorkspaceInputSchema,
+  getWorkspaceMembersInputSchema,
+  updateWorkspaceMemberInputSchema,
+  removeWorkspaceMemberInputSchema,
+  inviteToWorkspaceInputSchema,
+  getWorkspaceInvitationsInputSchema,
+  revokeWorkspaceInvitationInputSchema,
+  acceptWorkspaceInvitationInputSchema,
+  createSavedSearchInputSchema,
+  getSavedSearchesInputSchema,
+  updateSavedSearchInputSchema,
+  deleteSavedSearchInputSchema,
+  type AuthResult,
+  type PublicUser
 } from './schema';
 
 // Import all handlers
@@ -36,106 +81,609 @@ import { updateTag } from './handlers/update_tag';
 import { deleteTag } from './handlers/delete_tag';
 import { createNote } from './handlers/create_note';
 import { getUserNotes } from './handlers/get_user_notes';
+import { getNotesPage } from './handlers/get_notes_page';
+import { searchNotes } from './handlers/search_notes';
 import { getNoteById } from './handlers/get_note_by_id';
 import { updateNote } from './handlers/update_note';
+import { moveNote } from './handlers/move_note';
 import { deleteNote } from './handlers/delete_note';
+import { getNoteRevisions } from './handlers/get_note_revisions';
+import { diffNoteRevisions } from './handlers/diff_note_revisions';
+import { restoreNoteRevision } from './handlers/restore_note_revision';
+import { getBacklinks } from './handlers/get_backlinks';
+import { restoreNote } from './handlers/restore_note';
+import { restoreFolder } from './handlers/restore_folder';
+import { emptyTrash } from './handlers/empty_trash';
+import { scheduleTrashPurge } from './helpers/trash';
+import { backfillNotePositions } from './helpers/note_positions';
+import { createAttachment } from './handlers/create_attachment';
+import { getAttachmentFile } from './handlers/get_attachment_file';
+import { getAttachmentUrls } from './handlers/get_attachment_urls';
+import { getAttachmentMaxBytes } from './helpers/attachment_storage';
+import { exportNotes } from './handlers/export_notes';
+import { exportNote } from './handlers/export_note';
+import { createZipWriter } from './helpers/zip';
+import { importNotes } from './handlers/import_notes';
+import { importEnex } from './handlers/import_enex';
+import { getImportMaxBytes } from './helpers/import_target';
+import { createSession } from './handlers/create_session';
+import { getSessionUser } from './handlers/get_session_user';
+import { deleteSession } from './handlers/delete_session';
+import { getSyncChanges } from './handlers/get_sync_changes';
+import { getBackup } from './handlers/get_backup';
+import { restoreBackup } from './handlers/restore_backup';
+import { shareNote } from './handlers/share_note';
+import { shareFolder } from './handlers/share_folder';
+import { revokeShare } from './handlers/revoke_share';
+import { getShares } from './handlers/get_shares';
+import { getSharedWithMe } from './handlers/get_shared_with_me';
+import { createPublicLink } from './handlers/create_public_link';
+import { getPublicLinks } from './handlers/get_public_links';
+import { revokePublicLink } from './handlers/revoke_public_link';
+import { viewPublicLink } from './handlers/view_public_link';
+import { createWorkspace } from './handlers/create_workspace';
+import { getUserWorkspaces } from './handlers/get_user_workspaces';
+import { updateWorkspace } from './handlers/update_workspace';
+import { getWorkspaceMembers } from './handlers/get_workspace_members';
+import { updateWorkspaceMember } from './handlers/update_workspace_member';
+import { removeWorkspaceMember } from './handlers/remove_workspace_member';
+import { inviteToWorkspace } from './handlers/invite_to_workspace';
+import { getWorkspaceInvitations } from './handlers/get_workspace_invitations';
+import { revokeWorkspaceInvitation } from './handlers/revoke_workspace_invitation';
+import { acceptWorkspaceInvitation } from './handlers/accept_workspace_invitation';
+import { createSavedSearch } from './handlers/create_saved_search';
+import { getSavedSearches } from './handlers/get_saved_searches';
+import { updateSavedSearch } from './handlers/update_saved_search';
+import { deleteSavedSearch } from './handlers/delete_saved_search';
+import { renderPublicNotePage, renderPublicPasswordPage, renderPublicLockedPage, renderPublicNotFoundPage } from './helpers/public_page';
+import { NoteConflictError } from './helpers/note_conflict';
+import { attachCollabServer } from './helpers/collab';
+import { readRequestBody } from './helpers/request_body';
 
-const t = initTRPC.create({
+function getBearerToken(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization;
+  return authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+}
+
+// Resolve the caller from the bearer token issued by loginUser, and the
+// workspace they have open from X-Workspace-Id (absent for personal data)
+async function createContext({ req }: CreateHTTPContextOptions) {
+  const token = getBearerToken(req);
+  const user = token ? await getSessionUser(token) : null;
+  const workspaceHeader = req.headers['x-workspace-id'];
+  const workspaceId = typeof workspaceHeader === 'string' && workspaceHeader ? workspaceHeader : null;
+
+  return { token, user, workspaceId };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // A stale updateNote reports the server's copy so the client can merge
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        currentNote: error.cause instanceof NoteConflictError ? error.cause.currentNote : null
+      }
+    };
+  },
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
+// Procedures that act on a user's data take the owner from the session, never from input
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.token) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({ ctx: { token: ctx.token, user: ctx.user, workspaceId: ctx.workspaceId } });
+});
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
-  // User authentication routes
+  // User authentication routes - the password hash never leaves the server
   createUser: publicProcedure
     .input(createUserInputSchema)
-    .mutation(({ input }) => createUser(input)),
+    .mutation(async ({ input }): Promise<PublicUser> => {
+      const { password_hash: _passwordHash, ...user } = await createUser(input);
+      return user;
+    }),
   
   loginUser: publicProcedure
     .input(loginUserInputSchema)
-    .mutation(({ input }) => loginUser(input)),
+    .mutation(async ({ input }): Promise<AuthResult> => {
+      const { password_hash: _passwordHash, ...user } = await loginUser(input);
+      const session = await createSession(user.id);
+      return { user, ...session };
+    }),
+
+  logoutUser: protectedProcedure
+    .mutation(({ ctx }) => deleteSession(ctx.token)),
+
+  getCurrentUser: protectedProcedure
+    .query(({ ctx }) => ctx.user),
 
   // Folder management routes
-  createFolder: publicProcedure
-    .input(createFolderInputSchema)
-    .mutation(({ input }) => createFolder(input)),
+  createFolder: protectedProcedure
+    .input(createFolderInputSchema.omit({ user_id: true, workspace_id: true }))
+    .mutation(({ input, ctx }) => createFolder({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
   
-  getUserFolders: publicProcedure
-    .input(getUserFoldersInputSchema)
-    .query(({ input }) => getUserFolders(input)),
+  getUserFolders: protectedProcedure
+    .input(getUserFoldersInputSchema.omit({ user_id: true, workspace_id: true }))
+    .query(({ input, ctx }) => getUserFolders({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
   
-  updateFolder: publicProcedure
-    .input(updateFolderInputSchema)
-    .mutation(({ input }) => updateFolder(input)),
+  updateFolder: protectedProcedure
+    .input(updateFolderInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => updateFolder({ ...input, user_id: ctx.user.id })),
   
-  deleteFolder: publicProcedure
-    .input(deleteFolderInputSchema)
-    .mutation(({ input }) => deleteFolder(input)),
+  deleteFolder: protectedProcedure
+    .input(deleteFolderInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => deleteFolder({ ...input, user_id: ctx.user.id })),
 
   // Tag management routes
-  createTag: publicProcedure
-    .input(createTagInputSchema)
-    .mutation(({ input }) => createTag(input)),
+  createTag: protectedProcedure
+    .input(createTagInputSchema.omit({ user_id: true, workspace_id: true }))
+    .mutation(({ input, ctx }) => createTag({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
   
-  getUserTags: publicProcedure
-    .input(getUserTagsInputSchema)
-    .query(({ input }) => getUserTags(input)),
+  getUserTags: protectedProcedure
+    .input(getUserTagsInputSchema.omit({ user_id: true, workspace_id: true }))
+    .query(({ input, ctx }) => getUserTags({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
   
-  updateTag: publicProcedure
-    .input(updateTagInputSchema)
-    .mutation(({ input }) => updateTag(input)),
+  updateTag: protectedProcedure
+    .input(updateTagInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => updateTag({ ...input, user_id: ctx.user.id })),
   
-  deleteTag: publicProcedure
-    .input(deleteTagInputSchema)
-    .mutation(({ input }) => deleteTag(input)),
+  deleteTag: protectedProcedure
+    .input(deleteTagInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => deleteTag({ ...input, user_id: ctx.user.id })),
 
   // Note management routes
-  createNote: publicProcedure
-    .input(createNoteInputSchema)
-    .mutation(({ input }) => createNote(input)),
+  createNote: protectedProcedure
+    .input(createNoteInputSchema.omit({ user_id: true, workspace_id: true }))
+    .mutation(({ input, ctx }) => createNote({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
   
-  getUserNotes: publicProcedure
-    .input(getUserNotesInputSchema)
-    .query(({ input }) => getUserNotes(input)),
+  getUserNotes: protectedProcedure
+    .input(getUserNotesInputSchema.omit({ user_id: true, workspace_id: true }))
+    .query(({ input, ctx }) => getUserNotes({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
+
+  getNotesPage: protectedProcedure
+    .input(getNotesPageInputSchema.omit({ user_id: true, workspace_id: true }))
+    .query(({ input, ctx }) => getNotesPage({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
+
+  searchNotes: protectedProcedure
+    .input(searchNotesInputSchema.omit({ user_id: true, workspace_id: true }))
+    .query(({ input, ctx }) => searchNotes({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
   
-  getNoteById: publicProcedure
+  getNoteById: protectedProcedure
     .input(z.object({
-      noteId: z.string(),
-      userId: z.string()
+      noteId: z.string()
     }))
-    .query(({ input }) => getNoteById(input.noteId, input.userId)),
+    .query(({ input, ctx }) => getNoteById(input.noteId, ctx.user.id)),
+  
+  updateNote: protectedProcedure
+    .input(updateNoteInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => updateNote({ ...input, user_id: ctx.user.id })),
   
-  updateNote: publicProcedure
-    .input(updateNoteInputSchema)
-    .mutation(({ input }) => updateNote(input)),
+  moveNote: protectedProcedure
+    .input(moveNoteInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => moveNote({ ...input, user_id: ctx.user.id })),
   
-  deleteNote: publicProcedure
-    .input(deleteNoteInputSchema)
-    .mutation(({ input }) => deleteNote(input)),
+  deleteNote: protectedProcedure
+    .input(deleteNoteInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => deleteNote({ ...input, user_id: ctx.user.id })),
+
+  // Note revision history routes
+  getNoteRevisions: protectedProcedure
+    .input(getNoteRevisionsInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getNoteRevisions({ ...input, user_id: ctx.user.id })),
+
+  diffNoteRevisions: protectedProcedure
+    .input(diffNoteRevisionsInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => diffNoteRevisions({ ...input, user_id: ctx.user.id })),
+
+  restoreNoteRevision: protectedProcedure
+    .input(restoreNoteRevisionInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => restoreNoteRevision({ ...input, user_id: ctx.user.id })),
+
+  // Note link routes
+  getBacklinks: protectedProcedure
+    .input(getBacklinksInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getBacklinks({ ...input, user_id: ctx.user.id })),
+
+  // Attachment route - uploads and downloads go through /attachments
+  getAttachmentUrls: protectedProcedure
+    .input(getAttachmentUrlsInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getAttachmentUrls({ ...input, user_id: ctx.user.id })),
+
+  // Single note export route - a standalone HTML or PDF file
+  exportNote: protectedProcedure
+    .input(exportNoteInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => exportNote({ ...input, user_id: ctx.user.id })),
+
+  // Trash routes
+  restoreNote: protectedProcedure
+    .input(restoreNoteInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => restoreNote({ ...input, user_id: ctx.user.id })),
+
+  restoreFolder: protectedProcedure
+    .input(restoreFolderInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => restoreFolder({ ...input, user_id: ctx.user.id })),
+
+  emptyTrash: protectedProcedure
+    .input(emptyTrashInputSchema.omit({ user_id: true, workspace_id: true }))
+    .mutation(({ input, ctx }) => emptyTrash({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
+
+  // Offline sync route - changes since the cursor from the previous call
+  sync: protectedProcedure
+    .input(syncInputSchema.omit({ user_id: true, workspace_id: true }))
+    .query(({ input, ctx }) => getSyncChanges({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
+
+  // Backup routes - always the caller's personal space, whatever workspace is open
+  getBackup: protectedProcedure
+    .input(getBackupInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getBackup({ ...input, user_id: ctx.user.id })),
+
+  restoreBackup: protectedProcedure
+    .input(restoreBackupInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => restoreBackup({ ...input, user_id: ctx.user.id })),
+
+  // Sharing routes
+  shareNote: protectedProcedure
+    .input(shareNoteInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => shareNote({ ...input, user_id: ctx.user.id })),
+
+  shareFolder: protectedProcedure
+    .input(shareFolderInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => shareFolder({ ...input, user_id: ctx.user.id })),
+
+  revokeShare: protectedProcedure
+    .input(revokeShareInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => revokeShare({ ...input, user_id: ctx.user.id })),
+
+  getShares: protectedProcedure
+    .input(getSharesInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getShares({ ...input, user_id: ctx.user.id })),
+
+  getSharedWithMe: protectedProcedure
+    .input(getSharedWithMeInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getSharedWithMe({ ...input, user_id: ctx.user.id })),
+
+  // Public link routes
+  createPublicLink: protectedProcedure
+    .input(createPublicLinkInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createPublicLink({ ...input, user_id: ctx.user.id })),
+
+  getPublicLinks: protectedProcedure
+    .input(getPublicLinksInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getPublicLinks({ ...input, user_id: ctx.user.id })),
+
+  revokePublicLink: protectedProcedure
+    .input(revokePublicLinkInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => revokePublicLink({ ...input, user_id: ctx.user.id })),
+
+  // Workspace routes
+  createWorkspace: protectedProcedure
+    .input(createWorkspaceInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createWorkspace({ ...input, user_id: ctx.user.id })),
+
+  getUserWorkspaces: protectedProcedure
+    .input(getUserWorkspacesInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getUserWorkspaces({ ...input, user_id: ctx.user.id })),
+
+  updateWorkspace: protectedProcedure
+    .input(updateWorkspaceInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => updateWorkspace({ ...input, user_id: ctx.user.id })),
+
+  getWorkspaceMembers: protectedProcedure
+    .input(getWorkspaceMembersInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getWorkspaceMembers({ ...input, user_id: ctx.user.id })),
+
+  updateWorkspaceMember: protectedProcedure
+    .input(updateWorkspaceMemberInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => updateWorkspaceMember({ ...input, user_id: ctx.user.id })),
+
+  removeWorkspaceMember: protectedProcedure
+    .input(removeWorkspaceMemberInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => removeWorkspaceMember({ ...input, user_id: ctx.user.id })),
+
+  inviteToWorkspace: protectedProcedure
+    .input(inviteToWorkspaceInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => inviteToWorkspace({ ...input, user_id: ctx.user.id })),
+
+  getWorkspaceInvitations: protectedProcedure
+    .input(getWorkspaceInvitationsInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getWorkspaceInvitations({ ...input, user_id: ctx.user.id })),
+
+  revokeWorkspaceInvitation: protectedProcedure
+    .input(revokeWorkspaceInvitationInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => revokeWorkspaceInvitation({ ...input, user_id: ctx.user.id })),
+
+  acceptWorkspaceInvitation: protectedProcedure
+    .input(acceptWorkspaceInvitationInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => acceptWorkspaceInvitation({ ...input, user_id: ctx.user.id })),
+
+  // Saved search routes
+  createSavedSearch: protectedProcedure
+    .input(createSavedSearchInputSchema.omit({ user_id: true, workspace_id: true }))
+    .mutation(({ input, ctx }) => createSavedSearch({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
+
+  getSavedSearches: protectedProcedure
+    .input(getSavedSearchesInputSchema.omit({ user_id: true, workspace_id: true }))
+    .query(({ input, ctx }) => getSavedSearches({ ...input, user_id: ctx.user.id, workspace_id: ctx.workspaceId })),
+
+  updateSavedSearch: protectedProcedure
+    .input(updateSavedSearchInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => updateSavedSearch({ ...input, user_id: ctx.user.id })),
+
+  deleteSavedSearch: protectedProcedure
+    .input(deleteSavedSearchInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => deleteSavedSearch({ ...input, user_id: ctx.user.id })),
 });
 
 export type AppRouter = typeof appRouter;
 
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Only raster images are shown inline; anything else downloads as a file
+const INLINE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// File uploads bypass tRPC since the body is raw bytes rather than JSON:
+//   POST /attachments?note_id=...&filename=...  body is the file, Content-Type its type
+//   GET  /attachments/:id  with the session token, ?public_token= from a public link,
+//                          or ?expires=...&signature=... from getAttachmentUrls
+async function handleAttachmentRequest(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  try {
+    if (req.method === 'POST' && url.pathname === '/attachments') {
+      const token = getBearerToken(req);
+      const user = token ? await getSessionUser(token) : null;
+      if (!user) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+      }
+
+      const parsed = createAttachmentInputSchema.safeParse({
+        note_id: url.searchParams.get('note_id'),
+        user_id: user.id,
+        filename: url.searchParams.get('filename'),
+        content_type: req.headers['content-type'] || 'application/octet-stream'
+      });
+      if (!parsed.success) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'note_id and filename are required' });
+      }
+
+      const data = await readRequestBody(req, getAttachmentMaxBytes());
+      const attachment = await createAttachment(parsed.data, data);
+      sendJson(res, 201, attachment);
+      return;
+    }
+
+    const match = /^\/attachments\/([\w-]+)$/.exec(url.pathname);
+    if (req.method === 'GET' && match) {
+      const token = getBearerToken(req);
+      const user = token ? await getSessionUser(token) : null;
+      const file = await getAttachmentFile({
+        id: match[1],
+        user_id: user?.id ?? null,
+        public_token: url.searchParams.get('public_token'),
+        expires: url.searchParams.get('expires'),
+        signature: url.searchParams.get('signature')
+      });
+      if (!file) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Attachment not found' });
+      }
+
+      const { attachment, data } = file;
+      const inline = INLINE_CONTENT_TYPES.includes(attachment.content_type);
+      res.writeHead(200, {
+        'Content-Type': inline ? attachment.content_type : 'application/octet-stream',
+        'Content-Length': data.length,
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'X-Content-Type-Options': 'nosniff',
+        // Access can be taken away, so the browser asks again every time
+        'Cache-Control': 'private, no-cache'
+      });
+      res.end(data);
+      return;
+    }
+
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Not found' });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      sendJson(res, getHTTPStatusCodeFromError(error), { error: error.message });
+    } else {
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  }
+}
+
+// Markdown export, streamed as a ZIP since it can include every attachment:
+//   GET /export              every note in the active workspace (X-Workspace-Id)
+//   GET /export?folder_id=   one folder and its subfolders
+async function handleExportRequest(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  try {
+    if (req.method !== 'GET' || url.pathname !== '/export') {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Not found' });
+    }
+
+    const token = getBearerToken(req);
+    const user = token ? await getSessionUser(token) : null;
+    if (!user) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+    }
+
+    const workspaceHeader = req.headers['x-workspace-id'];
+    const files = exportNotes(exportNotesInputSchema.parse({
+      user_id: user.id,
+      workspace_id: typeof workspaceHeader === 'string' && workspaceHeader ? workspaceHeader : null,
+      folder_id: url.searchParams.get('folder_id') || undefined
+    }));
+
+    // Access checks run before the first file, while an error status can still be sent
+    let next = await files.next();
+
+    res.writeHead(200, {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': 'attachment; filename="notes.zip"',
+      'Cache-Control': 'no-store'
+    });
+
+    try {
+      const zip = createZipWriter(res);
+      while (!next.done) {
+        await zip.addFile(next.value.path, next.value.data, next.value.modified);
+        next = await files.next();
+      }
+      await zip.finish();
+    } catch {
+      // Too late for an error response; a cut-off archive fails to open instead
+      res.destroy();
+    }
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      sendJson(res, getHTTPStatusCodeFromError(error), { error: error.message });
+    } else {
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  }
+}
+
+// Imports into the active workspace; like attachment uploads the body is raw bytes:
+//   POST /import                   body is a ZIP of markdown files
+//   POST /import/enex?notebook=... body is an Evernote export of that notebook
+async function handleImportRequest(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  try {
+    if (req.method !== 'POST' || (url.pathname !== '/import' && url.pathname !== '/import/enex')) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Not found' });
+    }
+
+    const token = getBearerToken(req);
+    const user = token ? await getSessionUser(token) : null;
+    if (!user) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+    }
+
+    const workspaceHeader = req.headers['x-workspace-id'];
+    const space = {
+      user_id: user.id,
+      workspace_id: typeof workspaceHeader === 'string' && workspaceHeader ? workspaceHeader : null
+    };
+
+    if (url.pathname === '/import/enex') {
+      const parsed = importEnexInputSchema.safeParse({ ...space, notebook: url.searchParams.get('notebook') });
+      if (!parsed.success) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'A notebook name of up to 100 characters is required' });
+      }
+
+      const data = await readRequestBody(req, getImportMaxBytes());
+      sendJson(res, 200, await importEnex(parsed.data, data));
+      return;
+    }
+
+    const data = await readRequestBody(req, getImportMaxBytes());
+    sendJson(res, 200, await importNotes(importNotesInputSchema.parse(space), data));
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      sendJson(res, getHTTPStatusCodeFromError(error), { error: error.message });
+    } else {
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  }
+}
+
+function sendHtml(res: ServerResponse, status: number, html: string) {
+  res.writeHead(status, {
+    'Content-Type': 'text/html; charset=utf-8',
+    // Inline styles only; images may come from attachments or other sites
+    'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; img-src 'self' https: http:; form-action 'self'",
+    // The token is in the URL, so keep it out of Referer headers and caches
+    'Referrer-Policy': 'no-referrer',
+    'Cache-Control': 'no-store',
+    'X-Robots-Tag': 'noindex'
+  });
+  res.end(html);
+}
+
+// Pages for visitors without an account, outside tRPC since they are HTML:
+//   GET  /public/:token  the note, or a password form for protected links
+//   POST /public/:token  the password form, sent as application/x-www-form-urlencoded
+async function handlePublicLinkRequest(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const match = /^\/public\/([\w-]+)$/.exec(url.pathname);
+
+  try {
+    if (!match || (req.method !== 'GET' && req.method !== 'POST')) {
+      sendHtml(res, 404, renderPublicNotFoundPage());
+      return;
+    }
+
+    let password: string | undefined;
+    if (req.method === 'POST') {
+      const body = await readRequestBody(req, 16 * 1024);
+      password = new URLSearchParams(body.toString('utf8')).get('password') ?? '';
+    }
+
+    const view = await viewPublicLink(match[1], password);
+    if (!view) {
+      sendHtml(res, 404, renderPublicNotFoundPage());
+    } else if (view.status === 'password_required') {
+      sendHtml(res, view.invalid_password ? 403 : 401, renderPublicPasswordPage(view.invalid_password));
+    } else if (view.status === 'locked') {
+      sendHtml(res, 429, renderPublicLockedPage());
+    } else {
+      sendHtml(res, 200, renderPublicNotePage(view.note, match[1]));
+    }
+  } catch (error) {
+    const tooLarge = error instanceof TRPCError && error.code === 'PAYLOAD_TOO_LARGE';
+    res.writeHead(tooLarge ? 413 : 500, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(tooLarge ? 'Request too large' : 'Internal server error');
+  }
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
+  await backfillNotePositions();
+
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        if (req.url?.startsWith('/attachments')) {
+          handleAttachmentRequest(req, res);
+        } else if (req.url?.startsWith('/export')) {
+          handleExportRequest(req, res);
+        } else if (req.url?.startsWith('/import')) {
+          handleImportRequest(req, res);
+        } else if (req.url?.startsWith('/public/')) {
+          handlePublicLinkRequest(req, res);
+        } else {
+          next();
+        }
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
+  attachCollabServer(server);
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  scheduleTrashPurge();
 }
 
 start();
\ No newline at end of file
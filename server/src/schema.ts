@@ -12,12 +12,36 @@ export const userSchema = z.object({
 
 export type User = z.infer<typeof userSchema>;
 
+// The user as the API returns it, never with the password hash
+export const publicUserSchema = userSchema.omit({ password_hash: true });
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
+// Session schema
+export const sessionSchema = z.object({
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// Login result schema - the authenticated user plus the bearer token for later requests
+export const authResultSchema = z.object({
+  user: publicUserSchema,
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type AuthResult = z.infer<typeof authResultSchema>;
+
 // Folder schema
 export const folderSchema = z.object({
   id: z.string(),
   name: z.string(),
   user_id: z.string(),
+  workspace_id: z.string().nullable(), // Null for the user's personal folders
   parent_folder_id: z.string().nullable(),
+  deleted_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -30,6 +54,8 @@ export const tagSchema = z.object({
   name: z.string(),
   color: z.string().nullable(),
   user_id: z.string(),
+  workspace_id: z.string().nullable(), // Null for the user's personal tags
+  parent_tag_id: z.string().nullable(), // Nested tags read as paths, e.g. project/alpha/design
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -43,14 +69,212 @@ export const noteSchema = z.object({
   content: z.string(),
   markdown_content: z.string().nullable(),
   user_id: z.string(),
+  workspace_id: z.string().nullable(), // Null for the user's personal notes
   folder_id: z.string().nullable(),
   is_favorite: z.boolean(),
+  position: z.number().int(), // Manual sort order; lower comes first
+  deleted_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Note = z.infer<typeof noteSchema>;
 
+// A note listed together with the tags assigned to it
+export const noteWithTagsSchema = noteSchema.extend({
+  tags: z.array(tagSchema)
+});
+
+export type NoteWithTags = z.infer<typeof noteWithTagsSchema>;
+
+// Note revision schema
+export const noteRevisionSchema = z.object({
+  id: z.string(),
+  note_id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  markdown_content: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type NoteRevision = z.infer<typeof noteRevisionSchema>;
+
+// Line diff schema - old_line/new_line are 1-based positions in each version
+export const diffLineSchema = z.object({
+  type: z.enum(['equal', 'added', 'removed']),
+  text: z.string(),
+  old_line: z.number().int().nullable(),
+  new_line: z.number().int().nullable()
+});
+
+export type DiffLine = z.infer<typeof diffLineSchema>;
+
+export const noteRevisionDiffSchema = z.object({
+  from: noteRevisionSchema,
+  // null when comparing against the note's current content
+  to: noteRevisionSchema.nullable(),
+  title_changed: z.boolean(),
+  lines: z.array(diffLineSchema)
+});
+
+export type NoteRevisionDiff = z.infer<typeof noteRevisionDiffSchema>;
+
+// Search result schemas - highlighted text is split into plain and matched segments
+export const highlightSegmentSchema = z.object({
+  text: z.string(),
+  highlighted: z.boolean()
+});
+
+export type HighlightSegment = z.infer<typeof highlightSegmentSchema>;
+
+export const searchNoteResultSchema = noteSchema.extend({
+  rank: z.number(),
+  title_highlights: z.array(highlightSegmentSchema),
+  snippet: z.array(highlightSegmentSchema)
+});
+
+export type SearchNoteResult = z.infer<typeof searchNoteResultSchema>;
+
+// Attachment schema - files are served from /attachments/:id
+export const attachmentSchema = z.object({
+  id: z.string(),
+  note_id: z.string(),
+  user_id: z.string(),
+  filename: z.string(),
+  content_type: z.string(),
+  size: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type Attachment = z.infer<typeof attachmentSchema>;
+
+// Short-lived address for loading an attachment without the session token,
+// e.g. from an <img> tag: /attachments/:id?expires=<ms>&signature=...
+export const signedAttachmentUrlSchema = z.object({
+  attachment_id: z.string(),
+  expires_at: z.coerce.date(),
+  signature: z.string()
+});
+
+export type SignedAttachmentUrl = z.infer<typeof signedAttachmentUrlSchema>;
+
+// Share schemas - comment access lets a user read the note; edit also lets
+// them change its title and text
+export const sharePermissionSchema = z.enum(['read', 'comment', 'edit']);
+
+export type SharePermission = z.infer<typeof sharePermissionSchema>;
+
+export const shareSchema = z.object({
+  id: z.string(),
+  owner_id: z.string(),
+  grantee_id: z.string(),
+  grantee_username: z.string(),
+  grantee_email: z.string(),
+  note_id: z.string().nullable(),
+  folder_id: z.string().nullable(),
+  permission: sharePermissionSchema,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Share = z.infer<typeof shareSchema>;
+
+// shared_folder_id is the shared folder a note is reached through, null for notes shared on their own
+export const sharedNoteSchema = noteSchema.extend({
+  permission: sharePermissionSchema,
+  owner_username: z.string(),
+  shared_folder_id: z.string().nullable()
+});
+
+export type SharedNote = z.infer<typeof sharedNoteSchema>;
+
+export const sharedFolderSchema = folderSchema.extend({
+  permission: sharePermissionSchema,
+  owner_username: z.string()
+});
+
+export type SharedFolder = z.infer<typeof sharedFolderSchema>;
+
+export const sharedWithMeSchema = z.object({
+  notes: z.array(sharedNoteSchema),
+  folders: z.array(sharedFolderSchema)
+});
+
+export type SharedWithMe = z.infer<typeof sharedWithMeSchema>;
+
+// Public link schemas - the token itself is only returned when the link is
+// created, since the server keeps just its hash
+export const publicLinkSchema = z.object({
+  id: z.string(),
+  note_id: z.string(),
+  user_id: z.string(),
+  has_password: z.boolean(),
+  expires_at: z.coerce.date().nullable(),
+  view_count: z.number().int(),
+  last_viewed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PublicLink = z.infer<typeof publicLinkSchema>;
+
+export const createdPublicLinkSchema = publicLinkSchema.extend({
+  token: z.string()
+});
+
+export type CreatedPublicLink = z.infer<typeof createdPublicLinkSchema>;
+
+// Workspace schemas - owners manage members and settings, editors change
+// notes, folders and tags, viewers only read them
+export const workspaceRoleSchema = z.enum(['owner', 'editor', 'viewer']);
+
+export type WorkspaceRole = z.infer<typeof workspaceRoleSchema>;
+
+export const workspaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Workspace = z.infer<typeof workspaceSchema>;
+
+// A workspace as listed for one of its members
+export const userWorkspaceSchema = workspaceSchema.extend({
+  role: workspaceRoleSchema
+});
+
+export type UserWorkspace = z.infer<typeof userWorkspaceSchema>;
+
+export const workspaceMemberSchema = z.object({
+  workspace_id: z.string(),
+  user_id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  role: workspaceRoleSchema,
+  created_at: z.coerce.date()
+});
+
+export type WorkspaceMember = z.infer<typeof workspaceMemberSchema>;
+
+// Like public links, the token is only returned when the invitation is created
+export const workspaceInvitationSchema = z.object({
+  id: z.string(),
+  workspace_id: z.string(),
+  email: z.string(),
+  role: workspaceRoleSchema,
+  invited_by: z.string(),
+  expires_at: z.coerce.date(),
+  created_at: z.coerce.date()
+});
+
+export type WorkspaceInvitation = z.infer<typeof workspaceInvitationSchema>;
+
+export const createdWorkspaceInvitationSchema = workspaceInvitationSchema.extend({
+  token: z.string()
+});
+
+export type CreatedWorkspaceInvitation = z.infer<typeof createdWorkspaceInvitationSchema>;
+
 // Note-Tag relationship schema
 export const noteTagSchema = z.object({
   note_id: z.string(),
@@ -60,6 +284,10 @@ export const noteTagSchema = z.object({
 
 export type NoteTag = z.infer<typeof noteTagSchema>;
 
+// The workspace the caller has open, for procedures that list or create
+// records; omitted or null means their personal notes
+export const activeWorkspaceIdSchema = z.string().nullable().optional();
+
 // User input schemas
 export const createUserInputSchema = z.object({
   email: z.string().email(),
@@ -80,6 +308,7 @@ export type LoginUserInput = z.infer<typeof loginUserInputSchema>;
 export const createFolderInputSchema = z.object({
   name: z.string().min(1).max(100),
   user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema,
   parent_folder_id: z.string().nullable().optional()
 });
 
@@ -87,6 +316,7 @@ export type CreateFolderInput = z.infer<typeof createFolderInputSchema>;
 
 export const updateFolderInputSchema = z.object({
   id: z.string(),
+  user_id: z.string(),
   name: z.string().min(1).max(100).optional(),
   parent_folder_id: z.string().nullable().optional()
 });
@@ -97,25 +327,31 @@ export type UpdateFolderInput = z.infer<typeof updateFolderInputSchema>;
 export const createTagInputSchema = z.object({
   name: z.string().min(1).max(50),
   color: z.string().nullable().optional(),
-  user_id: z.string()
+  parent_tag_id: z.string().nullable().optional(),
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema
 });
 
 export type CreateTagInput = z.infer<typeof createTagInputSchema>;
 
 export const updateTagInputSchema = z.object({
   id: z.string(),
+  user_id: z.string(),
   name: z.string().min(1).max(50).optional(),
-  color: z.string().nullable().optional()
+  color: z.string().nullable().optional(),
+  parent_tag_id: z.string().nullable().optional()
 });
 
 export type UpdateTagInput = z.infer<typeof updateTagInputSchema>;
 
 // Note input schemas
 export const createNoteInputSchema = z.object({
+  id: z.string().uuid().optional(), // Client-generated, so notes created offline keep their id once synced
   title: z.string().min(1).max(200),
   content: z.string(),
   markdown_content: z.string().nullable().optional(),
   user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema,
   folder_id: z.string().nullable().optional(),
   tag_ids: z.array(z.string()).optional()
 });
@@ -124,36 +360,130 @@ export type CreateNoteInput = z.infer<typeof createNoteInputSchema>;
 
 export const updateNoteInputSchema = z.object({
   id: z.string(),
+  user_id: z.string(),
   title: z.string().min(1).max(200).optional(),
   content: z.string().optional(),
   markdown_content: z.string().nullable().optional(),
   folder_id: z.string().nullable().optional(),
   is_favorite: z.boolean().optional(),
-  tag_ids: z.array(z.string()).optional()
+  position: z.number().int().optional(),
+  tag_ids: z.array(z.string()).optional(),
+  // The updated_at the client last saw; if the note changed since, the write
+  // is rejected with CONFLICT instead of overwriting the newer copy
+  expected_updated_at: z.coerce.date().optional()
 });
 
 export type UpdateNoteInput = z.infer<typeof updateNoteInputSchema>;
 
+// Moves a note to where target_id is in manual order
+export const moveNoteInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  target_id: z.string()
+});
+
+export type MoveNoteInput = z.infer<typeof moveNoteInputSchema>;
+
 // Query input schemas
+
+// 'all' keeps notes carrying every included tag, 'any' those carrying at least one
+export const tagMatchSchema = z.enum(['all', 'any']);
+
+export type TagMatch = z.infer<typeof tagMatchSchema>;
+
 export const getUserNotesInputSchema = z.object({
   user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema,
   folder_id: z.string().nullable().optional(),
-  tag_id: z.string().optional(),
-  search: z.string().optional(),
-  is_favorite: z.boolean().optional()
+  tag_id: z.string().optional(), // Same as include_tag_ids with a single tag
+  include_tag_ids: z.array(z.string()).optional(),
+  exclude_tag_ids: z.array(z.string()).optional(), // Notes carrying any of these are left out
+  tag_match: tagMatchSchema.optional(), // Defaults to 'all'
+  include_descendant_tags: z.boolean().optional(), // Each tag also matches the tags nested below it
+  search: z.string().optional(), // Same search language as searchNotes
+  is_favorite: z.boolean().optional(),
+  trashed: z.boolean().optional() // true lists only trashed notes; trashed notes are excluded otherwise
 });
 
 export type GetUserNotesInput = z.infer<typeof getUserNotesInputSchema>;
 
+// Manual order is the notes' position field
+export const noteSortKeySchema = z.enum(['updated', 'created', 'title', 'manual']);
+
+export type NoteSortKey = z.infer<typeof noteSortKeySchema>;
+
+export const sortDirectionSchema = z.enum(['asc', 'desc']);
+
+export type SortDirection = z.infer<typeof sortDirectionSchema>;
+
+// getUserNotes one page at a time; pass the previous page's next_cursor
+// with the same filters and sort to continue
+export const getNotesPageInputSchema = getUserNotesInputSchema.extend({
+  sort: noteSortKeySchema.optional(), // Defaults to 'updated'
+  direction: sortDirectionSchema.optional(), // Defaults to newest first for dates, ascending otherwise
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(200).optional()
+});
+
+export type GetNotesPageInput = z.infer<typeof getNotesPageInputSchema>;
+
+export const notesPageSchema = z.object({
+  notes: z.array(noteWithTagsSchema),
+  next_cursor: z.string().nullable() // Null on the last page
+});
+
+export type NotesPage = z.infer<typeof notesPageSchema>;
+
+// Saved search schemas - the query is a getUserNotes filter, always run in
+// the space the search was saved in and never against the trash
+export const savedSearchQuerySchema = getUserNotesInputSchema.omit({ user_id: true, workspace_id: true, trashed: true });
+
+export type SavedSearchQuery = z.infer<typeof savedSearchQuerySchema>;
+
+export const savedSearchSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  user_id: z.string(),
+  workspace_id: z.string().nullable(), // Null for the user's personal searches
+  query: savedSearchQuerySchema,
+  is_default: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SavedSearch = z.infer<typeof savedSearchSchema>;
+
+// A saved search listed with the number of notes it currently matches
+export const savedSearchWithCountSchema = savedSearchSchema.extend({
+  note_count: z.number().int()
+});
+
+export type SavedSearchWithCount = z.infer<typeof savedSearchWithCountSchema>;
+
+// Search language: words, "quoted phrases", -exclusions and OR, plus
+// tag:, folder:, is:favorite, created: and updated: (see helpers/search_query)
+export const searchNotesInputSchema = z.object({
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema,
+  query: z.string().min(1).max(500),
+  folder_id: z.string().nullable().optional(),
+  limit: z.number().int().min(1).max(100).optional()
+});
+
+export type SearchNotesInput = z.infer<typeof searchNotesInputSchema>;
+
 export const getUserFoldersInputSchema = z.object({
   user_id: z.string(),
-  parent_folder_id: z.string().nullable().optional()
+  workspace_id: activeWorkspaceIdSchema,
+  parent_folder_id: z.string().nullable().optional(),
+  trashed: z.boolean().optional() // true lists only trashed folders; trashed folders are excluded otherwise
 });
 
 export type GetUserFoldersInput = z.infer<typeof getUserFoldersInputSchema>;
 
 export const getUserTagsInputSchema = z.object({
-  user_id: z.string()
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema
 });
 
 export type GetUserTagsInput = z.infer<typeof getUserTagsInputSchema>;
@@ -172,9 +502,441 @@ export const deleteFolderInputSchema = z.object({
 
 export type DeleteFolderInput = z.infer<typeof deleteFolderInputSchema>;
 
+// Child tags move up to the deleted tag's parent with reparent_children,
+// and become top-level tags otherwise
 export const deleteTagInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  reparent_children: z.boolean().optional()
+});
+
+export type DeleteTagInput = z.infer<typeof deleteTagInputSchema>;
+
+// Note revision input schemas
+export const getNoteRevisionsInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string()
+});
+
+export type GetNoteRevisionsInput = z.infer<typeof getNoteRevisionsInputSchema>;
+
+export const diffNoteRevisionsInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string(),
+  from_revision_id: z.string(),
+  to_revision_id: z.string().nullable() // null compares against the current note
+});
+
+export type DiffNoteRevisionsInput = z.infer<typeof diffNoteRevisionsInputSchema>;
+
+export const restoreNoteRevisionInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string(),
+  revision_id: z.string()
+});
+
+export type RestoreNoteRevisionInput = z.infer<typeof restoreNoteRevisionInputSchema>;
+
+// Attachment input schemas - the file bytes travel separately in the request body
+export const createAttachmentInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string(),
+  filename: z.string().min(1).max(255),
+  content_type: z.string().min(1).max(255)
+});
+
+export type CreateAttachmentInput = z.infer<typeof createAttachmentInputSchema>;
+
+// Downloads are allowed to a signed-in user who can read the note, to anyone
+// holding a public link to it, or with an unexpired signed address
+export const getAttachmentFileInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string().nullable(),
+  public_token: z.string().nullable(),
+  expires: z.string().nullable().optional(),
+  signature: z.string().nullable().optional()
+});
+
+export type GetAttachmentFileInput = z.infer<typeof getAttachmentFileInputSchema>;
+
+// Signs every attachment of a note its reader can see
+export const getAttachmentUrlsInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string()
+});
+
+export type GetAttachmentUrlsInput = z.infer<typeof getAttachmentUrlsInputSchema>;
+
+// Export input schema - folder_id limits the export to that folder and its
+// subfolders; otherwise every note in the active workspace is exported
+export const exportNotesInputSchema = z.object({
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema,
+  folder_id: z.string().optional()
+});
+
+export type ExportNotesInput = z.infer<typeof exportNotesInputSchema>;
+
+// Single note export - a standalone document for readers without the app,
+// with the note's images embedded
+export const noteExportFormatSchema = z.enum(['html', 'pdf']);
+
+export type NoteExportFormat = z.infer<typeof noteExportFormatSchema>;
+
+export const exportNoteInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string(),
+  format: noteExportFormatSchema
+});
+
+export type ExportNoteInput = z.infer<typeof exportNoteInputSchema>;
+
+// The file travels base64-encoded so PDFs survive the JSON transport
+export const noteExportFileSchema = z.object({
+  file_name: z.string(),
+  content_type: z.string(),
+  data: z.string()
+});
+
+export type NoteExportFile = z.infer<typeof noteExportFileSchema>;
+
+// Import input schema - the ZIP archive travels separately in the request body
+export const importNotesInputSchema = z.object({
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema
+});
+
+export type ImportNotesInput = z.infer<typeof importNotesInputSchema>;
+
+// Evernote exports hold one notebook each; it is imported into the top-level
+// folder of that name
+export const importEnexInputSchema = z.object({
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema,
+  notebook: z.string().min(1).max(100)
+});
+
+export type ImportEnexInput = z.infer<typeof importEnexInputSchema>;
+
+// Outcome for each file or note in an import; message says why it was skipped
+// or failed, or what was left out of one that was created
+export const importFileResultSchema = z.object({
+  path: z.string(),
+  status: z.enum(['created', 'skipped', 'failed']),
+  note_id: z.string().nullable(),
+  message: z.string().nullable()
+});
+
+export type ImportFileResult = z.infer<typeof importFileResultSchema>;
+
+export const importResultSchema = z.object({
+  files: z.array(importFileResultSchema),
+  created: z.number().int(),
+  skipped: z.number().int(),
+  failed: z.number().int()
+});
+
+export type ImportResult = z.infer<typeof importResultSchema>;
+
+// Note link input schemas
+export const getBacklinksInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string()
+});
+
+export type GetBacklinksInput = z.infer<typeof getBacklinksInputSchema>;
+
+// Trash input schemas
+export const restoreNoteInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string()
+});
+
+export type RestoreNoteInput = z.infer<typeof restoreNoteInputSchema>;
+
+export const restoreFolderInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string()
+});
+
+export type RestoreFolderInput = z.infer<typeof restoreFolderInputSchema>;
+
+export const emptyTrashInputSchema = z.object({
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema
+});
+
+export type EmptyTrashInput = z.infer<typeof emptyTrashInputSchema>;
+
+export const trashPurgeResultSchema = z.object({
+  notes: z.number().int(),
+  folders: z.number().int()
+});
+
+export type TrashPurgeResult = z.infer<typeof trashPurgeResultSchema>;
+
+// Sync schemas - since is the cursor returned by the previous sync; omit it
+// for a full snapshot
+export const syncInputSchema = z.object({
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema,
+  since: z.coerce.date().nullable().optional()
+});
+
+export type SyncInput = z.infer<typeof syncInputSchema>;
+
+// Changed records include trashed notes and folders; deleted lists the ids of
+// records removed for good since the cursor
+export const syncResultSchema = z.object({
+  notes: z.array(noteSchema),
+  folders: z.array(folderSchema),
+  tags: z.array(tagSchema),
+  note_tags: z.array(noteTagSchema), // Complete tag assignments of the changed notes
+  deleted: z.object({
+    notes: z.array(z.string()),
+    folders: z.array(z.string()),
+    tags: z.array(z.string())
+  }),
+  cursor: z.coerce.date()
+});
+
+export type SyncResult = z.infer<typeof syncResultSchema>;
+
+// Backup schemas - a backup holds the user's personal space, trash included.
+// Records keep their ids but not their owner, so a backup can be restored
+// into any account; bump the version when the format changes.
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export const backupSchema = z.object({
+  schema_version: z.literal(BACKUP_SCHEMA_VERSION),
+  exported_at: z.coerce.date(),
+  folders: z.array(folderSchema.omit({ user_id: true, workspace_id: true })),
+  tags: z.array(tagSchema.omit({ user_id: true, workspace_id: true })),
+  notes: z.array(noteSchema.omit({ user_id: true, workspace_id: true })),
+  note_tags: z.array(noteTagSchema),
+  revisions: z.array(noteRevisionSchema)
+});
+
+export type Backup = z.infer<typeof backupSchema>;
+
+export const getBackupInputSchema = z.object({
+  user_id: z.string()
+});
+
+export type GetBackupInput = z.infer<typeof getBackupInputSchema>;
+
+// 'empty' refuses accounts that already hold notes, folders or tags; 'merge'
+// adds the backup next to them
+export const restoreBackupInputSchema = z.object({
+  user_id: z.string(),
+  mode: z.enum(['empty', 'merge']),
+  backup: backupSchema
+});
+
+export type RestoreBackupInput = z.infer<typeof restoreBackupInputSchema>;
+
+// A backup record that was not restored as it was: merged into an existing
+// folder or tag, or a changed note restored as a copy. restored_id is where
+// it ended up, or null when it was left out.
+export const restoreConflictSchema = z.object({
+  entity_type: z.enum(['folder', 'tag', 'note', 'note_tag', 'revision']),
+  backup_id: z.string(),
+  name: z.string(),
+  restored_id: z.string().nullable(),
+  message: z.string()
+});
+
+export type RestoreConflict = z.infer<typeof restoreConflictSchema>;
+
+// Counts are of records created; remapped counts those given a new id
+// because theirs was taken
+export const restoreResultSchema = z.object({
+  folders: z.number().int(),
+  tags: z.number().int(),
+  notes: z.number().int(),
+  revisions: z.number().int(),
+  skipped: z.number().int(), // Notes already in the account unchanged
+  remapped: z.number().int(),
+  conflicts: z.array(restoreConflictSchema)
+});
+
+export type RestoreResult = z.infer<typeof restoreResultSchema>;
+
+// Share input schemas - the other user is picked by email address
+export const shareNoteInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string(),
+  email: z.string().email(),
+  permission: sharePermissionSchema
+});
+
+export type ShareNoteInput = z.infer<typeof shareNoteInputSchema>;
+
+export const shareFolderInputSchema = z.object({
+  folder_id: z.string(),
+  user_id: z.string(),
+  email: z.string().email(),
+  permission: sharePermissionSchema
+});
+
+export type ShareFolderInput = z.infer<typeof shareFolderInputSchema>;
+
+export const revokeShareInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string()
+});
+
+export type RevokeShareInput = z.infer<typeof revokeShareInputSchema>;
+
+// Shares of one note or folder; set exactly one of note_id and folder_id
+export const getSharesInputSchema = z.object({
+  user_id: z.string(),
+  note_id: z.string().optional(),
+  folder_id: z.string().optional()
+});
+
+export type GetSharesInput = z.infer<typeof getSharesInputSchema>;
+
+export const getSharedWithMeInputSchema = z.object({
+  user_id: z.string()
+});
+
+export type GetSharedWithMeInput = z.infer<typeof getSharedWithMeInputSchema>;
+
+// Public link input schemas - links without expires_at never expire, and
+// links with a password ask for it before showing the note
+export const createPublicLinkInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string(),
+  expires_at: z.coerce.date().nullable().optional(),
+  password: z.string().min(4).optional()
+});
+
+export type CreatePublicLinkInput = z.infer<typeof createPublicLinkInputSchema>;
+
+export const getPublicLinksInputSchema = z.object({
+  note_id: z.string(),
+  user_id: z.string()
+});
+
+export type GetPublicLinksInput = z.infer<typeof getPublicLinksInputSchema>;
+
+export const revokePublicLinkInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string()
+});
+
+export type RevokePublicLinkInput = z.infer<typeof revokePublicLinkInputSchema>;
+
+// Workspace input schemas
+export const createWorkspaceInputSchema = z.object({
+  user_id: z.string(),
+  name: z.string().min(1).max(100)
+});
+
+export type CreateWorkspaceInput = z.infer<typeof createWorkspaceInputSchema>;
+
+export const getUserWorkspacesInputSchema = z.object({
+  user_id: z.string()
+});
+
+export type GetUserWorkspacesInput = z.infer<typeof getUserWorkspacesInputSchema>;
+
+export const updateWorkspaceInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  name: z.string().min(1).max(100)
+});
+
+export type UpdateWorkspaceInput = z.infer<typeof updateWorkspaceInputSchema>;
+
+export const getWorkspaceMembersInputSchema = z.object({
+  workspace_id: z.string(),
+  user_id: z.string()
+});
+
+export type GetWorkspaceMembersInput = z.infer<typeof getWorkspaceMembersInputSchema>;
+
+// member_id is the user whose membership changes; user_id is the caller
+export const updateWorkspaceMemberInputSchema = z.object({
+  workspace_id: z.string(),
+  user_id: z.string(),
+  member_id: z.string(),
+  role: workspaceRoleSchema
+});
+
+export type UpdateWorkspaceMemberInput = z.infer<typeof updateWorkspaceMemberInputSchema>;
+
+export const removeWorkspaceMemberInputSchema = z.object({
+  workspace_id: z.string(),
+  user_id: z.string(),
+  member_id: z.string()
+});
+
+export type RemoveWorkspaceMemberInput = z.infer<typeof removeWorkspaceMemberInputSchema>;
+
+export const inviteToWorkspaceInputSchema = z.object({
+  workspace_id: z.string(),
+  user_id: z.string(),
+  email: z.string().email(),
+  role: workspaceRoleSchema
+});
+
+export type InviteToWorkspaceInput = z.infer<typeof inviteToWorkspaceInputSchema>;
+
+export const getWorkspaceInvitationsInputSchema = z.object({
+  workspace_id: z.string(),
+  user_id: z.string()
+});
+
+export type GetWorkspaceInvitationsInput = z.infer<typeof getWorkspaceInvitationsInputSchema>;
+
+export const revokeWorkspaceInvitationInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string()
+});
+
+export type RevokeWorkspaceInvitationInput = z.infer<typeof revokeWorkspaceInvitationInputSchema>;
+
+export const acceptWorkspaceInvitationInputSchema = z.object({
+  token: z.string(),
+  user_id: z.string()
+});
+
+export type AcceptWorkspaceInvitationInput = z.infer<typeof acceptWorkspaceInvitationInputSchema>;
+
+// Saved search input schemas - is_default pins the search as the view opened
+// after login, replacing any earlier default in the same space
+export const createSavedSearchInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  query: savedSearchQuerySchema,
+  is_default: z.boolean().optional(),
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema
+});
+
+export type CreateSavedSearchInput = z.infer<typeof createSavedSearchInputSchema>;
+
+export const getSavedSearchesInputSchema = z.object({
+  user_id: z.string(),
+  workspace_id: activeWorkspaceIdSchema
+});
+
+export type GetSavedSearchesInput = z.infer<typeof getSavedSearchesInputSchema>;
+
+export const updateSavedSearchInputSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  name: z.string().min(1).max(100).optional(),
+  query: savedSearchQuerySchema.optional(),
+  is_default: z.boolean().optional()
+});
+
+export type UpdateSavedSearchInput = z.infer<typeof updateSavedSearchInputSchema>;
+
+export const deleteSavedSearchInputSchema = z.object({
   id: z.string(),
   user_id: z.string()
 });
 
-export type DeleteTagInput = z.infer<typeof deleteTagInputSchema>;
\ No newline at end of file
+export type DeleteSavedSearchInput = z.infer<typeof deleteSavedSearchInputSchema>;
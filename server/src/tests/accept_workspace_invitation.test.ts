@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable, workspaceInvitationsTable } from '../db/schema';
+import { acceptWorkspaceInvitation } from '../handlers/accept_workspace_invitation';
+import { hashInvitationToken } from '../helpers/workspaces';
+import { eq } from 'drizzle-orm';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'new@example.com', username: 'newbie', password_hash: 'hashed_password' },
+  { id: 'user-3', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+];
+
+const invite = (token: string, expiresAt: Date) => ({
+  id: `inv-${token}`,
+  workspace_id: 'ws-1',
+  email: 'new@example.com',
+  role: 'editor' as const,
+  token_hash: hashInvitationToken(token),
+  invited_by: 'user-1',
+  expires_at: expiresAt
+});
+
+describe('acceptWorkspaceInvitation', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values({ workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' }).execute();
+  });
+  afterEach(resetDB);
+
+  it('should add the user with the invited role and use up the invitation', async () => {
+    await db.insert(workspaceInvitationsTable).values(invite('good', new Date(Date.now() + 60_000))).execute();
+
+    const workspace = await acceptWorkspaceInvitation({ token: 'good', user_id: 'user-2' });
+
+    expect(workspace).toMatchObject({ id: 'ws-1', name: 'Team', role: 'editor' });
+
+    const members = await db.select().from(workspaceMembersTable).where(eq(workspaceMembersTable.user_id, 'user-2')).execute();
+    expect(members[0].role).toEqual('editor');
+    expect(await db.select().from(workspaceInvitationsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject users with another email address', async () => {
+    await db.insert(workspaceInvitationsTable).values(invite('good', new Date(Date.now() + 60_000))).execute();
+
+    await expect(acceptWorkspaceInvitation({ token: 'good', user_id: 'user-3' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject expired and unknown tokens', async () => {
+    await db.insert(workspaceInvitationsTable).values(invite('old', new Date(Date.now() - 60_000))).execute();
+
+    await expect(acceptWorkspaceInvitation({ token: 'old', user_id: 'user-2' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(acceptWorkspaceInvitation({ token: 'missing', user_id: 'user-2' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
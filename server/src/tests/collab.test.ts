@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, notesTable, noteRevisionsTable, sharesTable } from '../db/schema';
+import { attachCollabServer } from '../helpers/collab';
+import { hashSessionToken } from '../helpers/session_token';
+import {
+  COLLAB_TEXT_NAME,
+  MESSAGE_AUTH,
+  MESSAGE_SYNC,
+  MESSAGE_SAVE_FAILED,
+  CLOSE_UNAUTHORIZED,
+  CLOSE_FORBIDDEN,
+  type CollabSaveFailedState
+} from '../helpers/collab_protocol';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+const otherUser = {
+  id: 'user-2',
+  email: 'other@example.com',
+  username: 'otheruser',
+  password_hash: 'hashed_password'
+};
+
+const testNote = {
+  id: '7b0f3c62-3c1e-4a43-9d0e-5b6a2f1c8e01',
+  title: 'Shared',
+  content: 'Hello',
+  user_id: testUser.id
+};
+
+interface TestClient {
+  ws: WebSocket;
+  doc: Y.Doc;
+  synced: Promise<void>;
+}
+
+const waitFor = async (check: () => boolean | Promise<boolean>) => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await check()) return;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error('Condition not met in time');
+};
+
+describe('collaborative editing', () => {
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values([testUser, otherUser]).execute();
+    await db.insert(sessionsTable).values([
+      { id: hashSessionToken('token-1'), user_id: testUser.id, expires_at: new Date(Date.now() + 60 * 60 * 1000) },
+      { id: hashSessionToken('token-2'), user_id: otherUser.id, expires_at: new Date(Date.now() + 60 * 60 * 1000) }
+    ]).execute();
+    await db.insert(notesTable).values(testNote).execute();
+
+    server = createServer();
+    attachCollabServer(server);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `ws://localhost:${(server.address() as AddressInfo).port}/collab/${testNote.id}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    await resetDB();
+  });
+
+  const connect = (token: string): TestClient => {
+    const ws = new WebSocket(url);
+    const doc = new Y.Doc();
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin === ws) return;
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      ws.send(encoding.toUint8Array(encoder));
+    });
+
+    const synced = new Promise<void>((resolve) => {
+      ws.on('message', (data: Buffer) => {
+        const decoder = decoding.createDecoder(new Uint8Array(data));
+        if (decoding.readVarUint(decoder) !== MESSAGE_SYNC) return;
+
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        const type = syncProtocol.readSyncMessage(decoder, encoder, doc, ws);
+        if (encoding.length(encoder) > 1) ws.send(encoding.toUint8Array(encoder));
+        if (type === syncProtocol.messageYjsSyncStep2) resolve();
+      });
+    });
+
+    ws.on('open', () => {
+      const auth = encoding.createEncoder();
+      encoding.writeVarUint(auth, MESSAGE_AUTH);
+      encoding.writeVarString(auth, token);
+      ws.send(encoding.toUint8Array(auth));
+
+      const step1 = encoding.createEncoder();
+      encoding.writeVarUint(step1, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(step1, doc);
+      ws.send(encoding.toUint8Array(step1));
+    });
+
+    return { ws, doc, synced };
+  };
+
+  const closeCode = (client: TestClient) =>
+    new Promise<number>(resolve => client.ws.on('close', (code: number) => resolve(code)));
+
+  it('should load the note content into the shared document', async () => {
+    const client = connect('token-1');
+    await client.synced;
+
+    expect(client.doc.getText(COLLAB_TEXT_NAME).toString()).toEqual('Hello');
+    client.ws.close();
+  });
+
+  it('should relay edits between editors and save them to the note', async () => {
+    const first = connect('token-1');
+    const second = connect('token-1');
+    await Promise.all([first.synced, second.synced]);
+
+    first.doc.getText(COLLAB_TEXT_NAME).insert(5, ' world');
+    await waitFor(() => second.doc.getText(COLLAB_TEXT_NAME).toString() === 'Hello world');
+
+    second.doc.getText(COLLAB_TEXT_NAME).insert(0, '> ');
+    await waitFor(() => first.doc.getText(COLLAB_TEXT_NAME).toString() === '> Hello world');
+
+    // Leaving writes pending edits right away
+    first.ws.close();
+    second.ws.close();
+    await waitFor(async () => {
+      const notes = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+      return notes[0].content === '> Hello world';
+    });
+  });
+
+  it('should merge content written outside the session with the session edits', async () => {
+    const client = connect('token-1');
+    await client.synced;
+
+    await db.update(notesTable)
+      .set({ content: 'Hello world', updated_at: new Date(Date.now() + 1000) })
+      .where(eq(notesTable.id, testNote.id))
+      .execute();
+
+    client.doc.getText(COLLAB_TEXT_NAME).insert(0, 'Oh, ');
+
+    await waitFor(() => client.doc.getText(COLLAB_TEXT_NAME).toString() === 'Oh, Hello world');
+    await waitFor(async () => {
+      const notes = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+      return notes[0].content === 'Oh, Hello world';
+    });
+    const revisions = await db.select().from(noteRevisionsTable)
+      .where(eq(noteRevisionsTable.note_id, testNote.id))
+      .execute();
+    expect(revisions.map(revision => revision.content)).toContain('Hello world');
+    client.ws.close();
+  });
+
+  it('should tell editors when their edits could not be saved', async () => {
+    const client = connect('token-1');
+    await client.synced;
+    const failure = new Promise<CollabSaveFailedState>((resolve) => {
+      client.ws.on('message', (data: Buffer) => {
+        const decoder = decoding.createDecoder(new Uint8Array(data));
+        if (decoding.readVarUint(decoder) !== MESSAGE_SAVE_FAILED) return;
+        resolve(JSON.parse(decoding.readVarString(decoder)));
+      });
+    });
+
+    await db.update(notesTable)
+      .set({ deleted_at: new Date() })
+      .where(eq(notesTable.id, testNote.id))
+      .execute();
+    client.doc.getText(COLLAB_TEXT_NAME).insert(5, '!');
+
+    expect((await failure).message).toEqual('Cannot edit a note in the trash');
+    const notes = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+    expect(notes[0].content).toEqual('Hello');
+    client.ws.close();
+  });
+
+  it('should hand a note reopened while it is being saved the latest text', async () => {
+    const first = connect('token-1');
+    await first.synced;
+
+    first.doc.getText(COLLAB_TEXT_NAME).insert(5, '!');
+    first.ws.close();
+
+    const second = connect('token-1');
+    await second.synced;
+
+    expect(second.doc.getText(COLLAB_TEXT_NAME).toString()).toEqual('Hello!');
+    second.ws.close();
+    await waitFor(async () => {
+      const notes = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+      return notes[0].content === 'Hello!';
+    });
+  });
+
+  it('should stop taking edits from a user whose share was revoked', async () => {
+    await db.insert(sharesTable).values({
+      id: 'share-1',
+      owner_id: testUser.id,
+      grantee_id: otherUser.id,
+      note_id: testNote.id,
+      permission: 'edit'
+    }).execute();
+
+    const owner = connect('token-1');
+    const editor = connect('token-2');
+    await Promise.all([owner.synced, editor.synced]);
+    const closed = closeCode(editor);
+
+    await db.delete(sharesTable).where(eq(sharesTable.id, 'share-1')).execute();
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    editor.doc.getText(COLLAB_TEXT_NAME).insert(0, 'Revoked ');
+
+    expect(await closed).toEqual(CLOSE_FORBIDDEN);
+    expect(owner.doc.getText(COLLAB_TEXT_NAME).toString()).toEqual('Hello');
+    owner.ws.close();
+  });
+
+  it('should refuse an invalid session token', async () => {
+    const client = connect('wrong-token');
+
+    expect(await closeCode(client)).toEqual(CLOSE_UNAUTHORIZED);
+  });
+
+  it("should refuse another user's note", async () => {
+    const client = connect('token-2');
+
+    expect(await closeCode(client)).toEqual(CLOSE_FORBIDDEN);
+  });
+
+  it('should let read-only shares follow along without editing', async () => {
+    await db.insert(sharesTable).values({
+      id: 'share-1',
+      owner_id: testUser.id,
+      grantee_id: otherUser.id,
+      note_id: testNote.id,
+      permission: 'read'
+    }).execute();
+
+    const owner = connect('token-1');
+    const reader = connect('token-2');
+    await Promise.all([owner.synced, reader.synced]);
+
+    reader.doc.getText(COLLAB_TEXT_NAME).insert(0, 'Ignored ');
+    owner.doc.getText(COLLAB_TEXT_NAME).insert(5, '!');
+    await waitFor(() => reader.doc.getText(COLLAB_TEXT_NAME).toString().endsWith('Hello!'));
+
+    expect(owner.doc.getText(COLLAB_TEXT_NAME).toString()).toEqual('Hello!');
+    owner.ws.close();
+    reader.ws.close();
+    await waitFor(async () => {
+      const notes = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+      return notes[0].content === 'Hello!';
+    });
+  });
+});
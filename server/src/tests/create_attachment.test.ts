@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, attachmentsTable } from '../db/schema';
+import { createAttachment } from '../handlers/create_attachment';
+import { getAttachmentFile } from '../handlers/get_attachment_file';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+const testNote = {
+  id: 'note-1',
+  title: 'Note',
+  content: '',
+  user_id: 'user-1'
+};
+
+const input = {
+  note_id: 'note-1',
+  user_id: 'user-1',
+  filename: 'photo.png',
+  content_type: 'image/png'
+};
+
+describe('createAttachment', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env['ATTACHMENTS_DIR'] = storageDir;
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['ATTACHMENTS_DIR'];
+    delete process.env['ATTACHMENT_MAX_SIZE_MB'];
+    delete process.env['ATTACHMENT_QUOTA_MB'];
+  });
+
+  it('should store the file and record it', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(notesTable).values(testNote).execute();
+
+    const result = await createAttachment(input, Buffer.from('image bytes'));
+
+    expect(result.id).toBeDefined();
+    expect(result.note_id).toBe('note-1');
+    expect(result.filename).toBe('photo.png');
+    expect(result.content_type).toBe('image/png');
+    expect(result.size).toBe(11);
+    expect(result).not.toHaveProperty('storage_key');
+
+    const rows = await db.select().from(attachmentsTable).execute();
+    expect(rows).toHaveLength(1);
+
+    const stored = await readFile(path.join(storageDir, rows[0].storage_key));
+    expect(stored.toString()).toBe('image bytes');
+  });
+
+  it('should serve the stored file by id', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(notesTable).values(testNote).execute();
+
+    const attachment = await createAttachment(input, Buffer.from('image bytes'));
+    const file = await getAttachmentFile({ id: attachment.id, user_id: 'user-1', public_token: null });
+
+    expect(file?.attachment.filename).toBe('photo.png');
+    expect(file?.data.toString()).toBe('image bytes');
+    expect(await getAttachmentFile({ id: 'missing', user_id: 'user-1', public_token: null })).toBeNull();
+  });
+
+  it('should reject files over the size limit', async () => {
+    process.env['ATTACHMENT_MAX_SIZE_MB'] = '1';
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(notesTable).values(testNote).execute();
+
+    await expect(createAttachment(input, Buffer.alloc(1024 * 1024 + 1)))
+      .rejects.toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+  });
+
+  it('should enforce the per-user quota', async () => {
+    process.env['ATTACHMENT_QUOTA_MB'] = '1';
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(notesTable).values(testNote).execute();
+
+    await createAttachment(input, Buffer.alloc(600 * 1024));
+
+    await expect(createAttachment(input, Buffer.alloc(600 * 1024)))
+      .rejects.toThrow(/quota exceeded/i);
+    expect(await db.select().from(attachmentsTable).execute()).toHaveLength(1);
+  });
+
+  it('should keep parallel uploads within the quota', async () => {
+    process.env['ATTACHMENT_QUOTA_MB'] = '1';
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(notesTable).values(testNote).execute();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => createAttachment(input, Buffer.alloc(300 * 1024)))
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3);
+    expect(await db.select().from(attachmentsTable).execute()).toHaveLength(3);
+  });
+
+  it('should reject notes in the trash', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(notesTable).values({ ...testNote, deleted_at: new Date() }).execute();
+
+    await expect(createAttachment(input, Buffer.from('x')))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should reject notes owned by another user', async () => {
+    await db.insert(usersTable).values([
+      testUser,
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+    await db.insert(notesTable).values({ ...testNote, user_id: 'user-2' }).execute();
+
+    await expect(createAttachment(input, Buffer.from('x')))
+      .rejects.toThrow(/note does not belong to user/i);
+  });
+});
@@ -130,6 +130,19 @@ describe('createFolder', () => {
     await expect(createFolder(invalidInput)).rejects.toThrow(/Parent folder not found/i);
   });
 
+  it('should reject a parent folder in the trash', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(foldersTable).values({
+      id: 'trashed-folder',
+      name: 'Old',
+      user_id: testUser.id,
+      deleted_at: new Date()
+    }).execute();
+
+    await expect(createFolder({ ...testInput, parent_folder_id: 'trashed-folder' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Parent folder is in the trash' });
+  });
+
   it('should throw error when parent folder belongs to different user', async () => {
     // Create two test users
     const otherUser = {
@@ -161,7 +174,7 @@ describe('createFolder', () => {
       parent_folder_id: otherUserFolderId
     };
 
-    await expect(createFolder(invalidInput)).rejects.toThrow(/Parent folder not found or does not belong to user/i);
+    await expect(createFolder(invalidInput)).rejects.toThrow(/Parent folder does not belong to user/i);
   });
 
   it('should handle nested folder creation correctly', async () => {
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, foldersTable, tagsTable, notesTable, noteTagsTable } from '../db/schema';
+import { usersTable, foldersTable, tagsTable, notesTable, noteTagsTable, workspacesTable, workspaceMembersTable } from '../db/schema';
 import { type CreateNoteInput } from '../schema';
 import { createNote } from '../handlers/create_note';
 import { eq, and } from 'drizzle-orm';
@@ -95,6 +95,13 @@ describe('createNote', () => {
     expect(result.updated_at).toBeInstanceOf(Date);
   });
 
+  it('should place each new note below the ones before it', async () => {
+    const first = await createNote({ title: 'First', content: '', user_id: testUser.id });
+    const second = await createNote({ title: 'Second', content: '', user_id: testUser.id });
+
+    expect(second.position).toBeGreaterThan(first.position);
+  });
+
   it('should create a note with folder', async () => {
     const input: CreateNoteInput = {
       title: 'Note in Folder',
@@ -202,7 +209,17 @@ describe('createNote', () => {
       folder_id: randomUUID() // Non-existent folder
     };
 
-    await expect(createNote(input)).rejects.toThrow(/folder not found or access denied/i);
+    await expect(createNote(input)).rejects.toThrow(/folder not found/i);
+  });
+
+  it('should reject a folder in the trash', async () => {
+    await db.update(foldersTable)
+      .set({ deleted_at: new Date() })
+      .where(eq(foldersTable.id, testFolder.id))
+      .execute();
+
+    await expect(createNote({ title: 'Late note', content: '', user_id: testUser.id, folder_id: testFolder.id }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Folder is in the trash' });
   });
 
   it('should throw error for folder belonging to different user', async () => {
@@ -239,7 +256,7 @@ describe('createNote', () => {
       folder_id: anotherFolderId // Folder belongs to different user
     };
 
-    await expect(createNote(input)).rejects.toThrow(/folder not found or access denied/i);
+    await expect(createNote(input)).rejects.toThrow(/folder does not belong to user/i);
   });
 
   it('should throw error for non-existent tags', async () => {
@@ -250,7 +267,7 @@ describe('createNote', () => {
       tag_ids: [randomUUID(), randomUUID()] // Non-existent tags
     };
 
-    await expect(createNote(input)).rejects.toThrow(/tags not found or access denied/i);
+    await expect(createNote(input)).rejects.toThrow(/tags not found/i);
   });
 
   it('should throw error for tags belonging to different user', async () => {
@@ -287,7 +304,7 @@ describe('createNote', () => {
       tag_ids: [anotherTagId] // Tag belongs to different user
     };
 
-    await expect(createNote(input)).rejects.toThrow(/tags not found or access denied/i);
+    await expect(createNote(input)).rejects.toThrow(/tags do not belong to user/i);
   });
 
   it('should handle mixed valid and invalid tags', async () => {
@@ -298,7 +315,7 @@ describe('createNote', () => {
       tag_ids: [testTags[0].id, randomUUID()] // One valid, one invalid tag
     };
 
-    await expect(createNote(input)).rejects.toThrow(/tags not found or access denied/i);
+    await expect(createNote(input)).rejects.toThrow(/tags not found/i);
   });
 
   it('should handle empty tag_ids array', async () => {
@@ -321,4 +338,67 @@ describe('createNote', () => {
 
     expect(noteTags).toHaveLength(0);
   });
-});
\ No newline at end of file
+
+  it('should keep a client-generated id', async () => {
+    const noteId = randomUUID();
+    const result = await createNote({
+      id: noteId,
+      title: 'Offline Note',
+      content: 'Written without a connection',
+      user_id: testUser.id
+    });
+
+    expect(result.id).toEqual(noteId);
+  });
+
+  it('should return the existing note when a create is replayed', async () => {
+    const noteId = randomUUID();
+    const input: CreateNoteInput = {
+      id: noteId,
+      title: 'Offline Note',
+      content: 'First attempt',
+      user_id: testUser.id
+    };
+
+    const first = await createNote(input);
+    const replayed = await createNote({ ...input, content: 'Second attempt' });
+
+    expect(replayed.id).toEqual(first.id);
+    expect(replayed.content).toEqual('First attempt');
+
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, noteId))
+      .execute();
+
+    expect(notes).toHaveLength(1);
+  });
+
+  it('should create a note in the active workspace', async () => {
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values({ workspace_id: 'ws-1', user_id: testUser.id, role: 'editor' }).execute();
+
+    const result = await createNote({ title: 'Team Note', content: '', user_id: testUser.id, workspace_id: 'ws-1' });
+
+    expect(result.workspace_id).toEqual('ws-1');
+    expect(result.user_id).toEqual(testUser.id);
+  });
+
+  it('should not let workspace viewers create notes', async () => {
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values({ workspace_id: 'ws-1', user_id: testUser.id, role: 'viewer' }).execute();
+
+    await expect(createNote({ title: 'Team Note', content: '', user_id: testUser.id, workspace_id: 'ws-1' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject personal folders and tags for workspace notes', async () => {
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values({ workspace_id: 'ws-1', user_id: testUser.id, role: 'owner' }).execute();
+
+    await expect(createNote({ title: 'Team Note', content: '', user_id: testUser.id, workspace_id: 'ws-1', folder_id: testFolder.id }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(createNote({ title: 'Team Note', content: '', user_id: testUser.id, workspace_id: 'ws-1', tag_ids: [testTags[0].id] }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
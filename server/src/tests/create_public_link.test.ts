@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, publicLinksTable } from '../db/schema';
+import { createPublicLink } from '../handlers/create_public_link';
+import { hashPublicLinkToken } from '../helpers/public_links';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+];
+
+describe('createPublicLink', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Plans', content: 'Trip ideas', user_id: 'user-1' },
+      { id: 'note-trashed', title: 'Old', content: '', user_id: 'user-1', deleted_at: new Date() }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should return a token and store only its hash', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+
+    expect(link.token.length).toBeGreaterThanOrEqual(40);
+    expect(link.has_password).toBe(false);
+    expect(link.expires_at).toBeNull();
+    expect(link.view_count).toEqual(0);
+
+    const rows = await db.select().from(publicLinksTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].token_hash).toEqual(hashPublicLinkToken(link.token));
+    expect(rows[0].token_hash).not.toEqual(link.token);
+  });
+
+  it('should hash the password and keep the expiry', async () => {
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1', password: 'secret', expires_at: expiresAt });
+
+    expect(link.has_password).toBe(true);
+    expect(link.expires_at).toEqual(expiresAt);
+
+    const rows = await db.select().from(publicLinksTable).execute();
+    expect(rows[0].password_hash).not.toBeNull();
+    expect(rows[0].password_hash).not.toContain('secret');
+  });
+
+  it('should mint a different token each time', async () => {
+    const first = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+    const second = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+
+    expect(first.token).not.toEqual(second.token);
+  });
+
+  it('should reject an expiry in the past', async () => {
+    await expect(createPublicLink({ note_id: 'note-1', user_id: 'user-1', expires_at: new Date(Date.now() - 1000) }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should reject notes in the trash', async () => {
+    await expect(createPublicLink({ note_id: 'note-trashed', user_id: 'user-1' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it("should reject another user's note", async () => {
+    await expect(createPublicLink({ note_id: 'note-1', user_id: 'user-2' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable, savedSearchesTable } from '../db/schema';
+import { createSavedSearch } from '../handlers/create_saved_search';
+import { eq } from 'drizzle-orm';
+
+const users = [
+  { id: 'user-1', email: 'user1@example.com', username: 'user1', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'user2@example.com', username: 'user2', password_hash: 'hashed_password' }
+];
+
+describe('createSavedSearch', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values({ workspace_id: 'ws-1', user_id: 'user-1', role: 'viewer' }).execute();
+  });
+  afterEach(resetDB);
+
+  it('should save the query', async () => {
+    const result = await createSavedSearch({
+      name: 'Todo',
+      query: { search: 'todo', is_favorite: true, include_tag_ids: ['tag-1'] },
+      user_id: 'user-1'
+    });
+
+    expect(result.name).toEqual('Todo');
+    expect(result.workspace_id).toBeNull();
+    expect(result.is_default).toBe(false);
+    expect(result.query).toEqual({ search: 'todo', is_favorite: true, include_tag_ids: ['tag-1'] });
+
+    const saved = await db.select().from(savedSearchesTable).where(eq(savedSearchesTable.id, result.id)).execute();
+    expect(saved[0].query).toEqual(result.query);
+  });
+
+  it('should replace the default search of the same space', async () => {
+    const first = await createSavedSearch({ name: 'First', query: {}, is_default: true, user_id: 'user-1' });
+    const inWorkspace = await createSavedSearch({ name: 'Team', query: {}, is_default: true, user_id: 'user-1', workspace_id: 'ws-1' });
+    const second = await createSavedSearch({ name: 'Second', query: {}, is_default: true, user_id: 'user-1' });
+
+    const saved = await db.select().from(savedSearchesTable).execute();
+    const isDefault = (id: string) => saved.find(search => search.id === id)?.is_default;
+    expect(isDefault(first.id)).toBe(false);
+    expect(isDefault(inWorkspace.id)).toBe(true);
+    expect(isDefault(second.id)).toBe(true);
+  });
+
+  it('should reject searches with syntax errors', async () => {
+    await expect(createSavedSearch({ name: 'Broken', query: { search: 'tag:' }, user_id: 'user-1' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'tag: needs a value' });
+  });
+
+  it('should let workspace viewers save searches', async () => {
+    const result = await createSavedSearch({ name: 'Team', query: {}, user_id: 'user-1', workspace_id: 'ws-1' });
+
+    expect(result.workspace_id).toEqual('ws-1');
+  });
+
+  it('should reject workspaces the user is not a member of', async () => {
+    await expect(createSavedSearch({ name: 'Team', query: {}, user_id: 'user-2', workspace_id: 'ws-1' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
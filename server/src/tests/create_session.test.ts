@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { createSession } from '../handlers/create_session';
+import { hashSessionToken } from '../helpers/session_token';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+describe('createSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a token with a future expiry', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const result = await createSession(testUser.id);
+
+    expect(typeof result.token).toBe('string');
+    expect(result.token.length).toBeGreaterThan(32);
+    expect(result.expires_at).toBeInstanceOf(Date);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should store only the hash of the token', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const result = await createSession(testUser.id);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, testUser.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].id).toEqual(hashSessionToken(result.token));
+    expect(sessions[0].id).not.toEqual(result.token);
+    expect(sessions[0].expires_at.getTime()).toEqual(result.expires_at.getTime());
+  });
+
+  it('should issue a distinct token for every session', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const first = await createSession(testUser.id);
+    const second = await createSession(testUser.id);
+
+    expect(first.token).not.toEqual(second.token);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, testUser.id))
+      .execute();
+
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(createSession('non-existent-user'))
+      .rejects.toThrow(/user not found/i);
+  });
+});
@@ -186,4 +186,28 @@ describe('createTag', () => {
     const tagNames = userTags.map(tag => tag.name).sort();
     expect(tagNames).toEqual(['Important', 'important']);
   });
-});
\ No newline at end of file
+
+  it('should create a tag nested under a parent', async () => {
+    const parent = await createTag({ name: 'project', user_id: testUser.id });
+    const child = await createTag({ name: 'alpha', parent_tag_id: parent.id, user_id: testUser.id });
+
+    expect(child.parent_tag_id).toEqual(parent.id);
+    expect(parent.parent_tag_id).toBeNull();
+  });
+
+  it('should allow the same name under different parents', async () => {
+    const alpha = await createTag({ name: 'alpha', user_id: testUser.id });
+    const beta = await createTag({ name: 'beta', user_id: testUser.id });
+
+    await createTag({ name: 'design', parent_tag_id: alpha.id, user_id: testUser.id });
+    await createTag({ name: 'design', parent_tag_id: beta.id, user_id: testUser.id });
+
+    await expect(createTag({ name: 'design', parent_tag_id: alpha.id, user_id: testUser.id }))
+      .rejects.toThrow(/already exists/);
+  });
+
+  it('should reject a parent tag that does not exist', async () => {
+    await expect(createTag({ name: 'alpha', parent_tag_id: 'missing', user_id: testUser.id }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
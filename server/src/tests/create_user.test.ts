@@ -4,15 +4,8 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput } from '../schema';
 import { createUser } from '../handlers/create_user';
+import { verifyPassword } from '../helpers/password';
 import { eq } from 'drizzle-orm';
-import { pbkdf2Sync } from 'crypto';
-
-// Helper function to verify password
-const verifyPassword = (password: string, hashedPassword: string): boolean => {
-  const [salt, hash] = hashedPassword.split(':');
-  const verifyHash = pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
-};
 
 // Test input with all required fields
 const testInput: CreateUserInput = {
@@ -45,11 +38,11 @@ describe('createUser', () => {
     // Verify password was properly hashed
     expect(result.password_hash).not.toEqual(testInput.password);
     expect(typeof result.password_hash).toBe('string');
-    expect(result.password_hash.includes(':')).toBe(true); // Should contain salt:hash format
+    expect(result.password_hash.startsWith('pbkdf2-sha512$')).toBe(true); // Should carry the algorithm tag
     expect(result.password_hash.length).toBeGreaterThan(100); // PBKDF2 hashes are long
 
     // Verify the hashed password can be verified against original
-    const isValid = verifyPassword(testInput.password, result.password_hash);
+    const isValid = (await verifyPassword(testInput.password, result.password_hash)).valid;
     expect(isValid).toBe(true);
   });
 
@@ -143,15 +136,15 @@ describe('createUser', () => {
     expect(user1.password_hash).not.toEqual(user2.password_hash);
 
     // Each hash should validate against its original password
-    const user1Valid = verifyPassword('password123', user1.password_hash);
-    const user2Valid = verifyPassword('differentpassword', user2.password_hash);
+    const user1Valid = (await verifyPassword('password123', user1.password_hash)).valid;
+    const user2Valid = (await verifyPassword('differentpassword', user2.password_hash)).valid;
     
     expect(user1Valid).toBe(true);
     expect(user2Valid).toBe(true);
 
     // Cross-validation should fail
-    const user1CrossValid = verifyPassword('differentpassword', user1.password_hash);
-    const user2CrossValid = verifyPassword('password123', user2.password_hash);
+    const user1CrossValid = (await verifyPassword('differentpassword', user1.password_hash)).valid;
+    const user2CrossValid = (await verifyPassword('password123', user2.password_hash)).valid;
     
     expect(user1CrossValid).toBe(false);
     expect(user2CrossValid).toBe(false);
@@ -177,8 +170,8 @@ describe('createUser', () => {
     expect(user1.password_hash).not.toEqual(user2.password_hash);
 
     // Both should still verify correctly
-    const user1Valid = verifyPassword('samepassword', user1.password_hash);
-    const user2Valid = verifyPassword('samepassword', user2.password_hash);
+    const user1Valid = (await verifyPassword('samepassword', user1.password_hash)).valid;
+    const user2Valid = (await verifyPassword('samepassword', user2.password_hash)).valid;
     
     expect(user1Valid).toBe(true);
     expect(user2Valid).toBe(true);
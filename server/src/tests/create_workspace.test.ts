@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable } from '../db/schema';
+import { createWorkspace } from '../handlers/create_workspace';
+
+const testUser = { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' };
+
+describe('createWorkspace', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+  });
+  afterEach(resetDB);
+
+  it('should create a workspace owned by the creator', async () => {
+    const workspace = await createWorkspace({ user_id: testUser.id, name: 'Team' });
+
+    expect(workspace.name).toEqual('Team');
+    expect(workspace.role).toEqual('owner');
+
+    const workspaces = await db.select().from(workspacesTable).execute();
+    expect(workspaces).toHaveLength(1);
+
+    const members = await db.select().from(workspaceMembersTable).execute();
+    expect(members).toHaveLength(1);
+    expect(members[0].workspace_id).toEqual(workspace.id);
+    expect(members[0].user_id).toEqual(testUser.id);
+    expect(members[0].role).toEqual('owner');
+  });
+});
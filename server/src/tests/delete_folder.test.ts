@@ -4,7 +4,7 @@ import { db } from '../db';
 import { usersTable, foldersTable, notesTable } from '../db/schema';
 import { type DeleteFolderInput } from '../schema';
 import { deleteFolder } from '../handlers/delete_folder';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 
 // Test data
 const testUser = {
@@ -19,11 +19,27 @@ const testInput: DeleteFolderInput = {
   user_id: 'user-1'
 };
 
+const getFolder = async (id: string) => {
+  const folders = await db.select()
+    .from(foldersTable)
+    .where(eq(foldersTable.id, id))
+    .execute();
+  return folders[0];
+};
+
+const getNote = async (id: string) => {
+  const notes = await db.select()
+    .from(notesTable)
+    .where(eq(notesTable.id, id))
+    .execute();
+  return notes[0];
+};
+
 describe('deleteFolder', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
-  it('should delete a folder successfully', async () => {
+  it('should move a folder to the trash', async () => {
     // Create test user
     await db.insert(usersTable).values(testUser).execute();
 
@@ -39,36 +55,23 @@ describe('deleteFolder', () => {
 
     expect(result.success).toBe(true);
 
-    // Verify folder is deleted
-    const folders = await db.select()
-      .from(foldersTable)
-      .where(eq(foldersTable.id, 'folder-1'))
-      .execute();
-
-    expect(folders).toHaveLength(0);
+    // Verify folder is kept but marked as trashed
+    const folder = await getFolder('folder-1');
+    expect(folder).toBeDefined();
+    expect(folder.deleted_at).toBeInstanceOf(Date);
+    expect(folder.parent_folder_id).toBeNull();
   });
 
-  it('should move notes to parent folder when deleting folder', async () => {
-    // Create test user
+  it('should trash notes inside the folder', async () => {
     await db.insert(usersTable).values(testUser).execute();
 
-    // Create parent folder
-    await db.insert(foldersTable).values({
-      id: 'parent-folder',
-      name: 'Parent Folder',
-      user_id: 'user-1',
-      parent_folder_id: null
-    }).execute();
-
-    // Create folder to delete
     await db.insert(foldersTable).values({
       id: 'folder-1',
       name: 'Test Folder',
       user_id: 'user-1',
-      parent_folder_id: 'parent-folder'
+      parent_folder_id: null
     }).execute();
 
-    // Create note in the folder to be deleted
     await db.insert(notesTable).values({
       id: 'note-1',
       title: 'Test Note',
@@ -78,186 +81,92 @@ describe('deleteFolder', () => {
       is_favorite: false
     }).execute();
 
-    const result = await deleteFolder(testInput);
-
-    expect(result.success).toBe(true);
+    await deleteFolder(testInput);
 
-    // Verify note is moved to parent folder
-    const notes = await db.select()
-      .from(notesTable)
-      .where(eq(notesTable.id, 'note-1'))
-      .execute();
+    const note = await getNote('note-1');
+    const folder = await getFolder('folder-1');
 
-    expect(notes).toHaveLength(1);
-    expect(notes[0].folder_id).toBe('parent-folder');
+    // Note keeps its folder and shares the folder's deletion time
+    expect(note.folder_id).toBe('folder-1');
+    expect(note.deleted_at).toBeInstanceOf(Date);
+    expect(note.deleted_at!.getTime()).toEqual(folder.deleted_at!.getTime());
   });
 
-  it('should move notes to null when deleting root folder', async () => {
-    // Create test user
+  it('should trash the whole subtree', async () => {
     await db.insert(usersTable).values(testUser).execute();
 
-    // Create root folder to delete
-    await db.insert(foldersTable).values({
-      id: 'folder-1',
-      name: 'Root Folder',
-      user_id: 'user-1',
-      parent_folder_id: null
-    }).execute();
+    await db.insert(foldersTable).values([
+      { id: 'parent-folder', name: 'Parent Folder', user_id: 'user-1', parent_folder_id: null },
+      { id: 'folder-1', name: 'Test Folder', user_id: 'user-1', parent_folder_id: 'parent-folder' },
+      { id: 'subfolder-1', name: 'Sub Folder', user_id: 'user-1', parent_folder_id: 'folder-1' },
+      { id: 'subfolder-2', name: 'Nested Folder', user_id: 'user-1', parent_folder_id: 'subfolder-1' }
+    ]).execute();
 
-    // Create note in the folder to be deleted
     await db.insert(notesTable).values({
-      id: 'note-1',
-      title: 'Test Note',
-      content: 'Test content',
+      id: 'nested-note',
+      title: 'Nested Note',
+      content: 'Deep down',
       user_id: 'user-1',
-      folder_id: 'folder-1',
+      folder_id: 'subfolder-2',
       is_favorite: false
     }).execute();
 
-    const result = await deleteFolder(testInput);
-
-    expect(result.success).toBe(true);
+    await deleteFolder(testInput);
 
-    // Verify note is moved to null (no folder)
-    const notes = await db.select()
-      .from(notesTable)
-      .where(eq(notesTable.id, 'note-1'))
-      .execute();
+    expect((await getFolder('folder-1')).deleted_at).toBeInstanceOf(Date);
+    expect((await getFolder('subfolder-1')).deleted_at).toBeInstanceOf(Date);
+    expect((await getFolder('subfolder-2')).deleted_at).toBeInstanceOf(Date);
+    expect((await getNote('nested-note')).deleted_at).toBeInstanceOf(Date);
 
-    expect(notes).toHaveLength(1);
-    expect(notes[0].folder_id).toBe(null);
+    // Parent and structure are untouched
+    expect((await getFolder('parent-folder')).deleted_at).toBeNull();
+    expect((await getFolder('subfolder-1')).parent_folder_id).toBe('folder-1');
   });
 
-  it('should move subfolders to parent folder when deleting folder', async () => {
-    // Create test user
+  it('should keep the original deletion time of notes trashed earlier', async () => {
     await db.insert(usersTable).values(testUser).execute();
 
-    // Create parent folder
-    await db.insert(foldersTable).values({
-      id: 'parent-folder',
-      name: 'Parent Folder',
-      user_id: 'user-1',
-      parent_folder_id: null
-    }).execute();
-
-    // Create folder to delete
     await db.insert(foldersTable).values({
       id: 'folder-1',
       name: 'Test Folder',
       user_id: 'user-1',
-      parent_folder_id: 'parent-folder'
-    }).execute();
-
-    // Create subfolder
-    await db.insert(foldersTable).values({
-      id: 'subfolder-1',
-      name: 'Sub Folder',
-      user_id: 'user-1',
-      parent_folder_id: 'folder-1'
-    }).execute();
-
-    const result = await deleteFolder(testInput);
-
-    expect(result.success).toBe(true);
-
-    // Verify subfolder is moved to parent
-    const subfolders = await db.select()
-      .from(foldersTable)
-      .where(eq(foldersTable.id, 'subfolder-1'))
-      .execute();
-
-    expect(subfolders).toHaveLength(1);
-    expect(subfolders[0].parent_folder_id).toBe('parent-folder');
-  });
-
-  it('should move subfolders to null when deleting root folder', async () => {
-    // Create test user
-    await db.insert(usersTable).values(testUser).execute();
-
-    // Create root folder to delete
-    await db.insert(foldersTable).values({
-      id: 'folder-1',
-      name: 'Root Folder',
-      user_id: 'user-1',
       parent_folder_id: null
     }).execute();
 
-    // Create subfolder
-    await db.insert(foldersTable).values({
-      id: 'subfolder-1',
-      name: 'Sub Folder',
+    const earlier = new Date('2026-01-01T00:00:00Z');
+    await db.insert(notesTable).values({
+      id: 'note-1',
+      title: 'Already Trashed',
+      content: 'Test content',
       user_id: 'user-1',
-      parent_folder_id: 'folder-1'
+      folder_id: 'folder-1',
+      is_favorite: false,
+      deleted_at: earlier
     }).execute();
 
-    const result = await deleteFolder(testInput);
+    await deleteFolder(testInput);
 
-    expect(result.success).toBe(true);
-
-    // Verify subfolder becomes root folder
-    const subfolders = await db.select()
-      .from(foldersTable)
-      .where(eq(foldersTable.id, 'subfolder-1'))
-      .execute();
-
-    expect(subfolders).toHaveLength(1);
-    expect(subfolders[0].parent_folder_id).toBe(null);
+    expect((await getNote('note-1')).deleted_at!.getTime()).toEqual(earlier.getTime());
   });
 
-  it('should handle folder with both notes and subfolders', async () => {
-    // Create test user
+  it('should not affect notes outside the folder', async () => {
     await db.insert(usersTable).values(testUser).execute();
 
-    // Create parent folder
-    await db.insert(foldersTable).values({
-      id: 'parent-folder',
-      name: 'Parent Folder',
-      user_id: 'user-1',
-      parent_folder_id: null
-    }).execute();
-
-    // Create folder to delete
-    await db.insert(foldersTable).values({
-      id: 'folder-1',
-      name: 'Test Folder',
-      user_id: 'user-1',
-      parent_folder_id: 'parent-folder'
-    }).execute();
-
-    // Create note and subfolder
-    await db.insert(notesTable).values({
-      id: 'note-1',
-      title: 'Test Note',
-      content: 'Test content',
-      user_id: 'user-1',
-      folder_id: 'folder-1',
-      is_favorite: false
-    }).execute();
+    await db.insert(foldersTable).values([
+      { id: 'folder-1', name: 'Test Folder', user_id: 'user-1', parent_folder_id: null },
+      { id: 'folder-2', name: 'Other Folder', user_id: 'user-1', parent_folder_id: null }
+    ]).execute();
 
-    await db.insert(foldersTable).values({
-      id: 'subfolder-1',
-      name: 'Sub Folder',
-      user_id: 'user-1',
-      parent_folder_id: 'folder-1'
-    }).execute();
+    await db.insert(notesTable).values([
+      { id: 'root-note', title: 'Root', content: '', user_id: 'user-1', folder_id: null },
+      { id: 'other-note', title: 'Other', content: '', user_id: 'user-1', folder_id: 'folder-2' }
+    ]).execute();
 
-    const result = await deleteFolder(testInput);
-
-    expect(result.success).toBe(true);
+    await deleteFolder(testInput);
 
-    // Verify both note and subfolder are moved to parent
-    const notes = await db.select()
-      .from(notesTable)
-      .where(eq(notesTable.id, 'note-1'))
-      .execute();
-    
-    const subfolders = await db.select()
-      .from(foldersTable)
-      .where(eq(foldersTable.id, 'subfolder-1'))
-      .execute();
-
-    expect(notes[0].folder_id).toBe('parent-folder');
-    expect(subfolders[0].parent_folder_id).toBe('parent-folder');
+    expect((await getNote('root-note')).deleted_at).toBeNull();
+    expect((await getNote('other-note')).deleted_at).toBeNull();
+    expect((await getFolder('folder-2')).deleted_at).toBeNull();
   });
 
   it('should throw error when folder does not exist', async () => {
@@ -269,7 +178,7 @@ describe('deleteFolder', () => {
       user_id: 'user-1'
     };
 
-    await expect(deleteFolder(input)).rejects.toThrow(/folder not found or access denied/i);
+    await expect(deleteFolder(input)).rejects.toThrow(/folder not found/i);
   });
 
   it('should throw error when user does not own folder', async () => {
@@ -296,39 +205,28 @@ describe('deleteFolder', () => {
       user_id: 'user-1'
     };
 
-    await expect(deleteFolder(input)).rejects.toThrow(/folder not found or access denied/i);
+    await expect(deleteFolder(input)).rejects.toThrow(/folder does not belong to user/i);
 
-    // Verify folder still exists
-    const folders = await db.select()
-      .from(foldersTable)
-      .where(eq(foldersTable.id, 'folder-1'))
-      .execute();
-
-    expect(folders).toHaveLength(1);
+    // Verify folder is untouched
+    const folder = await getFolder('folder-1');
+    expect(folder.deleted_at).toBeNull();
   });
 
-  it('should handle empty folder deletion', async () => {
-    // Create test user
+  it('should be a no-op for a folder already in the trash', async () => {
     await db.insert(usersTable).values(testUser).execute();
 
-    // Create empty folder
+    const earlier = new Date('2026-01-01T00:00:00Z');
     await db.insert(foldersTable).values({
       id: 'folder-1',
-      name: 'Empty Folder',
+      name: 'Trashed Folder',
       user_id: 'user-1',
-      parent_folder_id: null
+      parent_folder_id: null,
+      deleted_at: earlier
     }).execute();
 
     const result = await deleteFolder(testInput);
 
     expect(result.success).toBe(true);
-
-    // Verify folder is deleted
-    const folders = await db.select()
-      .from(foldersTable)
-      .where(eq(foldersTable.id, 'folder-1'))
-      .execute();
-
-    expect(folders).toHaveLength(0);
+    expect((await getFolder('folder-1')).deleted_at!.getTime()).toEqual(earlier.getTime());
   });
-});
\ No newline at end of file
+});
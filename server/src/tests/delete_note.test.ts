@@ -4,13 +4,13 @@ import { db } from '../db';
 import { usersTable, notesTable, tagsTable, noteTagsTable } from '../db/schema';
 import { type DeleteNoteInput } from '../schema';
 import { deleteNote } from '../handlers/delete_note';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 
 describe('deleteNote', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
-  it('should successfully delete a note', async () => {
+  it('should move a note to the trash', async () => {
     // Create test user
     await db.insert(usersTable).values({
       id: 'user1',
@@ -41,16 +41,17 @@ describe('deleteNote', () => {
 
     expect(result.success).toBe(true);
 
-    // Verify note was deleted
+    // Verify note was moved to the trash
     const remainingNotes = await db.select()
       .from(notesTable)
       .where(eq(notesTable.id, 'note1'))
       .execute();
 
-    expect(remainingNotes).toHaveLength(0);
+    expect(remainingNotes).toHaveLength(1);
+    expect(remainingNotes[0].deleted_at).toBeInstanceOf(Date);
   });
 
-  it('should delete note-tag relationships when deleting a note', async () => {
+  it('should keep note-tag relationships when trashing a note', async () => {
     // Create test user
     await db.insert(usersTable).values({
       id: 'user1',
@@ -97,21 +98,22 @@ describe('deleteNote', () => {
 
     expect(result.success).toBe(true);
 
-    // Verify note was deleted
+    // Verify note was moved to the trash
     const remainingNotes = await db.select()
       .from(notesTable)
       .where(eq(notesTable.id, 'note1'))
       .execute();
 
-    expect(remainingNotes).toHaveLength(0);
+    expect(remainingNotes).toHaveLength(1);
+    expect(remainingNotes[0].deleted_at).toBeInstanceOf(Date);
 
-    // Verify note-tag relationship was deleted
+    // Verify note-tag relationship is kept for a later restore
     const remainingNoteTags = await db.select()
       .from(noteTagsTable)
       .where(eq(noteTagsTable.note_id, 'note1'))
       .execute();
 
-    expect(remainingNoteTags).toHaveLength(0);
+    expect(remainingNoteTags).toHaveLength(1);
 
     // Verify tag still exists (should not be deleted)
     const remainingTags = await db.select()
@@ -138,7 +140,7 @@ describe('deleteNote', () => {
       user_id: 'user1'
     };
 
-    await expect(deleteNote(input)).rejects.toThrow(/Note not found or access denied/i);
+    await expect(deleteNote(input)).rejects.toThrow(/Note not found/i);
   });
 
   it('should fail when user does not own the note', async () => {
@@ -179,7 +181,7 @@ describe('deleteNote', () => {
       user_id: 'user2'
     };
 
-    await expect(deleteNote(input)).rejects.toThrow(/Note not found or access denied/i);
+    await expect(deleteNote(input)).rejects.toThrow(/Note does not belong to user/i);
 
     // Verify note still exists
     const remainingNotes = await db.select()
@@ -190,7 +192,7 @@ describe('deleteNote', () => {
     expect(remainingNotes).toHaveLength(1);
   });
 
-  it('should handle deletion of note with multiple tag relationships', async () => {
+  it('should handle trashing a note with multiple tag relationships', async () => {
     // Create test user
     await db.insert(usersTable).values({
       id: 'user1',
@@ -265,21 +267,22 @@ describe('deleteNote', () => {
 
     expect(result.success).toBe(true);
 
-    // Verify note was deleted
+    // Verify note was moved to the trash
     const remainingNotes = await db.select()
       .from(notesTable)
       .where(eq(notesTable.id, 'note1'))
       .execute();
 
-    expect(remainingNotes).toHaveLength(0);
+    expect(remainingNotes).toHaveLength(1);
+    expect(remainingNotes[0].deleted_at).toBeInstanceOf(Date);
 
-    // Verify all note-tag relationships were deleted
+    // Verify all note-tag relationships are kept
     const remainingNoteTags = await db.select()
       .from(noteTagsTable)
       .where(eq(noteTagsTable.note_id, 'note1'))
       .execute();
 
-    expect(remainingNoteTags).toHaveLength(0);
+    expect(remainingNoteTags).toHaveLength(3);
 
     // Verify all tags still exist
     const remainingTags = await db.select()
@@ -289,7 +292,7 @@ describe('deleteNote', () => {
     expect(remainingTags).toHaveLength(3);
   });
 
-  it('should not affect other notes when deleting one note', async () => {
+  it('should not affect other notes when trashing one note', async () => {
     // Create test user
     await db.insert(usersTable).values({
       id: 'user1',
@@ -331,9 +334,10 @@ describe('deleteNote', () => {
 
     expect(result.success).toBe(true);
 
-    // Verify only the specified note was deleted
+    // Verify only the specified note was trashed
     const remainingNotes = await db.select()
       .from(notesTable)
+      .where(isNull(notesTable.deleted_at))
       .execute();
 
     expect(remainingNotes).toHaveLength(1);
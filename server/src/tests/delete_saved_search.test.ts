@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, savedSearchesTable } from '../db/schema';
+import { deleteSavedSearch } from '../handlers/delete_saved_search';
+
+const users = [
+  { id: 'user-1', email: 'user1@example.com', username: 'user1', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'user2@example.com', username: 'user2', password_hash: 'hashed_password' }
+];
+
+describe('deleteSavedSearch', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(savedSearchesTable).values({ id: 'search-1', name: 'Todo', user_id: 'user-1', query: { search: 'todo' } }).execute();
+  });
+  afterEach(resetDB);
+
+  it('should delete the search', async () => {
+    const result = await deleteSavedSearch({ id: 'search-1', user_id: 'user-1' });
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(savedSearchesTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject other users\' searches', async () => {
+    await expect(deleteSavedSearch({ id: 'search-1', user_id: 'user-2' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(await db.select().from(savedSearchesTable).execute()).toHaveLength(1);
+  });
+});
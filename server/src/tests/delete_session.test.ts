@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { deleteSession } from '../handlers/delete_session';
+import { hashSessionToken } from '../helpers/session_token';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+describe('deleteSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete only the session for the given token', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    await db.insert(sessionsTable).values([
+      { id: hashSessionToken('token-1'), user_id: testUser.id, expires_at: expiresAt },
+      { id: hashSessionToken('token-2'), user_id: testUser.id, expires_at: expiresAt }
+    ]).execute();
+
+    const result = await deleteSession('token-1');
+
+    expect(result.success).toBe(true);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].id).toEqual(hashSessionToken('token-2'));
+  });
+
+  it('should succeed for an unknown token', async () => {
+    const result = await deleteSession('unknown-token');
+
+    expect(result.success).toBe(true);
+  });
+});
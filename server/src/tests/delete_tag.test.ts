@@ -196,7 +196,7 @@ describe('deleteTag', () => {
       user_id: 'user-2'
     };
 
-    await expect(deleteTag(input)).rejects.toThrow(/tag not found/i);
+    await expect(deleteTag(input)).rejects.toThrow(/tag does not belong to user/i);
 
     // Verify tag still exists
     const tags = await db.select()
@@ -259,4 +259,60 @@ describe('deleteTag', () => {
     expect(remainingTags[0].id).toBe('tag-2');
     expect(remainingTags[0].user_id).toBe('user-2');
   });
-});
\ No newline at end of file
+
+  it('should move child tags up to the deleted tag\'s parent when reparenting', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(tagsTable).values([
+      { id: 'root', name: 'project', user_id: 'user-1' },
+      { id: 'middle', name: 'alpha', user_id: 'user-1', parent_tag_id: 'root' },
+      { id: 'leaf', name: 'design', user_id: 'user-1', parent_tag_id: 'middle' }
+    ]).execute();
+
+    await deleteTag({ id: 'middle', user_id: 'user-1', reparent_children: true });
+
+    const leaf = await db.select().from(tagsTable).where(eq(tagsTable.id, 'leaf')).execute();
+    expect(leaf[0].parent_tag_id).toEqual('root');
+  });
+
+  it('should make child tags top-level without reparenting', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(tagsTable).values([
+      { id: 'root', name: 'project', user_id: 'user-1' },
+      { id: 'leaf', name: 'design', user_id: 'user-1', parent_tag_id: 'root' }
+    ]).execute();
+
+    await deleteTag({ id: 'root', user_id: 'user-1' });
+
+    const leaf = await db.select().from(tagsTable).where(eq(tagsTable.id, 'leaf')).execute();
+    expect(leaf[0].parent_tag_id).toBeNull();
+  });
+
+  it('should refuse to move child tags next to tags with the same name', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(tagsTable).values([
+      { id: 'root', name: 'project', user_id: 'user-1' },
+      { id: 'leaf', name: 'design', user_id: 'user-1', parent_tag_id: 'root' },
+      { id: 'top', name: 'design', user_id: 'user-1' }
+    ]).execute();
+
+    await expect(deleteTag({ id: 'root', user_id: 'user-1' }))
+      .rejects.toMatchObject({ code: 'CONFLICT', message: expect.stringContaining('"design"') });
+
+    const tags = await db.select().from(tagsTable).execute();
+    expect(tags).toHaveLength(3);
+  });
+
+  it('should let a child take the place of a parent with the same name', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(tagsTable).values([
+      { id: 'root', name: 'project', user_id: 'user-1' },
+      { id: 'middle', name: 'alpha', user_id: 'user-1', parent_tag_id: 'root' },
+      { id: 'leaf', name: 'alpha', user_id: 'user-1', parent_tag_id: 'middle' }
+    ]).execute();
+
+    await deleteTag({ id: 'middle', user_id: 'user-1', reparent_children: true });
+
+    const leaf = await db.select().from(tagsTable).where(eq(tagsTable.id, 'leaf')).execute();
+    expect(leaf[0].parent_tag_id).toEqual('root');
+  });
+});
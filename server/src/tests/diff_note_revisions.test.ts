@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, noteRevisionsTable } from '../db/schema';
+import { diffNoteRevisions } from '../handlers/diff_note_revisions';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+const otherUser = {
+  id: 'user-2',
+  email: 'other@example.com',
+  username: 'otheruser',
+  password_hash: 'hashed_password'
+};
+
+const testNote = {
+  id: 'note-1',
+  title: 'Groceries',
+  content: 'milk\nbread\ncheese\napples',
+  user_id: testUser.id
+};
+
+describe('diffNoteRevisions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values([testUser, otherUser]).execute();
+    await db.insert(notesTable).values(testNote).execute();
+    await db.insert(noteRevisionsTable).values([
+      { id: 'rev-1', note_id: testNote.id, title: 'Groceries', content: 'milk\neggs\ncheese' },
+      { id: 'rev-2', note_id: testNote.id, title: 'Shopping', content: 'milk\neggs\ncheese\nbutter' }
+    ]).execute();
+  });
+
+  it('should diff two revisions line by line', async () => {
+    const result = await diffNoteRevisions({
+      note_id: testNote.id,
+      user_id: testUser.id,
+      from_revision_id: 'rev-1',
+      to_revision_id: 'rev-2'
+    });
+
+    expect(result.from.id).toEqual('rev-1');
+    expect(result.to?.id).toEqual('rev-2');
+    expect(result.title_changed).toBe(true);
+    expect(result.lines).toEqual([
+      { type: 'equal', text: 'milk', old_line: 1, new_line: 1 },
+      { type: 'equal', text: 'eggs', old_line: 2, new_line: 2 },
+      { type: 'equal', text: 'cheese', old_line: 3, new_line: 3 },
+      { type: 'added', text: 'butter', old_line: null, new_line: 4 }
+    ]);
+  });
+
+  it('should diff a revision against the current note when no target is given', async () => {
+    const result = await diffNoteRevisions({
+      note_id: testNote.id,
+      user_id: testUser.id,
+      from_revision_id: 'rev-1',
+      to_revision_id: null
+    });
+
+    expect(result.to).toBeNull();
+    expect(result.title_changed).toBe(false);
+
+    const changes = result.lines.filter(line => line.type !== 'equal');
+    expect(changes).toEqual([
+      { type: 'added', text: 'bread', old_line: null, new_line: 2 },
+      { type: 'removed', text: 'eggs', old_line: 2, new_line: null },
+      { type: 'added', text: 'apples', old_line: null, new_line: 4 }
+    ]);
+  });
+
+  it('should report no changes for identical content', async () => {
+    await db.insert(noteRevisionsTable).values({
+      id: 'rev-same',
+      note_id: testNote.id,
+      title: testNote.title,
+      content: testNote.content
+    }).execute();
+
+    const result = await diffNoteRevisions({
+      note_id: testNote.id,
+      user_id: testUser.id,
+      from_revision_id: 'rev-same',
+      to_revision_id: null
+    });
+
+    expect(result.title_changed).toBe(false);
+    expect(result.lines.every(line => line.type === 'equal')).toBe(true);
+    expect(result.lines).toHaveLength(4);
+  });
+
+  it('should reject revisions belonging to a different note', async () => {
+    await db.insert(notesTable).values({
+      id: 'note-2',
+      title: 'Other note',
+      content: 'other',
+      user_id: testUser.id
+    }).execute();
+
+    await expect(diffNoteRevisions({
+      note_id: 'note-2',
+      user_id: testUser.id,
+      from_revision_id: 'rev-1',
+      to_revision_id: null
+    })).rejects.toThrow(/revision not found/i);
+  });
+
+  it('should reject diffing another user\'s note', async () => {
+    await expect(diffNoteRevisions({
+      note_id: testNote.id,
+      user_id: otherUser.id,
+      from_revision_id: 'rev-1',
+      to_revision_id: 'rev-2'
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
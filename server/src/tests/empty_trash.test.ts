@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, foldersTable, notesTable, tagsTable, noteTagsTable, attachmentsTable } from '../db/schema';
+import { emptyTrash } from '../handlers/empty_trash';
+import { purgeTrashedItems } from '../helpers/trash';
+import { createAttachment } from '../handlers/create_attachment';
+import { mkdtemp, rm, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { eq } from 'drizzle-orm';
+
+describe('emptyTrash', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    await db.insert(usersTable).values([
+      { id: 'user-1', email: 'test@example.com', username: 'testuser', password_hash: 'hashed_password' },
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+
+    const deletedAt = new Date();
+    await db.insert(foldersTable).values([
+      { id: 'folder-1', name: 'Trashed', user_id: 'user-1', parent_folder_id: null, deleted_at: deletedAt },
+      { id: 'folder-2', name: 'Active', user_id: 'user-1', parent_folder_id: null }
+    ]).execute();
+
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Trashed', content: '', user_id: 'user-1', folder_id: 'folder-1', deleted_at: deletedAt },
+      { id: 'note-2', title: 'Active', content: '', user_id: 'user-1', folder_id: 'folder-2' },
+      { id: 'note-3', title: 'Other user', content: '', user_id: 'user-2', deleted_at: deletedAt }
+    ]).execute();
+
+    await db.insert(tagsTable).values({ id: 'tag-1', name: 'Tag', user_id: 'user-1' }).execute();
+    await db.insert(noteTagsTable).values({ note_id: 'note-1', tag_id: 'tag-1' }).execute();
+  };
+
+  it('should permanently delete the user\'s trashed items', async () => {
+    await setupTestData();
+
+    const result = await emptyTrash({ user_id: 'user-1' });
+
+    expect(result).toEqual({ notes: 1, folders: 1 });
+
+    const notes = await db.select().from(notesTable).execute();
+    expect(notes.map(n => n.id).sort()).toEqual(['note-2', 'note-3']);
+
+    const folders = await db.select().from(foldersTable).execute();
+    expect(folders.map(f => f.id)).toEqual(['folder-2']);
+
+    // Tag links go with the note, the tag itself stays
+    expect(await db.select().from(noteTagsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(tagsTable).execute()).toHaveLength(1);
+  });
+
+  it('should return zero counts for an empty trash', async () => {
+    await db.insert(usersTable).values({
+      id: 'user-1',
+      email: 'test@example.com',
+      username: 'testuser',
+      password_hash: 'hashed_password'
+    }).execute();
+
+    const result = await emptyTrash({ user_id: 'user-1' });
+
+    expect(result).toEqual({ notes: 0, folders: 0 });
+  });
+
+  it('should only purge items older than the retention cutoff', async () => {
+    await setupTestData();
+    await db.insert(notesTable).values({
+      id: 'old-note',
+      title: 'Old',
+      content: '',
+      user_id: 'user-2',
+      deleted_at: new Date('2020-01-01T00:00:00Z')
+    }).execute();
+
+    const result = await purgeTrashedItems({ deletedBefore: new Date('2021-01-01T00:00:00Z') });
+
+    expect(result).toEqual({ notes: 1, folders: 0 });
+
+    const notes = await db.select().from(notesTable).execute();
+    expect(notes.map(n => n.id).sort()).toEqual(['note-1', 'note-2', 'note-3']);
+  });
+
+  it('should delete attachment files of purged notes', async () => {
+    const storageDir = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env['ATTACHMENTS_DIR'] = storageDir;
+
+    try {
+      await setupTestData();
+      await db.update(notesTable).set({ deleted_at: null }).where(eq(notesTable.id, 'note-1')).execute();
+      const purged = await createAttachment({
+        note_id: 'note-1',
+        user_id: 'user-1',
+        filename: 'purged.png',
+        content_type: 'image/png'
+      }, Buffer.from('gone'));
+      const kept = await createAttachment({
+        note_id: 'note-2',
+        user_id: 'user-1',
+        filename: 'kept.png',
+        content_type: 'image/png'
+      }, Buffer.from('stays'));
+      await db.update(notesTable).set({ deleted_at: new Date() }).where(eq(notesTable.id, 'note-1')).execute();
+
+      await emptyTrash({ user_id: 'user-1' });
+
+      const rows = await db.select().from(attachmentsTable).execute();
+      expect(rows.map(a => a.id)).toEqual([kept.id]);
+
+      const files = await readdir(path.join(storageDir, 'user-1'));
+      expect(files).toEqual([kept.id]);
+      expect(files).not.toContain(purged.id);
+    } finally {
+      delete process.env['ATTACHMENTS_DIR'];
+      await rm(storageDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'bun:test';
+import { parseEnex, enmlToMarkdown, parseEnexDate } from '../helpers/enex';
+
+const enml = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?><!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd"><en-note>${body}</en-note>`;
+
+const noMedia = () => null;
+
+describe('parseEnex', () => {
+  it('should read notes with their tags, dates and resources', () => {
+    const notes = parseEnex(`<?xml version="1.0" encoding="UTF-8"?>
+<en-export export-date="20240301T000000Z" application="Evernote" version="10.0">
+  <note>
+    <title>Trip &amp; plans</title>
+    <created>20230102T030405Z</created>
+    <updated>20230203T040506Z</updated>
+    <tag>travel</tag>
+    <tag>2023</tag>
+    <content><![CDATA[${enml('<div>Hello</div>')}]]></content>
+    <resource>
+      <data encoding="base64">
+aGVsbG8=
+      </data>
+      <mime>image/png</mime>
+      <resource-attributes><file-name>map.png</file-name></resource-attributes>
+    </resource>
+  </note>
+</en-export>`);
+
+    expect(notes).toHaveLength(1);
+    expect(notes[0].title).toBe('Trip & plans');
+    expect(notes[0].created).toEqual(new Date('2023-01-02T03:04:05Z'));
+    expect(notes[0].updated).toEqual(new Date('2023-02-03T04:05:06Z'));
+    expect(notes[0].tags).toEqual(['travel', '2023']);
+    expect(notes[0].content).toContain('<en-note><div>Hello</div></en-note>');
+    expect(notes[0].resources).toEqual([{
+      data: Buffer.from('hello'),
+      mime: 'image/png',
+      filename: 'map.png',
+      hash: '5d41402abc4b2a76b9719d911017c592'
+    }]);
+  });
+
+  it('should reject other XML documents', () => {
+    expect(() => parseEnex('<html><body></body></html>')).toThrow();
+  });
+
+  it('should ignore malformed dates', () => {
+    expect(parseEnexDate('2023-01-02')).toBeNull();
+  });
+});
+
+describe('enmlToMarkdown', () => {
+  it('should keep one line per div and formatting', () => {
+    const markdown = enmlToMarkdown(
+      enml('<div>Hello <b>bold </b>and <i>italic</i></div><div><br/></div><div>a_b &amp; <a href="https://example.com">link</a></div>'),
+      noMedia
+    );
+
+    expect(markdown).toBe('Hello **bold** and *italic*\n\na\\_b & [link](https://example.com)');
+  });
+
+  it('should convert headings, lists, checkboxes and tables', () => {
+    const markdown = enmlToMarkdown(enml([
+      '<h2>Plan</h2>',
+      '<ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>',
+      '<div><en-todo checked="true"/>Done</div><div><en-todo/>Open</div>',
+      '<table><tr><td>a</td><td>b</td></tr><tr><td>1</td><td>2</td></tr></table>'
+    ].join('')), noMedia);
+
+    expect(markdown).toBe([
+      '## Plan',
+      '',
+      '- One',
+      '- Two',
+      '  1. Nested',
+      '',
+      '- [x] Done',
+      '- [ ] Open',
+      '',
+      '| a | b |',
+      '| --- | --- |',
+      '| 1 | 2 |'
+    ].join('\n'));
+  });
+
+  it('should read unclosed void elements and HTML entities', () => {
+    const markdown = enmlToMarkdown(enml('<div>One<br>Two &mdash; three</div><div>Four</div>'), noMedia);
+
+    expect(markdown).toBe('One\nTwo — three\nFour');
+  });
+
+  it('should turn Evernote code blocks into fenced code', () => {
+    const markdown = enmlToMarkdown(
+      enml('<div style="box-sizing: border-box; -en-codeblock: true;"><div>const x = 1;</div><div>run(x)</div></div>'),
+      noMedia
+    );
+
+    expect(markdown).toBe('```\nconst x = 1;\nrun(x)\n```');
+  });
+
+  it('should render embedded media through the callback', () => {
+    const markdown = enmlToMarkdown(
+      enml('<div>Map:</div><en-media hash="abc" type="image/png"/><en-media hash="gone" type="image/png"/>'),
+      (hash: string) => (hash === 'abc' ? '![map.png](/api/attachments/1)' : null)
+    );
+
+    expect(markdown).toBe('Map:\n![map.png](/api/attachments/1)');
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, attachmentsTable, sharesTable } from '../db/schema';
+import { exportNote } from '../handlers/export_note';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const testUsers = [
+  { id: 'user-1', email: 'user1@test.com', username: 'user1', password_hash: 'hash1' },
+  { id: 'user-2', email: 'user2@test.com', username: 'user2', password_hash: 'hash2' }
+];
+
+// Just the signature is enough for the HTML export, which embeds the bytes as they are
+const image = Buffer.from('\x89PNG\r\n\x1a\nnot really', 'latin1');
+
+describe('exportNote', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env['ATTACHMENTS_DIR'] = storageDir;
+
+    await db.insert(usersTable).values(testUsers).execute();
+    await db.insert(notesTable).values({
+      id: 'note-plan',
+      title: 'Q3 plan: <draft>',
+      content: '# Goals\n\nShip **v2**, see [[Roadmap]].\n\n![chart](/api/attachments/att-1)',
+      user_id: 'user-1',
+      updated_at: new Date('2026-02-01T12:30:00.000Z')
+    }).execute();
+    await getAttachmentStorage().put('user-1/att-1', image);
+    await db.insert(attachmentsTable).values({
+      id: 'att-1',
+      note_id: 'note-plan',
+      user_id: 'user-1',
+      filename: 'chart.png',
+      content_type: 'image/png',
+      size: image.length,
+      storage_key: 'user-1/att-1'
+    }).execute();
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['ATTACHMENTS_DIR'];
+  });
+
+  it('should export a standalone HTML page with images embedded', async () => {
+    const file = await exportNote({ note_id: 'note-plan', user_id: 'user-1', format: 'html' });
+    const html = Buffer.from(file.data, 'base64').toString('utf8');
+
+    expect(file.file_name).toBe('Q3 plan- -draft-.html');
+    expect(file.content_type).toBe('text/html; charset=utf-8');
+    expect(html).toContain('<title>Q3 plan: &lt;draft&gt;</title>');
+    expect(html).toContain('<style>');
+    expect(html).toContain('<strong>v2</strong>');
+    expect(html).toContain(`<img src="data:image/png;base64,${image.toString('base64')}" alt="chart">`);
+    expect(html).not.toContain('/api/attachments');
+  });
+
+  it('should export a PDF', async () => {
+    const file = await exportNote({ note_id: 'note-plan', user_id: 'user-1', format: 'pdf' });
+    const pdf = Buffer.from(file.data, 'base64');
+
+    expect(file.file_name).toBe('Q3 plan- -draft-.pdf');
+    expect(file.content_type).toBe('application/pdf');
+    expect(pdf.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+    expect(pdf.toString('latin1').trimEnd()).toEndWith('%%EOF');
+  });
+
+  it('should let users the note is shared with export it', async () => {
+    await db.insert(sharesTable).values({
+      id: 'share-1', owner_id: 'user-1', grantee_id: 'user-2', note_id: 'note-plan', permission: 'read'
+    }).execute();
+
+    const file = await exportNote({ note_id: 'note-plan', user_id: 'user-2', format: 'html' });
+
+    expect(file.file_name).toBe('Q3 plan- -draft-.html');
+  });
+
+  it('should not export notes the user cannot read', async () => {
+    await expect(exportNote({ note_id: 'note-plan', user_id: 'user-2', format: 'pdf' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  foldersTable,
+  tagsTable,
+  notesTable,
+  noteTagsTable,
+  attachmentsTable,
+  workspacesTable,
+  workspaceMembersTable
+} from '../db/schema';
+import { type ExportNotesInput } from '../schema';
+import { exportNotes, type ExportFile } from '../handlers/export_notes';
+import { getAttachmentStorage } from '../helpers/attachment_storage';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const testUsers = [
+  { id: 'user-1', email: 'user1@test.com', username: 'user1', password_hash: 'hash1' },
+  { id: 'user-2', email: 'user2@test.com', username: 'user2', password_hash: 'hash2' }
+];
+
+const created = new Date('2026-01-05T10:00:00.000Z');
+const updated = new Date('2026-02-01T12:30:00.000Z');
+
+const collect = async (input: ExportNotesInput): Promise<ExportFile[]> => {
+  const files: ExportFile[] = [];
+  for await (const file of exportNotes(input)) {
+    files.push(file);
+  }
+  return files;
+};
+
+const fileText = (files: ExportFile[], filePath: string): string | undefined =>
+  files.find(file => file.path === filePath)?.data.toString('utf8');
+
+describe('exportNotes', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env['ATTACHMENTS_DIR'] = storageDir;
+
+    await db.insert(usersTable).values(testUsers).execute();
+    await db.insert(foldersTable).values([
+      { id: 'folder-work', name: 'Work', user_id: 'user-1' },
+      { id: 'folder-meetings', name: 'Meetings', user_id: 'user-1', parent_folder_id: 'folder-work' },
+      { id: 'folder-old', name: 'Old', user_id: 'user-1', deleted_at: new Date() }
+    ]).execute();
+    await db.insert(tagsTable).values([
+      { id: 'tag-project', name: 'project', user_id: 'user-1' },
+      { id: 'tag-alpha', name: 'alpha', user_id: 'user-1', parent_tag_id: 'tag-project' },
+      { id: 'tag-urgent', name: 'urgent', user_id: 'user-1' }
+    ]).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-inbox', title: 'Inbox', content: 'Top level', user_id: 'user-1', created_at: created, updated_at: updated },
+      {
+        id: 'note-plan',
+        title: 'Plan',
+        content: 'See ![chart](/api/attachments/att-1)',
+        user_id: 'user-1',
+        folder_id: 'folder-work',
+        is_favorite: true,
+        created_at: created,
+        updated_at: updated
+      },
+      { id: 'note-standup', title: 'Standup', content: 'Notes', user_id: 'user-1', folder_id: 'folder-meetings' },
+      { id: 'note-trashed', title: 'Trashed', content: '', user_id: 'user-1', deleted_at: new Date() },
+      { id: 'note-other', title: 'Other', content: '', user_id: 'user-2' }
+    ]).execute();
+    await db.insert(noteTagsTable).values([
+      { note_id: 'note-plan', tag_id: 'tag-urgent' },
+      { note_id: 'note-plan', tag_id: 'tag-alpha' }
+    ]).execute();
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['ATTACHMENTS_DIR'];
+  });
+
+  it('should mirror the folder hierarchy as directories', async () => {
+    const files = await collect({ user_id: 'user-1' });
+
+    expect(files.map(file => file.path).sort()).toEqual([
+      'Inbox.md',
+      'Work/Meetings/Standup.md',
+      'Work/Plan.md'
+    ]);
+  });
+
+  it('should write tags, favorite flag and timestamps as front matter', async () => {
+    const files = await collect({ user_id: 'user-1' });
+
+    expect(fileText(files, 'Work/Plan.md')).toEqual([
+      '---',
+      'title: "Plan"',
+      'tags:',
+      '  - "project/alpha"',
+      '  - "urgent"',
+      'favorite: true',
+      'created: 2026-01-05T10:00:00.000Z',
+      'updated: 2026-02-01T12:30:00.000Z',
+      '---',
+      '',
+      'See ![chart](/api/attachments/att-1)'
+    ].join('\n'));
+    expect(fileText(files, 'Inbox.md')).toContain('tags: []\nfavorite: false\n');
+  });
+
+  it('should export attachments next to the note and link to them', async () => {
+    await getAttachmentStorage().put('user-1/att-1', Buffer.from('png bytes'));
+    await db.insert(attachmentsTable).values({
+      id: 'att-1',
+      note_id: 'note-plan',
+      user_id: 'user-1',
+      filename: 'Q1 chart.png',
+      content_type: 'image/png',
+      size: 9,
+      storage_key: 'user-1/att-1'
+    }).execute();
+
+    const files = await collect({ user_id: 'user-1' });
+
+    expect(fileText(files, 'Work/_attachments/Q1 chart.png')).toEqual('png bytes');
+    expect(fileText(files, 'Work/Plan.md')).toContain('See ![chart](_attachments/Q1%20chart.png)');
+  });
+
+  it('should export only a folder and its subfolders', async () => {
+    const files = await collect({ user_id: 'user-1', folder_id: 'folder-work' });
+
+    expect(files.map(file => file.path).sort()).toEqual(['Work/Meetings/Standup.md', 'Work/Plan.md']);
+  });
+
+  it('should number notes with the same title', async () => {
+    await db.insert(notesTable).values([
+      { id: 'note-dup-1', title: 'Ideas', content: '', user_id: 'user-1' },
+      { id: 'note-dup-2', title: 'ideas', content: '', user_id: 'user-1' },
+      { id: 'note-unsafe', title: 'a/b: c?', content: '', user_id: 'user-1' },
+      { id: 'note-untitled', title: '', content: '', user_id: 'user-1' }
+    ]).execute();
+
+    const files = await collect({ user_id: 'user-1' });
+    const paths = files.map(file => file.path);
+
+    expect(paths).toContain('Ideas.md');
+    expect(paths).toContain('ideas (2).md');
+    expect(paths).toContain('a-b- c-.md');
+    expect(paths).toContain('Untitled.md');
+  });
+
+  it('should reject folders outside the active space', async () => {
+    await db.insert(foldersTable).values({ id: 'folder-2', name: 'Theirs', user_id: 'user-2' }).execute();
+
+    await expect(collect({ user_id: 'user-1', folder_id: 'folder-2' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(collect({ user_id: 'user-1', folder_id: 'folder-old' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should export workspace notes for members', async () => {
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values({ workspace_id: 'ws-1', user_id: 'user-2', role: 'viewer' }).execute();
+    await db.insert(notesTable).values({
+      id: 'note-team',
+      title: 'Roadmap',
+      content: '',
+      user_id: 'user-1',
+      workspace_id: 'ws-1'
+    }).execute();
+
+    const files = await collect({ user_id: 'user-2', workspace_id: 'ws-1' });
+    expect(files.map(file => file.path)).toEqual(['Roadmap.md']);
+
+    await expect(collect({ user_id: 'user-1', workspace_id: 'ws-1' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
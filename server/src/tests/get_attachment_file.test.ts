@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, sharesTable, publicLinksTable } from '../db/schema';
+import { createAttachment } from '../handlers/create_attachment';
+import { createPublicLink } from '../handlers/create_public_link';
+import { getAttachmentFile } from '../handlers/get_attachment_file';
+import { getAttachmentUrls } from '../handlers/get_attachment_urls';
+import { signAttachmentUrl } from '../helpers/attachment_urls';
+import { renderPublicNotePage } from '../helpers/public_page';
+import { type Attachment, type SignedAttachmentUrl } from '../schema';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { eq } from 'drizzle-orm';
+
+// Loads a file the way the note preview's <img> tags do: the signed address
+// and nothing else, since the browser sends no session token with it
+const fetchSigned = (signed: SignedAttachmentUrl, id: string = signed.attachment_id) => {
+  const params = new URLSearchParams({ expires: String(signed.expires_at.getTime()), signature: signed.signature });
+  const url = new URL(`/attachments/${id}?${params}`, 'http://localhost');
+  return getAttachmentFile({
+    id,
+    user_id: null,
+    public_token: url.searchParams.get('public_token'),
+    expires: url.searchParams.get('expires'),
+    signature: url.searchParams.get('signature')
+  });
+};
+
+describe('getAttachmentFile', () => {
+  let storageDir: string;
+  let attachment: Attachment;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env['ATTACHMENTS_DIR'] = storageDir;
+
+    await db.insert(usersTable).values([
+      { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Photos', content: '', user_id: 'user-1' },
+      { id: 'note-2', title: 'Other', content: '', user_id: 'user-1' }
+    ]).execute();
+    attachment = await createAttachment(
+      { note_id: 'note-1', user_id: 'user-1', filename: 'photo.png', content_type: 'image/png' },
+      Buffer.from('image bytes')
+    );
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['ATTACHMENTS_DIR'];
+  });
+
+  it('should serve files to users who can read the note', async () => {
+    await db.insert(sharesTable).values({
+      id: 'share-1',
+      owner_id: 'user-1',
+      grantee_id: 'user-2',
+      note_id: 'note-1',
+      permission: 'read'
+    }).execute();
+
+    const file = await getAttachmentFile({ id: attachment.id, user_id: 'user-2', public_token: null });
+
+    expect(file?.data.toString()).toBe('image bytes');
+  });
+
+  it('should not serve files to other users or without a session', async () => {
+    expect(await getAttachmentFile({ id: attachment.id, user_id: 'user-2', public_token: null })).toBeNull();
+    expect(await getAttachmentFile({ id: attachment.id, user_id: null, public_token: null })).toBeNull();
+  });
+
+  it('should serve files to holders of a public link to the note', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+
+    const file = await getAttachmentFile({ id: attachment.id, user_id: null, public_token: link.token });
+
+    expect(file?.attachment.filename).toBe('photo.png');
+  });
+
+  it('should not serve files through links to other notes, expired links or trashed notes', async () => {
+    const otherLink = await createPublicLink({ note_id: 'note-2', user_id: 'user-1' });
+    expect(await getAttachmentFile({ id: attachment.id, user_id: null, public_token: otherLink.token })).toBeNull();
+
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+    await db.update(publicLinksTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(publicLinksTable.id, link.id))
+      .execute();
+    expect(await getAttachmentFile({ id: attachment.id, user_id: null, public_token: link.token })).toBeNull();
+
+    const openLink = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+    await db.update(notesTable).set({ deleted_at: new Date() }).where(eq(notesTable.id, 'note-1')).execute();
+    expect(await getAttachmentFile({ id: attachment.id, user_id: null, public_token: openLink.token })).toBeNull();
+  });
+
+  it('should serve files through addresses signed for the owner without a session', async () => {
+    const [signed] = await getAttachmentUrls({ note_id: 'note-1', user_id: 'user-1' });
+
+    const file = await fetchSigned(signed);
+
+    expect(file?.data.toString()).toBe('image bytes');
+    expect(file?.attachment.filename).toBe('photo.png');
+  });
+
+  it('should not serve files through expired, altered or borrowed signatures', async () => {
+    const other = await createAttachment(
+      { note_id: 'note-2', user_id: 'user-1', filename: 'other.png', content_type: 'image/png' },
+      Buffer.from('other bytes')
+    );
+
+    const expired = signAttachmentUrl(attachment.id, new Date(Date.now() - 24 * 60 * 60 * 1000));
+    expect(await fetchSigned(expired)).toBeNull();
+
+    const signed = signAttachmentUrl(attachment.id);
+    expect(await fetchSigned({ ...signed, expires_at: new Date(signed.expires_at.getTime() + 60 * 60 * 1000) })).toBeNull();
+    expect(await fetchSigned({ ...signed, signature: signAttachmentUrl(other.id).signature })).toBeNull();
+    expect(await fetchSigned(signed, other.id)).toBeNull();
+  });
+
+  it('should hand the link token to attachment addresses on the public page only', () => {
+    const html = renderPublicNotePage({
+      title: 'Photos',
+      content: `![photo](/api/attachments/${attachment.id}) ![elsewhere](https://example.com/attachments/abc)`,
+      updated_at: new Date()
+    }, 'link-token');
+
+    expect(html).toContain(`src="/api/attachments/${attachment.id}?public_token=link-token"`);
+    expect(html).toContain('src="https://example.com/attachments/abc"');
+  });
+});
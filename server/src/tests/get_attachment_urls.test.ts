@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, sharesTable } from '../db/schema';
+import { createAttachment } from '../handlers/create_attachment';
+import { getAttachmentUrls } from '../handlers/get_attachment_urls';
+import { verifyAttachmentSignature } from '../helpers/attachment_urls';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+describe('getAttachmentUrls', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env['ATTACHMENTS_DIR'] = storageDir;
+
+    await db.insert(usersTable).values([
+      { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Photos', content: '', user_id: 'user-1' },
+      { id: 'note-2', title: 'Other', content: '', user_id: 'user-1' }
+    ]).execute();
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['ATTACHMENTS_DIR'];
+    delete process.env['ATTACHMENT_URL_TTL_MINUTES'];
+  });
+
+  const attach = (noteId: string, filename: string) => createAttachment(
+    { note_id: noteId, user_id: 'user-1', filename, content_type: 'image/png' },
+    Buffer.from(filename)
+  );
+
+  it('should sign every file of the note and no others', async () => {
+    const first = await attach('note-1', 'first.png');
+    const second = await attach('note-1', 'second.png');
+    await attach('note-2', 'elsewhere.png');
+
+    const result = await getAttachmentUrls({ note_id: 'note-1', user_id: 'user-1' });
+
+    expect(result.map(signed => signed.attachment_id).sort()).toEqual([first.id, second.id].sort());
+    for (const signed of result) {
+      expect(verifyAttachmentSignature(signed.attachment_id, String(signed.expires_at.getTime()), signed.signature)).toBe(true);
+    }
+  });
+
+  it('should expire signed addresses after the configured time', async () => {
+    process.env['ATTACHMENT_URL_TTL_MINUTES'] = '5';
+    await attach('note-1', 'photo.png');
+
+    const before = Date.now();
+    const [signed] = await getAttachmentUrls({ note_id: 'note-1', user_id: 'user-1' });
+
+    expect(signed.expires_at.getTime()).toBeGreaterThanOrEqual(before + 5 * 60 * 1000);
+    expect(signed.expires_at.getTime()).toBeLessThanOrEqual(Date.now() + 5 * 60 * 1000);
+  });
+
+  it('should sign files for users the note is shared with', async () => {
+    await attach('note-1', 'photo.png');
+    await db.insert(sharesTable).values({
+      id: 'share-1',
+      owner_id: 'user-1',
+      grantee_id: 'user-2',
+      note_id: 'note-1',
+      permission: 'read'
+    }).execute();
+
+    const result = await getAttachmentUrls({ note_id: 'note-1', user_id: 'user-2' });
+
+    expect(result).toHaveLength(1);
+  });
+
+  it('should refuse users without access and unknown notes', async () => {
+    await attach('note-1', 'photo.png');
+
+    await expect(getAttachmentUrls({ note_id: 'note-1', user_id: 'user-2' })).rejects.toThrow(/does not belong/i);
+    await expect(getAttachmentUrls({ note_id: 'missing', user_id: 'user-1' })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, noteLinksTable } from '../db/schema';
+import { getBacklinks } from '../handlers/get_backlinks';
+import { createNote } from '../handlers/create_note';
+import { updateNote } from '../handlers/update_note';
+import { getNoteRevisions } from '../handlers/get_note_revisions';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+const getContent = async (id: string) => {
+  const notes = await db.select()
+    .from(notesTable)
+    .where(eq(notesTable.id, id))
+    .execute();
+  return notes[0].content;
+};
+
+describe('getBacklinks', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return notes that link to a note', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const target = await createNote({ title: 'Project Plan', content: 'Goals', user_id: 'user-1' });
+    const source = await createNote({ title: 'Meeting', content: 'See [[Project Plan]] for details', user_id: 'user-1' });
+    await createNote({ title: 'Unrelated', content: 'No links here', user_id: 'user-1' });
+
+    const result = await getBacklinks({ note_id: target.id, user_id: 'user-1' });
+
+    expect(result.map(n => n.id)).toEqual([source.id]);
+    expect(result[0].title).toBe('Meeting');
+  });
+
+  it('should match titles ignoring case and surrounding whitespace', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const target = await createNote({ title: 'Project Plan', content: '', user_id: 'user-1' });
+    await createNote({ title: 'Meeting', content: 'See [[ project plan ]]', user_id: 'user-1' });
+
+    const result = await getBacklinks({ note_id: target.id, user_id: 'user-1' });
+
+    expect(result).toHaveLength(1);
+  });
+
+  it('should link references written before the target existed', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const source = await createNote({ title: 'Meeting', content: 'Todo: [[Follow Up]]', user_id: 'user-1' });
+    const target = await createNote({ title: 'Follow Up', content: '', user_id: 'user-1' });
+
+    const result = await getBacklinks({ note_id: target.id, user_id: 'user-1' });
+
+    expect(result.map(n => n.id)).toEqual([source.id]);
+  });
+
+  it('should update links when the source text changes', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const first = await createNote({ title: 'First', content: '', user_id: 'user-1' });
+    const second = await createNote({ title: 'Second', content: '', user_id: 'user-1' });
+    const source = await createNote({ title: 'Source', content: 'Links to [[First]]', user_id: 'user-1' });
+
+    await updateNote({ id: source.id, user_id: 'user-1', content: 'Now links to [[Second]]' });
+
+    expect(await getBacklinks({ note_id: first.id, user_id: 'user-1' })).toHaveLength(0);
+    expect((await getBacklinks({ note_id: second.id, user_id: 'user-1' })).map(n => n.id)).toEqual([source.id]);
+  });
+
+  it('should rewrite link text when the target is renamed', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const target = await createNote({ title: 'Old Name', content: '', user_id: 'user-1' });
+    const source = await createNote({
+      title: 'Source',
+      content: 'See [[Old Name]] and [[old name]], not [[Other]]',
+      user_id: 'user-1'
+    });
+
+    await updateNote({ id: target.id, user_id: 'user-1', title: 'New Name' });
+
+    expect(await getContent(source.id)).toBe('See [[New Name]] and [[New Name]], not [[Other]]');
+
+    const result = await getBacklinks({ note_id: target.id, user_id: 'user-1' });
+    expect(result.map(n => n.id)).toEqual([source.id]);
+  });
+
+  it('should make saves of the linking note based on the old text conflict after a rename', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const target = await createNote({ title: 'Old Name', content: '', user_id: 'user-1' });
+    const source = await createNote({ title: 'Source', content: 'See [[Old Name]]', user_id: 'user-1' });
+
+    await updateNote({ id: target.id, user_id: 'user-1', title: 'New Name' });
+
+    await expect(updateNote({
+      id: source.id,
+      user_id: 'user-1',
+      content: 'See [[Old Name]] again',
+      expected_updated_at: source.updated_at
+    })).rejects.toMatchObject({ code: 'CONFLICT' });
+    expect(await getContent(source.id)).toBe('See [[New Name]]');
+
+    const revisions = await getNoteRevisions({ note_id: source.id, user_id: 'user-1' });
+    expect(revisions.map(revision => revision.content)).toEqual(['See [[Old Name]]']);
+  });
+
+  it('should leave linking notes alone when only the case of the title changes', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const target = await createNote({ title: 'Old Name', content: '', user_id: 'user-1' });
+    const source = await createNote({ title: 'Source', content: 'See [[Old Name]]', user_id: 'user-1' });
+
+    await updateNote({ id: target.id, user_id: 'user-1', title: 'old name' });
+
+    expect(await getContent(source.id)).toBe('See [[Old Name]]');
+    const result = await getBacklinks({ note_id: target.id, user_id: 'user-1' });
+    expect(result.map(n => n.id)).toEqual([source.id]);
+  });
+
+  it('should not link a note to itself', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const note = await createNote({ title: 'Loop', content: 'I am [[Loop]]', user_id: 'user-1' });
+
+    expect(await getBacklinks({ note_id: note.id, user_id: 'user-1' })).toHaveLength(0);
+  });
+
+  it('should not resolve links to another user\'s notes', async () => {
+    await db.insert(usersTable).values([
+      testUser,
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+
+    await createNote({ title: 'Secret', content: '', user_id: 'user-2' });
+    const source = await createNote({ title: 'Mine', content: '[[Secret]]', user_id: 'user-1' });
+
+    const links = await db.select()
+      .from(noteLinksTable)
+      .where(eq(noteLinksTable.source_note_id, source.id))
+      .execute();
+    expect(links).toHaveLength(0);
+  });
+
+  it('should leave out trashed notes', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const target = await createNote({ title: 'Target', content: '', user_id: 'user-1' });
+    const source = await createNote({ title: 'Source', content: '[[Target]]', user_id: 'user-1' });
+
+    await db.update(notesTable)
+      .set({ deleted_at: new Date() })
+      .where(eq(notesTable.id, source.id))
+      .execute();
+
+    expect(await getBacklinks({ note_id: target.id, user_id: 'user-1' })).toHaveLength(0);
+  });
+
+  it('should reject notes owned by another user', async () => {
+    await db.insert(usersTable).values([
+      testUser,
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+
+    const note = await createNote({ title: 'Theirs', content: '', user_id: 'user-2' });
+
+    await expect(getBacklinks({ note_id: note.id, user_id: 'user-1' }))
+      .rejects.toThrow(/note does not belong to user/i);
+  });
+
+  it('should throw for a missing note', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    await expect(getBacklinks({ note_id: 'missing', user_id: 'user-1' }))
+      .rejects.toThrow(/note not found/i);
+  });
+});
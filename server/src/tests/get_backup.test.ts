@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, foldersTable, tagsTable, notesTable, noteTagsTable, noteRevisionsTable } from '../db/schema';
+import { getBackup } from '../handlers/get_backup';
+import { backupSchema } from '../schema';
+
+const testUser = { id: 'user-1', email: 'user1@test.com', username: 'user1', password_hash: 'hash1' };
+const otherUser = { id: 'user-2', email: 'user2@test.com', username: 'user2', password_hash: 'hash2' };
+
+describe('getBackup', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values([testUser, otherUser]).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+
+    await db.insert(foldersTable).values([
+      { id: 'folder-1', name: 'Work', user_id: 'user-1' },
+      { id: 'folder-2', name: 'Projects', user_id: 'user-1', parent_folder_id: 'folder-1' },
+      { id: 'folder-old', name: 'Old', user_id: 'user-1', deleted_at: new Date() }
+    ]).execute();
+    await db.insert(tagsTable).values({ id: 'tag-1', name: 'urgent', color: '#ff0000', user_id: 'user-1' }).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Plan', content: 'Ship it', user_id: 'user-1', folder_id: 'folder-2', is_favorite: true },
+      { id: 'note-trashed', title: 'Draft', content: 'Old', user_id: 'user-1', deleted_at: new Date() },
+      { id: 'note-team', title: 'Team', content: 'Shared', user_id: 'user-1', workspace_id: 'ws-1' },
+      { id: 'note-other', title: 'Other', content: 'Not mine', user_id: 'user-2' }
+    ]).execute();
+    await db.insert(noteTagsTable).values({ note_id: 'note-1', tag_id: 'tag-1' }).execute();
+    await db.insert(noteRevisionsTable).values({ id: 'rev-1', note_id: 'note-1', title: 'Plan', content: 'Draft it' }).execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should back up the personal space including the trash', async () => {
+    const backup = await getBackup({ user_id: 'user-1' });
+
+    expect(backup.schema_version).toBe(1);
+    expect(backup.folders.map(folder => folder.id).sort()).toEqual(['folder-1', 'folder-2', 'folder-old']);
+    expect(backup.folders.find(folder => folder.id === 'folder-2')?.parent_folder_id).toBe('folder-1');
+    expect(backup.tags).toMatchObject([{ id: 'tag-1', name: 'urgent', color: '#ff0000' }]);
+    expect(backup.notes.map(note => note.id).sort()).toEqual(['note-1', 'note-trashed']);
+    expect(backup.notes.find(note => note.id === 'note-1')).toMatchObject({ folder_id: 'folder-2', is_favorite: true });
+    expect(backup.note_tags).toMatchObject([{ note_id: 'note-1', tag_id: 'tag-1' }]);
+    expect(backup.revisions).toMatchObject([{ id: 'rev-1', note_id: 'note-1', content: 'Draft it' }]);
+  });
+
+  it('should leave owners out and survive a JSON round trip', async () => {
+    const backup = await getBackup({ user_id: 'user-1' });
+
+    expect(backup.notes[0]).not.toHaveProperty('user_id');
+    expect(backupSchema.parse(JSON.parse(JSON.stringify(backup)))).toEqual(backup);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, noteRevisionsTable } from '../db/schema';
+import { getNoteRevisions } from '../handlers/get_note_revisions';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+const otherUser = {
+  id: 'user-2',
+  email: 'other@example.com',
+  username: 'otheruser',
+  password_hash: 'hashed_password'
+};
+
+const testNote = {
+  id: 'note-1',
+  title: 'Current Title',
+  content: 'Current content',
+  user_id: testUser.id
+};
+
+describe('getNoteRevisions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values([testUser, otherUser]).execute();
+    await db.insert(notesTable).values(testNote).execute();
+  });
+
+  it('should return revisions newest first', async () => {
+    await db.insert(noteRevisionsTable).values([
+      { id: 'rev-1', note_id: testNote.id, title: 'First', content: 'one', created_at: new Date('2026-01-01T10:00:00Z') },
+      { id: 'rev-3', note_id: testNote.id, title: 'Third', content: 'three', created_at: new Date('2026-01-03T10:00:00Z') },
+      { id: 'rev-2', note_id: testNote.id, title: 'Second', content: 'two', created_at: new Date('2026-01-02T10:00:00Z') }
+    ]).execute();
+
+    const result = await getNoteRevisions({ note_id: testNote.id, user_id: testUser.id });
+
+    expect(result.map(revision => revision.id)).toEqual(['rev-3', 'rev-2', 'rev-1']);
+    expect(result[0].title).toEqual('Third');
+    expect(result[0].content).toEqual('three');
+    expect(result[0].markdown_content).toBeNull();
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should return an empty list for a note without history', async () => {
+    const result = await getNoteRevisions({ note_id: testNote.id, user_id: testUser.id });
+
+    expect(result).toEqual([]);
+  });
+
+  it('should reject listing another user\'s note history', async () => {
+    await expect(getNoteRevisions({ note_id: testNote.id, user_id: otherUser.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should report NOT_FOUND for a missing note', async () => {
+    await expect(getNoteRevisions({ note_id: 'missing-note', user_id: testUser.id }))
+      .rejects.toThrow(/note not found/i);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, tagsTable, noteTagsTable } from '../db/schema';
+import { type GetNotesPageInput } from '../schema';
+import { getNotesPage } from '../handlers/get_notes_page';
+import { sql } from 'drizzle-orm';
+
+const base = new Date('2026-01-01T00:00:00Z').getTime();
+const minutes = (n: number) => new Date(base + n * 60_000);
+
+// Pages through every note and returns the ids in the order they came
+const collectIds = async (input: GetNotesPageInput): Promise<string[]> => {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getNotesPage({ ...input, cursor });
+    ids.push(...page.notes.map(note => note.id));
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  return ids;
+};
+
+describe('getNotesPage', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values({ id: 'user-1', email: 'user1@example.com', username: 'user1', password_hash: 'hashed_password' }).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-a', title: 'Cherry', content: '', user_id: 'user-1', position: 2, created_at: minutes(1), updated_at: minutes(5) },
+      { id: 'note-b', title: 'apple', content: '', user_id: 'user-1', position: 0, created_at: minutes(2), updated_at: minutes(5) },
+      { id: 'note-c', title: 'Banana', content: '', user_id: 'user-1', position: 1, created_at: minutes(3), updated_at: minutes(4), is_favorite: true },
+      { id: 'note-d', title: 'Date', content: '', user_id: 'user-1', position: 3, created_at: minutes(4), updated_at: minutes(6) },
+      { id: 'note-e', title: 'Elderberry', content: '', user_id: 'user-1', position: 1, created_at: minutes(5), updated_at: minutes(1) }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should page by most recently updated by default', async () => {
+    const first = await getNotesPage({ user_id: 'user-1', limit: 2 });
+
+    expect(first.notes.map(note => note.id)).toEqual(['note-d', 'note-b']);
+    expect(first.next_cursor).not.toBeNull();
+    expect(first.notes[0].tags).toEqual([]);
+
+    // note-a and note-b share updated_at, so the id breaks the tie
+    expect(await collectIds({ user_id: 'user-1', limit: 2 })).toEqual(['note-d', 'note-b', 'note-a', 'note-c', 'note-e']);
+  });
+
+  it('should return no cursor on the last page', async () => {
+    const page = await getNotesPage({ user_id: 'user-1', limit: 5 });
+
+    expect(page.notes).toHaveLength(5);
+    expect(page.next_cursor).toBeNull();
+  });
+
+  it('should sort by created, title and manual order in either direction', async () => {
+    expect(await collectIds({ user_id: 'user-1', sort: 'created', limit: 2 }))
+      .toEqual(['note-e', 'note-d', 'note-c', 'note-b', 'note-a']);
+    expect(await collectIds({ user_id: 'user-1', sort: 'created', direction: 'asc', limit: 2 }))
+      .toEqual(['note-a', 'note-b', 'note-c', 'note-d', 'note-e']);
+    expect(await collectIds({ user_id: 'user-1', sort: 'manual', limit: 2 }))
+      .toEqual(['note-b', 'note-c', 'note-e', 'note-a', 'note-d']);
+    expect(await collectIds({ user_id: 'user-1', sort: 'manual', direction: 'desc', limit: 3 }))
+      .toEqual(['note-d', 'note-a', 'note-e', 'note-c', 'note-b']);
+
+    const byTitle = await collectIds({ user_id: 'user-1', sort: 'title', limit: 2 });
+    expect(byTitle).toHaveLength(5);
+    expect(new Set(byTitle).size).toBe(5);
+  });
+
+  it('should not skip notes whose timestamps differ below a millisecond', async () => {
+    await db.execute(sql`update notes set updated_at = '2026-02-01 00:00:00.000400' where id = 'note-a'`);
+    await db.execute(sql`update notes set updated_at = '2026-02-01 00:00:00.000900' where id = 'note-b'`);
+
+    expect(await collectIds({ user_id: 'user-1', limit: 1 })).toEqual(['note-b', 'note-a', 'note-d', 'note-c', 'note-e']);
+  });
+
+  it('should apply the getUserNotes filters', async () => {
+    await db.insert(tagsTable).values({ id: 'tag-1', name: 'Fruit', user_id: 'user-1' }).execute();
+    await db.insert(noteTagsTable).values([
+      { note_id: 'note-a', tag_id: 'tag-1' },
+      { note_id: 'note-c', tag_id: 'tag-1' }
+    ]).execute();
+
+    const tagged = await getNotesPage({ user_id: 'user-1', include_tag_ids: ['tag-1'] });
+    expect(tagged.notes.map(note => note.id)).toEqual(['note-a', 'note-c']);
+    expect(tagged.notes[0].tags.map(tag => tag.id)).toEqual(['tag-1']);
+
+    const favorites = await getNotesPage({ user_id: 'user-1', search: 'is:favorite' });
+    expect(favorites.notes.map(note => note.id)).toEqual(['note-c']);
+  });
+
+  it('should reject malformed cursors and cursors of another sort', async () => {
+    const page = await getNotesPage({ user_id: 'user-1', limit: 1 });
+
+    await expect(getNotesPage({ user_id: 'user-1', cursor: 'not-a-cursor' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(getNotesPage({ user_id: 'user-1', sort: 'title', cursor: page.next_cursor! }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+    const forged = Buffer.from(JSON.stringify({ sort: 'updated', value: 'x', id: 'a' })).toString('base64url');
+    await expect(getNotesPage({ user_id: 'user-1', cursor: forged }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
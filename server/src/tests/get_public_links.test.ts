@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, publicLinksTable } from '../db/schema';
+import { getPublicLinks } from '../handlers/get_public_links';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+];
+
+describe('getPublicLinks', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(notesTable).values({ id: 'note-1', title: 'Plans', content: '', user_id: 'user-1' }).execute();
+    await db.insert(publicLinksTable).values([
+      { id: 'link-old', note_id: 'note-1', user_id: 'user-1', token_hash: 'hash-1', created_at: new Date('2024-01-01') },
+      { id: 'link-new', note_id: 'note-1', user_id: 'user-1', token_hash: 'hash-2', password_hash: 'pbkdf2-sha512$1$salt$00', view_count: 3, created_at: new Date('2024-02-01') },
+      { id: 'link-expired', note_id: 'note-1', user_id: 'user-1', token_hash: 'hash-3', expires_at: new Date(Date.now() - 1000) }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should list active links newest first', async () => {
+    const links = await getPublicLinks({ note_id: 'note-1', user_id: 'user-1' });
+
+    expect(links.map(link => link.id)).toEqual(['link-new', 'link-old']);
+    expect(links[0].has_password).toBe(true);
+    expect(links[0].view_count).toEqual(3);
+    expect(links[1].has_password).toBe(false);
+  });
+
+  it('should not expose token or password hashes', async () => {
+    const links = await getPublicLinks({ note_id: 'note-1', user_id: 'user-1' });
+
+    expect(links[0]).not.toHaveProperty('token_hash');
+    expect(links[0]).not.toHaveProperty('password_hash');
+  });
+
+  it("should reject another user's note", async () => {
+    await expect(getPublicLinks({ note_id: 'note-1', user_id: 'user-2' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
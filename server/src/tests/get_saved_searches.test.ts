@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable, notesTable, tagsTable, noteTagsTable, savedSearchesTable } from '../db/schema';
+import { getSavedSearches } from '../handlers/get_saved_searches';
+
+const users = [
+  { id: 'user-1', email: 'user1@example.com', username: 'user1', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'user2@example.com', username: 'user2', password_hash: 'hashed_password' }
+];
+
+describe('getSavedSearches', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'editor' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'editor' }
+    ]).execute();
+    await db.insert(tagsTable).values({ id: 'tag-1', name: 'Work', user_id: 'user-1' }).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Todo list', content: 'todo: ship it', user_id: 'user-1', is_favorite: true },
+      { id: 'note-2', title: 'Groceries', content: 'todo: milk', user_id: 'user-1' },
+      { id: 'note-3', title: 'Old todo', content: 'todo', user_id: 'user-1', is_favorite: true, deleted_at: new Date() },
+      { id: 'note-4', title: 'Team todo', content: 'todo', user_id: 'user-2', workspace_id: 'ws-1', is_favorite: true }
+    ]).execute();
+    await db.insert(noteTagsTable).values({ note_id: 'note-1', tag_id: 'tag-1' }).execute();
+  });
+  afterEach(resetDB);
+
+  it('should list searches by name with their note counts', async () => {
+    await db.insert(savedSearchesTable).values([
+      { id: 'search-1', name: 'Todo', user_id: 'user-1', query: { search: 'todo' } },
+      { id: 'search-2', name: 'Favorite work', user_id: 'user-1', query: { is_favorite: true, include_tag_ids: ['tag-1'] } }
+    ]).execute();
+
+    const result = await getSavedSearches({ user_id: 'user-1' });
+
+    expect(result.map(search => search.name)).toEqual(['Favorite work', 'Todo']);
+    expect(result.map(search => search.note_count)).toEqual([1, 2]);
+  });
+
+  it('should only list the caller\'s searches in the active space', async () => {
+    await db.insert(savedSearchesTable).values([
+      { id: 'search-1', name: 'Personal', user_id: 'user-1', query: {} },
+      { id: 'search-2', name: 'Mine', user_id: 'user-1', workspace_id: 'ws-1', query: { is_favorite: true } },
+      { id: 'search-3', name: 'Theirs', user_id: 'user-2', workspace_id: 'ws-1', query: {} }
+    ]).execute();
+
+    const result = await getSavedSearches({ user_id: 'user-1', workspace_id: 'ws-1' });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].id).toEqual('search-2');
+    expect(result[0].note_count).toEqual(1);
+  });
+
+  it('should reject workspaces the user is not a member of', async () => {
+    await db.insert(workspacesTable).values({ id: 'ws-2', name: 'Other' }).execute();
+
+    await expect(getSavedSearches({ user_id: 'user-1', workspace_id: 'ws-2' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { getSessionUser } from '../handlers/get_session_user';
+import { hashSessionToken } from '../helpers/session_token';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+describe('getSessionUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the user owning a valid token', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(sessionsTable).values({
+      id: hashSessionToken('valid-token'),
+      user_id: testUser.id,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000)
+    }).execute();
+
+    const result = await getSessionUser('valid-token');
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(testUser.id);
+    expect(result!.email).toEqual(testUser.email);
+    expect(result!.username).toEqual(testUser.username);
+  });
+
+  it('should leave out the password hash', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(sessionsTable).values({
+      id: hashSessionToken('valid-token'),
+      user_id: testUser.id,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000)
+    }).execute();
+
+    const result = await getSessionUser('valid-token');
+
+    expect(result).not.toHaveProperty('password_hash');
+  });
+
+  it('should return null for an unknown token', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    const result = await getSessionUser('unknown-token');
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for an expired session', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(sessionsTable).values({
+      id: hashSessionToken('expired-token'),
+      user_id: testUser.id,
+      expires_at: new Date(Date.now() - 60 * 1000)
+    }).execute();
+
+    const result = await getSessionUser('expired-token');
+
+    expect(result).toBeNull();
+  });
+
+  it('should not accept the stored hash as a token', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(sessionsTable).values({
+      id: hashSessionToken('valid-token'),
+      user_id: testUser.id,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000)
+    }).execute();
+
+    const result = await getSessionUser(hashSessionToken('valid-token'));
+
+    expect(result).toBeNull();
+  });
+});
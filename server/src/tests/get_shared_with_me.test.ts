@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, foldersTable, sharesTable } from '../db/schema';
+import { getSharedWithMe } from '../handlers/get_shared_with_me';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'friend@example.com', username: 'friend', password_hash: 'hashed_password' }
+];
+
+describe('getSharedWithMe', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(foldersTable).values([
+      { id: 'folder-root', name: 'Work', user_id: 'user-1', parent_folder_id: null },
+      { id: 'folder-child', name: 'Projects', user_id: 'user-1', parent_folder_id: 'folder-root' }
+    ]).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-loose', title: 'Recipe', content: '', user_id: 'user-1' },
+      { id: 'note-nested', title: 'Roadmap', content: '', user_id: 'user-1', folder_id: 'folder-child' },
+      { id: 'note-trashed', title: 'Old', content: '', user_id: 'user-1', folder_id: 'folder-root', deleted_at: new Date() },
+      { id: 'note-unshared', title: 'Diary', content: '', user_id: 'user-1' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should return nothing without shares', async () => {
+    expect(await getSharedWithMe({ user_id: 'user-2' })).toEqual({ notes: [], folders: [] });
+  });
+
+  it('should list shared notes and notes in shared folders', async () => {
+    await db.insert(sharesTable).values([
+      { id: 'share-1', owner_id: 'user-1', grantee_id: 'user-2', note_id: 'note-loose', permission: 'read' },
+      { id: 'share-2', owner_id: 'user-1', grantee_id: 'user-2', folder_id: 'folder-root', permission: 'comment' }
+    ]).execute();
+
+    const result = await getSharedWithMe({ user_id: 'user-2' });
+
+    expect(result.notes.map(note => note.id).sort()).toEqual(['note-loose', 'note-nested']);
+    const nested = result.notes.find(note => note.id === 'note-nested')!;
+    expect(nested.permission).toEqual('comment');
+    expect(nested.owner_username).toEqual('owner');
+    expect(nested.shared_folder_id).toEqual('folder-root');
+    expect(result.notes.find(note => note.id === 'note-loose')!.shared_folder_id).toBeNull();
+
+    expect(result.folders).toHaveLength(1);
+    expect(result.folders[0]).toMatchObject({ id: 'folder-root', name: 'Work', permission: 'comment' });
+  });
+
+  it('should use the strongest of overlapping shares', async () => {
+    await db.insert(sharesTable).values([
+      { id: 'share-1', owner_id: 'user-1', grantee_id: 'user-2', folder_id: 'folder-root', permission: 'read' },
+      { id: 'share-2', owner_id: 'user-1', grantee_id: 'user-2', note_id: 'note-nested', permission: 'edit' }
+    ]).execute();
+
+    const result = await getSharedWithMe({ user_id: 'user-2' });
+
+    expect(result.notes).toHaveLength(1);
+    expect(result.notes[0].permission).toEqual('edit');
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, foldersTable, sharesTable } from '../db/schema';
+import { getShares } from '../handlers/get_shares';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'friend@example.com', username: 'friend', password_hash: 'hashed_password' }
+];
+
+describe('getShares', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(foldersTable).values({ id: 'folder-1', name: 'Work', user_id: 'user-1', parent_folder_id: null }).execute();
+    await db.insert(notesTable).values({ id: 'note-1', title: 'Plans', content: '', user_id: 'user-1' }).execute();
+    await db.insert(sharesTable).values([
+      { id: 'share-note', owner_id: 'user-1', grantee_id: 'user-2', note_id: 'note-1', permission: 'read' },
+      { id: 'share-folder', owner_id: 'user-1', grantee_id: 'user-2', folder_id: 'folder-1', permission: 'edit' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should list the shares of a note with the grantee', async () => {
+    const shares = await getShares({ user_id: 'user-1', note_id: 'note-1' });
+
+    expect(shares).toHaveLength(1);
+    expect(shares[0].id).toEqual('share-note');
+    expect(shares[0].grantee_username).toEqual('friend');
+    expect(shares[0].grantee_email).toEqual('friend@example.com');
+  });
+
+  it('should list the shares of a folder', async () => {
+    const shares = await getShares({ user_id: 'user-1', folder_id: 'folder-1' });
+
+    expect(shares.map(share => share.id)).toEqual(['share-folder']);
+  });
+
+  it('should only show shares to the owner', async () => {
+    await expect(getShares({ user_id: 'user-2', note_id: 'note-1' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should require exactly one of note and folder', async () => {
+    await expect(getShares({ user_id: 'user-1' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
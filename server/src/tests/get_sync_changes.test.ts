@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, foldersTable, tagsTable, noteTagsTable } from '../db/schema';
+import { getSyncChanges } from '../handlers/get_sync_changes';
+import { updateNote } from '../handlers/update_note';
+import { deleteNote } from '../handlers/delete_note';
+import { deleteTag } from '../handlers/delete_tag';
+import { emptyTrash } from '../handlers/empty_trash';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+const otherUser = {
+  id: 'user-2',
+  email: 'other@example.com',
+  username: 'otheruser',
+  password_hash: 'hashed_password'
+};
+
+const longAgo = new Date('2024-01-01T00:00:00Z');
+const cursor = new Date('2024-06-01T00:00:00Z');
+
+const seed = async () => {
+  await db.insert(usersTable).values([testUser, otherUser]).execute();
+
+  await db.insert(foldersTable).values({
+    id: 'folder-1', name: 'Work', user_id: 'user-1', created_at: longAgo, updated_at: longAgo
+  }).execute();
+
+  await db.insert(tagsTable).values({
+    id: 'tag-1', name: 'urgent', user_id: 'user-1', created_at: longAgo, updated_at: longAgo
+  }).execute();
+
+  await db.insert(notesTable).values([
+    { id: 'note-1', title: 'Old', content: '', user_id: 'user-1', folder_id: 'folder-1', created_at: longAgo, updated_at: longAgo, changed_at: longAgo },
+    { id: 'note-2', title: 'Also old', content: '', user_id: 'user-1', created_at: longAgo, updated_at: longAgo, changed_at: longAgo },
+    { id: 'note-3', title: 'Not mine', content: '', user_id: 'user-2', created_at: longAgo, updated_at: longAgo }
+  ]).execute();
+
+  await db.insert(noteTagsTable).values({ note_id: 'note-1', tag_id: 'tag-1' }).execute();
+};
+
+describe('getSyncChanges', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return everything the user owns without a cursor', async () => {
+    await seed();
+
+    const result = await getSyncChanges({ user_id: 'user-1' });
+
+    expect(result.notes.map(n => n.id).sort()).toEqual(['note-1', 'note-2']);
+    expect(result.folders.map(f => f.id)).toEqual(['folder-1']);
+    expect(result.tags.map(t => t.id)).toEqual(['tag-1']);
+    expect(result.note_tags).toEqual([expect.objectContaining({ note_id: 'note-1', tag_id: 'tag-1' })]);
+    expect(result.deleted).toEqual({ notes: [], folders: [], tags: [] });
+    expect(result.cursor).toBeInstanceOf(Date);
+    expect(result.notes[0]).not.toHaveProperty('search_vector');
+  });
+
+  it('should only return records changed since the cursor', async () => {
+    await seed();
+
+    await updateNote({ id: 'note-1', user_id: 'user-1', content: 'Edited', tag_ids: ['tag-1'] });
+
+    const result = await getSyncChanges({ user_id: 'user-1', since: cursor });
+
+    expect(result.notes.map(n => n.id)).toEqual(['note-1']);
+    expect(result.notes[0].content).toBe('Edited');
+    expect(result.note_tags.map(nt => nt.tag_id)).toEqual(['tag-1']);
+    expect(result.folders).toHaveLength(0);
+    expect(result.tags).toHaveLength(0);
+  });
+
+  it('should return notes written with earlier timestamps since the cursor', async () => {
+    await seed();
+
+    // As an import does when it keeps a note's original dates
+    await db.insert(notesTable).values({
+      id: 'note-imported', title: 'Imported', content: '', user_id: 'user-1', created_at: longAgo, updated_at: longAgo
+    }).execute();
+
+    const result = await getSyncChanges({ user_id: 'user-1', since: cursor });
+
+    expect(result.notes.map(n => n.id)).toEqual(['note-imported']);
+    expect(result.notes[0].updated_at).toEqual(longAgo);
+  });
+
+  it('should report trashed notes as changes', async () => {
+    await seed();
+
+    await deleteNote({ id: 'note-2', user_id: 'user-1' });
+
+    const result = await getSyncChanges({ user_id: 'user-1', since: cursor });
+
+    expect(result.notes.map(n => n.id)).toEqual(['note-2']);
+    expect(result.notes[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should report permanently deleted records', async () => {
+    await seed();
+
+    await deleteNote({ id: 'note-2', user_id: 'user-1' });
+    await emptyTrash({ user_id: 'user-1' });
+    await deleteTag({ id: 'tag-1', user_id: 'user-1' });
+
+    const result = await getSyncChanges({ user_id: 'user-1', since: cursor });
+
+    expect(result.deleted).toEqual({ notes: ['note-2'], folders: [], tags: ['tag-1'] });
+    expect(result.notes).toHaveLength(0);
+
+    // Other users see none of it
+    const other = await getSyncChanges({ user_id: 'user-2', since: cursor });
+    expect(other.deleted).toEqual({ notes: [], folders: [], tags: [] });
+  });
+
+  it('should return a cursor that picks up later changes', async () => {
+    await seed();
+
+    const first = await getSyncChanges({ user_id: 'user-1' });
+    await updateNote({ id: 'note-2', user_id: 'user-1', title: 'Renamed' });
+
+    const second = await getSyncChanges({ user_id: 'user-1', since: first.cursor });
+
+    expect(second.notes.map(n => n.id)).toEqual(['note-2']);
+    expect(second.notes[0].title).toBe('Renamed');
+  });
+});
@@ -368,4 +368,25 @@ describe('getUserFolders', () => {
     expect(result[0].user_id).toEqual(dbFolders[0].user_id);
     expect(result[0].id).toEqual(dbFolders[0].id);
   });
-});
\ No newline at end of file
+
+  it('should separate active and trashed folders', async () => {
+    await db.insert(usersTable).values({
+      id: 'user1',
+      email: 'test@example.com',
+      username: 'testuser',
+      password_hash: 'hashedpass'
+    });
+
+    await db.insert(foldersTable).values([
+      { id: 'folder1', name: 'Active', user_id: 'user1', parent_folder_id: null },
+      { id: 'folder2', name: 'Trashed', user_id: 'user1', parent_folder_id: null, deleted_at: new Date() }
+    ]);
+
+    const active = await getUserFolders({ user_id: 'user1' });
+    expect(active.map(f => f.id)).toEqual(['folder1']);
+
+    const trashed = await getUserFolders({ user_id: 'user1', trashed: true });
+    expect(trashed.map(f => f.id)).toEqual(['folder2']);
+    expect(trashed[0].deleted_at).toBeInstanceOf(Date);
+  });
+});
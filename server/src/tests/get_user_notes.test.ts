@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, foldersTable, tagsTable, notesTable, noteTagsTable } from '../db/schema';
+import { usersTable, foldersTable, tagsTable, notesTable, noteTagsTable, workspacesTable, workspaceMembersTable } from '../db/schema';
 import { type GetUserNotesInput } from '../schema';
 import { getUserNotes } from '../handlers/get_user_notes';
+import { eq } from 'drizzle-orm';
 
 describe('getUserNotes', () => {
   beforeEach(createDB);
@@ -223,6 +224,21 @@ describe('getUserNotes', () => {
     expect(result[0].title).toBe('Important Task');
   });
 
+  it('should apply search field operators', async () => {
+    await setupTestData();
+
+    const result = await getUserNotes({ user_id: 'user-1', search: 'tag:important -is:favorite OR folder:"test folder" -task' });
+
+    expect(result.map(n => n.id)).toEqual(['note-1']);
+  });
+
+  it('should reject searches with syntax errors', async () => {
+    await setupTestData();
+
+    await expect(getUserNotes({ user_id: 'user-1', search: 'created:soon' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
   it('should combine multiple filters', async () => {
     await setupTestData();
 
@@ -314,4 +330,131 @@ describe('getUserNotes', () => {
 
     expect(result).toHaveLength(0);
   });
-});
\ No newline at end of file
+
+  it('should exclude trashed notes by default', async () => {
+    await setupTestData();
+    await db.update(notesTable)
+      .set({ deleted_at: new Date() })
+      .where(eq(notesTable.id, 'note-2'))
+      .execute();
+
+    const result = await getUserNotes({ user_id: 'user-1' });
+
+    expect(result.map(n => n.id).sort()).toEqual(['note-1', 'note-3']);
+  });
+
+  it('should list only trashed notes when trashed is set', async () => {
+    await setupTestData();
+    await db.update(notesTable)
+      .set({ deleted_at: new Date() })
+      .where(eq(notesTable.id, 'note-2'))
+      .execute();
+
+    const result = await getUserNotes({ user_id: 'user-1', trashed: true });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].id).toBe('note-2');
+    expect(result[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should list workspace notes only in their workspace', async () => {
+    await setupTestData();
+    await db.insert(usersTable).values({ id: 'user-2', email: 'team@example.com', username: 'teammate', password_hash: 'hashed_password' }).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'viewer' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'owner' }
+    ]).execute();
+    await db.insert(notesTable).values({ id: 'note-ws', title: 'Team Note', content: '', user_id: 'user-2', workspace_id: 'ws-1' }).execute();
+
+    const personal = await getUserNotes({ user_id: 'user-1' });
+    expect(personal.map(n => n.id).sort()).toEqual(['note-1', 'note-2', 'note-3']);
+
+    const team = await getUserNotes({ user_id: 'user-1', workspace_id: 'ws-1' });
+    expect(team.map(n => n.id)).toEqual(['note-ws']);
+    expect(team[0].workspace_id).toEqual('ws-1');
+
+    const otherPersonal = await getUserNotes({ user_id: 'user-2' });
+    expect(otherPersonal).toHaveLength(0);
+  });
+
+  it('should reject listing a workspace the user is not in', async () => {
+    await setupTestData();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+
+    await expect(getUserNotes({ user_id: 'user-1', workspace_id: 'ws-1' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should include notes with nested tags when asked', async () => {
+    await setupTestData();
+    await db.insert(tagsTable).values({ id: 'tag-child', name: 'Urgent', user_id: 'user-1', parent_tag_id: 'tag-1' }).execute();
+    await db.insert(noteTagsTable).values({ note_id: 'note-2', tag_id: 'tag-child' }).execute();
+
+    const direct = await getUserNotes({ user_id: 'user-1', tag_id: 'tag-1' });
+    expect(direct.map(n => n.id).sort()).toEqual(['note-1', 'note-3']);
+
+    const nested = await getUserNotes({ user_id: 'user-1', tag_id: 'tag-1', include_descendant_tags: true });
+    expect(nested.map(n => n.id).sort()).toEqual(['note-1', 'note-2', 'note-3']);
+  });
+
+  describe('multi-tag filtering', () => {
+    // note-1: tag-1, tag-2 · note-2: tag-2 · note-3: tag-1
+    const setupTagData = async () => {
+      await setupTestData();
+      await db.insert(tagsTable).values({ id: 'tag-2', name: 'Work', color: null, user_id: 'user-1' }).execute();
+      await db.insert(noteTagsTable).values([
+        { note_id: 'note-1', tag_id: 'tag-2' },
+        { note_id: 'note-2', tag_id: 'tag-2' }
+      ]).execute();
+    };
+
+    const ids = (notes: { id: string }[]) => notes.map(n => n.id).sort();
+
+    it('should require every included tag by default', async () => {
+      await setupTagData();
+
+      const result = await getUserNotes({ user_id: 'user-1', include_tag_ids: ['tag-1', 'tag-2'] });
+
+      expect(ids(result)).toEqual(['note-1']);
+    });
+
+    it('should accept any included tag with ANY', async () => {
+      await setupTagData();
+
+      const result = await getUserNotes({ user_id: 'user-1', include_tag_ids: ['tag-1', 'tag-2'], tag_match: 'any' });
+
+      expect(ids(result)).toEqual(['note-1', 'note-2', 'note-3']);
+    });
+
+    it('should leave out notes with an excluded tag', async () => {
+      await setupTagData();
+
+      const excluded = await getUserNotes({ user_id: 'user-1', exclude_tag_ids: ['tag-2'] });
+      expect(ids(excluded)).toEqual(['note-3']);
+
+      const combined = await getUserNotes({ user_id: 'user-1', include_tag_ids: ['tag-1'], exclude_tag_ids: ['tag-2'] });
+      expect(ids(combined)).toEqual(['note-3']);
+    });
+
+    it('should apply nested tags to exclusions too', async () => {
+      await setupTagData();
+      await db.insert(tagsTable).values({ id: 'tag-child', name: 'Urgent', user_id: 'user-1', parent_tag_id: 'tag-2' }).execute();
+      await db.insert(noteTagsTable).values({ note_id: 'note-3', tag_id: 'tag-child' }).execute();
+
+      const result = await getUserNotes({ user_id: 'user-1', exclude_tag_ids: ['tag-2'], include_descendant_tags: true });
+
+      expect(result).toHaveLength(0);
+    });
+
+    it('should return each note with its tags', async () => {
+      await setupTagData();
+
+      const result = await getUserNotes({ user_id: 'user-1' });
+
+      const first = result.find(n => n.id === 'note-1');
+      expect(first?.tags.map(t => t.name).sort()).toEqual(['Important', 'Work']);
+      expect(result.find(n => n.id === 'note-3')?.tags.map(t => t.id)).toEqual(['tag-1']);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable } from '../db/schema';
+import { getUserWorkspaces } from '../handlers/get_user_workspaces';
+
+const users = [
+  { id: 'user-1', email: 'one@example.com', username: 'one', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'two@example.com', username: 'two', password_hash: 'hashed_password' }
+];
+
+describe('getUserWorkspaces', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values([
+      { id: 'ws-1', name: 'Zeta' },
+      { id: 'ws-2', name: 'Alpha' },
+      { id: 'ws-3', name: 'Private' }
+    ]).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+      { workspace_id: 'ws-2', user_id: 'user-1', role: 'viewer' },
+      { workspace_id: 'ws-3', user_id: 'user-2', role: 'owner' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should list the workspaces the user belongs to with their role', async () => {
+    const workspaces = await getUserWorkspaces({ user_id: 'user-1' });
+
+    expect(workspaces.map(w => w.name)).toEqual(['Alpha', 'Zeta']);
+    expect(workspaces.map(w => w.role)).toEqual(['viewer', 'owner']);
+  });
+
+  it('should return an empty list for users without workspaces', async () => {
+    await db.insert(usersTable).values({ id: 'user-3', email: 'three@example.com', username: 'three', password_hash: 'x' }).execute();
+
+    expect(await getUserWorkspaces({ user_id: 'user-3' })).toEqual([]);
+  });
+});
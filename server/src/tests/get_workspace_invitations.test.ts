@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable, workspaceInvitationsTable } from '../db/schema';
+import { getWorkspaceInvitations } from '../handlers/get_workspace_invitations';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'viewer@example.com', username: 'viewer', password_hash: 'hashed_password' }
+];
+
+describe('getWorkspaceInvitations', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'viewer' }
+    ]).execute();
+    await db.insert(workspaceInvitationsTable).values([
+      { id: 'inv-1', workspace_id: 'ws-1', email: 'a@example.com', role: 'editor', token_hash: 'hash-1', invited_by: 'user-1', expires_at: new Date(Date.now() + 60_000) },
+      { id: 'inv-2', workspace_id: 'ws-1', email: 'b@example.com', role: 'viewer', token_hash: 'hash-2', invited_by: 'user-1', expires_at: new Date(Date.now() - 60_000) }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should list pending invitations without token hashes', async () => {
+    const invitations = await getWorkspaceInvitations({ workspace_id: 'ws-1', user_id: 'user-1' });
+
+    expect(invitations).toHaveLength(1);
+    expect(invitations[0].id).toEqual('inv-1');
+    expect(invitations[0]).not.toHaveProperty('token_hash');
+  });
+
+  it('should only show invitations to owners', async () => {
+    await expect(getWorkspaceInvitations({ workspace_id: 'ws-1', user_id: 'user-2' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
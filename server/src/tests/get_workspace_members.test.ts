@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable } from '../db/schema';
+import { getWorkspaceMembers } from '../handlers/get_workspace_members';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'viewer@example.com', username: 'viewer', password_hash: 'hashed_password' },
+  { id: 'user-3', email: 'outsider@example.com', username: 'outsider', password_hash: 'hashed_password' }
+];
+
+describe('getWorkspaceMembers', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'viewer' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should list members with their names and roles', async () => {
+    const members = await getWorkspaceMembers({ workspace_id: 'ws-1', user_id: 'user-2' });
+
+    expect(members).toHaveLength(2);
+    expect(members[0]).toMatchObject({ user_id: 'user-1', username: 'owner', email: 'owner@example.com', role: 'owner' });
+    expect(members[1]).toMatchObject({ user_id: 'user-2', username: 'viewer', role: 'viewer' });
+  });
+
+  it('should reject non-members', async () => {
+    await expect(getWorkspaceMembers({ workspace_id: 'ws-1', user_id: 'user-3' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
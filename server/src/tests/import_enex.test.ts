@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, foldersTable, tagsTable, notesTable, noteTagsTable, attachmentsTable } from '../db/schema';
+import { importEnex } from '../handlers/import_enex';
+import { eq } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const testUser = { id: 'user-1', email: 'user1@test.com', username: 'user1', password_hash: 'hash1' };
+
+const input = { user_id: 'user-1', notebook: 'Travel' };
+
+const png = Buffer.from('png bytes');
+const pngHash = createHash('md5').update(png).digest('hex');
+
+const enexNote = (title: string, body: string, extra = '') => `
+  <note>
+    <title>${title}</title>
+    <created>20230102T030405Z</created>
+    <updated>20230203T040506Z</updated>
+    ${extra}
+    <content><![CDATA[<?xml version="1.0" encoding="UTF-8"?><en-note>${body}</en-note>]]></content>
+  </note>`;
+
+const enex = (...notes: string[]) =>
+  Buffer.from(`<?xml version="1.0" encoding="UTF-8"?><en-export application="Evernote">${notes.join('')}</en-export>`);
+
+describe('importEnex', () => {
+  let storageDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    storageDir = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    process.env['ATTACHMENTS_DIR'] = storageDir;
+    await db.insert(usersTable).values(testUser).execute();
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env['ATTACHMENTS_DIR'];
+  });
+
+  it('should import notes into the notebook folder with their timestamps', async () => {
+    const result = await importEnex(input, enex(enexNote('Lisbon', '<div>Pack <b>light</b></div>')));
+
+    expect(result.created).toBe(1);
+    const folders = await db.select().from(foldersTable).execute();
+    expect(folders.map(folder => folder.name)).toEqual(['Travel']);
+
+    const note = (await db.select().from(notesTable).execute())[0];
+    expect(note.title).toBe('Lisbon');
+    expect(note.folder_id).toBe(folders[0].id);
+    expect(note.content).toBe('Pack **light**');
+    expect(note.markdown_content).toBe('Pack **light**');
+    expect(note.created_at).toEqual(new Date('2023-01-02T03:04:05Z'));
+    expect(note.updated_at).toEqual(new Date('2023-02-03T04:05:06Z'));
+  });
+
+  it('should map Evernote tags to tags', async () => {
+    await db.insert(tagsTable).values({ id: 'tag-work', name: 'work', user_id: 'user-1' }).execute();
+
+    await importEnex(input, enex(enexNote('Lisbon', '', '<tag>work</tag><tag>ideas</tag>')));
+
+    const tags = await db.select().from(tagsTable).execute();
+    expect(tags.map(tag => tag.name).sort()).toEqual(['ideas', 'work']);
+
+    const noteTags = await db.select().from(noteTagsTable).execute();
+    expect(noteTags.map(noteTag => noteTag.tag_id).sort())
+      .toEqual(tags.map(tag => tag.id).sort());
+  });
+
+  it('should store embedded resources as attachments', async () => {
+    const resource = `
+      <resource>
+        <data encoding="base64">${png.toString('base64')}</data>
+        <mime>image/png</mime>
+        <resource-attributes><file-name>map.png</file-name></resource-attributes>
+      </resource>`;
+
+    await importEnex(input, enex(enexNote('Lisbon', `<div>Map:</div><en-media hash="${pngHash}" type="image/png"/>`, resource)));
+
+    const note = (await db.select().from(notesTable).execute())[0];
+    const attachments = await db.select().from(attachmentsTable).where(eq(attachmentsTable.note_id, note.id)).execute();
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0].filename).toBe('map.png');
+    expect(attachments[0].size).toBe(png.length);
+    expect(note.content).toBe(`Map:\n![map.png](/api/attachments/${attachments[0].id})`);
+  });
+
+  it('should keep the note but not the file when an attachment cannot be stored', async () => {
+    const resource = `
+      <resource>
+        <data encoding="base64">${png.toString('base64')}</data>
+        <mime>image/png</mime>
+        <resource-attributes><file-name>map\u0000.png</file-name></resource-attributes>
+      </resource>`;
+
+    const result = await importEnex(input, enex(enexNote('Lisbon', '<div>Map</div>', resource)));
+
+    expect(result.created).toBe(1);
+    expect(result.files[0].message).toContain('Attachments not imported');
+    expect(await db.select().from(attachmentsTable).execute()).toHaveLength(0);
+    expect(await readdir(storageDir, { recursive: true })).toEqual(['user-1']);
+  });
+
+  it('should report each note and not duplicate them when run again', async () => {
+    const archive = enex(enexNote('Lisbon', '<div>a</div>'), enexNote('Porto', '<div>b</div>'));
+
+    const first = await importEnex(input, archive);
+    const second = await importEnex(input, archive);
+
+    expect(first.files.map(file => [file.path, file.status])).toEqual([
+      ['Travel/Lisbon', 'created'],
+      ['Travel/Porto', 'created']
+    ]);
+    expect(second.skipped).toBe(2);
+    expect(await db.select().from(notesTable).execute()).toHaveLength(2);
+    expect(await db.select().from(foldersTable).execute()).toHaveLength(1);
+  });
+
+  it('should not duplicate notes without a creation time when run again', async () => {
+    const resource = `
+      <resource>
+        <data encoding="base64">${png.toString('base64')}</data>
+        <mime>image/png</mime>
+        <resource-attributes><file-name>map.png</file-name></resource-attributes>
+      </resource>`;
+    const undated = enexNote('Lisbon', `<div>Map:</div><en-media hash="${pngHash}" type="image/png"/>`, resource)
+      .replace(/<created>.*<\/created>/, '');
+    const archive = enex(undated, enexNote('Porto', '<div>b</div>').replace(/<created>.*<\/created>/, ''));
+
+    const first = await importEnex(input, archive);
+    const second = await importEnex(input, archive);
+
+    expect(first.created).toBe(2);
+    expect(second.skipped).toBe(2);
+    expect(await db.select().from(notesTable).execute()).toHaveLength(2);
+    expect(await db.select().from(attachmentsTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject uploads that are not Evernote exports', async () => {
+    await expect(importEnex(input, Buffer.from('<html></html>'))).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
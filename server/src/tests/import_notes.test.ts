@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  foldersTable,
+  tagsTable,
+  notesTable,
+  noteTagsTable,
+  noteLinksTable,
+  workspacesTable,
+  workspaceMembersTable
+} from '../db/schema';
+import { importNotes } from '../handlers/import_notes';
+import { createZipWriter } from '../helpers/zip';
+import { eq } from 'drizzle-orm';
+import { Writable } from 'stream';
+
+const testUser = { id: 'user-1', email: 'user1@test.com', username: 'user1', password_hash: 'hash1' };
+
+const input = { user_id: 'user-1' };
+
+const createZip = async (files: Record<string, string | Buffer>): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  const zip = createZipWriter(new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    }
+  }));
+  for (const [path, data] of Object.entries(files)) {
+    await zip.addFile(path, typeof data === 'string' ? Buffer.from(data, 'utf8') : data);
+  }
+  await zip.finish();
+  return Buffer.concat(chunks);
+};
+
+// Rewrites the uncompressed size the central directory gives each entry
+const declareSize = (archive: Buffer, size: number): Buffer => {
+  const signature = Buffer.from([0x50, 0x4b, 0x01, 0x02]);
+  for (let offset = archive.indexOf(signature); offset !== -1; offset = archive.indexOf(signature, offset + 1)) {
+    archive.writeUInt32LE(size, offset + 24);
+  }
+  return archive;
+};
+
+const vault = {
+  'Vault/Inbox.md': 'Read [[Projects/Plan.md#Goals|the plan]] first',
+  'Vault/Projects/Plan.md': [
+    '---',
+    'tags:',
+    '  - project/alpha',
+    '  - "#urgent"',
+    'favorite: true',
+    '---',
+    '',
+    '# Goals'
+  ].join('\n'),
+  'Vault/Projects/diagram.png': Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+  'Vault/.obsidian/app.json': '{}'
+};
+
+describe('importNotes', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(testUser).execute();
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    delete process.env['IMPORT_MAX_SIZE_MB'];
+  });
+
+  it('should recreate directories as folders', async () => {
+    const result = await importNotes(input, await createZip(vault));
+
+    expect(result.created).toBe(2);
+    const folders = await db.select().from(foldersTable).execute();
+    const vaultFolder = folders.find(folder => folder.name === 'Vault');
+    const projectsFolder = folders.find(folder => folder.name === 'Projects');
+    expect(folders).toHaveLength(2);
+    expect(vaultFolder!.parent_folder_id).toBeNull();
+    expect(projectsFolder!.parent_folder_id).toBe(vaultFolder!.id);
+
+    const notes = await db.select().from(notesTable).execute();
+    expect(notes.find(note => note.title === 'Inbox')!.folder_id).toBe(vaultFolder!.id);
+    expect(notes.find(note => note.title === 'Plan')!.folder_id).toBe(projectsFolder!.id);
+  });
+
+  it('should read tags and the favorite flag from front matter', async () => {
+    await db.insert(tagsTable).values({ id: 'tag-urgent', name: 'urgent', user_id: 'user-1' }).execute();
+
+    await importNotes(input, await createZip(vault));
+
+    const tags = await db.select().from(tagsTable).execute();
+    const project = tags.find(tag => tag.name === 'project');
+    const alpha = tags.find(tag => tag.name === 'alpha');
+    expect(tags).toHaveLength(3);
+    expect(alpha!.parent_tag_id).toBe(project!.id);
+
+    const plan = (await db.select().from(notesTable).where(eq(notesTable.title, 'Plan')).execute())[0];
+    expect(plan.is_favorite).toBe(true);
+    expect(plan.content).toBe('# Goals');
+
+    const noteTags = await db.select().from(noteTagsTable).where(eq(noteTagsTable.note_id, plan.id)).execute();
+    expect(noteTags.map(noteTag => noteTag.tag_id).sort()).toEqual([alpha!.id, 'tag-urgent'].sort());
+  });
+
+  it('should convert wikilinks and link the notes', async () => {
+    await importNotes(input, await createZip(vault));
+
+    const notes = await db.select().from(notesTable).execute();
+    const inbox = notes.find(note => note.title === 'Inbox')!;
+    const plan = notes.find(note => note.title === 'Plan')!;
+    expect(inbox.content).toBe('Read [[Plan]] first');
+
+    const links = await db.select().from(noteLinksTable).execute();
+    expect(links).toEqual([expect.objectContaining({ source_note_id: inbox.id, target_note_id: plan.id })]);
+  });
+
+  it('should link notes already in the space that mention an imported title', async () => {
+    await db.insert(notesTable).values({ id: 'note-1', title: 'Index', content: 'Start with [[plan]]', user_id: 'user-1' }).execute();
+
+    await importNotes(input, await createZip(vault));
+
+    const plan = (await db.select().from(notesTable).where(eq(notesTable.title, 'Plan')).execute())[0];
+    const links = await db.select().from(noteLinksTable).where(eq(noteLinksTable.source_note_id, 'note-1')).execute();
+    expect(links).toEqual([expect.objectContaining({ target_note_id: plan.id })]);
+  });
+
+  it('should report each file', async () => {
+    const result = await importNotes(input, await createZip({
+      ...vault,
+      'Vault/Long.md': '---\ntitle: ' + 'x'.repeat(201) + '\n---\n'
+    }));
+
+    expect(result.files.map(file => [file.path, file.status])).toEqual([
+      ['Vault/Inbox.md', 'created'],
+      ['Vault/Long.md', 'failed'],
+      ['Vault/Projects/diagram.png', 'skipped'],
+      ['Vault/Projects/Plan.md', 'created']
+    ]);
+    expect(result.files[1].message).toContain('title');
+    expect(result.files[2].message).toBe('Not a markdown file');
+    expect(result.failed).toBe(1);
+  });
+
+  it('should not duplicate anything when run again', async () => {
+    const archive = await createZip(vault);
+    const first = await importNotes(input, archive);
+    const second = await importNotes(input, archive);
+
+    expect(second.created).toBe(0);
+    expect(second.skipped).toBe(3);
+    expect(second.files.find(file => file.path === 'Vault/Inbox.md')!.note_id)
+      .toBe(first.files.find(file => file.path === 'Vault/Inbox.md')!.note_id);
+    expect(await db.select().from(notesTable).execute()).toHaveLength(2);
+    expect(await db.select().from(foldersTable).execute()).toHaveLength(2);
+    expect(await db.select().from(tagsTable).execute()).toHaveLength(3);
+  });
+
+  it('should reject uploads that are not ZIP archives', async () => {
+    await expect(importNotes(input, Buffer.from('not a zip'))).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should reject oversized uploads', async () => {
+    process.env['IMPORT_MAX_SIZE_MB'] = '0.00001';
+
+    await expect(importNotes(input, await createZip(vault))).rejects.toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+  });
+
+  it('should not inflate files larger than the limit', async () => {
+    const archive = await createZip({ 'Big.md': 'a'.repeat(6 * 1024 * 1024), 'Small.md': 'Fine' });
+
+    const result = await importNotes(input, archive);
+
+    expect(archive.length).toBeLessThan(64 * 1024);
+    expect(result.created).toBe(1);
+    expect(result.files.find(file => file.path === 'Big.md')).toMatchObject({
+      status: 'failed',
+      message: expect.stringContaining('5 MB')
+    });
+  });
+
+  it('should stop inflating files that are larger than the archive declares', async () => {
+    const archive = declareSize(await createZip({ 'Big.md': 'a'.repeat(1024 * 1024) }), 10);
+
+    const result = await importNotes(input, archive);
+
+    expect(result.created).toBe(0);
+    expect(result.files.find(file => file.path === 'Big.md')).toMatchObject({ status: 'failed' });
+  });
+
+  it('should reject archives whose files add up to more than the limit', async () => {
+    const files = Object.fromEntries(Array.from({ length: 45 }, (_, i) => [`Note ${i}.md`, 'Short']));
+    const archive = declareSize(await createZip(files), 5 * 1024 * 1024);
+
+    // Settled before expect(): Bun's .rejects stalls on the setImmediate
+    // callbacks yauzl reads with until the database pool's idle timer fires
+    const error = await importNotes(input, archive).catch(error => error);
+    expect(error).toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+    expect(await db.select().from(notesTable).execute()).toHaveLength(0);
+  });
+
+  it('should require the editor role in a workspace', async () => {
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values({ workspace_id: 'ws-1', user_id: 'user-1', role: 'viewer' }).execute();
+
+    await expect(importNotes({ ...input, workspace_id: 'ws-1' }, await createZip(vault)))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
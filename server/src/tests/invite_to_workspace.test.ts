@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable, workspaceInvitationsTable } from '../db/schema';
+import { inviteToWorkspace } from '../handlers/invite_to_workspace';
+import { hashInvitationToken } from '../helpers/workspaces';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'editor@example.com', username: 'editor', password_hash: 'hashed_password' }
+];
+
+describe('inviteToWorkspace', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'editor' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should return a token and store only its hash', async () => {
+    const invitation = await inviteToWorkspace({ workspace_id: 'ws-1', user_id: 'user-1', email: 'new@example.com', role: 'editor' });
+
+    expect(invitation.email).toEqual('new@example.com');
+    expect(invitation.role).toEqual('editor');
+    expect(invitation.invited_by).toEqual('user-1');
+    expect(invitation.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const rows = await db.select().from(workspaceInvitationsTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].token_hash).toEqual(hashInvitationToken(invitation.token));
+  });
+
+  it('should replace an earlier invitation for the same email', async () => {
+    const first = await inviteToWorkspace({ workspace_id: 'ws-1', user_id: 'user-1', email: 'new@example.com', role: 'viewer' });
+    const second = await inviteToWorkspace({ workspace_id: 'ws-1', user_id: 'user-1', email: 'new@example.com', role: 'editor' });
+
+    expect(second.id).toEqual(first.id);
+    expect(second.token).not.toEqual(first.token);
+
+    const rows = await db.select().from(workspaceInvitationsTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].role).toEqual('editor');
+    expect(rows[0].token_hash).toEqual(hashInvitationToken(second.token));
+  });
+
+  it('should reject inviting an existing member', async () => {
+    await expect(inviteToWorkspace({ workspace_id: 'ws-1', user_id: 'user-1', email: 'editor@example.com', role: 'viewer' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should only let owners invite', async () => {
+    await expect(inviteToWorkspace({ workspace_id: 'ws-1', user_id: 'user-2', email: 'new@example.com', role: 'viewer' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
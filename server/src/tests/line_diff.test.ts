@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'bun:test';
+import { diffLines } from '../helpers/line_diff';
+
+describe('diffLines', () => {
+  it('should keep the lines the two texts share', () => {
+    const result = diffLines('a\nb\nc\nd\ne', 'a\nc\nx\nd\ny');
+
+    expect(result).toEqual([
+      { type: 'equal', text: 'a', old_line: 1, new_line: 1 },
+      { type: 'removed', text: 'b', old_line: 2, new_line: null },
+      { type: 'equal', text: 'c', old_line: 3, new_line: 2 },
+      { type: 'added', text: 'x', old_line: null, new_line: 3 },
+      { type: 'equal', text: 'd', old_line: 4, new_line: 4 },
+      { type: 'added', text: 'y', old_line: null, new_line: 5 },
+      { type: 'removed', text: 'e', old_line: 5, new_line: null }
+    ]);
+  });
+
+  it('should replace the changed block whole when the texts have little in common', () => {
+    const oldLines = Array.from({ length: 3000 }, (_, i) => `old ${i}`);
+    const newLines = Array.from({ length: 3000 }, (_, i) => `new ${i}`);
+
+    const result = diffLines(['title', ...oldLines].join('\n'), ['title', ...newLines].join('\n'));
+
+    expect(result).toHaveLength(6001);
+    expect(result[0]).toEqual({ type: 'equal', text: 'title', old_line: 1, new_line: 1 });
+    expect(result.slice(1, 3001).every(line => line.type === 'added')).toBe(true);
+    expect(result.slice(3001).every(line => line.type === 'removed')).toBe(true);
+  });
+});
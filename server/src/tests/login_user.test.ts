@@ -4,13 +4,22 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type LoginUserInput } from '../schema';
 import { loginUser } from '../handlers/login_user';
+import { hashPassword, verifyPassword } from '../helpers/password';
+import { eq } from 'drizzle-orm';
+import { pbkdf2Sync, randomBytes } from 'crypto';
+
+// Builds a hash in the pre-tag "salt:hash" format used by earlier releases
+const legacyHash = (password: string): string => {
+  const salt = randomBytes(32).toString('hex');
+  const hash = pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
+  return `${salt}:${hash}`;
+};
 
 // Test user data
 const testUser = {
   id: 'test-user-1',
   email: 'test@example.com',
   username: 'testuser',
-  password_hash: 'plain_password_123', // In production, this would be hashed
   created_at: new Date(),
   updated_at: new Date()
 };
@@ -25,9 +34,9 @@ describe('loginUser', () => {
   afterEach(resetDB);
 
   it('should successfully login with valid credentials', async () => {
-    // Create test user in database
+    const passwordHash = await hashPassword('plain_password_123');
     await db.insert(usersTable)
-      .values(testUser)
+      .values({ ...testUser, password_hash: passwordHash })
       .execute();
 
     const result = await loginUser(validLoginInput);
@@ -36,7 +45,7 @@ describe('loginUser', () => {
     expect(result.id).toEqual('test-user-1');
     expect(result.email).toEqual('test@example.com');
     expect(result.username).toEqual('testuser');
-    expect(result.password_hash).toEqual('plain_password_123');
+    expect(result.password_hash).toEqual(passwordHash);
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
   });
@@ -51,10 +60,29 @@ describe('loginUser', () => {
       .rejects.toThrow(/invalid email or password/i);
   });
 
+  it('should take as long for an unknown email as for a wrong password', async () => {
+    await db.insert(usersTable)
+      .values({ ...testUser, password_hash: await hashPassword('plain_password_123') })
+      .execute();
+
+    const timeLogin = async (email: string): Promise<number> => {
+      const start = performance.now();
+      await expect(loginUser({ email, password: 'wrong_password' })).rejects.toThrow();
+      return performance.now() - start;
+    };
+
+    // The first unknown email also builds the dummy hash
+    await timeLogin('nonexistent@example.com');
+
+    const wrongPassword = await timeLogin('test@example.com');
+    const unknownEmail = await timeLogin('nonexistent@example.com');
+
+    expect(unknownEmail).toBeGreaterThan(wrongPassword / 2);
+  });
+
   it('should throw error for incorrect password', async () => {
-    // Create test user in database
     await db.insert(usersTable)
-      .values(testUser)
+      .values({ ...testUser, password_hash: await hashPassword('plain_password_123') })
       .execute();
 
     const incorrectPasswordInput: LoginUserInput = {
@@ -66,10 +94,19 @@ describe('loginUser', () => {
       .rejects.toThrow(/invalid email or password/i);
   });
 
+  it('should reject the stored hash used as a password', async () => {
+    const passwordHash = await hashPassword('plain_password_123');
+    await db.insert(usersTable)
+      .values({ ...testUser, password_hash: passwordHash })
+      .execute();
+
+    await expect(loginUser({ email: 'test@example.com', password: passwordHash }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
   it('should be case sensitive for email', async () => {
-    // Create test user in database
     await db.insert(usersTable)
-      .values(testUser)
+      .values({ ...testUser, password_hash: await hashPassword('plain_password_123') })
       .execute();
 
     const caseSensitiveEmailInput: LoginUserInput = {
@@ -93,7 +130,7 @@ describe('loginUser', () => {
       id: 'user-with-dates',
       email: 'dateuser@example.com',
       username: 'dateuser',
-      password_hash: 'test_password',
+      password_hash: await hashPassword('test_password'),
       created_at: specificDate,
       updated_at: specificDate
     };
@@ -119,7 +156,7 @@ describe('loginUser', () => {
       id: 'special-user',
       email: 'test+special@example-domain.co.uk',
       username: 'specialuser',
-      password_hash: 'password!@#$%^&*()',
+      password_hash: await hashPassword('password!@#$%^&*()'),
       created_at: new Date(),
       updated_at: new Date()
     };
@@ -136,6 +173,47 @@ describe('loginUser', () => {
     const result = await loginUser(specialLoginInput);
 
     expect(result.email).toEqual('test+special@example-domain.co.uk');
-    expect(result.password_hash).toEqual('password!@#$%^&*()');
+    expect(result.password_hash).toEqual(specialUser.password_hash);
+  });
+
+  it('should accept legacy salt:hash passwords and upgrade them', async () => {
+    const storedHash = legacyHash('plain_password_123');
+    await db.insert(usersTable)
+      .values({ ...testUser, password_hash: storedHash })
+      .execute();
+
+    const result = await loginUser(validLoginInput);
+
+    expect(result.id).toEqual('test-user-1');
+    expect(result.password_hash).not.toEqual(storedHash);
+    expect(result.password_hash.startsWith('pbkdf2-sha512$')).toBe(true);
+
+    // Upgraded hash is persisted and still verifies
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, 'test-user-1'))
+      .execute();
+
+    expect(users[0].password_hash).toEqual(result.password_hash);
+    const verification = await verifyPassword('plain_password_123', users[0].password_hash);
+    expect(verification.valid).toBe(true);
+    expect(verification.needsRehash).toBe(false);
+  });
+
+  it('should not upgrade legacy hashes on failed login', async () => {
+    const storedHash = legacyHash('plain_password_123');
+    await db.insert(usersTable)
+      .values({ ...testUser, password_hash: storedHash })
+      .execute();
+
+    await expect(loginUser({ email: 'test@example.com', password: 'wrong_password' }))
+      .rejects.toThrow(/invalid email or password/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, 'test-user-1'))
+      .execute();
+
+    expect(users[0].password_hash).toEqual(storedHash);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import { renderMarkdown } from '../helpers/markdown';
+
+describe('renderMarkdown', () => {
+  it('should escape raw HTML', () => {
+    const html = renderMarkdown('<script>alert(1)</script>\n\n<img src=x onerror="alert(1)">');
+
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('should drop links with unsafe protocols', () => {
+    const html = renderMarkdown('[a](javascript:alert(1)) [b](JaVaScRiPt:alert(1)) ![c](data:text/html;base64,PHNjcmlwdD4=)');
+
+    expect(html).not.toContain('<a');
+    expect(html).not.toContain('<img');
+  });
+
+  it('should keep relative and http links', () => {
+    const html = renderMarkdown('[site](https://example.com) ![file](/api/attachments/abc)');
+
+    expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener noreferrer">site</a>');
+    expect(html).toContain('<img src="/api/attachments/abc" alt="file">');
+  });
+
+  it('should render ordered, nested lists and tables', () => {
+    const html = renderMarkdown('1. one\n2. two\n   - nested\n\n| a | b |\n|---|---|\n| 1 | 2 |');
+
+    expect(html).toContain('<ol>');
+    expect(html).toMatch(/<li>two\s*<ul>\s*<li>nested<\/li>/);
+    expect(html).toContain('<th>a</th>');
+    expect(html).toContain('<td>2</td>');
+  });
+
+  it('should highlight fenced code blocks', () => {
+    const html = renderMarkdown('```js\nconst x = "<b>";\n```');
+
+    expect(html).toContain('<code class="language-js">');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+    expect(html).toContain('&lt;b&gt;');
+  });
+
+  it('should render task list checkboxes', () => {
+    const html = renderMarkdown('- [ ] todo\n- [x] done\n- plain');
+
+    expect(html).toContain('<li class="task-list-item"><input type="checkbox" class="task-list-item-checkbox" disabled> todo</li>');
+    expect(html).toContain('disabled checked> done');
+    expect(html).toContain('<li>plain</li>');
+  });
+
+  it('should render footnotes', () => {
+    const html = renderMarkdown('Claim[^1].\n\n[^1]: Source.');
+
+    expect(html).toContain('class="footnote-ref"');
+    expect(html).toContain('<section class="footnotes">');
+  });
+
+  it('should resolve wikilinks', () => {
+    const html = renderMarkdown('[[Known]] and [[<Unknown>]]', {
+      resolveWikilink: (title: string) => (title === 'Known' ? { href: '#', noteId: 'note-1' } : null)
+    });
+
+    expect(html).toContain('<a href="#" class="wikilink" data-note-id="note-1">Known</a>');
+    expect(html).toContain('<span class="wikilink wikilink-missing" title="No note with this title yet">&lt;Unknown&gt;</span>');
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, noteRevisionsTable } from '../db/schema';
+import { moveNote } from '../handlers/move_note';
+import { getNotesPage } from '../handlers/get_notes_page';
+import { asc, eq } from 'drizzle-orm';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+];
+
+const updatedAt = new Date('2024-01-01T00:00:00Z');
+
+const manualOrder = async () =>
+  (await getNotesPage({ user_id: 'user-1', sort: 'manual' })).notes.map(note => note.id);
+
+describe('moveNote', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(notesTable).values(['a', 'b', 'c', 'd', 'e'].map((id, index) => ({
+      id,
+      title: id,
+      content: '',
+      user_id: 'user-1',
+      position: index * 10,
+      updated_at: updatedAt
+    }))).execute();
+  });
+  afterEach(resetDB);
+
+  it('should move a note one place down', async () => {
+    await moveNote({ id: 'b', user_id: 'user-1', target_id: 'c' });
+
+    expect(await manualOrder()).toEqual(['a', 'c', 'b', 'd', 'e']);
+  });
+
+  it('should shift the notes between the note and its target', async () => {
+    await moveNote({ id: 'e', user_id: 'user-1', target_id: 'b' });
+
+    expect(await manualOrder()).toEqual(['a', 'e', 'b', 'c', 'd']);
+  });
+
+  it('should only change the positions of the notes that moved, and nothing else about them', async () => {
+    await moveNote({ id: 'b', user_id: 'user-1', target_id: 'c' });
+
+    const notes = await db.select().from(notesTable).orderBy(asc(notesTable.id)).execute();
+    expect(notes.map(note => note.position)).toEqual([0, 20, 10, 30, 40]);
+    expect(notes.every(note => note.updated_at.getTime() === updatedAt.getTime())).toBe(true);
+    expect(await db.select().from(noteRevisionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should leave notes outside the moved range alone', async () => {
+    await db.update(notesTable).set({ position: 30, updated_at: updatedAt }).where(eq(notesTable.id, 'e')).execute();
+
+    await moveNote({ id: 'a', user_id: 'user-1', target_id: 'b' });
+
+    const notes = await db.select().from(notesTable).orderBy(asc(notesTable.id)).execute();
+    expect(notes.map(note => note.position)).toEqual([10, 0, 20, 30, 30]);
+  });
+
+  it('should number notes that share a position', async () => {
+    await db.update(notesTable).set({ position: 0 }).execute();
+
+    await moveNote({ id: 'a', user_id: 'user-1', target_id: 'b' });
+
+    expect(await manualOrder()).toEqual(['b', 'a', 'c', 'd', 'e']);
+  });
+
+  it("should not move another user's note", async () => {
+    await expect(moveNote({ id: 'a', user_id: 'user-2', target_id: 'b' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject targets outside the space', async () => {
+    await db.insert(notesTable).values({ id: 'x', title: 'x', content: '', user_id: 'user-2' }).execute();
+
+    await expect(moveNote({ id: 'a', user_id: 'user-1', target_id: 'x' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
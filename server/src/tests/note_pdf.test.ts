@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'bun:test';
+import { renderNotePdf } from '../helpers/note_pdf';
+import { crc32, deflateSync } from 'zlib';
+
+const pngChunk = (type: string, body: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([Buffer.from(type, 'latin1'), body])));
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), body, crc]);
+};
+
+const createPng = (width: number, height: number, pixels: Buffer): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+// A 2x1 RGBA image
+const png = createPng(2, 1, Buffer.from([0, 10, 20, 30, 255, 15, 25, 35, 4]));
+
+const note = (content: string) => ({ title: 'Plan', content, updated_at: new Date('2026-02-01T12:30:00.000Z') });
+
+const renderWithImage = async (data: Buffer): Promise<string> => {
+  const files = new Map([['att-1', { content_type: 'image/png', data }]]);
+  return (await renderNotePdf(note('![chart](/api/attachments/att-1)'), files)).toString('latin1');
+};
+
+describe('renderNotePdf', () => {
+  it('should write a PDF with the DejaVu fonts embedded as subsets', async () => {
+    const pdf = (await renderNotePdf(note('# Goals\n\nShip **v2** in €, Я and ✓'), new Map())).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf.trimEnd()).toEndWith('%%EOF');
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+DejaVuSans\n/);
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+DejaVuSans-Bold\n/);
+  });
+
+  it('should continue on new pages', async () => {
+    const pdf = (await renderNotePdf(note('Paragraph\n\n'.repeat(100)), new Map())).toString('latin1');
+
+    expect(pdf.match(/\/Type \/Page\n/g)!.length).toBeGreaterThan(1);
+  });
+
+  it('should only make external links clickable', async () => {
+    const pdf = (await renderNotePdf(note('[site](https://example.com) and [[Roadmap]] and [other](/notes/1)'), new Map()))
+      .toString('latin1');
+
+    expect(pdf.match(/\/URI \(/g)).toHaveLength(1);
+    expect(pdf).toContain('/URI (https://example.com)');
+  });
+
+  it('should embed PNG images with their transparency as a mask', async () => {
+    const pdf = await renderWithImage(png);
+
+    expect(pdf).toContain('/Subtype /Image');
+    expect(pdf).toContain('/SMask');
+  });
+
+  it('should leave out images it cannot read', async () => {
+    expect(await renderWithImage(Buffer.from('GIF89a'))).not.toContain('/Subtype /Image');
+    expect(await renderWithImage(Buffer.from('\x89PNG\r\n\x1a\nnot really', 'latin1'))).not.toContain('/Subtype /Image');
+  });
+
+  it('should leave out PNGs too large to decode', async () => {
+    // Claims 2x1 pixels but inflates to far more
+    expect(await renderWithImage(createPng(2, 1, Buffer.alloc(50 * 1024 * 1024)))).not.toContain('/Subtype /Image');
+    expect(await renderWithImage(createPng(100_000, 100_000, Buffer.alloc(0)))).not.toContain('/Subtype /Image');
+  });
+});
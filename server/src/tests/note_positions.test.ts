@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable } from '../db/schema';
+import { backfillNotePositions } from '../helpers/note_positions';
+import { asc } from 'drizzle-orm';
+
+const positions = async () =>
+  (await db.select().from(notesTable).orderBy(asc(notesTable.id)).execute()).map(note => [note.id, note.position]);
+
+describe('backfillNotePositions', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values([
+      { id: 'user-1', email: 'one@example.com', username: 'one', password_hash: 'hashed_password' },
+      { id: 'user-2', email: 'two@example.com', username: 'two', password_hash: 'hashed_password' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should number notes that share a position in their current order', async () => {
+    // Notes from before the sequence all sit at 0, apart from earlier moves
+    await db.insert(notesTable).values([
+      { id: 'a', title: 'a', content: '', user_id: 'user-1', position: 5 },
+      { id: 'b', title: 'b', content: '', user_id: 'user-1', position: 0 },
+      { id: 'c', title: 'c', content: '', user_id: 'user-1', position: 0 },
+      { id: 'd', title: 'd', content: '', user_id: 'user-2', position: 0 }
+    ]).execute();
+
+    await backfillNotePositions();
+
+    expect(await positions()).toEqual([['a', 4], ['b', 1], ['c', 2], ['d', 3]]);
+  });
+
+  it('should give new notes positions past every existing one', async () => {
+    await db.insert(notesTable).values({ id: 'a', title: 'a', content: '', user_id: 'user-1', position: 100 }).execute();
+
+    await backfillNotePositions();
+    await db.insert(notesTable).values({ id: 'b', title: 'b', content: '', user_id: 'user-1' }).execute();
+
+    expect(await positions()).toEqual([['a', 100], ['b', 101]]);
+  });
+
+  it('should change nothing once positions are distinct', async () => {
+    await db.insert(notesTable).values([
+      { id: 'a', title: 'a', content: '', user_id: 'user-1' },
+      { id: 'b', title: 'b', content: '', user_id: 'user-1' }
+    ]).execute();
+    const before = await positions();
+
+    await backfillNotePositions();
+    await backfillNotePositions();
+
+    expect(await positions()).toEqual(before);
+  });
+});
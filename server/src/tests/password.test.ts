@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { hashPassword, verifyPassword } from '../helpers/password';
+import { pbkdf2Sync } from 'crypto';
+
+describe('password hashing', () => {
+  const originalIterations = process.env['PASSWORD_HASH_ITERATIONS'];
+
+  afterEach(() => {
+    if (originalIterations === undefined) {
+      delete process.env['PASSWORD_HASH_ITERATIONS'];
+    } else {
+      process.env['PASSWORD_HASH_ITERATIONS'] = originalIterations;
+    }
+  });
+
+  it('should produce tagged hashes with the current parameters', async () => {
+    const hash = await hashPassword('password123');
+    const [algorithm, iterations, salt, digest] = hash.split('$');
+
+    expect(algorithm).toEqual('pbkdf2-sha512');
+    expect(Number(iterations)).toBeGreaterThanOrEqual(210000);
+    expect(salt).toHaveLength(64);
+    expect(digest).toHaveLength(128);
+  });
+
+  it('should verify the correct password only', async () => {
+    const hash = await hashPassword('password123');
+
+    expect(await verifyPassword('password123', hash)).toEqual({ valid: true, needsRehash: false });
+    expect(await verifyPassword('password124', hash)).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('should verify legacy salt:hash values and flag them for rehash', async () => {
+    const salt = 'legacy-salt';
+    const legacy = `${salt}:${pbkdf2Sync('password123', salt, 10000, 64, 'sha512').toString('hex')}`;
+
+    expect(await verifyPassword('password123', legacy)).toEqual({ valid: true, needsRehash: true });
+    expect(await verifyPassword('wrong', legacy)).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('should flag hashes with fewer iterations than configured', async () => {
+    process.env['PASSWORD_HASH_ITERATIONS'] = '1000';
+    const weakHash = await hashPassword('password123');
+
+    process.env['PASSWORD_HASH_ITERATIONS'] = '2000';
+    expect(await verifyPassword('password123', weakHash)).toEqual({ valid: true, needsRehash: true });
+  });
+
+  it('should flag hashes using a non-default digest', async () => {
+    const salt = 'sha256-salt';
+    const hash = pbkdf2Sync('password123', salt, 300000, 64, 'sha256').toString('hex');
+
+    expect(await verifyPassword('password123', `pbkdf2-sha256$300000$${salt}$${hash}`))
+      .toEqual({ valid: true, needsRehash: true });
+  });
+
+  it('should reject malformed and unsupported hashes', async () => {
+    expect((await verifyPassword('password123', 'password123')).valid).toBe(false);
+    expect((await verifyPassword('password123', 'bcrypt$10$salt$hash')).valid).toBe(false);
+    expect((await verifyPassword('password123', 'pbkdf2-md5$1000$salt$abcd')).valid).toBe(false);
+    expect((await verifyPassword('password123', 'pbkdf2-sha512$abc$salt$abcd')).valid).toBe(false);
+    expect((await verifyPassword('', '')).valid).toBe(false);
+  });
+});
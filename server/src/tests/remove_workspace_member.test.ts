@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable, notesTable, foldersTable, sharesTable } from '../db/schema';
+import { removeWorkspaceMember } from '../handlers/remove_workspace_member';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'editor@example.com', username: 'editor', password_hash: 'hashed_password' },
+  { id: 'user-3', email: 'viewer@example.com', username: 'viewer', password_hash: 'hashed_password' },
+  { id: 'user-4', email: 'outsider@example.com', username: 'outsider', password_hash: 'hashed_password' }
+];
+
+describe('removeWorkspaceMember', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'editor' },
+      { workspace_id: 'ws-1', user_id: 'user-3', role: 'viewer' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  const memberIds = async () =>
+    (await db.select().from(workspaceMembersTable).execute()).map(m => m.user_id).sort();
+
+  it('should let an owner remove a member', async () => {
+    await removeWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-1', member_id: 'user-2' });
+
+    expect(await memberIds()).toEqual(['user-1', 'user-3']);
+  });
+
+  it('should let members leave', async () => {
+    await removeWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-3', member_id: 'user-3' });
+
+    expect(await memberIds()).toEqual(['user-1', 'user-2']);
+  });
+
+  it('should not let members remove others', async () => {
+    await expect(removeWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-2', member_id: 'user-3' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not let the last owner leave', async () => {
+    await expect(removeWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-1', member_id: 'user-1' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+    expect(await memberIds()).toEqual(['user-1', 'user-2', 'user-3']);
+  });
+
+  it("should delete the shares a removed member made of the workspace's items", async () => {
+    await db.insert(foldersTable).values({ id: 'folder-1', name: 'Team folder', user_id: 'user-2', workspace_id: 'ws-1' }).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Team note', content: '', user_id: 'user-2', workspace_id: 'ws-1' },
+      { id: 'note-2', title: 'Personal note', content: '', user_id: 'user-2' }
+    ]).execute();
+    await db.insert(sharesTable).values([
+      { id: 'share-1', owner_id: 'user-2', grantee_id: 'user-4', note_id: 'note-1', permission: 'edit' },
+      { id: 'share-2', owner_id: 'user-2', grantee_id: 'user-4', folder_id: 'folder-1', permission: 'read' },
+      { id: 'share-3', owner_id: 'user-2', grantee_id: 'user-4', note_id: 'note-2', permission: 'read' },
+      { id: 'share-4', owner_id: 'user-1', grantee_id: 'user-3', note_id: 'note-1', permission: 'read' }
+    ]).execute();
+
+    await removeWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-1', member_id: 'user-2' });
+
+    const shares = await db.select().from(sharesTable).execute();
+    expect(shares.map(share => share.id).sort()).toEqual(['share-3', 'share-4']);
+  });
+});
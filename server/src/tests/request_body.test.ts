@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, request, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { TRPCError } from '@trpc/server';
+import { readRequestBody } from '../helpers/request_body';
+
+const LIMIT = 1024;
+
+interface Reply {
+  status: number;
+  body: string;
+}
+
+describe('readRequestBody', () => {
+  let server: Server;
+  let port: number;
+
+  beforeEach(async () => {
+    // Answers like the upload routes: the body's size, or 413 past the limit
+    server = createServer(async (req, res) => {
+      try {
+        const body = await readRequestBody(req, LIMIT);
+        res.writeHead(200);
+        res.end(String(body.length));
+      } catch (error) {
+        res.writeHead(error instanceof TRPCError && error.code === 'PAYLOAD_TOO_LARGE' ? 413 : 500);
+        res.end((error as Error).message);
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Sends the chunks one after another, without a Content-Length when chunked
+  const post = (chunks: Buffer[], chunked: boolean): Promise<Reply> => new Promise((resolve, reject) => {
+    const total = chunks.reduce((size, chunk) => size + chunk.length, 0);
+    const req = request({
+      port,
+      method: 'POST',
+      headers: chunked ? { 'Transfer-Encoding': 'chunked' } : { 'Content-Length': total }
+    }, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => body += chunk);
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+    });
+    req.on('error', reject);
+    for (const chunk of chunks) req.write(chunk);
+    req.end();
+  });
+
+  it('should return bodies within the limit', async () => {
+    expect(await post([Buffer.alloc(600), Buffer.alloc(424)], true)).toEqual({ status: 200, body: '1024' });
+  });
+
+  it('should answer 413 to a declared size over the limit', async () => {
+    const reply = await post([Buffer.alloc(64 * 1024)], false);
+
+    expect(reply.status).toBe(413);
+    expect(reply.body).toMatch(/exceeds the 1 KB limit/);
+  });
+
+  it('should answer 413 once a chunked body passes the limit', async () => {
+    const reply = await post(Array.from({ length: 64 }, () => Buffer.alloc(1024)), true);
+
+    expect(reply.status).toBe(413);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, foldersTable, tagsTable, notesTable, noteTagsTable, noteRevisionsTable, noteLinksTable } from '../db/schema';
+import { restoreBackup } from '../handlers/restore_backup';
+import { getBackup } from '../handlers/get_backup';
+import { getSyncChanges } from '../handlers/get_sync_changes';
+import { getNotesPage } from '../handlers/get_notes_page';
+import { type Backup } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const testUser = { id: 'user-1', email: 'user1@test.com', username: 'user1', password_hash: 'hash1' };
+const otherUser = { id: 'user-2', email: 'user2@test.com', username: 'user2', password_hash: 'hash2' };
+
+const created = new Date('2022-05-01T10:00:00Z');
+const updated = new Date('2022-06-01T10:00:00Z');
+
+const backup: Backup = {
+  schema_version: 1,
+  exported_at: new Date('2024-01-01T00:00:00Z'),
+  folders: [
+    { id: 'folder-2', name: 'Projects', parent_folder_id: 'folder-1', deleted_at: null, created_at: created, updated_at: created },
+    { id: 'folder-1', name: 'Work', parent_folder_id: null, deleted_at: null, created_at: created, updated_at: created }
+  ],
+  tags: [
+    { id: 'tag-1', name: 'urgent', color: '#ff0000', parent_tag_id: null, created_at: created, updated_at: created }
+  ],
+  notes: [
+    {
+      id: 'note-1', title: 'Plan', content: 'See [[Ideas]]', markdown_content: null, folder_id: 'folder-2',
+      is_favorite: true, position: 2, deleted_at: null, created_at: created, updated_at: updated
+    },
+    {
+      id: 'note-2', title: 'Ideas', content: 'Many', markdown_content: null, folder_id: null,
+      is_favorite: false, position: 0, deleted_at: null, created_at: created, updated_at: updated
+    }
+  ],
+  note_tags: [{ note_id: 'note-1', tag_id: 'tag-1', created_at: created }],
+  revisions: [
+    { id: 'rev-1', note_id: 'note-1', title: 'Plan', content: 'Draft', markdown_content: null, created_at: created }
+  ]
+};
+
+describe('restoreBackup', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values([testUser, otherUser]).execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should restore into an empty account keeping ids, structure and timestamps', async () => {
+    const result = await restoreBackup({ user_id: 'user-1', mode: 'empty', backup });
+
+    expect(result).toMatchObject({ folders: 2, tags: 1, notes: 2, revisions: 1, skipped: 0, remapped: 0, conflicts: [] });
+
+    const folders = await db.select().from(foldersTable).where(eq(foldersTable.id, 'folder-2')).execute();
+    expect(folders[0]).toMatchObject({ user_id: 'user-1', workspace_id: null, parent_folder_id: 'folder-1' });
+
+    const notes = await db.select().from(notesTable).where(eq(notesTable.id, 'note-1')).execute();
+    expect(notes[0]).toMatchObject({ folder_id: 'folder-2', is_favorite: true, updated_at: updated });
+
+    expect(await db.select().from(noteTagsTable).execute()).toMatchObject([{ note_id: 'note-1', tag_id: 'tag-1' }]);
+    expect(await db.select().from(noteRevisionsTable).execute()).toMatchObject([{ id: 'rev-1', note_id: 'note-1' }]);
+    expect(await db.select().from(noteLinksTable).execute())
+      .toMatchObject([{ source_note_id: 'note-1', target_note_id: 'note-2' }]);
+  });
+
+  it('should hand restored records to the next sync', async () => {
+    const lastSync = new Date();
+
+    await restoreBackup({ user_id: 'user-1', mode: 'empty', backup });
+    const changes = await getSyncChanges({ user_id: 'user-1', since: lastSync });
+
+    expect(changes.folders.map(folder => folder.id).sort()).toEqual(['folder-1', 'folder-2']);
+    expect(changes.tags.map(tag => tag.id)).toEqual(['tag-1']);
+    expect(changes.notes.map(note => note.id).sort()).toEqual(['note-1', 'note-2']);
+  });
+
+  it('should restore nothing when part of the restore fails', async () => {
+    // Postgres text can't hold NUL characters, so the revision insert fails
+    const broken: Backup = { ...backup, revisions: [{ ...backup.revisions[0], content: 'Draft\u0000' }] };
+
+    await expect(restoreBackup({ user_id: 'user-1', mode: 'empty', backup: broken })).rejects.toThrow();
+
+    expect(await db.select().from(foldersTable).execute()).toHaveLength(0);
+    expect(await db.select().from(tagsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(notesTable).execute()).toHaveLength(0);
+  });
+
+  it('should refuse to restore into an account with data unless merging', async () => {
+    await db.insert(notesTable).values({ id: 'mine', title: 'Mine', content: '', user_id: 'user-1' }).execute();
+
+    await expect(restoreBackup({ user_id: 'user-1', mode: 'empty', backup })).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should give new ids to records whose ids are taken and rewrite references', async () => {
+    await restoreBackup({ user_id: 'user-2', mode: 'empty', backup });
+
+    const result = await restoreBackup({ user_id: 'user-1', mode: 'empty', backup });
+
+    expect(result.remapped).toBe(6);
+    const restored = await getBackup({ user_id: 'user-1' });
+    const plan = restored.notes.find(note => note.title === 'Plan')!;
+    const projects = restored.folders.find(folder => folder.name === 'Projects')!;
+    const work = restored.folders.find(folder => folder.name === 'Work')!;
+
+    expect(plan.id).not.toBe('note-1');
+    expect(plan.folder_id).toBe(projects.id);
+    expect(projects.parent_folder_id).toBe(work.id);
+    expect(restored.note_tags).toMatchObject([{ note_id: plan.id, tag_id: restored.tags[0].id }]);
+    expect(restored.revisions).toMatchObject([{ note_id: plan.id, content: 'Draft' }]);
+  });
+
+  it('should merge folders and tags by name and report changed notes', async () => {
+    await db.insert(foldersTable).values({ id: 'my-work', name: 'Work', user_id: 'user-1' }).execute();
+    await db.insert(tagsTable).values({ id: 'my-urgent', name: 'urgent', user_id: 'user-1' }).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Plan', content: 'Changed since', user_id: 'user-1' },
+      { id: 'note-2', title: 'Ideas', content: 'Many', user_id: 'user-1' }
+    ]).execute();
+
+    const result = await restoreBackup({ user_id: 'user-1', mode: 'merge', backup });
+
+    expect(result).toMatchObject({ folders: 1, tags: 0, notes: 1, revisions: 1, skipped: 1 });
+    expect(result.conflicts.map(conflict => [conflict.entity_type, conflict.backup_id, conflict.restored_id]))
+      .toEqual([
+        ['folder', 'folder-1', 'my-work'],
+        ['tag', 'tag-1', 'my-urgent'],
+        ['note', 'note-1', expect.any(String)]
+      ]);
+
+    const copyId = result.conflicts[2].restored_id!;
+    const copy = await db.select().from(notesTable).where(eq(notesTable.id, copyId)).execute();
+    expect(copy[0].content).toBe('See [[Ideas]]');
+
+    const projects = await db.select().from(foldersTable).where(eq(foldersTable.id, copy[0].folder_id!)).execute();
+    expect(projects[0]).toMatchObject({ name: 'Projects', parent_folder_id: 'my-work' });
+    expect(await db.select().from(noteTagsTable).execute()).toMatchObject([{ note_id: copyId, tag_id: 'my-urgent' }]);
+  });
+
+  it("should put restored notes below the account's own in the backup's order", async () => {
+    await db.insert(notesTable).values({ id: 'mine', title: 'Mine', content: '', user_id: 'user-1' }).execute();
+
+    await restoreBackup({ user_id: 'user-1', mode: 'merge', backup });
+
+    const page = await getNotesPage({ user_id: 'user-1', sort: 'manual' });
+    expect(page.notes.map(note => note.id)).toEqual(['mine', 'note-2', 'note-1']);
+    expect(new Set(page.notes.map(note => note.position)).size).toBe(3);
+  });
+});
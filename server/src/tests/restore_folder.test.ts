@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, foldersTable, notesTable } from '../db/schema';
+import { restoreFolder } from '../handlers/restore_folder';
+import { deleteFolder } from '../handlers/delete_folder';
+import { deleteNote } from '../handlers/delete_note';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+const getFolder = async (id: string) => {
+  const folders = await db.select()
+    .from(foldersTable)
+    .where(eq(foldersTable.id, id))
+    .execute();
+  return folders[0];
+};
+
+const getNote = async (id: string) => {
+  const notes = await db.select()
+    .from(notesTable)
+    .where(eq(notesTable.id, id))
+    .execute();
+  return notes[0];
+};
+
+describe('restoreFolder', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should restore a folder with its subfolders and notes', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(foldersTable).values([
+      { id: 'folder-1', name: 'Folder', user_id: 'user-1', parent_folder_id: null },
+      { id: 'subfolder-1', name: 'Sub', user_id: 'user-1', parent_folder_id: 'folder-1' }
+    ]).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'One', content: '', user_id: 'user-1', folder_id: 'folder-1' },
+      { id: 'note-2', title: 'Two', content: '', user_id: 'user-1', folder_id: 'subfolder-1' }
+    ]).execute();
+
+    await deleteFolder({ id: 'folder-1', user_id: 'user-1' });
+    const result = await restoreFolder({ id: 'folder-1', user_id: 'user-1' });
+
+    expect(result.id).toBe('folder-1');
+    expect(result.deleted_at).toBeNull();
+    expect((await getFolder('subfolder-1')).deleted_at).toBeNull();
+    expect((await getNote('note-1')).deleted_at).toBeNull();
+    expect((await getNote('note-2')).deleted_at).toBeNull();
+  });
+
+  it('should leave notes trashed separately in the trash', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(foldersTable).values({
+      id: 'folder-1',
+      name: 'Folder',
+      user_id: 'user-1',
+      parent_folder_id: null
+    }).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-1', title: 'Kept', content: '', user_id: 'user-1', folder_id: 'folder-1' },
+      { id: 'note-2', title: 'Trashed first', content: '', user_id: 'user-1', folder_id: 'folder-1' }
+    ]).execute();
+
+    await deleteNote({ id: 'note-2', user_id: 'user-1' });
+    await deleteFolder({ id: 'folder-1', user_id: 'user-1' });
+    await restoreFolder({ id: 'folder-1', user_id: 'user-1' });
+
+    expect((await getNote('note-1')).deleted_at).toBeNull();
+    expect((await getNote('note-2')).deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should move the folder to the top level when its parent is trashed', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(foldersTable).values([
+      { id: 'parent-folder', name: 'Parent', user_id: 'user-1', parent_folder_id: null },
+      { id: 'folder-1', name: 'Child', user_id: 'user-1', parent_folder_id: 'parent-folder' }
+    ]).execute();
+
+    await deleteFolder({ id: 'parent-folder', user_id: 'user-1' });
+    const result = await restoreFolder({ id: 'folder-1', user_id: 'user-1' });
+
+    expect(result.deleted_at).toBeNull();
+    expect(result.parent_folder_id).toBeNull();
+    expect((await getFolder('parent-folder')).deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject folders that are not in the trash', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(foldersTable).values({
+      id: 'folder-1',
+      name: 'Folder',
+      user_id: 'user-1',
+      parent_folder_id: null
+    }).execute();
+
+    await expect(restoreFolder({ id: 'folder-1', user_id: 'user-1' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should reject folders owned by another user', async () => {
+    await db.insert(usersTable).values([
+      testUser,
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+    await db.insert(foldersTable).values({
+      id: 'folder-1',
+      name: 'Other Folder',
+      user_id: 'user-2',
+      parent_folder_id: null,
+      deleted_at: new Date()
+    }).execute();
+
+    await expect(restoreFolder({ id: 'folder-1', user_id: 'user-1' }))
+      .rejects.toThrow(/folder does not belong to user/i);
+  });
+});
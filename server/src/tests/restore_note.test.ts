@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, foldersTable, notesTable } from '../db/schema';
+import { restoreNote } from '../handlers/restore_note';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+describe('restoreNote', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should restore a trashed note into its folder', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(foldersTable).values({
+      id: 'folder-1',
+      name: 'Folder',
+      user_id: 'user-1',
+      parent_folder_id: null
+    }).execute();
+    await db.insert(notesTable).values({
+      id: 'note-1',
+      title: 'Trashed Note',
+      content: 'Content',
+      user_id: 'user-1',
+      folder_id: 'folder-1',
+      deleted_at: new Date()
+    }).execute();
+
+    const result = await restoreNote({ id: 'note-1', user_id: 'user-1' });
+
+    expect(result.deleted_at).toBeNull();
+    expect(result.folder_id).toBe('folder-1');
+
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, 'note-1'))
+      .execute();
+    expect(notes[0].deleted_at).toBeNull();
+  });
+
+  it('should move the note to the top level when its folder is trashed', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    const deletedAt = new Date();
+    await db.insert(foldersTable).values({
+      id: 'folder-1',
+      name: 'Trashed Folder',
+      user_id: 'user-1',
+      parent_folder_id: null,
+      deleted_at: deletedAt
+    }).execute();
+    await db.insert(notesTable).values({
+      id: 'note-1',
+      title: 'Trashed Note',
+      content: 'Content',
+      user_id: 'user-1',
+      folder_id: 'folder-1',
+      deleted_at: deletedAt
+    }).execute();
+
+    const result = await restoreNote({ id: 'note-1', user_id: 'user-1' });
+
+    expect(result.deleted_at).toBeNull();
+    expect(result.folder_id).toBeNull();
+  });
+
+  it('should reject notes that are not in the trash', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+    await db.insert(notesTable).values({
+      id: 'note-1',
+      title: 'Active Note',
+      content: 'Content',
+      user_id: 'user-1'
+    }).execute();
+
+    await expect(restoreNote({ id: 'note-1', user_id: 'user-1' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should reject notes owned by another user', async () => {
+    await db.insert(usersTable).values([
+      testUser,
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+    await db.insert(notesTable).values({
+      id: 'note-1',
+      title: 'Other Note',
+      content: 'Content',
+      user_id: 'user-2',
+      deleted_at: new Date()
+    }).execute();
+
+    await expect(restoreNote({ id: 'note-1', user_id: 'user-1' }))
+      .rejects.toThrow(/note does not belong to user/i);
+  });
+
+  it('should throw for a missing note', async () => {
+    await db.insert(usersTable).values(testUser).execute();
+
+    await expect(restoreNote({ id: 'missing', user_id: 'user-1' }))
+      .rejects.toThrow(/note not found/i);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, noteRevisionsTable } from '../db/schema';
+import { restoreNoteRevision } from '../handlers/restore_note_revision';
+import { eq, desc } from 'drizzle-orm';
+
+const testUser = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  password_hash: 'hashed_password'
+};
+
+const otherUser = {
+  id: 'user-2',
+  email: 'other@example.com',
+  username: 'otheruser',
+  password_hash: 'hashed_password'
+};
+
+const testNote = {
+  id: 'note-1',
+  title: 'Broken',
+  content: 'accidentally pasted text',
+  markdown_content: null,
+  user_id: testUser.id
+};
+
+const goodRevision = {
+  id: 'rev-1',
+  note_id: testNote.id,
+  title: 'Meeting notes',
+  content: 'Carefully written notes',
+  markdown_content: '# Meeting notes',
+  created_at: new Date(Date.now() - 60 * 1000)
+};
+
+describe('restoreNoteRevision', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values([testUser, otherUser]).execute();
+    await db.insert(notesTable).values(testNote).execute();
+    await db.insert(noteRevisionsTable).values(goodRevision).execute();
+  });
+
+  it('should restore the revision text onto the note', async () => {
+    const result = await restoreNoteRevision({
+      note_id: testNote.id,
+      user_id: testUser.id,
+      revision_id: goodRevision.id
+    });
+
+    expect(result.id).toEqual(testNote.id);
+    expect(result.title).toEqual('Meeting notes');
+    expect(result.content).toEqual('Carefully written notes');
+    expect(result.markdown_content).toEqual('# Meeting notes');
+
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, testNote.id))
+      .execute();
+
+    expect(notes[0].content).toEqual('Carefully written notes');
+  });
+
+  it('should snapshot the replaced text even within the coalescing window', async () => {
+    await restoreNoteRevision({
+      note_id: testNote.id,
+      user_id: testUser.id,
+      revision_id: goodRevision.id
+    });
+
+    const revisions = await db.select()
+      .from(noteRevisionsTable)
+      .where(eq(noteRevisionsTable.note_id, testNote.id))
+      .orderBy(desc(noteRevisionsTable.created_at))
+      .execute();
+
+    expect(revisions).toHaveLength(2);
+    expect(revisions[0].title).toEqual('Broken');
+    expect(revisions[0].content).toEqual('accidentally pasted text');
+  });
+
+  it('should reject restoring another user\'s note', async () => {
+    await expect(restoreNoteRevision({
+      note_id: testNote.id,
+      user_id: otherUser.id,
+      revision_id: goodRevision.id
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, testNote.id))
+      .execute();
+
+    expect(notes[0].content).toEqual('accidentally pasted text');
+  });
+
+  it('should report NOT_FOUND for an unknown revision', async () => {
+    await expect(restoreNoteRevision({
+      note_id: testNote.id,
+      user_id: testUser.id,
+      revision_id: 'missing-revision'
+    })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable } from '../db/schema';
+import { createPublicLink } from '../handlers/create_public_link';
+import { revokePublicLink } from '../handlers/revoke_public_link';
+import { viewPublicLink } from '../handlers/view_public_link';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+];
+
+describe('revokePublicLink', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(notesTable).values({ id: 'note-1', title: 'Plans', content: '', user_id: 'user-1' }).execute();
+  });
+  afterEach(resetDB);
+
+  it('should stop the link from working', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+
+    const result = await revokePublicLink({ id: link.id, user_id: 'user-1' });
+
+    expect(result.success).toBe(true);
+    expect(await viewPublicLink(link.token)).toBeNull();
+  });
+
+  it('should reject other users', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+
+    await expect(revokePublicLink({ id: link.id, user_id: 'user-2' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should report unknown links', async () => {
+    await expect(revokePublicLink({ id: 'missing', user_id: 'user-1' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, sharesTable, workspacesTable, workspaceMembersTable } from '../db/schema';
+import { revokeShare } from '../handlers/revoke_share';
+import { getNoteById } from '../handlers/get_note_by_id';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'friend@example.com', username: 'friend', password_hash: 'hashed_password' },
+  { id: 'user-3', email: 'stranger@example.com', username: 'stranger', password_hash: 'hashed_password' }
+];
+
+describe('revokeShare', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(notesTable).values({ id: 'note-1', title: 'Plans', content: '', user_id: 'user-1' }).execute();
+    await db.insert(sharesTable).values({
+      id: 'share-1',
+      owner_id: 'user-1',
+      grantee_id: 'user-2',
+      note_id: 'note-1',
+      permission: 'edit'
+    }).execute();
+  });
+  afterEach(resetDB);
+
+  it('should remove access when the owner revokes', async () => {
+    const result = await revokeShare({ id: 'share-1', user_id: 'user-1' });
+
+    expect(result.success).toBe(true);
+    expect(await getNoteById('note-1', 'user-2')).toBeNull();
+  });
+
+  it('should let the grantee leave the share', async () => {
+    await revokeShare({ id: 'share-1', user_id: 'user-2' });
+
+    const shares = await db.select().from(sharesTable).execute();
+    expect(shares).toHaveLength(0);
+  });
+
+  it('should reject other users', async () => {
+    await expect(revokeShare({ id: 'share-1', user_id: 'user-3' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should report unknown shares', async () => {
+    await expect(revokeShare({ id: 'missing', user_id: 'user-1' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  describe('on workspace items', () => {
+    beforeEach(async () => {
+      await db.insert(usersTable).values([
+        { id: 'user-4', email: 'editor@example.com', username: 'editor', password_hash: 'hashed_password' },
+        { id: 'user-5', email: 'viewer@example.com', username: 'viewer', password_hash: 'hashed_password' }
+      ]).execute();
+      await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+      await db.insert(workspaceMembersTable).values([
+        { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+        { workspace_id: 'ws-1', user_id: 'user-4', role: 'editor' },
+        { workspace_id: 'ws-1', user_id: 'user-5', role: 'viewer' }
+      ]).execute();
+      await db.insert(notesTable).values({ id: 'note-2', title: 'Team note', content: '', user_id: 'user-1', workspace_id: 'ws-1' }).execute();
+      await db.insert(sharesTable).values({
+        id: 'share-2',
+        owner_id: 'user-1',
+        grantee_id: 'user-2',
+        note_id: 'note-2',
+        permission: 'read'
+      }).execute();
+    });
+
+    it("should let editors revoke a colleague's share", async () => {
+      await revokeShare({ id: 'share-2', user_id: 'user-4' });
+
+      expect(await getNoteById('note-2', 'user-2')).toBeNull();
+    });
+
+    it('should not let viewers revoke shares', async () => {
+      await expect(revokeShare({ id: 'share-2', user_id: 'user-5' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+});
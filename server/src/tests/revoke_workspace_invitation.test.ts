@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable, workspaceInvitationsTable } from '../db/schema';
+import { revokeWorkspaceInvitation } from '../handlers/revoke_workspace_invitation';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'editor@example.com', username: 'editor', password_hash: 'hashed_password' }
+];
+
+describe('revokeWorkspaceInvitation', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'editor' }
+    ]).execute();
+    await db.insert(workspaceInvitationsTable).values({
+      id: 'inv-1', workspace_id: 'ws-1', email: 'new@example.com', role: 'editor', token_hash: 'hash-1', invited_by: 'user-1', expires_at: new Date(Date.now() + 60_000)
+    }).execute();
+  });
+  afterEach(resetDB);
+
+  it('should delete the invitation', async () => {
+    const result = await revokeWorkspaceInvitation({ id: 'inv-1', user_id: 'user-1' });
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(workspaceInvitationsTable).execute()).toHaveLength(0);
+  });
+
+  it('should only let owners revoke', async () => {
+    await expect(revokeWorkspaceInvitation({ id: 'inv-1', user_id: 'user-2' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject unknown invitations', async () => {
+    await expect(revokeWorkspaceInvitation({ id: 'missing', user_id: 'user-1' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
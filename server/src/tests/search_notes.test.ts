@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, foldersTable, notesTable, tagsTable, noteTagsTable } from '../db/schema';
+import { searchNotes } from '../handlers/search_notes';
+import { parseHeadline } from '../helpers/note_search';
+import { eq } from 'drizzle-orm';
+
+describe('searchNotes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setupTestData = async () => {
+    await db.insert(usersTable).values([
+      { id: 'user-1', email: 'test@example.com', username: 'testuser', password_hash: 'hashed_password' },
+      { id: 'user-2', email: 'other@example.com', username: 'other', password_hash: 'hashed_password' }
+    ]).execute();
+
+    await db.insert(foldersTable).values({
+      id: 'folder-1',
+      name: 'Recipes',
+      user_id: 'user-1',
+      parent_folder_id: null
+    }).execute();
+
+    await db.insert(notesTable).values([
+      {
+        id: 'note-1',
+        title: 'Gardening plans',
+        content: 'Plant tomatoes in spring and water the garden daily.',
+        user_id: 'user-1'
+      },
+      {
+        id: 'note-2',
+        title: 'Tomato soup',
+        content: 'Roast the tomatoes, then blend with basil and cream.',
+        user_id: 'user-1',
+        folder_id: 'folder-1'
+      },
+      {
+        id: 'note-3',
+        title: 'Meeting notes',
+        content: 'Discussed the quarterly budget and hiring plans.',
+        user_id: 'user-1'
+      },
+      {
+        id: 'note-4',
+        title: 'Tomato varieties',
+        content: 'Someone else\'s note about tomatoes.',
+        user_id: 'user-2'
+      }
+    ]).execute();
+  };
+
+  it('should match word stems in title and content', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'tomato' });
+
+    expect(result.map(n => n.id).sort()).toEqual(['note-1', 'note-2']);
+  });
+
+  it('should rank title matches above content matches', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'tomato' });
+
+    expect(result[0].id).toBe('note-2');
+    expect(result[0].rank).toBeGreaterThan(result[1].rank);
+  });
+
+  it('should return highlighted title and snippet segments', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'basil' });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].title_highlights).toEqual([{ text: 'Tomato soup', highlighted: false }]);
+    expect(result[0].snippet).toContainEqual({ text: 'basil', highlighted: true });
+    expect(result[0].snippet.map(s => s.text).join('')).toContain('blend with basil and cream');
+  });
+
+  it('should support phrases', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: '"quarterly budget"' });
+    expect(result.map(n => n.id)).toEqual(['note-3']);
+
+    const reversed = await searchNotes({ user_id: 'user-1', query: '"budget quarterly"' });
+    expect(reversed).toHaveLength(0);
+  });
+
+  it('should support negated terms', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'tomatoes -soup' });
+
+    expect(result.map(n => n.id)).toEqual(['note-1']);
+  });
+
+  it('should support OR', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'basil OR budget' });
+
+    expect(result.map(n => n.id).sort()).toEqual(['note-2', 'note-3']);
+  });
+
+  it('should filter by folder', async () => {
+    await setupTestData();
+
+    const inFolder = await searchNotes({ user_id: 'user-1', query: 'tomato', folder_id: 'folder-1' });
+    expect(inFolder.map(n => n.id)).toEqual(['note-2']);
+
+    const atRoot = await searchNotes({ user_id: 'user-1', query: 'tomato', folder_id: null });
+    expect(atRoot.map(n => n.id)).toEqual(['note-1']);
+  });
+
+  it('should exclude trashed notes', async () => {
+    await setupTestData();
+    await db.insert(notesTable).values({
+      id: 'note-5',
+      title: 'Trashed tomato',
+      content: '',
+      user_id: 'user-1',
+      deleted_at: new Date()
+    }).execute();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'tomato' });
+
+    expect(result.map(n => n.id)).not.toContain('note-5');
+  });
+
+  it('should return nothing for queries made only of stop words', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'the and' });
+
+    expect(result).toHaveLength(0);
+  });
+
+  it('should filter by tag, folder and favorite', async () => {
+    await setupTestData();
+    await db.insert(tagsTable).values([
+      { id: 'tag-1', name: 'Garden', user_id: 'user-1' },
+      { id: 'tag-2', name: 'Vegetables', user_id: 'user-1', parent_tag_id: 'tag-1' }
+    ]).execute();
+    await db.insert(noteTagsTable).values({ note_id: 'note-1', tag_id: 'tag-2' }).execute();
+    await db.update(notesTable).set({ is_favorite: true }).where(eq(notesTable.id, 'note-2')).execute();
+
+    const byTag = await searchNotes({ user_id: 'user-1', query: 'tomato tag:garden' });
+    expect(byTag.map(n => n.id)).toEqual(['note-1']);
+
+    const byPath = await searchNotes({ user_id: 'user-1', query: 'tag:Garden/Vegetables' });
+    expect(byPath.map(n => n.id)).toEqual(['note-1']);
+
+    const byFolder = await searchNotes({ user_id: 'user-1', query: 'folder:recipes' });
+    expect(byFolder.map(n => n.id)).toEqual(['note-2']);
+
+    const notInFolder = await searchNotes({ user_id: 'user-1', query: 'tomato -folder:Recipes' });
+    expect(notInFolder.map(n => n.id)).toEqual(['note-1']);
+
+    const favorites = await searchNotes({ user_id: 'user-1', query: 'is:favorite OR budget' });
+    expect(favorites.map(n => n.id).sort()).toEqual(['note-2', 'note-3']);
+
+    const unknownTag = await searchNotes({ user_id: 'user-1', query: 'tag:missing' });
+    expect(unknownTag).toHaveLength(0);
+  });
+
+  it('should filter by created and updated dates', async () => {
+    await setupTestData();
+    await db.update(notesTable)
+      .set({ created_at: new Date('2025-12-31T23:00:00Z'), updated_at: new Date('2026-01-01T10:00:00Z') })
+      .where(eq(notesTable.id, 'note-1'))
+      .execute();
+
+    const created = await searchNotes({ user_id: 'user-1', query: 'tomato created:>2026-01-01' });
+    expect(created.map(n => n.id)).toEqual(['note-2']);
+
+    const updated = await searchNotes({ user_id: 'user-1', query: 'updated:2026-01-01' });
+    expect(updated.map(n => n.id)).toEqual(['note-1']);
+
+    const recent = await searchNotes({ user_id: 'user-1', query: 'updated:last-week' });
+    expect(recent.map(n => n.id).sort()).toEqual(['note-2', 'note-3']);
+  });
+
+  it('should ignore stop words next to other terms', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'the basil' });
+
+    expect(result.map(n => n.id)).toEqual(['note-2']);
+  });
+
+  it('should reject queries with syntax errors', async () => {
+    await setupTestData();
+
+    await expect(searchNotes({ user_id: 'user-1', query: 'tomato "soup' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Missing closing quote' });
+  });
+
+  it('should respect the limit', async () => {
+    await setupTestData();
+
+    const result = await searchNotes({ user_id: 'user-1', query: 'tomato', limit: 1 });
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).not.toHaveProperty('search_vector');
+  });
+});
+
+describe('parseHeadline', () => {
+  it('should split marked text into segments', () => {
+    expect(parseHeadline('a \u0002match\u0003 here')).toEqual([
+      { text: 'a ', highlighted: false },
+      { text: 'match', highlighted: true },
+      { text: ' here', highlighted: false }
+    ]);
+  });
+
+  it('should return no segments for empty text', () => {
+    expect(parseHeadline('')).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'bun:test';
+import { parseSearchQuery, SearchQueryError } from '../helpers/search_query';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+describe('parseSearchQuery', () => {
+  it('should AND terms and OR the terms joined by OR', () => {
+    const result = parseSearchQuery('budget plans OR ideas', NOW);
+
+    expect(result).toEqual([
+      [{ negated: false, term: { type: 'text', text: 'budget', phrase: false } }],
+      [
+        { negated: false, term: { type: 'text', text: 'plans', phrase: false } },
+        { negated: false, term: { type: 'text', text: 'ideas', phrase: false } }
+      ]
+    ]);
+  });
+
+  it('should search for a lowercase or as a word', () => {
+    expect(parseSearchQuery('black or white', NOW)).toHaveLength(3);
+    expect(parseSearchQuery('salt or', NOW)[1]).toEqual([
+      { negated: false, term: { type: 'text', text: 'or', phrase: false } }
+    ]);
+  });
+
+  it('should parse phrases, exclusions and field operators', () => {
+    const result = parseSearchQuery('"exact phrase" -draft tag:work folder:"Meeting Notes" is:favorite', NOW);
+
+    expect(result.map(group => group[0])).toEqual([
+      { negated: false, term: { type: 'text', text: 'exact phrase', phrase: true } },
+      { negated: true, term: { type: 'text', text: 'draft', phrase: false } },
+      { negated: false, term: { type: 'tag', name: 'work' } },
+      { negated: false, term: { type: 'folder', name: 'Meeting Notes' } },
+      { negated: false, term: { type: 'favorite' } }
+    ]);
+  });
+
+  it('should turn dates into whole UTC day ranges', () => {
+    const day = new Date('2026-01-01T00:00:00Z');
+    const nextDay = new Date('2026-01-02T00:00:00Z');
+    const range = (query: string) => {
+      const term = parseSearchQuery(query, NOW)[0][0].term;
+      return term.type === 'date' ? { field: term.field, from: term.from, to: term.to } : null;
+    };
+
+    expect(range('created:2026-01-01')).toEqual({ field: 'created_at', from: day, to: nextDay });
+    expect(range('created:>2026-01-01')).toEqual({ field: 'created_at', from: nextDay, to: null });
+    expect(range('updated:>=2026-01-01')).toEqual({ field: 'updated_at', from: day, to: null });
+    expect(range('updated:<2026-01-01')).toEqual({ field: 'updated_at', from: null, to: day });
+    expect(range('updated:<=2026-01-01')).toEqual({ field: 'updated_at', from: null, to: nextDay });
+  });
+
+  it('should resolve relative dates against now', () => {
+    const range = (query: string) => {
+      const term = parseSearchQuery(query, NOW)[0][0].term;
+      return term.type === 'date' ? { from: term.from, to: term.to } : null;
+    };
+
+    expect(range('updated:today')).toEqual({ from: new Date('2026-03-15T00:00:00Z'), to: null });
+    expect(range('updated:yesterday')).toEqual({
+      from: new Date('2026-03-14T00:00:00Z'),
+      to: new Date('2026-03-15T00:00:00Z')
+    });
+    expect(range('updated:last-week')).toEqual({ from: new Date('2026-03-08T12:00:00Z'), to: null });
+  });
+
+  it('should search for words that only look like filters as text', () => {
+    const result = parseSearchQuery('TODO: call https://example.com', NOW);
+
+    expect(result).toEqual([
+      [{ negated: false, term: { type: 'text', text: 'TODO:', phrase: false } }],
+      [{ negated: false, term: { type: 'text', text: 'call', phrase: false } }],
+      [{ negated: false, term: { type: 'text', text: 'https://example.com', phrase: false } }]
+    ]);
+  });
+
+  it('should return no groups for an empty query', () => {
+    expect(parseSearchQuery('   ', NOW)).toEqual([]);
+  });
+
+  it('should report syntax errors with their position', () => {
+    const errorFor = (query: string) => {
+      try {
+        parseSearchQuery(query, NOW);
+      } catch (error) {
+        return error instanceof SearchQueryError ? { message: error.message, position: error.position } : null;
+      }
+      return null;
+    };
+
+    expect(errorFor('notes "open')).toEqual({ message: 'Missing closing quote', position: 6 });
+    expect(errorFor('OR budget')?.message).toEqual('OR needs a term on both sides');
+    expect(errorFor('budget OR')?.message).toEqual('OR needs a term on both sides');
+    expect(errorFor('budget tag:')).toEqual({ message: 'tag: needs a value', position: 7 });
+    expect(errorFor('is:archived')?.message).toStartWith('Unknown is: value "archived"');
+    expect(errorFor('created:2026-02-30')?.message).toStartWith('Invalid date "2026-02-30"');
+    expect(errorFor('budget - plans')?.message).toEqual('Nothing to exclude after -');
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, foldersTable, notesTable } from '../db/schema';
+import { shareFolder } from '../handlers/share_folder';
+import { getNoteById } from '../handlers/get_note_by_id';
+import { getNoteRevisions } from '../handlers/get_note_revisions';
+
+const owner = {
+  id: 'user-1',
+  email: 'owner@example.com',
+  username: 'owner',
+  password_hash: 'hashed_password'
+};
+
+const friend = {
+  id: 'user-2',
+  email: 'friend@example.com',
+  username: 'friend',
+  password_hash: 'hashed_password'
+};
+
+describe('shareFolder', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values([owner, friend]).execute();
+    await db.insert(foldersTable).values([
+      { id: 'folder-root', name: 'Work', user_id: owner.id, parent_folder_id: null },
+      { id: 'folder-child', name: 'Projects', user_id: owner.id, parent_folder_id: 'folder-root' },
+      { id: 'folder-other', name: 'Private', user_id: owner.id, parent_folder_id: null }
+    ]).execute();
+    await db.insert(notesTable).values([
+      { id: 'note-nested', title: 'Roadmap', content: '', user_id: owner.id, folder_id: 'folder-child' },
+      { id: 'note-private', title: 'Diary', content: '', user_id: owner.id, folder_id: 'folder-other' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should grant access to notes anywhere below the folder', async () => {
+    const share = await shareFolder({ folder_id: 'folder-root', user_id: owner.id, email: friend.email, permission: 'comment' });
+
+    expect(share.folder_id).toEqual('folder-root');
+    expect(share.note_id).toBeNull();
+    expect(share.permission).toEqual('comment');
+
+    expect(await getNoteById('note-nested', friend.id)).not.toBeNull();
+    expect(await getNoteRevisions({ note_id: 'note-nested', user_id: friend.id })).toEqual([]);
+  });
+
+  it('should not grant access outside the folder', async () => {
+    await shareFolder({ folder_id: 'folder-root', user_id: owner.id, email: friend.email, permission: 'edit' });
+
+    expect(await getNoteById('note-private', friend.id)).toBeNull();
+    await expect(getNoteRevisions({ note_id: 'note-private', user_id: friend.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should only let the owner share', async () => {
+    await expect(shareFolder({ folder_id: 'folder-root', user_id: friend.id, email: owner.email, permission: 'read' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, sharesTable, workspacesTable, workspaceMembersTable } from '../db/schema';
+import { shareNote } from '../handlers/share_note';
+import { getNoteById } from '../handlers/get_note_by_id';
+import { eq } from 'drizzle-orm';
+
+const owner = {
+  id: 'user-1',
+  email: 'owner@example.com',
+  username: 'owner',
+  password_hash: 'hashed_password'
+};
+
+const friend = {
+  id: 'user-2',
+  email: 'friend@example.com',
+  username: 'friend',
+  password_hash: 'hashed_password'
+};
+
+const testNote = {
+  id: 'note-1',
+  title: 'Plans',
+  content: 'Trip ideas',
+  user_id: owner.id
+};
+
+describe('shareNote', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values([owner, friend]).execute();
+    await db.insert(notesTable).values(testNote).execute();
+  });
+  afterEach(resetDB);
+
+  it('should grant another user access to the note', async () => {
+    const share = await shareNote({ note_id: testNote.id, user_id: owner.id, email: friend.email, permission: 'read' });
+
+    expect(share.owner_id).toEqual(owner.id);
+    expect(share.grantee_id).toEqual(friend.id);
+    expect(share.grantee_username).toEqual(friend.username);
+    expect(share.note_id).toEqual(testNote.id);
+    expect(share.folder_id).toBeNull();
+    expect(share.permission).toEqual('read');
+
+    const note = await getNoteById(testNote.id, friend.id);
+    expect(note?.title).toEqual('Plans');
+  });
+
+  it('should change the permission when sharing again', async () => {
+    const first = await shareNote({ note_id: testNote.id, user_id: owner.id, email: friend.email, permission: 'read' });
+    const second = await shareNote({ note_id: testNote.id, user_id: owner.id, email: friend.email, permission: 'edit' });
+
+    expect(second.id).toEqual(first.id);
+    expect(second.permission).toEqual('edit');
+
+    const shares = await db.select().from(sharesTable).where(eq(sharesTable.note_id, testNote.id)).execute();
+    expect(shares).toHaveLength(1);
+  });
+
+  it('should reject unknown email addresses', async () => {
+    await expect(shareNote({ note_id: testNote.id, user_id: owner.id, email: 'nobody@example.com', permission: 'read' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should reject sharing with yourself', async () => {
+    await expect(shareNote({ note_id: testNote.id, user_id: owner.id, email: owner.email, permission: 'read' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should only let the owner share', async () => {
+    await expect(shareNote({ note_id: testNote.id, user_id: friend.id, email: owner.email, permission: 'edit' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should make the member sharing a workspace note again the owner of the share', async () => {
+    const colleague = { id: 'user-3', email: 'colleague@example.com', username: 'colleague', password_hash: 'hashed_password' };
+    await db.insert(usersTable).values(colleague).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: owner.id, role: 'owner' },
+      { workspace_id: 'ws-1', user_id: colleague.id, role: 'editor' }
+    ]).execute();
+    await db.insert(notesTable).values({ id: 'note-2', title: 'Team note', content: '', user_id: owner.id, workspace_id: 'ws-1' }).execute();
+
+    await shareNote({ note_id: 'note-2', user_id: owner.id, email: friend.email, permission: 'read' });
+    const share = await shareNote({ note_id: 'note-2', user_id: colleague.id, email: friend.email, permission: 'edit' });
+
+    expect(share.owner_id).toEqual(colleague.id);
+  });
+});
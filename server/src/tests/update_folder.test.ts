@@ -50,6 +50,7 @@ describe('updateFolder', () => {
 
     const input: UpdateFolderInput = {
       id: testFolder.id,
+      user_id: testUser.id,
       name: 'Updated Folder Name'
     };
 
@@ -77,6 +78,7 @@ describe('updateFolder', () => {
 
     const input: UpdateFolderInput = {
       id: testFolder.id,
+      user_id: testUser.id,
       parent_folder_id: testParentFolder.id
     };
 
@@ -103,6 +105,7 @@ describe('updateFolder', () => {
 
     const input: UpdateFolderInput = {
       id: testFolder.id,
+      user_id: testUser.id,
       name: 'New Name',
       parent_folder_id: testParentFolder.id
     };
@@ -123,6 +126,7 @@ describe('updateFolder', () => {
 
     const input: UpdateFolderInput = {
       id: testFolder.id,
+      user_id: testUser.id,
       parent_folder_id: null
     };
 
@@ -142,6 +146,7 @@ describe('updateFolder', () => {
   it('should throw error when folder not found', async () => {
     const input: UpdateFolderInput = {
       id: 'non-existent-folder',
+      user_id: testUser.id,
       name: 'New Name'
     };
 
@@ -154,6 +159,7 @@ describe('updateFolder', () => {
 
     const input: UpdateFolderInput = {
       id: testFolder.id,
+      user_id: testUser.id,
       parent_folder_id: testFolder.id
     };
 
@@ -178,6 +184,7 @@ describe('updateFolder', () => {
     // Try to make parent folder a child of grandchild (would create cycle)
     const input: UpdateFolderInput = {
       id: testParentFolder.id,
+      user_id: testUser.id,
       parent_folder_id: grandchildFolder.id
     };
 
@@ -190,12 +197,26 @@ describe('updateFolder', () => {
 
     const input: UpdateFolderInput = {
       id: testFolder.id,
+      user_id: testUser.id,
       parent_folder_id: 'non-existent-parent'
     };
 
     await expect(updateFolder(input)).rejects.toThrow(/parent folder not found/i);
   });
 
+  it('should reject moving a folder into one in the trash', async () => {
+    await db.insert(foldersTable).values([
+      testFolder,
+      { ...testParentFolder, deleted_at: new Date() }
+    ]).execute();
+
+    await expect(updateFolder({
+      id: testFolder.id,
+      user_id: testUser.id,
+      parent_folder_id: testParentFolder.id
+    })).rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Parent folder is in the trash' });
+  });
+
   it('should update timestamps correctly', async () => {
     // Create test folder
     await db.insert(foldersTable).values(testFolder).execute();
@@ -212,6 +233,7 @@ describe('updateFolder', () => {
 
     const input: UpdateFolderInput = {
       id: testFolder.id,
+      user_id: testUser.id,
       name: 'Updated Name'
     };
 
@@ -233,6 +255,7 @@ describe('updateFolder', () => {
     // Move folder3 to be under folder4 (valid operation)
     const input: UpdateFolderInput = {
       id: 'f3',
+      user_id: testUser.id,
       parent_folder_id: 'f4'
     };
 
@@ -248,4 +271,72 @@ describe('updateFolder', () => {
 
     expect(folders[0].parent_folder_id).toEqual('f4');
   });
-});
\ No newline at end of file
+
+  describe('ownership', () => {
+    const otherUser = {
+      id: 'user-2',
+      email: 'other@example.com',
+      username: 'otheruser',
+      password_hash: 'hashed_password'
+    };
+
+    const otherUserFolder = {
+      id: 'other-folder-1',
+      name: 'Other User Folder',
+      user_id: otherUser.id,
+      parent_folder_id: null
+    };
+
+    beforeEach(async () => {
+      await db.insert(usersTable).values(otherUser).execute();
+      await db.insert(foldersTable).values(otherUserFolder).execute();
+    });
+
+    it('should reject renaming another user\'s folder', async () => {
+      const input: UpdateFolderInput = {
+        id: otherUserFolder.id,
+        user_id: testUser.id,
+        name: 'Hijacked'
+      };
+
+      await expect(updateFolder(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      const folders = await db.select()
+        .from(foldersTable)
+        .where(eq(foldersTable.id, otherUserFolder.id))
+        .execute();
+
+      expect(folders[0].name).toEqual('Other User Folder');
+    });
+
+    it('should reject reparenting into another user\'s folder tree', async () => {
+      await db.insert(foldersTable).values(testFolder).execute();
+
+      const input: UpdateFolderInput = {
+        id: testFolder.id,
+        user_id: testUser.id,
+        parent_folder_id: otherUserFolder.id
+      };
+
+      await expect(updateFolder(input)).rejects.toThrow(/parent folder does not belong to user/i);
+      await expect(updateFolder(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      const folders = await db.select()
+        .from(foldersTable)
+        .where(eq(foldersTable.id, testFolder.id))
+        .execute();
+
+      expect(folders[0].parent_folder_id).toBeNull();
+    });
+
+    it('should report NOT_FOUND for a missing folder', async () => {
+      const input: UpdateFolderInput = {
+        id: 'non-existent-folder',
+        user_id: testUser.id,
+        name: 'New Name'
+      };
+
+      await expect(updateFolder(input)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+});
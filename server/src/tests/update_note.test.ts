@@ -1,10 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, foldersTable, tagsTable, notesTable, noteTagsTable } from '../db/schema';
+import { usersTable, foldersTable, tagsTable, notesTable, noteTagsTable, noteRevisionsTable, sharesTable } from '../db/schema';
 import { type UpdateNoteInput } from '../schema';
 import { updateNote } from '../handlers/update_note';
-import { eq } from 'drizzle-orm';
+import { eq, desc } from 'drizzle-orm';
 
 describe('updateNote', () => {
   beforeEach(createDB);
@@ -95,6 +95,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       title: 'Updated Title'
     };
 
@@ -111,6 +112,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       content: 'Updated content'
     };
 
@@ -125,6 +127,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       markdown_content: '# Updated Title\nUpdated content'
     };
 
@@ -138,6 +141,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       markdown_content: null
     };
 
@@ -151,6 +155,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       folder_id: null
     };
 
@@ -164,6 +169,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       is_favorite: true
     };
 
@@ -172,11 +178,20 @@ describe('updateNote', () => {
     expect(result.is_favorite).toEqual(true);
   });
 
+  it('should update the manual sort position', async () => {
+    await setupTestData();
+
+    const result = await updateNote({ id: testNote.id, user_id: testUser.id, position: 3 });
+
+    expect(result.position).toEqual(3);
+  });
+
   it('should update multiple fields at once', async () => {
     await setupTestData();
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       title: 'New Title',
       content: 'New content',
       is_favorite: true,
@@ -196,6 +211,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       tag_ids: [testTag2.id] // Replace testTag1 with testTag2
     };
 
@@ -216,6 +232,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       tag_ids: [testTag1.id, testTag2.id]
     };
 
@@ -236,6 +253,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       tag_ids: []
     };
 
@@ -254,6 +272,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       title: 'Persisted Title',
       content: 'Persisted content'
     };
@@ -277,6 +296,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: 'non-existent-note',
+      user_id: testUser.id,
       title: 'Updated Title'
     };
 
@@ -288,10 +308,35 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       folder_id: anotherUserFolder.id // Folder belongs to different user
     };
 
-    expect(updateNote(input)).rejects.toThrow(/folder not found or does not belong to user/i);
+    expect(updateNote(input)).rejects.toThrow(/folder does not belong to user/i);
+  });
+
+  it('should reject moving a note into a folder in the trash', async () => {
+    await setupTestData();
+    await db.insert(foldersTable).values({
+      id: 'trashed-folder',
+      name: 'Old',
+      user_id: testUser.id,
+      deleted_at: new Date()
+    }).execute();
+
+    await expect(updateNote({ id: testNote.id, user_id: testUser.id, folder_id: 'trashed-folder' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Folder is in the trash' });
+  });
+
+  it('should reject edits to a note in the trash', async () => {
+    await setupTestData();
+    await db.update(notesTable).set({ deleted_at: new Date() }).where(eq(notesTable.id, testNote.id)).execute();
+
+    await expect(updateNote({ id: testNote.id, user_id: testUser.id, title: 'Updated Title' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Cannot edit a note in the trash' });
+
+    const notes = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+    expect(notes[0].title).toEqual('Original Title');
   });
 
   it('should throw error when tag does not belong to user', async () => {
@@ -299,6 +344,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       tag_ids: [anotherUserTag.id] // Tag belongs to different user
     };
 
@@ -310,6 +356,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       tag_ids: [testTag1.id, anotherUserTag.id] // Mix of valid and invalid tags
     };
 
@@ -321,6 +368,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       folder_id: null
     };
 
@@ -334,6 +382,7 @@ describe('updateNote', () => {
 
     const input: UpdateNoteInput = {
       id: testNote.id,
+      user_id: testUser.id,
       title: 'New Title'
       // tag_ids not provided
     };
@@ -349,4 +398,277 @@ describe('updateNote', () => {
     expect(tagRelations).toHaveLength(1);
     expect(tagRelations[0].tag_id).toEqual(testTag1.id);
   });
-});
\ No newline at end of file
+
+  it('should reject updates to another user\'s note', async () => {
+    await setupTestData();
+    await db.insert(notesTable).values({
+      id: 'another-user-note',
+      title: 'Private Title',
+      content: 'Private content',
+      user_id: 'another-user'
+    }).execute();
+
+    const input: UpdateNoteInput = {
+      id: 'another-user-note',
+      user_id: testUser.id,
+      title: 'Hijacked Title',
+      folder_id: testFolder.id
+    };
+
+    await expect(updateNote(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // Note is left untouched
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, 'another-user-note'))
+      .execute();
+
+    expect(notes[0].title).toEqual('Private Title');
+    expect(notes[0].folder_id).toBeNull();
+  });
+
+  it('should report NOT_FOUND for a missing note', async () => {
+    await setupTestData();
+
+    const input: UpdateNoteInput = {
+      id: 'non-existent-note',
+      user_id: testUser.id,
+      title: 'Updated Title'
+    };
+
+    await expect(updateNote(input)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should report FORBIDDEN when moving a note into another user\'s folder', async () => {
+    await setupTestData();
+
+    const input: UpdateNoteInput = {
+      id: testNote.id,
+      user_id: testUser.id,
+      folder_id: anotherUserFolder.id
+    };
+
+    await expect(updateNote(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const notes = await db.select()
+      .from(notesTable)
+      .where(eq(notesTable.id, testNote.id))
+      .execute();
+
+    expect(notes[0].folder_id).toEqual(testFolder.id);
+  });
+
+  it('should report FORBIDDEN when attaching another user\'s tag', async () => {
+    await setupTestData();
+
+    const input: UpdateNoteInput = {
+      id: testNote.id,
+      user_id: testUser.id,
+      tag_ids: [anotherUserTag.id]
+    };
+
+    await expect(updateNote(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // Existing tag relationships are kept
+    const tagRelations = await db.select()
+      .from(noteTagsTable)
+      .where(eq(noteTagsTable.note_id, testNote.id))
+      .execute();
+
+    expect(tagRelations).toHaveLength(1);
+    expect(tagRelations[0].tag_id).toEqual(testTag1.id);
+  });
+
+  it('should snapshot the previous text as a revision', async () => {
+    await setupTestData();
+
+    await updateNote({
+      id: testNote.id,
+      user_id: testUser.id,
+      content: 'Replaced content'
+    });
+
+    const revisions = await db.select()
+      .from(noteRevisionsTable)
+      .where(eq(noteRevisionsTable.note_id, testNote.id))
+      .execute();
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].title).toEqual('Original Title');
+    expect(revisions[0].content).toEqual('Original content');
+    expect(revisions[0].markdown_content).toEqual('# Original Title\nOriginal content');
+  });
+
+  it('should coalesce rapid autosaves into one revision', async () => {
+    await setupTestData();
+
+    await updateNote({ id: testNote.id, user_id: testUser.id, content: 'Draft 1' });
+    await updateNote({ id: testNote.id, user_id: testUser.id, content: 'Draft 2' });
+    await updateNote({ id: testNote.id, user_id: testUser.id, content: 'Draft 3' });
+
+    const revisions = await db.select()
+      .from(noteRevisionsTable)
+      .where(eq(noteRevisionsTable.note_id, testNote.id))
+      .execute();
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].content).toEqual('Original content');
+  });
+
+  it('should start a new revision once the coalescing window has passed', async () => {
+    await setupTestData();
+    await db.insert(noteRevisionsTable).values({
+      id: 'old-revision',
+      note_id: testNote.id,
+      title: 'Ancient Title',
+      content: 'Ancient content',
+      created_at: new Date(Date.now() - 60 * 60 * 1000)
+    }).execute();
+
+    await updateNote({ id: testNote.id, user_id: testUser.id, content: 'Newer content' });
+
+    const revisions = await db.select()
+      .from(noteRevisionsTable)
+      .where(eq(noteRevisionsTable.note_id, testNote.id))
+      .orderBy(desc(noteRevisionsTable.created_at))
+      .execute();
+
+    expect(revisions).toHaveLength(2);
+    expect(revisions[0].content).toEqual('Original content');
+    expect(revisions[1].id).toEqual('old-revision');
+  });
+
+  it('should not create revisions for metadata-only updates', async () => {
+    await setupTestData();
+
+    await updateNote({ id: testNote.id, user_id: testUser.id, is_favorite: true, folder_id: null });
+    await updateNote({ id: testNote.id, user_id: testUser.id, title: 'Original Title' });
+
+    const revisions = await db.select()
+      .from(noteRevisionsTable)
+      .where(eq(noteRevisionsTable.note_id, testNote.id))
+      .execute();
+
+    expect(revisions).toHaveLength(0);
+  });
+
+  it('should accept a write based on the current version', async () => {
+    await setupTestData();
+
+    const current = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+
+    const result = await updateNote({
+      id: testNote.id,
+      user_id: testUser.id,
+      content: 'Edited in tab one',
+      expected_updated_at: current[0].updated_at
+    });
+
+    expect(result.content).toEqual('Edited in tab one');
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(current[0].updated_at.getTime());
+  });
+
+  it('should report CONFLICT with the server copy for a stale write', async () => {
+    await setupTestData();
+
+    const loaded = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+    const expected = new Date(loaded[0].updated_at.getTime() - 1000);
+
+    const save = updateNote({
+      id: testNote.id,
+      user_id: testUser.id,
+      content: 'Edited in tab two',
+      expected_updated_at: expected
+    });
+
+    await expect(save).rejects.toMatchObject({
+      code: 'CONFLICT',
+      cause: { currentNote: { content: 'Original content' } }
+    });
+    await expect(save).rejects.not.toHaveProperty('cause.currentNote.search_vector');
+
+    // The newer copy is left untouched
+    const notes = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+    expect(notes[0].content).toEqual('Original content');
+  });
+
+  it('should reject the second of two writes based on the same version', async () => {
+    await setupTestData();
+
+    const loaded = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+    const expected = loaded[0].updated_at;
+
+    // Make sure the first save gets a later timestamp than the one both tabs loaded
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await updateNote({ id: testNote.id, user_id: testUser.id, content: 'Tab one', expected_updated_at: expected });
+
+    await expect(updateNote({ id: testNote.id, user_id: testUser.id, content: 'Tab two', expected_updated_at: expected }))
+      .rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should let only one of two concurrent writes based on the same version through', async () => {
+    await setupTestData();
+
+    const loaded = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+    const expected = loaded[0].updated_at;
+
+    const results = await Promise.allSettled(['Tab one', 'Tab two'].map(content =>
+      updateNote({ id: testNote.id, user_id: testUser.id, content, expected_updated_at: expected })
+    ));
+
+    const saved = results.filter(result => result.status === 'fulfilled');
+    const rejected = results.filter(result => result.status === 'rejected');
+    expect(saved).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect((rejected[0] as PromiseRejectedResult).reason).toMatchObject({ code: 'CONFLICT' });
+
+    const notes = await db.select().from(notesTable).where(eq(notesTable.id, testNote.id)).execute();
+    expect(notes[0].content).toEqual((saved[0] as PromiseFulfilledResult<{ content: string }>).value.content);
+  });
+
+  it('should let a user with edit access through a folder share change the text', async () => {
+    await setupTestData();
+    await db.insert(sharesTable).values({
+      id: 'share-1',
+      owner_id: testUser.id,
+      grantee_id: 'another-user',
+      folder_id: testFolder.id,
+      permission: 'edit'
+    }).execute();
+
+    const result = await updateNote({ id: testNote.id, user_id: 'another-user', content: 'Edited by a collaborator' });
+
+    expect(result.content).toEqual('Edited by a collaborator');
+    expect(result.user_id).toEqual(testUser.id);
+  });
+
+  it('should reject edits from a user with read access', async () => {
+    await setupTestData();
+    await db.insert(sharesTable).values({
+      id: 'share-1',
+      owner_id: testUser.id,
+      grantee_id: 'another-user',
+      note_id: testNote.id,
+      permission: 'read'
+    }).execute();
+
+    await expect(updateNote({ id: testNote.id, user_id: 'another-user', content: 'Not allowed' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should keep folder, tags and favorite flag to the owner', async () => {
+    await setupTestData();
+    await db.insert(sharesTable).values({
+      id: 'share-1',
+      owner_id: testUser.id,
+      grantee_id: 'another-user',
+      note_id: testNote.id,
+      permission: 'edit'
+    }).execute();
+
+    await expect(updateNote({ id: testNote.id, user_id: 'another-user', is_favorite: true }))
+      .rejects.toThrow(/Only the owner/);
+    await expect(updateNote({ id: testNote.id, user_id: 'another-user', position: 1 }))
+      .rejects.toThrow(/Only the owner/);
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, savedSearchesTable } from '../db/schema';
+import { updateSavedSearch } from '../handlers/update_saved_search';
+import { eq } from 'drizzle-orm';
+
+const users = [
+  { id: 'user-1', email: 'user1@example.com', username: 'user1', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'user2@example.com', username: 'user2', password_hash: 'hashed_password' }
+];
+
+describe('updateSavedSearch', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(savedSearchesTable).values([
+      { id: 'search-1', name: 'Todo', user_id: 'user-1', query: { search: 'todo' } },
+      { id: 'search-2', name: 'Favorites', user_id: 'user-1', query: { is_favorite: true }, is_default: true }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should update the name and query', async () => {
+    const result = await updateSavedSearch({ id: 'search-1', user_id: 'user-1', name: 'Open tasks', query: { search: 'todo -done' } });
+
+    expect(result.name).toEqual('Open tasks');
+    expect(result.query).toEqual({ search: 'todo -done' });
+    expect(result.is_default).toBe(false);
+  });
+
+  it('should move the default to the updated search', async () => {
+    const result = await updateSavedSearch({ id: 'search-1', user_id: 'user-1', is_default: true });
+
+    expect(result.is_default).toBe(true);
+    const previous = await db.select().from(savedSearchesTable).where(eq(savedSearchesTable.id, 'search-2')).execute();
+    expect(previous[0].is_default).toBe(false);
+  });
+
+  it('should reject other users\' searches', async () => {
+    await expect(updateSavedSearch({ id: 'search-1', user_id: 'user-2', name: 'Mine' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject unknown searches', async () => {
+    await expect(updateSavedSearch({ id: 'missing', user_id: 'user-1', name: 'Mine' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
@@ -44,6 +44,7 @@ describe('updateTag', () => {
   it('should update tag name successfully', async () => {
     const input: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       name: 'Updated Tag Name'
     };
 
@@ -60,6 +61,7 @@ describe('updateTag', () => {
   it('should update tag color successfully', async () => {
     const input: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       color: '#00ff00'
     };
 
@@ -75,6 +77,7 @@ describe('updateTag', () => {
   it('should update both name and color successfully', async () => {
     const input: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       name: 'New Tag Name',
       color: '#0000ff'
     };
@@ -91,6 +94,7 @@ describe('updateTag', () => {
   it('should set color to null', async () => {
     const input: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       color: null
     };
 
@@ -105,6 +109,7 @@ describe('updateTag', () => {
   it('should save changes to database', async () => {
     const input: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       name: 'Database Updated Tag',
       color: '#purple'
     };
@@ -126,6 +131,7 @@ describe('updateTag', () => {
   it('should throw error when tag does not exist', async () => {
     const input: UpdateTagInput = {
       id: 'non-existent-tag-id',
+      user_id: testUserId,
       name: 'Should Fail'
     };
 
@@ -144,6 +150,7 @@ describe('updateTag', () => {
 
     const input: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       name: 'Existing Tag Name'
     };
 
@@ -175,6 +182,7 @@ describe('updateTag', () => {
     // This should succeed because the other tag belongs to a different user
     const input: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       name: 'Shared Tag Name'
     };
 
@@ -187,6 +195,7 @@ describe('updateTag', () => {
   it('should allow updating tag to keep the same name', async () => {
     const input: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       name: 'Original Tag', // Same as existing name
       color: '#new-color'
     };
@@ -201,6 +210,7 @@ describe('updateTag', () => {
     // Update only name
     const nameOnlyInput: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       name: 'Name Only Update'
     };
 
@@ -211,6 +221,7 @@ describe('updateTag', () => {
     // Update only color
     const colorOnlyInput: UpdateTagInput = {
       id: testTagId,
+      user_id: testUserId,
       color: '#color-only'
     };
 
@@ -218,4 +229,84 @@ describe('updateTag', () => {
     expect(result.name).toEqual('Name Only Update'); // Should remain unchanged
     expect(result.color).toEqual('#color-only');
   });
-});
\ No newline at end of file
+
+  it('should reject updating another user\'s tag', async () => {
+    await db.insert(usersTable)
+      .values({
+        id: 'test-user-2',
+        email: 'other@example.com',
+        username: 'otheruser',
+        password_hash: 'hashedpassword'
+      })
+      .execute();
+
+    await db.insert(tagsTable)
+      .values({
+        id: 'other-tag-1',
+        name: 'Other Tag',
+        color: '#123456',
+        user_id: 'test-user-2'
+      })
+      .execute();
+
+    const input: UpdateTagInput = {
+      id: 'other-tag-1',
+      user_id: testUserId,
+      name: 'Hijacked',
+      color: '#000000'
+    };
+
+    await expect(updateTag(input)).rejects.toThrow(/tag does not belong to user/i);
+    await expect(updateTag(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const tags = await db.select()
+      .from(tagsTable)
+      .where(eq(tagsTable.id, 'other-tag-1'))
+      .execute();
+
+    expect(tags[0].name).toEqual('Other Tag');
+    expect(tags[0].color).toEqual('#123456');
+  });
+
+  it('should report NOT_FOUND for a missing tag', async () => {
+    const input: UpdateTagInput = {
+      id: 'non-existent-tag-id',
+      user_id: testUserId,
+      name: 'Should Fail'
+    };
+
+    await expect(updateTag(input)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should move a tag under a new parent', async () => {
+    await db.insert(tagsTable).values({ id: 'parent-tag', name: 'project', user_id: testUserId }).execute();
+
+    const result = await updateTag({ id: testTagId, user_id: testUserId, parent_tag_id: 'parent-tag' });
+    expect(result.parent_tag_id).toEqual('parent-tag');
+
+    const moved = await updateTag({ id: testTagId, user_id: testUserId, parent_tag_id: null });
+    expect(moved.parent_tag_id).toBeNull();
+  });
+
+  it('should not nest a tag inside itself or its descendants', async () => {
+    await db.insert(tagsTable).values([
+      { id: 'child-tag', name: 'child', user_id: testUserId, parent_tag_id: testTagId },
+      { id: 'grandchild-tag', name: 'grandchild', user_id: testUserId, parent_tag_id: 'child-tag' }
+    ]).execute();
+
+    await expect(updateTag({ id: testTagId, user_id: testUserId, parent_tag_id: testTagId }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(updateTag({ id: testTagId, user_id: testUserId, parent_tag_id: 'grandchild-tag' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should reject moving next to a tag with the same name', async () => {
+    await db.insert(tagsTable).values([
+      { id: 'parent-tag', name: 'project', user_id: testUserId },
+      { id: 'sibling-tag', name: 'Original Tag', user_id: testUserId, parent_tag_id: 'parent-tag' }
+    ]).execute();
+
+    await expect(updateTag({ id: testTagId, user_id: testUserId, parent_tag_id: 'parent-tag' }))
+      .rejects.toThrow(/already exists/);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable } from '../db/schema';
+import { updateWorkspace } from '../handlers/update_workspace';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'editor@example.com', username: 'editor', password_hash: 'hashed_password' },
+  { id: 'user-3', email: 'outsider@example.com', username: 'outsider', password_hash: 'hashed_password' }
+];
+
+describe('updateWorkspace', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'editor' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should rename the workspace', async () => {
+    const workspace = await updateWorkspace({ id: 'ws-1', user_id: 'user-1', name: 'Renamed' });
+
+    expect(workspace.name).toEqual('Renamed');
+    expect(workspace.role).toEqual('owner');
+  });
+
+  it('should only let owners rename', async () => {
+    await expect(updateWorkspace({ id: 'ws-1', user_id: 'user-2', name: 'Renamed' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should hide the workspace from non-members', async () => {
+    await expect(updateWorkspace({ id: 'ws-1', user_id: 'user-3', name: 'Renamed' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workspacesTable, workspaceMembersTable } from '../db/schema';
+import { updateWorkspaceMember } from '../handlers/update_workspace_member';
+
+const users = [
+  { id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' },
+  { id: 'user-2', email: 'editor@example.com', username: 'editor', password_hash: 'hashed_password' }
+];
+
+describe('updateWorkspaceMember', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values(users).execute();
+    await db.insert(workspacesTable).values({ id: 'ws-1', name: 'Team' }).execute();
+    await db.insert(workspaceMembersTable).values([
+      { workspace_id: 'ws-1', user_id: 'user-1', role: 'owner' },
+      { workspace_id: 'ws-1', user_id: 'user-2', role: 'editor' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should change a member\'s role', async () => {
+    const member = await updateWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-1', member_id: 'user-2', role: 'viewer' });
+
+    expect(member).toMatchObject({ user_id: 'user-2', username: 'editor', role: 'viewer' });
+  });
+
+  it('should only let owners change roles', async () => {
+    await expect(updateWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-2', member_id: 'user-2', role: 'owner' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not demote the last owner', async () => {
+    await expect(updateWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-1', member_id: 'user-1', role: 'editor' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+    await updateWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-1', member_id: 'user-2', role: 'owner' });
+    const member = await updateWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-1', member_id: 'user-1', role: 'editor' });
+    expect(member.role).toEqual('editor');
+  });
+
+  it('should reject users who are not members', async () => {
+    await db.insert(usersTable).values({ id: 'user-3', email: 'three@example.com', username: 'three', password_hash: 'x' }).execute();
+
+    await expect(updateWorkspaceMember({ workspace_id: 'ws-1', user_id: 'user-1', member_id: 'user-3', role: 'viewer' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, notesTable, publicLinksTable } from '../db/schema';
+import { createPublicLink } from '../handlers/create_public_link';
+import { viewPublicLink } from '../handlers/view_public_link';
+import { eq } from 'drizzle-orm';
+
+describe('viewPublicLink', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values({ id: 'user-1', email: 'owner@example.com', username: 'owner', password_hash: 'hashed_password' }).execute();
+    await db.insert(notesTable).values({ id: 'note-1', title: 'Plans', content: '# Trip', user_id: 'user-1' }).execute();
+  });
+  afterEach(resetDB);
+
+  it('should show the note and count the view', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+
+    const view = await viewPublicLink(link.token);
+    await viewPublicLink(link.token);
+
+    expect(view).toMatchObject({ status: 'ok', note: { title: 'Plans', content: '# Trip' } });
+    const rows = await db.select().from(publicLinksTable).execute();
+    expect(rows[0].view_count).toEqual(2);
+    expect(rows[0].last_viewed_at).toBeInstanceOf(Date);
+  });
+
+  it('should ask for the password before showing the note', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1', password: 'secret' });
+
+    expect(await viewPublicLink(link.token)).toEqual({ status: 'password_required', invalid_password: false });
+    expect(await viewPublicLink(link.token, 'wrong')).toEqual({ status: 'password_required', invalid_password: true });
+    expect(await viewPublicLink(link.token, 'secret')).toMatchObject({ status: 'ok' });
+
+    const rows = await db.select().from(publicLinksTable).execute();
+    expect(rows[0].view_count).toEqual(1);
+  });
+
+  it('should lock the link after too many wrong passwords', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1', password: 'secret' });
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      expect(await viewPublicLink(link.token, 'wrong')).toEqual({ status: 'password_required', invalid_password: true });
+    }
+    expect(await viewPublicLink(link.token, 'wrong')).toEqual({ status: 'locked' });
+
+    // Not even the right password gets through until the lock lifts
+    expect(await viewPublicLink(link.token, 'secret')).toEqual({ status: 'locked' });
+    expect(await viewPublicLink(link.token)).toEqual({ status: 'locked' });
+
+    await db.update(publicLinksTable)
+      .set({ locked_until: new Date(Date.now() - 1000) })
+      .where(eq(publicLinksTable.id, link.id))
+      .execute();
+
+    expect(await viewPublicLink(link.token, 'secret')).toMatchObject({ status: 'ok' });
+  });
+
+  it('should start counting wrong passwords again after a success', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1', password: 'secret' });
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await viewPublicLink(link.token, 'wrong');
+    }
+    await viewPublicLink(link.token, 'secret');
+
+    expect(await viewPublicLink(link.token, 'wrong')).toEqual({ status: 'password_required', invalid_password: true });
+  });
+
+  it('should not open expired links', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+    await db.update(publicLinksTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(publicLinksTable.id, link.id))
+      .execute();
+
+    expect(await viewPublicLink(link.token)).toBeNull();
+  });
+
+  it('should not open notes in the trash', async () => {
+    const link = await createPublicLink({ note_id: 'note-1', user_id: 'user-1' });
+    await db.update(notesTable).set({ deleted_at: new Date() }).where(eq(notesTable.id, 'note-1')).execute();
+
+    expect(await viewPublicLink(link.token)).toBeNull();
+  });
+
+  it('should not open unknown tokens', async () => {
+    expect(await viewPublicLink('not-a-real-token')).toBeNull();
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'bun:test';
+import { extractWikilinkTitles, renameWikilinks } from '../helpers/wikilinks';
+
+describe('extractWikilinkTitles', () => {
+  it('should return each linked title once', () => {
+    expect(extractWikilinkTitles('[[Alpha]] then [[ Beta ]] and [[alpha]] again'))
+      .toEqual(['Alpha', 'Beta']);
+  });
+
+  it('should ignore empty and multi-line links', () => {
+    expect(extractWikilinkTitles('[[]] [[   ]] [[Line\nbreak]] [single]')).toEqual([]);
+  });
+});
+
+describe('renameWikilinks', () => {
+  it('should only rewrite links to the renamed title', () => {
+    expect(renameWikilinks('[[Old]] [[ old ]] [[Older]]', 'Old', 'New'))
+      .toBe('[[New]] [[New]] [[Older]]');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'bun:test';
+import { Writable } from 'stream';
+import { createZipWriter, readZipEntries, ZipEntryTooLargeError } from '../helpers/zip';
+
+const writeZip = async (files: [string, Buffer][]): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  const zip = createZipWriter(new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    }
+  }));
+  for (const [path, data] of files) {
+    await zip.addFile(path, data);
+  }
+  await zip.finish();
+  return Buffer.concat(chunks);
+};
+
+// Rewrites the uncompressed size the central directory gives the first entry
+const understateSize = (archive: Buffer, size: number): Buffer => {
+  const copy = Buffer.from(archive);
+  const entry = copy.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+  copy.writeUInt32LE(size, entry + 24);
+  return copy;
+};
+
+describe('zip', () => {
+  it('should read back the files it writes', async () => {
+    const archive = await writeZip([
+      ['notes/plan.md', Buffer.from('# Plan\n\n'.repeat(50))],
+      ['notes/résumé.md', Buffer.from('short')]
+    ]);
+
+    const entries = await readZipEntries(archive);
+
+    expect(entries.map(entry => entry.path)).toEqual(['notes/plan.md', 'notes/résumé.md']);
+    expect(entries[0].size).toEqual(400);
+    expect((await entries[0].read(1024)).toString()).toEqual('# Plan\n\n'.repeat(50));
+    expect((await entries[1].read(1024)).toString()).toEqual('short');
+  });
+
+  it('should stop inflating past the limit it reads with', async () => {
+    const [entry] = await readZipEntries(await writeZip([['big.md', Buffer.alloc(1024 * 1024)]]));
+
+    await expect(entry.read(1000)).rejects.toBeInstanceOf(ZipEntryTooLargeError);
+  });
+
+  it('should not inflate past the size an entry declares', async () => {
+    const archive = understateSize(await writeZip([['big.md', Buffer.alloc(1024 * 1024)]]), 10);
+    const [entry] = await readZipEntries(archive);
+
+    expect(entry.size).toEqual(10);
+    await expect(entry.read(1024 * 1024)).rejects.toThrow();
+  });
+
+  it('should switch to ZIP64 past 65535 entries', async () => {
+    const files = Array.from({ length: 70000 }, (_, i): [string, Buffer] => [`${i}.md`, Buffer.from(`${i}`)]);
+
+    const archive = await writeZip(files);
+    const entries = await readZipEntries(archive);
+
+    expect(archive.readUInt16LE(archive.length - 22 + 10)).toEqual(0xffff);
+    expect(entries).toHaveLength(70000);
+    expect(entries[69999].path).toEqual('69999.md');
+    expect((await entries[69999].read(1024)).toString()).toEqual('69999');
+  }, 60000);
+});